@@ -1,43 +1,69 @@
 'use client';
 
+import { useEffect } from 'react';
 import { useSession } from 'next-auth/react';
 import { ArrowLeft } from 'lucide-react';
-import { differenceInHours } from 'date-fns';
 import { ConversationList } from '@/features/conversations/components/conversation-list';
 import { MessageList } from '@/features/conversations/components/message-list';
 import { ConversationHeader } from '@/features/conversations/components/conversation-header';
 import { ConversationFilterChips } from '@/features/conversations/components/conversation-filter-chips';
 import { ConversationSearch } from '@/features/conversations/components/conversation-search';
-import { MessageInput } from '@/features/conversations/components/message-input';
+import { MessageInput, type MessageAttachmentInput } from '@/features/conversations/components/message-input';
 import { NewMessageModal } from '@/features/conversations/components/new-message-modal';
 import { ConversationSidebarHeader } from '@/features/conversations/components/conversation-sidebar-header';
 import { useConversationStore } from '@/features/conversations/store/conversation-store';
-import { useSendNewMessage, useConversations, useConversation } from '@/features/conversations/hooks/conversation-hooks';
+import { useSendNewMessage, useConversations, useConversation, useMarkConversationAsRead } from '@/features/conversations/hooks/conversation-hooks';
 import { useSelectedWhatsappAccount } from '@/features/conversations/hooks/use-selected-whatsapp-account';
+import { useServiceWindow } from '@/features/conversations/hooks/use-service-window';
+import { useRealtimeInbox } from '@/features/conversations/hooks/use-realtime-inbox';
+import { useConversationPresence, useConversationViewers } from '@/features/conversations/hooks/use-conversation-presence';
+import { TypingIndicator, formatTypingNames } from '@/features/conversations/components/conversation-presence';
+import type { TemplateComposerSubmit } from '@/features/message-templates/components/template-composer';
 import { toast } from 'sonner';
 import { Button } from '@/components/ui/button';
+import { usePermission } from '@/hooks/use-permission';
 
 export default function ConversationsPage() {
   const session = useSession();
   const {
     selectedConversationId,
     filterType,
+    statusFilter,
+    tagFilter,
     searchTerm,
     showArchivedSection,
     openNewMessageModal,
     setSelectedConversation,
+    replyingTo,
+    clearReplyingTo,
   } = useConversationStore();
 
   const { selectedAccount } = useSelectedWhatsappAccount();
+  const canReply = usePermission('conversations.reply');
+
+  useRealtimeInbox();
+  const { notifyTyping } = useConversationPresence(selectedConversationId);
+  const viewers = useConversationViewers(selectedConversationId);
 
   const { isPending: isSending, mutate: sendNewMessage } = useSendNewMessage();
   const { data: selectedConversation } = useConversation(selectedConversationId);
 
   const currentUserId = session.data?.user?.id ? parseInt(session.data.user.id, 10) : undefined;
 
-  const isOldConversation = selectedConversation?.lastMessageTime
-    ? differenceInHours(new Date(), new Date(selectedConversation.lastMessageTime)) >= 24
-    : false;
+  // Opening a conversation, or a new inbound message arriving in it, reads it
+  const { mutate: markAsRead } = useMarkConversationAsRead();
+  const lastInboundTime = selectedConversation?.lastInboundAt
+    ? new Date(selectedConversation.lastInboundAt).getTime()
+    : null;
+  useEffect(() => {
+    if (selectedConversationId) {
+      markAsRead({ conversationId: selectedConversationId });
+    }
+  }, [selectedConversationId, lastInboundTime, markAsRead]);
+
+  // Outside the 24-hour window only templates can be sent
+  const serviceWindow = useServiceWindow(selectedConversation?.lastInboundAt);
+  const isServiceWindowClosed = !!selectedConversation && serviceWindow.status === 'closed';
 
   useConversations({
     filterType,
@@ -46,9 +72,19 @@ export default function ConversationsPage() {
     limit: 50,
     assignedUserId: filterType === 'assigned' ? currentUserId : undefined,
     whatsappAccountId: selectedAccount?.id ?? null,
+    status: statusFilter ?? undefined,
+    tagId: tagFilter ?? undefined,
   });
 
 
+  // Sending still goes ahead; the agent just learns they may be doubling up
+  const warnIfOthersReplying = () => {
+    const typing = viewers.filter((viewer) => viewer.isTyping);
+    if (typing.length > 0) {
+      toast.warning(`${formatTypingNames(typing)} ${typing.length === 1 ? 'is' : 'are'} also replying to this customer`);
+    }
+  };
+
   const handleSendMessage = async (messageText: string, imageUrl?: string, imageKey?: string, audioUrl?: string, audioKey?: string) => {
     if (!selectedConversationId) {
       toast.error('Please select a conversation first');
@@ -60,9 +96,13 @@ export default function ConversationsPage() {
       return;
     }
 
+    warnIfOthersReplying();
+
     try {
-      const payload: { phoneNumber: string; messageText?: string; imageUrl?: string; imageKey?: string; audioUrl?: string; audioKey?: string } = {
+      const payload: { phoneNumber: string; conversationId: number; messageText?: string; imageUrl?: string; imageKey?: string; audioUrl?: string; audioKey?: string; replyToMessageId?: number } = {
         phoneNumber: selectedConversation.contact.phone,
+        conversationId: selectedConversation.id,
+        replyToMessageId: replyingTo?.id,
       };
       
       if (messageText.trim()) {
@@ -79,13 +119,61 @@ export default function ConversationsPage() {
         payload.audioKey = audioKey;
       }
       
-      await sendNewMessage(payload);
+      await sendNewMessage(payload, { onSuccess: clearReplyingTo });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Failed to send message';
       toast.error(errorMessage);
     }
   };
 
+  const handleSendAttachment = (attachment: MessageAttachmentInput) => {
+    if (!selectedConversation?.contact?.phone) {
+      toast.error('Could not find contact phone number');
+      return;
+    }
+
+    warnIfOthersReplying();
+
+    sendNewMessage(
+      {
+        phoneNumber: selectedConversation.contact.phone,
+        conversationId: selectedConversation.id,
+        replyToMessageId: replyingTo?.id,
+        ...attachment,
+      },
+      {
+        onSuccess: clearReplyingTo,
+        onError: (error) => toast.error(error.message || 'Failed to send message'),
+      }
+    );
+  };
+
+  const handleSendTemplate = ({ templateId, templateVariables }: TemplateComposerSubmit) => {
+    if (!selectedConversation?.contact?.phone) {
+      toast.error('Could not find contact phone number');
+      return;
+    }
+
+    warnIfOthersReplying();
+
+    sendNewMessage(
+      {
+        phoneNumber: selectedConversation.contact.phone,
+        conversationId: selectedConversation.id,
+        replyToMessageId: replyingTo?.id,
+        templateId,
+        templateVariables,
+      },
+      {
+        onSuccess: () => {
+          clearReplyingTo();
+          toast.success('Template sent');
+        },
+        onError: (error) => toast.error(error.message || 'Failed to send template'),
+      }
+    );
+  };
+
   const handleBackToList = () => {
     setSelectedConversation(null);
   };
@@ -98,7 +186,7 @@ export default function ConversationsPage() {
       {/* Sidebar - Hidden on mobile when chat is selected */}
       <div className={`${showChatView ? 'hidden md:flex' : 'flex'} w-80 border-r flex flex-col md:flex`}>
         {/* Header */}
-        <ConversationSidebarHeader onNewMessage={openNewMessageModal} />
+        <ConversationSidebarHeader onNewMessage={canReply ? openNewMessageModal : undefined} />
 
         {/* Search */}
         <ConversationSearch />
@@ -107,6 +195,8 @@ export default function ConversationsPage() {
         <div className="flex-1 overflow-hidden">
           <ConversationList
             filterType={filterType}
+            status={statusFilter}
+            tagId={tagFilter}
             searchTerm={searchTerm}
             includeArchived={showArchivedSection}
             whatsappAccountId={selectedAccount?.id ?? null}
@@ -148,13 +238,25 @@ export default function ConversationsPage() {
               />
             </div>
 
+            <TypingIndicator viewers={viewers} />
+
             {/* Message Input */}
-            <MessageInput
-              onSend={handleSendMessage}
-              isLoading={isSending}
-              conversationId={selectedConversationId}
-              disabled={isOldConversation}
-            />
+            {canReply ? (
+              <MessageInput
+                onSend={handleSendMessage}
+                isLoading={isSending}
+                conversationId={selectedConversationId}
+                disabled={isServiceWindowClosed}
+                whatsappAccountId={selectedConversation?.whatsappAccountId}
+                onSendTemplate={handleSendTemplate}
+                onSendAttachment={handleSendAttachment}
+                onTyping={notifyTyping}
+              />
+            ) : (
+              <p className="border-t p-4 text-center text-sm text-muted-foreground">
+                You have read-only access to conversations.
+              </p>
+            )}
           </>
         ) : (
           <div className="flex-1 flex items-center justify-center">
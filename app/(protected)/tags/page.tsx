@@ -0,0 +1,15 @@
+import { TagsTable } from "@/features/tags/components/tags-table";
+
+export default function TagsPage() {
+  return (
+    <div className="px-10 py-6">
+      <div className="mb-6 space-y-1">
+        <h1 className="text-3xl font-semibold tracking-tight">Tags</h1>
+        <p className="text-sm text-muted-foreground">
+          Company-wide tags for contacts and labels for conversations, used to filter the inbox and orders.
+        </p>
+      </div>
+      <TagsTable />
+    </div>
+  );
+}
@@ -0,0 +1,15 @@
+import { TeamsTable } from "@/features/teams/components/teams-table";
+
+export default function TeamsPage() {
+  return (
+    <div className="px-10 py-6">
+      <div className="mb-6 space-y-1">
+        <h1 className="text-3xl font-semibold tracking-tight">Teams</h1>
+        <p className="text-sm text-muted-foreground">
+          Route new conversations to team queues by WhatsApp number or keyword, and choose how they are assigned.
+        </p>
+      </div>
+      <TeamsTable />
+    </div>
+  );
+}
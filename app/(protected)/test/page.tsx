@@ -3,6 +3,7 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Upload, Send, Loader2, CheckCircle, XCircle, Mic, Square, AlertTriangle, Info } from 'lucide-react';
 import { Mp3Encoder } from '@breezystack/lamejs';
+import { WhatsappSimulatorPanel } from '@/features/whatsapp-simulator/components/whatsapp-simulator-panel';
 
 type AccountInfo = {
   accountStatus?: string;
@@ -233,7 +234,9 @@ export default function WhatsAppAudioTest() {
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-green-50 to-green-100 p-8">
-      <div className="max-w-2xl mx-auto">
+      <div className="max-w-2xl mx-auto space-y-8">
+        {process.env.NODE_ENV !== 'production' && <WhatsappSimulatorPanel />}
+
         <div className="bg-white rounded-2xl shadow-xl p-8">
           <div className="flex items-center gap-3 mb-8">
             <div className="bg-green-500 rounded-full p-3">
@@ -5,17 +5,21 @@ import { useParams } from "next/navigation";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { ArrowLeft, Webhook, History } from "lucide-react";
+import { ArrowLeft, Webhook, History, FileText } from "lucide-react";
 import Link from "next/link";
 import { WebhookConfigForm } from "@/features/whatsapp-webhook/components/webhook-config-form";
 import { WebhookEventLogs } from "@/features/whatsapp-webhook/components/webhook-event-logs";
+import { MessageTemplatesTable } from "@/features/message-templates/components/message-templates-table";
+import { usePermission } from "@/hooks/use-permission";
 
 export default function WhatsappAccountDetailPage() {
   const params = useParams();
   const accountId = parseInt(params.id as string);
   const isDev = process.env.NODE_ENV === "development";
+  const canManageWebhooks = usePermission("webhooks.manage");
 
-  const [activeTab, setActiveTab] = useState("webhook");
+  const [chosenTab, setChosenTab] = useState<string | null>(null);
+  const activeTab = chosenTab ?? (canManageWebhooks ? "webhook" : "templates");
 
   return (
     <div className="px-10 py-6">
@@ -37,34 +41,50 @@ export default function WhatsappAccountDetailPage() {
         </div>
       </div>
 
-      <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
+      <Tabs value={activeTab} onValueChange={setChosenTab} className="space-y-6">
         <TabsList>
-          <TabsTrigger value="webhook" className="gap-2">
-            <Webhook className="h-4 w-4" />
-            Webhook Configuration
-          </TabsTrigger>
-          <TabsTrigger value="logs" className="gap-2">
-            <History className="h-4 w-4" />
-            Event Logs
+          {canManageWebhooks && (
+            <>
+              <TabsTrigger value="webhook" className="gap-2">
+                <Webhook className="h-4 w-4" />
+                Webhook Configuration
+              </TabsTrigger>
+              <TabsTrigger value="logs" className="gap-2">
+                <History className="h-4 w-4" />
+                Event Logs
+              </TabsTrigger>
+            </>
+          )}
+          <TabsTrigger value="templates" className="gap-2">
+            <FileText className="h-4 w-4" />
+            Templates
           </TabsTrigger>
         </TabsList>
 
-        <TabsContent value="webhook" className="space-y-6">
-          <Card>
-            <CardHeader>
-              <CardTitle>Meta Webhook Setup</CardTitle>
-              <CardDescription>
-                Configure your WhatsApp Business API webhook to receive incoming messages and status updates
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              <WebhookConfigForm whatsappAccountId={accountId} isDev={isDev} />
-            </CardContent>
-          </Card>
-        </TabsContent>
+        {canManageWebhooks && (
+          <>
+            <TabsContent value="webhook" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle>Meta Webhook Setup</CardTitle>
+                  <CardDescription>
+                    Configure your WhatsApp Business API webhook to receive incoming messages and status updates
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <WebhookConfigForm whatsappAccountId={accountId} isDev={isDev} />
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            <TabsContent value="logs" className="space-y-6">
+              <WebhookEventLogs whatsappAccountId={accountId} />
+            </TabsContent>
+          </>
+        )}
 
-        <TabsContent value="logs" className="space-y-6">
-          <WebhookEventLogs whatsappAccountId={accountId} />
+        <TabsContent value="templates" className="space-y-6">
+          <MessageTemplatesTable whatsappAccountId={accountId} />
         </TabsContent>
       </Tabs>
     </div>
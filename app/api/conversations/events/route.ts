@@ -0,0 +1,134 @@
+import { NextRequest } from "next/server";
+import { eq } from "drizzle-orm";
+import { auth } from "@/auth";
+import { db } from "@/db/drizzle";
+import { usersTable } from "@/db/schema";
+import { hasPermission } from "@/lib/permissions";
+import { REALTIME_RETRY_MS, subscribeToRealtimeEvents, type RealtimeEvent } from "@/lib/realtime-events";
+import { ConversationService } from "@/features/conversations/services/conversation-service";
+import { seesAllConversations, type InboxViewer } from "@/features/conversations/services/conversation-visibility";
+
+export const runtime = "nodejs";
+export const dynamic = "force-dynamic";
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_INTERVAL_MS = 25000;
+
+// An open stream is what makes a user "online" for team routing
+async function markSeen(userId: number): Promise<void> {
+  try {
+    await db.update(usersTable).set({ lastSeenAt: new Date() }).where(eq(usersTable.id, userId));
+  } catch (error) {
+    console.error("[Realtime Stream] Failed to update last seen", error);
+  }
+}
+
+/**
+ * Whether the viewer may receive an event. Assignment events only carry ids
+ * and also tell the previous assignee to drop the conversation, so they go to
+ * everyone; the rest follow the inbox visibility rules.
+ */
+async function canReceive(event: RealtimeEvent, viewer: InboxViewer): Promise<boolean> {
+  if (event.type === "conversation.assigned" || seesAllConversations(viewer)) return true;
+
+  const visible = await ConversationService.ensureVisible(event.conversationId, event.companyId, viewer);
+  return visible.isOk;
+}
+
+/**
+ * GET /api/conversations/events
+ *
+ * Server-Sent Events stream of the signed-in user's company inbox events
+ * (`message.created`, `message.status_changed`, `message.reactions_changed`,
+ * `conversation.updated`, `conversation.assigned`), limited to conversations
+ * the user may see. Each event is sent as a JSON `data:` line; the stream
+ * closes if the server loses its event feed so the browser reconnects and
+ * refetches.
+ */
+export async function GET(request: NextRequest): Promise<Response> {
+  const session = await auth();
+  const companyId = session?.user?.companyId;
+
+  if (!session?.user || !companyId) {
+    return new Response("Unauthorized", { status: 401 });
+  }
+
+  if (!hasPermission(session.user.role, "conversations.view")) {
+    return new Response("Forbidden", { status: 403 });
+  }
+
+  const userId = Number(session.user.id);
+  const viewer: InboxViewer = { userId, role: session.user.role };
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      let unsubscribe = () => {};
+      // Visibility checks are async; chaining them keeps events in order
+      let delivery = Promise.resolve();
+
+      const send = (chunk: string) => {
+        if (!closed) controller.enqueue(encoder.encode(chunk));
+      };
+
+      const heartbeat = setInterval(() => {
+        send(": ping\n\n");
+        void markSeen(userId);
+      }, HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Already closed by the client
+        }
+      };
+
+      request.signal.addEventListener("abort", () => cleanup());
+
+      try {
+        unsubscribe = await subscribeToRealtimeEvents(companyId, {
+          onEvent: (event) => {
+            delivery = delivery
+              .then(async () => {
+                if (await canReceive(event, viewer)) send(`data: ${JSON.stringify(event)}\n\n`);
+              })
+              .catch((error) => console.error("[Realtime Stream] Failed to check visibility", error));
+          },
+          onDisconnect: () => cleanup(),
+        });
+      } catch (error) {
+        console.error("[Realtime Stream Error]", error);
+        cleanup();
+        return;
+      }
+
+      // The client may have gone away while we were subscribing
+      if (closed) {
+        unsubscribe();
+        return;
+      }
+
+      send(`retry: ${REALTIME_RETRY_MS}\n\n`);
+      void markSeen(userId);
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { auth } from '@/auth';
+import { hasPermission } from '@/lib/permissions';
 import { ConversationService } from '@/features/conversations/services/conversation-service';
 
 export async function POST(request: NextRequest) {
@@ -13,6 +14,13 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    if (!hasPermission(session.user.role, 'conversations.reply')) {
+      return NextResponse.json(
+        { error: 'Forbidden' },
+        { status: 403 }
+      );
+    }
+
     const body = await request.json();
     const { phoneNumber } = body;
 
@@ -39,10 +47,20 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const accountId = await ConversationService.findDefaultWhatsappAccountId(companyId);
+
+    if (!accountId) {
+      return NextResponse.json(
+        { error: 'No default WhatsApp account is configured' },
+        { status: 400 }
+      );
+    }
+
     // Ensure conversation exists
     const conversationResult = await ConversationService.ensureConversation(
       companyId,
-      contactResult.data.id
+      contactResult.data.id,
+      accountId
     );
 
     if (!conversationResult.success) {
@@ -0,0 +1,165 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WhatsappSimulatorService } from "@/features/whatsapp-simulator/services/whatsapp-simulator.service";
+
+// Graph-shaped endpoints served when WHATSAPP_GRAPH_BASE_URL points here.
+// The first path segment is the Graph version and is ignored.
+
+type RouteContext = { params: Promise<{ path: string[] }> };
+
+function graphError(status: number, code: number, message: string) {
+  return NextResponse.json(
+    {
+      error: {
+        message,
+        type: code === 190 ? "OAuthException" : "GraphMethodException",
+        code,
+        fbtrace_id: "SIMULATOR",
+      },
+    },
+    { status }
+  );
+}
+
+async function resolveRequest(request: NextRequest, context: RouteContext) {
+  if (!WhatsappSimulatorService.isEnabled()) {
+    return { error: NextResponse.json({ error: "Not found" }, { status: 404 }) };
+  }
+
+  const authorization = request.headers.get("authorization");
+  if (!authorization?.startsWith("Bearer ")) {
+    return { error: graphError(401, 190, "Invalid OAuth access token - Cannot parse access token") };
+  }
+
+  // Like Graph, a token only opens the numbers it was issued for
+  const accounts = await WhatsappSimulatorService.findAccountsByAccessToken(authorization.slice("Bearer ".length));
+  if (accounts.length === 0) {
+    return { error: graphError(401, 190, "Invalid OAuth access token - Cannot parse access token") };
+  }
+
+  const [version, ...segments] = (await context.params).path;
+  return { version, segments, accounts };
+}
+
+function unknownObject(id: string) {
+  return graphError(
+    400,
+    100,
+    `Unsupported request. Object with ID '${id}' does not exist, cannot be loaded due to missing permissions, or does not support this operation`
+  );
+}
+
+export async function GET(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveRequest(request, context);
+  if (resolved.error) return resolved.error;
+  const { version, segments, accounts } = resolved;
+
+  // Media binaries are downloaded from the url handed out by the media lookup
+  if (segments[0] === "media-files" && segments[1]) {
+    const media = WhatsappSimulatorService.getMedia(segments[1]);
+    if (!media) return unknownObject(segments[1]);
+
+    return new NextResponse(new Uint8Array(media.data), {
+      status: 200,
+      headers: { "Content-Type": media.mimeType },
+    });
+  }
+
+  const [objectId, edge] = segments;
+  if (!objectId) return unknownObject("");
+
+  if (!edge) {
+    const media = WhatsappSimulatorService.getMedia(objectId);
+    if (media) {
+      return NextResponse.json({
+        messaging_product: "whatsapp",
+        id: media.id,
+        url: `${request.nextUrl.origin}/api/dev/whatsapp-simulator/${version}/media-files/${media.id}`,
+        mime_type: media.mimeType,
+        file_size: media.data.length,
+        sha256: media.sha256,
+      });
+    }
+  }
+
+  const account = accounts.find((candidate) => candidate.phoneNumberId === objectId);
+  if (!account) return unknownObject(objectId);
+
+  if (!edge) {
+    return NextResponse.json({
+      id: account.phoneNumberId,
+      display_phone_number: account.phoneNumberId,
+      verified_name: account.name,
+      quality_rating: "GREEN",
+      name_status: "APPROVED",
+      code_verification_status: "VERIFIED",
+      platform_type: "CLOUD_API",
+      throughput: { level: "STANDARD" },
+    });
+  }
+
+  if (edge === "whatsapp_business_profile") {
+    return NextResponse.json({
+      data: [
+        {
+          about: `${account.name} (simulated)`,
+          description: "Local WhatsApp Cloud API simulator",
+          messaging_product: "whatsapp",
+          vertical: "OTHER",
+          websites: [],
+        },
+      ],
+    });
+  }
+
+  return unknownObject(`${objectId}/${edge}`);
+}
+
+export async function POST(request: NextRequest, context: RouteContext) {
+  const resolved = await resolveRequest(request, context);
+  if (resolved.error) return resolved.error;
+
+  const [phoneNumberId, edge] = resolved.segments;
+  const account = resolved.accounts.find((candidate) => candidate.phoneNumberId === phoneNumberId);
+  if (!account) return unknownObject(phoneNumberId ?? "");
+
+  if (edge === "messages") {
+    let payload: Record<string, unknown>;
+    try {
+      payload = (await request.json()) as Record<string, unknown>;
+    } catch {
+      return graphError(400, 100, "Invalid parameter");
+    }
+
+    // Read markers and typing indicators have no visible effect here
+    if (payload.status === "read") {
+      return NextResponse.json({ success: true });
+    }
+
+    if (typeof payload.to !== "string" || typeof payload.type !== "string") {
+      return graphError(400, 100, "The parameter to and type are required");
+    }
+
+    const message = WhatsappSimulatorService.recordOutbound(account, payload);
+    return NextResponse.json({
+      messaging_product: "whatsapp",
+      contacts: [{ input: payload.to, wa_id: payload.to }],
+      messages: [{ id: message.id }],
+    });
+  }
+
+  if (edge === "media") {
+    const formData = await request.formData();
+    const file = formData.get("file");
+    if (!(file instanceof Blob)) {
+      return graphError(400, 100, "The parameter file is required");
+    }
+
+    const media = WhatsappSimulatorService.storeMedia(
+      Buffer.from(await file.arrayBuffer()),
+      String(formData.get("type") || file.type || "application/octet-stream")
+    );
+    return NextResponse.json({ id: media.id });
+  }
+
+  return unknownObject(`${phoneNumberId}/${edge ?? ""}`);
+}
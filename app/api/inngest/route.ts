@@ -1,12 +1,20 @@
 import { serve } from "inngest/next";
 import { inngest } from "@/lib/inngest";
 import { processWebhookEvent } from "@/features/whatsapp-webhook/inngest/process-message";
+import { backfillInboundMedia } from "@/features/whatsapp-webhook/inngest/backfill-inbound-media";
+import { sendOutboundMessage } from "@/features/conversations/inngest/send-message";
+import { wakeSnoozedConversations } from "@/features/conversations/inngest/wake-snoozed-conversations";
+import { reencryptSecrets } from "@/features/whatsapp-accounts/inngest/reencrypt-secrets";
 import { helloWorld } from "@/inngest/functions";
 
 export const { GET, POST, PUT } = serve({
   client: inngest,
   functions: [
     processWebhookEvent,
+    backfillInboundMedia,
+    sendOutboundMessage,
+    wakeSnoozedConversations,
+    reencryptSecrets,
     helloWorld,
   ],
 });
@@ -11,6 +11,23 @@ export const ourFileRouter = {
     .onUploadComplete(async ({ file }) => {
       return { url: file.url, key: file.key, name: file.name, size: file.size, type: file.type };
     }),
+  videoUploader: f({ video: { maxFileSize: "16MB", maxFileCount: 1 } })
+    .onUploadComplete(async ({ file }) => {
+      return { url: file.url, key: file.key, name: file.name, size: file.size, type: file.type };
+    }),
+  documentUploader: f({
+    pdf: { maxFileSize: "32MB", maxFileCount: 1 },
+    text: { maxFileSize: "4MB", maxFileCount: 1 },
+    "application/msword": { maxFileSize: "32MB", maxFileCount: 1 },
+    "application/vnd.openxmlformats-officedocument.wordprocessingml.document": { maxFileSize: "32MB", maxFileCount: 1 },
+    "application/vnd.ms-excel": { maxFileSize: "32MB", maxFileCount: 1 },
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet": { maxFileSize: "32MB", maxFileCount: 1 },
+    "application/vnd.ms-powerpoint": { maxFileSize: "32MB", maxFileCount: 1 },
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation": { maxFileSize: "32MB", maxFileCount: 1 },
+  })
+    .onUploadComplete(async ({ file }) => {
+      return { url: file.url, key: file.key, name: file.name, size: file.size, type: file.type };
+    }),
 } satisfies FileRouter;
 
 export type OurFileRouter = typeof ourFileRouter;
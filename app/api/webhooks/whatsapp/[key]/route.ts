@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from "next/server";
+import { WEBHOOK_CALLBACK_BASE_PATH } from "@/features/whatsapp-webhook/schemas/whatsapp-webhook-schema";
+import { WebhookConfigService } from "@/features/whatsapp-webhook/services/webhook-config.service";
+import { handleWebhookEvent, handleWebhookVerification } from "../webhook-handler";
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+  return handleWebhookVerification(request, `${WEBHOOK_CALLBACK_BASE_PATH}/${key}`);
+}
+
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ key: string }> }
+) {
+  const { key } = await params;
+
+  const configResult = await WebhookConfigService.findForVerification({
+    callbackPath: `${WEBHOOK_CALLBACK_BASE_PATH}/${key}`,
+  });
+
+  if (!configResult.success) {
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+
+  if (!configResult.data) {
+    return NextResponse.json({ error: "Webhook config not found" }, { status: 404 });
+  }
+
+  return handleWebhookEvent(request, configResult.data.whatsappAccountId);
+}
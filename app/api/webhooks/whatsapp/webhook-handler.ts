@@ -0,0 +1,302 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { db } from "@/db/drizzle";
+import { whatsappWebhookConfigsTable, whatsappAccountsTable } from "@/db/schema";
+import { eq, and, asc } from "drizzle-orm";
+import { WebhookIngestService } from "@/features/whatsapp-webhook/services/webhook-ingest.service";
+import { WebhookConfigService } from "@/features/whatsapp-webhook/services/webhook-config.service";
+import { WebhookSecurityLogService } from "@/features/whatsapp-webhook/services/webhook-security-log.service";
+import { inngest } from "@/lib/inngest";
+import type {
+  WebhookEventItem,
+  WebhookEventPayload,
+  WebhookLogItemResult,
+  WebhookSecurityRejectionReason,
+} from "@/features/whatsapp-webhook/schemas/whatsapp-webhook-schema";
+
+// Shared by the legacy shared callback and the per-account callbacks under [key]
+
+/**
+ * Answers Meta's subscription handshake. On a per-account callback the token
+ * must match that account's config; on the shared callback the token itself
+ * identifies the config.
+ */
+export async function handleWebhookVerification(
+  request: NextRequest,
+  callbackPath?: string
+) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+    const mode = searchParams.get("hub.mode");
+    const token = searchParams.get("hub.verify_token");
+    const challenge = searchParams.get("hub.challenge");
+
+    if (mode !== "subscribe" || !token) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 403 });
+    }
+
+    const configResult = await WebhookConfigService.findForVerification(
+      callbackPath ? { callbackPath } : { verifyToken: token }
+    );
+
+    if (!configResult.success) {
+      return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+    }
+
+    const config = configResult.data;
+    if (!config || !config.isActive || !tokensMatch(token, config.verifyToken)) {
+      return NextResponse.json({ error: "Invalid request" }, { status: 403 });
+    }
+
+    console.log("WEBHOOK VERIFIED", { whatsappAccountId: config.whatsappAccountId });
+    return new NextResponse(challenge ?? "", {
+      status: 200,
+      headers: { "Content-Type": "text/plain" },
+    });
+  } catch (error) {
+    console.error("Webhook GET error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+function tokensMatch(received: string, expected: string): boolean {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+/**
+ * Logs a webhook batch. `callbackAccountId` is the account whose per-account
+ * callback received it; template events sharing a Business Account are
+ * attributed to that account first.
+ */
+export async function handleWebhookEvent(request: NextRequest, callbackAccountId?: number) {
+  try {
+    const signature = request.headers.get("x-hub-signature-256");
+    const rawBody = await request.text();
+
+    if (!rawBody) {
+      return NextResponse.json({ error: "Empty body" }, { status: 400 });
+    }
+
+    let payload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+    }
+
+    const items = WebhookIngestService.splitPayload(payload as WebhookEventPayload);
+
+    if (items.length === 0) {
+      return NextResponse.json({ error: "No events in payload" }, { status: 400 });
+    }
+
+    // Items are grouped by the account they belong to; a batch may span several phone numbers
+    const groups = new Map<string, WebhookEventItem[]>();
+    for (const item of items) {
+      const key = item.phoneNumberId ? `phone:${item.phoneNumberId}` : `waba:${item.businessAccountId ?? ""}`;
+      groups.set(key, [...(groups.get(key) ?? []), item]);
+    }
+
+    // Every account in the batch must vouch for the body before anything is logged
+    const targets: Array<{ items: WebhookEventItem[]; target: WebhookTarget }> = [];
+    for (const groupItems of groups.values()) {
+      const resolved = await resolveWebhookCandidates(groupItems[0]!, callbackAccountId);
+
+      if (!resolved.ok) {
+        targets.push({ items: groupItems, target: resolved });
+        continue;
+      }
+
+      // The first candidate whose secret signed the body owns the events
+      let target: ResolvedWebhookTarget | null = null;
+      let rejection: WebhookSecurityRejectionReason | null = null;
+      for (const candidate of resolved.candidates) {
+        const candidateRejection = await checkSignature(candidate, signature, rawBody);
+        if (!candidateRejection) {
+          target = candidate;
+          break;
+        }
+        rejection ??= candidateRejection;
+      }
+
+      if (!target) {
+        const [first] = resolved.candidates;
+        await WebhookSecurityLogService.recordRejection({
+          companyId: first!.companyId,
+          whatsappAccountId: first!.whatsappAccountId,
+          reason: rejection!,
+          signature,
+          sourceIp: request.headers.get("x-forwarded-for")?.split(",")[0]?.trim() ?? null,
+          userAgent: request.headers.get("user-agent"),
+          rawBody,
+        });
+        return NextResponse.json({ error: "Invalid signature" }, { status: 401 });
+      }
+
+      targets.push({ items: groupItems, target });
+    }
+
+    const results: WebhookLogItemResult[] = [];
+
+    for (const { items: groupItems, target } of targets) {
+      if (!target.ok) {
+        results.push(
+          ...groupItems.map((item) => ({
+            dedupKey: null,
+            eventType: WebhookIngestService.determineEventType(item.payload),
+            logId: null,
+            status: "rejected" as const,
+            error: target.error,
+          }))
+        );
+        continue;
+      }
+
+      const logResult = await WebhookIngestService.logEvents(
+        target.companyId,
+        target.whatsappAccountId,
+        groupItems,
+        signature
+      );
+
+      if (!logResult.success || !logResult.data) {
+        results.push(
+          ...groupItems.map((item) => ({
+            dedupKey: null,
+            eventType: WebhookIngestService.determineEventType(item.payload),
+            logId: null,
+            status: "failed" as const,
+            error: logResult.message,
+          }))
+        );
+        continue;
+      }
+
+      results.push(...logResult.data.items);
+    }
+
+    const logged = results.filter((result) => result.status === "logged" && result.logId);
+    if (logged.length > 0) {
+      await inngest.send(
+        logged.map((result) => ({
+          id: `webhook-log-${result.logId}`,
+          name: "whatsapp/webhook.received",
+          data: { logId: result.logId! },
+        }))
+      );
+    }
+
+    // Meta redelivers on non-2xx; already logged items are skipped by their dedup keys
+    if (results.some((result) => result.status === "failed")) {
+      console.error("Failed to log some webhook items:", results.filter((result) => result.status === "failed"));
+      return NextResponse.json({ success: false, items: results }, { status: 500 });
+    }
+
+    if (results.every((result) => result.status === "rejected")) {
+      return NextResponse.json({ success: false, items: results }, { status: 404 });
+    }
+
+    return NextResponse.json({ success: true, items: results }, { status: 200 });
+  } catch (error) {
+    console.error("Webhook POST error:", error);
+    return NextResponse.json({ error: "Internal server error" }, { status: 500 });
+  }
+}
+
+type ResolvedWebhookTarget = { ok: true; companyId: number; whatsappAccountId: number };
+type WebhookTarget = ResolvedWebhookTarget | { ok: false; error: string };
+
+/**
+ * Accounts that may own an item. Message and status events identify the phone
+ * number. Template events only carry the Business Account id, which several
+ * numbers can share, so every active account of it is a candidate and the
+ * signature decides; the callback's own account is tried first.
+ */
+async function resolveWebhookCandidates(
+  item: WebhookEventItem,
+  callbackAccountId?: number
+): Promise<{ ok: true; candidates: ResolvedWebhookTarget[] } | { ok: false; error: string }> {
+  const { phoneNumberId, businessAccountId } = item;
+
+  if (!phoneNumberId && !businessAccountId) {
+    return { ok: false, error: "Missing phone_number_id in payload" };
+  }
+
+  const accounts = await db
+    .select({
+      id: whatsappAccountsTable.id,
+      isActive: whatsappAccountsTable.isActive,
+      configCompanyId: whatsappWebhookConfigsTable.companyId,
+      configIsActive: whatsappWebhookConfigsTable.isActive,
+    })
+    .from(whatsappAccountsTable)
+    .leftJoin(
+      whatsappWebhookConfigsTable,
+      and(
+        eq(whatsappWebhookConfigsTable.companyId, whatsappAccountsTable.companyId),
+        eq(whatsappWebhookConfigsTable.whatsappAccountId, whatsappAccountsTable.id)
+      )
+    )
+    .where(
+      phoneNumberId
+        ? eq(whatsappAccountsTable.phoneNumberId, phoneNumberId)
+        : and(
+            eq(whatsappAccountsTable.businessAccountId, businessAccountId!),
+            eq(whatsappAccountsTable.isActive, true)
+          )
+    )
+    .orderBy(asc(whatsappAccountsTable.id));
+
+  if (accounts.length === 0) {
+    return { ok: false, error: "WhatsApp account not found" };
+  }
+
+  const active = accounts.filter((account) => account.isActive);
+  if (active.length === 0) {
+    return { ok: false, error: "WhatsApp account is inactive" };
+  }
+
+  const configured = active.filter((account) => account.configCompanyId !== null);
+  if (configured.length === 0) {
+    return { ok: false, error: "Webhook config not found" };
+  }
+
+  const enabled = configured.filter((account) => account.configIsActive);
+  if (enabled.length === 0) {
+    return { ok: false, error: "Webhook is inactive" };
+  }
+
+  enabled.sort((a, b) => Number(b.id === callbackAccountId) - Number(a.id === callbackAccountId));
+  return {
+    ok: true,
+    candidates: enabled.map((account) => ({
+      ok: true as const,
+      companyId: account.configCompanyId!,
+      whatsappAccountId: account.id,
+    })),
+  };
+}
+
+async function checkSignature(
+  target: ResolvedWebhookTarget,
+  signature: string | null,
+  rawBody: string
+): Promise<WebhookSecurityRejectionReason | null> {
+  if (!signature) {
+    return "missing_signature";
+  }
+
+  const secretsResult = await WebhookConfigService.getSecrets(target.companyId, target.whatsappAccountId);
+  if (!secretsResult.success) {
+    throw new Error(secretsResult.message);
+  }
+
+  const secrets = secretsResult.data?.secrets ?? [];
+  if (secrets.length === 0) {
+    return "secret_not_configured";
+  }
+
+  return WebhookIngestService.verifySignature(signature, rawBody, secrets) ? null : "invalid_signature";
+}
@@ -1,8 +1,21 @@
 // app/api/whatsapp/check-media/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { hasPermission } from '@/lib/permissions';
+import { WhatsappCloudApi, getGraphFailureStatus } from '@/lib/whatsapp-cloud-api';
 
 export async function GET(request: NextRequest) {
   try {
+    const session = await auth();
+
+    if (!session?.user?.companyId) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    if (!hasPermission(session.user.role, 'conversations.view')) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     const { searchParams } = new URL(request.url);
     const mediaId = searchParams.get('mediaId');
 
@@ -13,54 +26,46 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    // Get media info
-    const MEDIA_INFO_URL = `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION}/${mediaId}`;
-    
-    const response = await fetch(MEDIA_INFO_URL, {
-      headers: {
-        'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-      },
-    });
+    const cloudApi = WhatsappCloudApi.fromEnvironment();
+    if (!cloudApi) {
+      return NextResponse.json(
+        { error: 'WhatsApp credentials are not configured' },
+        { status: 500 }
+      );
+    }
 
-    const data = await response.json();
+    // Get media info
+    const mediaInfo = await cloudApi.getMediaInfo(mediaId);
 
-    if (!response.ok) {
+    if (!mediaInfo.success || !mediaInfo.data) {
       return NextResponse.json(
-        { 
+        {
           error: 'Failed to get media info',
-          details: data 
+          details: { message: mediaInfo.message, ...mediaInfo.error }
         },
-        { status: response.status }
+        { status: getGraphFailureStatus(mediaInfo) }
       );
     }
 
-    // Also try to get the actual media URL
-    let mediaUrl = null;
-    if (data.url) {
-      const urlResponse = await fetch(data.url, {
-        headers: {
-          'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-        },
-      });
-      mediaUrl = {
-        status: urlResponse.status,
-        headers: Object.fromEntries(urlResponse.headers.entries())
-      };
-    }
+    // Also try to get the actual media file
+    const media = await cloudApi.downloadMedia(mediaInfo.data.url);
+    const mediaUrl = media.success && media.data
+      ? { status: 200, contentType: media.data.contentType, size: media.data.data.length }
+      : { status: getGraphFailureStatus(media), error: media.message };
 
     return NextResponse.json({
-      mediaInfo: data,
+      mediaInfo: mediaInfo.data,
       mediaUrl: mediaUrl
     });
 
   } catch (error) {
     console.error('Error checking media:', error);
     return NextResponse.json(
-      { 
+      {
         error: 'Internal server error',
         details: error instanceof Error ? error.message : 'Unknown error'
       },
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
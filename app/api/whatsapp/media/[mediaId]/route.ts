@@ -1,12 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db } from "@/db/drizzle";
-import { messagesTable } from "@/db/schema";
+import { messagesTable, whatsappAccountsTable } from "@/db/schema";
 import { eq, and } from "drizzle-orm";
 import { auth } from "@/auth";
-import axios from "axios";
-
-const WHATSAPP_GRAPH_VERSION = process.env.WHATSAPP_GRAPH_VERSION || "v22.0";
-const WHATSAPP_ACCESS_TOKEN = process.env.WHATSAPP_ACCESS_TOKEN;
+import { hasPermission } from "@/lib/permissions";
+import { WhatsappCloudApi } from "@/lib/whatsapp-cloud-api";
+import { ConversationService } from "@/features/conversations/services/conversation-service";
 
 export async function GET(
   request: NextRequest,
@@ -19,20 +18,31 @@ export async function GET(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    if (!hasPermission(session.user.role, "conversations.view")) {
+      return NextResponse.json({ error: "Forbidden" }, { status: 403 });
+    }
+
     const { mediaId } = await params;
 
     if (!mediaId) {
       return NextResponse.json({ error: "Media ID is required" }, { status: 400 });
     }
 
-    // Verify mediaId belongs to a message in the user's company
+    // Verify mediaId belongs to a message in the user's company, in a conversation they can see
     const [message] = await db
       .select({
         id: messagesTable.id,
+        conversationId: messagesTable.conversationId,
         mediaId: messagesTable.mediaId,
         mediaMimeType: messagesTable.mediaMimeType,
+        accessToken: whatsappAccountsTable.accessToken,
+        phoneNumberId: whatsappAccountsTable.phoneNumberId,
       })
       .from(messagesTable)
+      .leftJoin(
+        whatsappAccountsTable,
+        eq(messagesTable.whatsappAccountId, whatsappAccountsTable.id)
+      )
       .where(
         and(
           eq(messagesTable.mediaId, mediaId),
@@ -46,26 +56,30 @@ export async function GET(
       return NextResponse.json({ error: "Media not found" }, { status: 404 });
     }
 
-    if (!WHATSAPP_ACCESS_TOKEN) {
-      console.error("WHATSAPP_ACCESS_TOKEN is not configured");
+    const visible = await ConversationService.ensureVisible(message.conversationId, session.user.companyId, {
+      userId: Number(session.user.id),
+      role: session.user.role,
+    });
+    if (!visible.isOk) {
+      return NextResponse.json({ error: "Media not found" }, { status: 404 });
+    }
+
+    if (!message.accessToken || !message.phoneNumberId) {
       return NextResponse.json(
-        { error: "Server configuration error" },
-        { status: 500 }
+        { error: "WhatsApp account for this media is not available" },
+        { status: 404 }
       );
     }
 
-    // Step 1: Get media URL from WhatsApp Graph API
-    const mediaInfoUrl = `https://graph.facebook.com/${WHATSAPP_GRAPH_VERSION}/${mediaId}`;
-    const mediaInfoResponse = await axios.get(mediaInfoUrl, {
-      headers: {
-        Authorization: `Bearer ${WHATSAPP_ACCESS_TOKEN}`,
-      },
+    const cloudApi = WhatsappCloudApi.forAccount({
+      accessToken: message.accessToken,
+      phoneNumberId: message.phoneNumberId,
     });
 
-    const mediaInfo = mediaInfoResponse.data;
-
-    if (!mediaInfo.url) {
-      console.error("Media info response missing URL:", mediaInfo);
+    // Step 1: Get media URL from WhatsApp Graph API
+    const mediaInfo = await cloudApi.getMediaInfo(mediaId);
+    if (!mediaInfo.success || !mediaInfo.data) {
+      console.error("Failed to load media info:", mediaInfo.message);
       return NextResponse.json(
         { error: "Invalid media response from WhatsApp" },
         { status: 502 }
@@ -73,24 +87,26 @@ export async function GET(
     }
 
     // Step 2: Fetch the actual media file
-    const mediaResponse = await axios.get(mediaInfo.url, {
-      headers: {
-        Authorization: `Bearer ${WHATSAPP_ACCESS_TOKEN}`,
-      },
-      responseType: 'arraybuffer',
-    });
+    const media = await cloudApi.downloadMedia(mediaInfo.data.url);
+    if (!media.success || !media.data) {
+      console.error("Failed to download media:", media.message);
+      return NextResponse.json(
+        { error: "Failed to download media from WhatsApp" },
+        { status: 502 }
+      );
+    }
 
     // Step 3: Stream the media back to the client
     const contentType =
-      mediaResponse.headers["content-type"] ||
+      media.data.contentType ||
       message.mediaMimeType ||
       "application/octet-stream";
 
-    return new NextResponse(Buffer.from(mediaResponse.data), {
+    return new NextResponse(new Uint8Array(media.data.data), {
       status: 200,
       headers: {
         "Content-Type": contentType,
-        "Cache-Control": "public, max-age=180, s-maxage=180, must-revalidate",
+        "Cache-Control": "private, max-age=180, must-revalidate",
       },
     });
   } catch (error) {
@@ -1,38 +1,46 @@
 // app/api/whatsapp/send-audio/route.ts
 import { NextRequest, NextResponse } from 'next/server';
+import { auth } from '@/auth';
+import { hasPermission, type Permission } from '@/lib/permissions';
+import { WhatsappCloudApi, getGraphFailureStatus } from '@/lib/whatsapp-cloud-api';
 
-const WHATSAPP_API_URL = `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION}/${process.env.WHATSAPP_PHONE_NUMBER_ID}/messages`;
+// These routes use the server's own WhatsApp credentials, so they need a signed-in user
+async function requirePermission(permission: Permission): Promise<NextResponse | null> {
+  const session = await auth();
 
-// Helper function to send a template message first (to open 24-hour window)
-async function sendTemplateMessage(to: string) {
-  const templatePayload = {
-    messaging_product: 'whatsapp',
-    to: to,
-    type: 'template',
-    template: {
-      name: 'hello_world', // Default WhatsApp template - should work on all accounts
-      language: {
-        code: 'en_US'
-      }
-    }
-  };
+  if (!session?.user?.companyId) {
+    return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+  }
 
-  console.log('Sending template message first:', JSON.stringify(templatePayload, null, 2));
+  if (!hasPermission(session.user.role, permission)) {
+    return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+  }
 
-  const response = await fetch(WHATSAPP_API_URL, {
-    method: 'POST',
-    headers: {
-      'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify(templatePayload),
-  });
+  return null;
+}
 
-  return await response.json();
+function credentialsMissing() {
+  return NextResponse.json(
+    { error: 'WhatsApp credentials are not configured' },
+    { status: 500 }
+  );
+}
+
+// Helper function to send a template message first (to open 24-hour window)
+async function sendTemplateMessage(cloudApi: WhatsappCloudApi, to: string) {
+  // Default WhatsApp template - should work on all accounts
+  return cloudApi.sendMessage({
+    to,
+    type: 'template',
+    template: { name: 'hello_world', language: 'en_US' },
+  });
 }
 
 export async function POST(request: NextRequest) {
   try {
+    const denied = await requirePermission('conversations.reply');
+    if (denied) return denied;
+
     const body = await request.json();
     const { to, audioUrl, audioId, sendTemplate } = body;
 
@@ -50,59 +58,46 @@ export async function POST(request: NextRequest) {
       );
     }
 
+    const cloudApi = WhatsappCloudApi.fromEnvironment();
+    if (!cloudApi) {
+      return credentialsMissing();
+    }
+
     // If requested, send template message first to open 24-hour window
     if (sendTemplate) {
-      const templateResponse = await sendTemplateMessage(to);
-      console.log('Template message response:', JSON.stringify(templateResponse, null, 2));
+      const templateResponse = await sendTemplateMessage(cloudApi, to);
+      console.log('Template message response:', JSON.stringify(templateResponse.toPlain(), null, 2));
       
       // Wait a moment for the template to process
       await new Promise(resolve => setTimeout(resolve, 2000));
     }
 
-    // Prepare the audio message payload
-    const messagePayload: any = {
-      messaging_product: 'whatsapp',
-      recipient_type: 'individual',
-      to: to,
-      type: 'audio',
-      audio: audioId 
-        ? { id: audioId } // Using uploaded media ID
-        : { link: audioUrl } // Using external URL
-    };
-
-    console.log('Sending audio message:', JSON.stringify(messagePayload, null, 2));
-
-    // Send the audio message
-    const response = await fetch(WHATSAPP_API_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(messagePayload),
-    });
+    console.log('Sending audio message:', { to, audioId, audioUrl });
 
-    const responseData = await response.json();
+    // Send the audio message, preferring an uploaded media ID over an external URL
+    const result = await cloudApi.sendMessage(
+      audioId ? { to, type: 'audio', mediaId: audioId } : { to, type: 'audio', mediaUrl: audioUrl }
+    );
 
-    console.log('WhatsApp API Response:', JSON.stringify(responseData, null, 2));
+    console.log('WhatsApp API Response:', JSON.stringify(result.toPlain(), null, 2));
 
-    if (!response.ok) {
+    if (!result.success || !result.data) {
       return NextResponse.json(
         { 
           error: 'Failed to send audio message',
-          details: responseData,
-          hint: responseData.error?.message?.includes('24 hour') 
+          details: { message: result.message, ...result.error },
+          hint: result.message.includes('24 hour') 
             ? 'Try enabling "Send Template First" option - you may need to initiate conversation with a template message'
             : undefined
         },
-        { status: response.status }
+        { status: getGraphFailureStatus(result) }
       );
     }
 
     return NextResponse.json({
       success: true,
-      messageId: responseData.messages?.[0]?.id,
-      response: responseData
+      messageId: result.data.messageId,
+      response: result.toPlain()
     });
 
   } catch (error) {
@@ -120,6 +115,9 @@ export async function POST(request: NextRequest) {
 // Upload audio file to WhatsApp Media API
 export async function PUT(request: NextRequest) {
   try {
+    const denied = await requirePermission('conversations.reply');
+    if (denied) return denied;
+
     const formData = await request.formData();
     const audioFile = formData.get('audio') as File;
 
@@ -130,44 +128,38 @@ export async function PUT(request: NextRequest) {
       );
     }
 
-    const MEDIA_UPLOAD_URL = `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION}/${process.env.WHATSAPP_PHONE_NUMBER_ID}/media`;
+    const cloudApi = WhatsappCloudApi.fromEnvironment();
+    if (!cloudApi) {
+      return credentialsMissing();
+    }
 
-    // Upload the audio file
-    const uploadFormData = new FormData();
-    uploadFormData.append('file', audioFile);
-    uploadFormData.append('messaging_product', 'whatsapp');
-    
-    // Don't specify type - let WhatsApp detect it
     console.log('Uploading audio:', {
       name: audioFile.name,
       size: audioFile.size,
       type: audioFile.type
     });
 
-    const uploadResponse = await fetch(MEDIA_UPLOAD_URL, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-      },
-      body: uploadFormData,
+    // Upload the audio file
+    const upload = await cloudApi.uploadMedia({
+      file: audioFile,
+      fileName: audioFile.name,
+      mimeType: audioFile.type,
     });
 
-    const uploadData = await uploadResponse.json();
-
-    if (!uploadResponse.ok) {
+    if (!upload.success || !upload.data) {
       return NextResponse.json(
         { 
           error: 'Failed to upload audio file',
-          details: uploadData 
+          details: { message: upload.message, ...upload.error }
         },
-        { status: uploadResponse.status }
+        { status: getGraphFailureStatus(upload) }
       );
     }
 
     return NextResponse.json({
       success: true,
-      mediaId: uploadData.id,
-      response: uploadData
+      mediaId: upload.data.id,
+      response: upload.toPlain()
     });
 
   } catch (error) {
@@ -183,21 +175,22 @@ export async function PUT(request: NextRequest) {
 }
 
 // Check account phone numbers (GET endpoint for debugging)
-export async function GET(request: NextRequest) {
+export async function GET() {
   try {
-    const PHONE_INFO_URL = `https://graph.facebook.com/${process.env.WHATSAPP_API_VERSION}/${process.env.WHATSAPP_PHONE_NUMBER_ID}`;
-    
-    const response = await fetch(PHONE_INFO_URL, {
-      headers: {
-        'Authorization': `Bearer ${process.env.WHATSAPP_ACCESS_TOKEN}`,
-      },
-    });
+    const denied = await requirePermission('conversations.view');
+    if (denied) return denied;
 
-    const data = await response.json();
+    const cloudApi = WhatsappCloudApi.fromEnvironment();
+    if (!cloudApi) {
+      return credentialsMissing();
+    }
+
+    const result = await cloudApi.getPhoneProfile();
+    const data = result.data ?? { error: result.message };
 
     return NextResponse.json({
       phoneNumberInfo: data,
-      accountStatus: data.quality_rating || 'unknown'
+      accountStatus: typeof data.quality_rating === 'string' ? data.quality_rating : 'unknown'
     });
 
   } catch (error) {
@@ -206,4 +199,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
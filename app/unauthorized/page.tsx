@@ -0,0 +1,20 @@
+import Link from "next/link";
+import { ShieldAlert } from "lucide-react";
+import { Button } from "@/components/ui/button";
+
+export default function UnauthorizedPage() {
+  return (
+    <main className="flex min-h-screen flex-col items-center justify-center gap-4 p-4 text-center">
+      <ShieldAlert className="h-10 w-10 text-muted-foreground" />
+      <div className="space-y-1">
+        <h1 className="text-2xl font-semibold">Access denied</h1>
+        <p className="text-sm text-muted-foreground">
+          Your role does not have permission to view this page.
+        </p>
+      </div>
+      <Button asChild variant="outline">
+        <Link href="/conversations">Back to conversations</Link>
+      </Button>
+    </main>
+  );
+}
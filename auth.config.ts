@@ -1,4 +1,7 @@
 import type { NextAuthConfig } from "next-auth"
+import { getRoutePermission, hasPermission } from "@/lib/permissions"
+
+const DEFAULT_ROUTE = "/conversations"
 
 export default {
     providers: [],
@@ -12,30 +15,22 @@ export default {
             const userRole = auth?.user?.role
             const path = nextUrl.pathname
 
-             if(path === "/sign-in" && isLoggedIn) {
-                return Response.redirect(new URL("/users", nextUrl))
-            }
-
-            if(path === "/" && !isLoggedIn) {
-                return Response.redirect(new URL("/sign-in", nextUrl))
+            // Redirect logged-in users away from login page
+            if (path === "/sign-in") {
+                return isLoggedIn ? Response.redirect(new URL(DEFAULT_ROUTE, nextUrl)) : true
             }
 
-            if(path==="/") {
-                return Response.redirect(new URL("/users", nextUrl))
-            } 
-
-            // Redirect logged-in users away from login page
-            if (path === "/sign-in" && isLoggedIn) {
-                return Response.redirect(new URL("/users", nextUrl))
+            if (path === "/") {
+                return Response.redirect(new URL(isLoggedIn ? DEFAULT_ROUTE : "/sign-in", nextUrl))
             }
 
-            // Protect dashboard routes
-            if (path.startsWith("/users")) {
+            // Protect dashboard routes by the permission their prefix requires
+            const permission = getRoutePermission(path)
+            if (permission) {
                 if (!isLoggedIn) {
                     return Response.redirect(new URL("/sign-in", nextUrl))
                 }
-                // Only allow admin users to access dashboard
-                if (userRole !== "admin") {
+                if (!hasPermission(userRole, permission)) {
                     return Response.redirect(new URL("/unauthorized", nextUrl))
                 }
                 return true
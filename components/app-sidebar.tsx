@@ -3,7 +3,7 @@
 import * as React from "react";
 import { usePathname } from "next/navigation";
 import { useSession } from "next-auth/react";
-import { Building2, MessageCircle, ShoppingCart, User, BarChart3 } from "lucide-react";
+import { Building2, MessageCircle, ShoppingCart, Tag, User, Users, BarChart3 } from "lucide-react";
 
 import { NavMain } from "@/components/nav-main";
 import { NavUser } from "@/components/nav-user";
@@ -16,6 +16,7 @@ import {
 } from "@/components/ui/sidebar";
 import { Separator } from "./ui/separator";
 import { NavHeader } from "./nav-header";
+import { getRoutePermission, hasPermission } from "@/lib/permissions";
 
 const navMainData = [
   {
@@ -28,6 +29,16 @@ const navMainData = [
     url: "/users",
     icon: User,
   },
+  {
+    title: "Teams",
+    url: "/teams",
+    icon: Users,
+  },
+  {
+    title: "Tags",
+    url: "/tags",
+    icon: Tag,
+  },
   {
     title: "Orders",
     url: "/orders",
@@ -49,14 +60,19 @@ export function AppSidebar({ ...props }: React.ComponentProps<typeof Sidebar>) {
   const pathname = usePathname();
   const { data: session } = useSession();
 
-  // Determine which section should be active based on current route
-  const navMain = navMainData.map((item) => {
-    const isActive = pathname === item.url || pathname?.startsWith(item.url + "/");
-    return {
-      ...item,
-      isActive,
-    };
-  });
+  // Hide sections the user's role cannot open and mark the active one
+  const navMain = navMainData
+    .filter((item) => {
+      const permission = getRoutePermission(item.url);
+      return !permission || hasPermission(session?.user?.role, permission);
+    })
+    .map((item) => {
+      const isActive = pathname === item.url || pathname?.startsWith(item.url + "/");
+      return {
+        ...item,
+        isActive,
+      };
+    });
 
   const user = session?.user
     ? {
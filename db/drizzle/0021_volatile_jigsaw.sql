@@ -0,0 +1,29 @@
+CREATE TABLE "message_templates" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"whatsapp_account_id" integer NOT NULL,
+	"provider_template_id" text NOT NULL,
+	"name" text NOT NULL,
+	"language" text NOT NULL,
+	"category" text,
+	"status" text DEFAULT 'pending' NOT NULL,
+	"rejected_reason" text,
+	"components" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"variables" jsonb DEFAULT '[]'::jsonb NOT NULL,
+	"last_synced_at" timestamp with time zone,
+	"created_by" integer,
+	"updated_by" integer,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "template_id" integer;--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_whatsapp_account_id_whatsapp_accounts_id_fk" FOREIGN KEY ("whatsapp_account_id") REFERENCES "public"."whatsapp_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_templates" ADD CONSTRAINT "message_templates_updated_by_users_id_fk" FOREIGN KEY ("updated_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "message_templates_account_name_language_unique" ON "message_templates" USING btree ("whatsapp_account_id","name","language");--> statement-breakpoint
+CREATE INDEX "message_templates_company_account_status_idx" ON "message_templates" USING btree ("company_id","whatsapp_account_id","status");--> statement-breakpoint
+CREATE INDEX "message_templates_company_provider_id_idx" ON "message_templates" USING btree ("company_id","provider_template_id");--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_template_id_message_templates_id_fk" FOREIGN KEY ("template_id") REFERENCES "public"."message_templates"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "conversations" ADD COLUMN "last_inbound_at" timestamp with time zone;--> statement-breakpoint
+UPDATE "conversations" SET "last_inbound_at" = (
+	SELECT max("messages"."created_at") FROM "messages"
+	WHERE "messages"."conversation_id" = "conversations"."id" AND "messages"."direction" = 'inbound'
+);
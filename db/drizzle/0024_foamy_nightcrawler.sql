@@ -0,0 +1,17 @@
+CREATE TABLE "whatsapp_webhook_security_logs" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"whatsapp_account_id" integer NOT NULL,
+	"reason" text NOT NULL,
+	"signature" text,
+	"source_ip" text,
+	"user_agent" text,
+	"body_sha256" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_configs" ADD COLUMN "previous_app_secret" text;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_configs" ADD COLUMN "previous_app_secret_expires_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_security_logs" ADD CONSTRAINT "whatsapp_webhook_security_logs_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_security_logs" ADD CONSTRAINT "whatsapp_webhook_security_logs_whatsapp_account_id_whatsapp_accounts_id_fk" FOREIGN KEY ("whatsapp_account_id") REFERENCES "public"."whatsapp_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "whatsapp_webhook_security_logs_company_account_created_idx" ON "whatsapp_webhook_security_logs" USING btree ("company_id","whatsapp_account_id","created_at" DESC NULLS LAST);
\ No newline at end of file
@@ -0,0 +1,20 @@
+ALTER TABLE "whatsapp_webhook_configs" ADD COLUMN "verify_token" text;--> statement-breakpoint
+UPDATE "whatsapp_webhook_configs" SET
+	"verify_token" = replace(gen_random_uuid()::text, '-', '') || replace(gen_random_uuid()::text, '-', '');--> statement-breakpoint
+-- Legacy values were sometimes saved as full URLs or with a trailing slash; keep just the path.
+UPDATE "whatsapp_webhook_configs" SET
+	"callback_path" = regexp_replace(regexp_replace("callback_path", '^https?://[^/]+', ''), '/+$', '')
+WHERE "callback_path" ~ '^https?://' OR "callback_path" ~ './$';--> statement-breakpoint
+-- Existing callback paths are live in Meta, so paths this app routes are kept: the shared callback or one key under it.
+-- Anything else, and rows sharing a path with an older row, get a new key path; the shared callback keeps serving those.
+UPDATE "whatsapp_webhook_configs" AS "config" SET
+	"callback_path" = '/api/webhooks/whatsapp/' || replace(gen_random_uuid()::text, '-', '')
+WHERE "config"."callback_path" IS NULL
+	OR "config"."callback_path" !~ '^/api/webhooks/whatsapp(/[A-Za-z0-9_-]+)?$'
+	OR EXISTS (
+		SELECT 1 FROM "whatsapp_webhook_configs" AS "older"
+		WHERE "older"."callback_path" = "config"."callback_path" AND "older"."id" < "config"."id"
+	);--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_configs" ALTER COLUMN "verify_token" SET NOT NULL;--> statement-breakpoint
+CREATE UNIQUE INDEX "whatsapp_webhook_configs_callback_path_unique" ON "whatsapp_webhook_configs" USING btree ("callback_path");--> statement-breakpoint
+CREATE UNIQUE INDEX "whatsapp_webhook_configs_verify_token_unique" ON "whatsapp_webhook_configs" USING btree ("verify_token");
@@ -0,0 +1,7 @@
+ALTER TABLE "whatsapp_webhook_event_logs" ADD COLUMN "state" text DEFAULT 'pending' NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_event_logs" ADD COLUMN "attempt_count" integer DEFAULT 0 NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_event_logs" ADD COLUMN "last_error" text;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_event_logs" ADD COLUMN "last_attempt_at" timestamp with time zone;--> statement-breakpoint
+ALTER TABLE "whatsapp_webhook_event_logs" ADD COLUMN "failed_at" timestamp with time zone;--> statement-breakpoint
+CREATE INDEX "whatsapp_webhook_event_logs_company_account_state_ts_idx" ON "whatsapp_webhook_event_logs" USING btree ("company_id","whatsapp_account_id","state","event_ts" DESC NULLS LAST);--> statement-breakpoint
+UPDATE "whatsapp_webhook_event_logs" SET "state" = 'processed', "attempt_count" = 1 WHERE "processed" = true;
@@ -0,0 +1,5 @@
+ALTER TABLE "file_uploads" ALTER COLUMN "uploaded_by" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "file_uploads" ADD COLUMN "message_id" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "stored_media_url" text;--> statement-breakpoint
+ALTER TABLE "file_uploads" ADD CONSTRAINT "file_uploads_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "file_uploads_message_id_idx" ON "file_uploads" USING btree ("message_id");
\ No newline at end of file
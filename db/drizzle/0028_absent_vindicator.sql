@@ -0,0 +1,4 @@
+ALTER TABLE "messages" ADD COLUMN "message_type" text DEFAULT 'text' NOT NULL;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "content_payload" jsonb;--> statement-breakpoint
+UPDATE "messages" SET "message_type" = "media_type" WHERE "media_type" IN ('image', 'video', 'audio', 'document', 'sticker');--> statement-breakpoint
+UPDATE "messages" SET "message_type" = 'template' WHERE "template_id" IS NOT NULL;
@@ -0,0 +1,3 @@
+ALTER TABLE "messages" ADD COLUMN "reply_to_message_id" integer;--> statement-breakpoint
+ALTER TABLE "messages" ADD COLUMN "reply_to_provider_message_id" text;--> statement-breakpoint
+ALTER TABLE "messages" ADD CONSTRAINT "messages_reply_to_message_id_messages_id_fk" FOREIGN KEY ("reply_to_message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;
\ No newline at end of file
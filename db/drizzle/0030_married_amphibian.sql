@@ -0,0 +1,25 @@
+CREATE TABLE "message_reactions" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"message_id" integer NOT NULL,
+	"direction" text NOT NULL,
+	"emoji" text NOT NULL,
+	"provider_message_id" text,
+	"reacted_by" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone
+);
+--> statement-breakpoint
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_message_id_messages_id_fk" FOREIGN KEY ("message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "message_reactions" ADD CONSTRAINT "message_reactions_reacted_by_users_id_fk" FOREIGN KEY ("reacted_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "message_reactions_message_direction_unique" ON "message_reactions" USING btree ("message_id","direction");--> statement-breakpoint
+INSERT INTO "message_reactions" ("company_id", "message_id", "direction", "emoji", "provider_message_id", "created_at")
+SELECT "company_id", "target_id", 'inbound', "emoji", "provider_message_id", "created_at" FROM (
+	SELECT DISTINCT ON (t."id") r."company_id", t."id" AS "target_id", r."content_payload"->>'emoji' AS "emoji", r."provider_message_id", r."created_at"
+	FROM "messages" r
+	JOIN "messages" t ON t."company_id" = r."company_id" AND t."provider_message_id" = r."content_payload"->>'targetMessageId'
+	WHERE r."message_type" = 'reaction'
+	ORDER BY t."id", r."created_at" DESC
+) "latest" WHERE "emoji" IS NOT NULL;--> statement-breakpoint
+UPDATE "messages" SET "is_active" = false WHERE "message_type" = 'reaction';
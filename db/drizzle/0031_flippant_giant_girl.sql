@@ -0,0 +1,2 @@
+ALTER TABLE "whatsapp_accounts" ADD COLUMN "send_read_receipts" boolean DEFAULT true NOT NULL;--> statement-breakpoint
+ALTER TABLE "whatsapp_accounts" ADD COLUMN "send_typing_indicator" boolean DEFAULT false NOT NULL;
\ No newline at end of file
@@ -0,0 +1,25 @@
+CREATE TABLE "conversation_reads" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"conversation_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"last_read_message_id" integer,
+	"last_read_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_conversation_id_conversations_id_fk" FOREIGN KEY ("conversation_id") REFERENCES "public"."conversations"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "conversation_reads" ADD CONSTRAINT "conversation_reads_last_read_message_id_messages_id_fk" FOREIGN KEY ("last_read_message_id") REFERENCES "public"."messages"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "conversation_reads_conversation_user_unique" ON "conversation_reads" USING btree ("conversation_id","user_id");--> statement-breakpoint
+-- Webhook traffic never counted as unread; treat inbound messages after the last reply as unread
+UPDATE "conversations" AS c SET "unread_count" = (
+	SELECT count(*) FROM "messages" AS m
+	WHERE m."conversation_id" = c."id"
+		AND m."direction" = 'inbound'
+		AND m."is_active" = true
+		AND m."id" > coalesce((
+			SELECT max(o."id") FROM "messages" AS o
+			WHERE o."conversation_id" = c."id" AND o."direction" = 'outbound'
+		), 0)
+);
@@ -0,0 +1,15 @@
+CREATE TABLE "user_whatsapp_account_access" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"company_id" integer NOT NULL,
+	"user_id" integer NOT NULL,
+	"whatsapp_account_id" integer NOT NULL,
+	"created_by" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "user_whatsapp_account_access" ADD CONSTRAINT "user_whatsapp_account_access_company_id_companies_id_fk" FOREIGN KEY ("company_id") REFERENCES "public"."companies"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_whatsapp_account_access" ADD CONSTRAINT "user_whatsapp_account_access_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_whatsapp_account_access" ADD CONSTRAINT "user_whatsapp_account_access_whatsapp_account_id_whatsapp_accounts_id_fk" FOREIGN KEY ("whatsapp_account_id") REFERENCES "public"."whatsapp_accounts"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "user_whatsapp_account_access" ADD CONSTRAINT "user_whatsapp_account_access_created_by_users_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."users"("id") ON DELETE no action ON UPDATE no action;--> statement-breakpoint
+CREATE UNIQUE INDEX "user_whatsapp_account_access_user_account_unique" ON "user_whatsapp_account_access" USING btree ("user_id","whatsapp_account_id");--> statement-breakpoint
+CREATE INDEX "user_whatsapp_account_access_company_user_idx" ON "user_whatsapp_account_access" USING btree ("company_id","user_id");
\ No newline at end of file
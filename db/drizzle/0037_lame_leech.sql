@@ -0,0 +1 @@
+ALTER TABLE "messages" ADD COLUMN "send_request" jsonb;
\ No newline at end of file
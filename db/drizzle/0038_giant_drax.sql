@@ -0,0 +1 @@
+ALTER TABLE "audit_logs" ALTER COLUMN "changed_by" DROP NOT NULL;
\ No newline at end of file
@@ -0,0 +1,73 @@
+import "dotenv/config";
+import { drizzle } from "drizzle-orm/node-postgres";
+import { and, eq } from "drizzle-orm";
+import { Pool } from "pg";
+import { whatsappAccountsTable, whatsappWebhookConfigsTable } from "./schema";
+import { reEncryptSecret } from "../lib/secret-encryption";
+
+// Data migration for secrets stored before encryption at rest: encrypts plain
+// text access tokens and webhook app secrets with the current key from
+// SECRET_ENCRYPTION_KEYS. Safe to re-run; values already on the current key
+// are left alone. `npm run db:migrate` runs it after the schema migrations;
+// plain text secrets cannot be read until it has run.
+
+const pool = new Pool({
+    connectionString: process.env.DATABASE_URL,
+});
+
+const db = drizzle(pool);
+
+async function encryptSecrets() {
+    let accounts = 0;
+    const accountRows = await db
+        .select({ id: whatsappAccountsTable.id, accessToken: whatsappAccountsTable.accessToken })
+        .from(whatsappAccountsTable);
+
+    for (const row of accountRows) {
+        const accessToken = reEncryptSecret(row.accessToken);
+        if (!accessToken) continue;
+
+        await db
+            .update(whatsappAccountsTable)
+            .set({ accessToken })
+            .where(and(eq(whatsappAccountsTable.id, row.id), eq(whatsappAccountsTable.accessToken, row.accessToken)));
+        accounts++;
+    }
+
+    let configs = 0;
+    const configRows = await db
+        .select({
+            id: whatsappWebhookConfigsTable.id,
+            appSecret: whatsappWebhookConfigsTable.appSecret,
+            previousAppSecret: whatsappWebhookConfigsTable.previousAppSecret,
+        })
+        .from(whatsappWebhookConfigsTable);
+
+    for (const row of configRows) {
+        const appSecret = reEncryptSecret(row.appSecret);
+        const previousAppSecret = row.previousAppSecret ? reEncryptSecret(row.previousAppSecret) : null;
+        if (!appSecret && !previousAppSecret) continue;
+
+        await db
+            .update(whatsappWebhookConfigsTable)
+            .set({
+                ...(appSecret ? { appSecret } : {}),
+                ...(previousAppSecret ? { previousAppSecret } : {}),
+            })
+            .where(
+                and(
+                    eq(whatsappWebhookConfigsTable.id, row.id),
+                    eq(whatsappWebhookConfigsTable.appSecret, row.appSecret)
+                )
+            );
+        configs++;
+    }
+
+    console.log(`Encrypted ${accounts} access tokens and ${configs} webhook configs`);
+    await pool.end();
+}
+
+encryptSecrets().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -24,6 +24,8 @@ export const usersTable = pgTable("users", {
     isActive: boolean("is_active").notNull().default(true),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
     startDateTime: timestamp("start_date_time", { withTimezone: true }).defaultNow().notNull(),
+    // Refreshed while the user has the inbox open; drives "online only" team routing
+    lastSeenAt: timestamp("last_seen_at", { withTimezone: true }),
     updatedAt: timestamp("updated_at", { withTimezone: true }),
 }, (table) => [
     // Primary query index: company_id
@@ -69,9 +71,10 @@ export const auditLogsTable = pgTable("audit_logs", {
     action: text("action").notNull(),
     oldValues: jsonb("old_values"),
     newValues: jsonb("new_values"),
-    // Track auditing users - use explicit type cast to avoid circular reference
+    // Track auditing users - use explicit type cast to avoid circular reference.
+    // Null for changes the system makes on its own, such as automatic assignment
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    changedBy: integer("changed_by").references((): any => usersTable.id).notNull(),
+    changedBy: integer("changed_by").references((): any => usersTable.id),
     changeReason: text("change_reason"),
     createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
 }, (table) => [
@@ -111,9 +114,13 @@ export const whatsappAccountsTable = pgTable("whatsapp_accounts", {
     name: text("name").notNull(), // Human-friendly account name
     phoneNumberId: text("phone_number_id").notNull(),
     businessAccountId: text("business_account_id").notNull(),
-    accessToken: text("access_token").notNull(), // Store encrypted in production
+    accessToken: text("access_token").notNull(), // Encrypted with lib/secret-encryption
     isActive: boolean("is_active").notNull().default(true),
     isDefault: boolean("is_default").notNull().default(false),
+    // Blue ticks sent to customers when an agent opens their conversation
+    sendReadReceipts: boolean("send_read_receipts").notNull().default(true),
+    // Typing bubble shown to customers while an agent composes; needs read receipts
+    sendTypingIndicator: boolean("send_typing_indicator").notNull().default(false),
     // Track auditing users - use explicit type cast to avoid circular reference
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     createdBy: integer("created_by").references((): any => usersTable.id),
@@ -158,6 +165,80 @@ export const whatsappAccountsTable = pgTable("whatsapp_accounts", {
         .on(table.companyId.asc(), table.businessAccountId.asc()),
 ]);
 
+// WhatsApp accounts an agent works; their inbox shows every conversation on these
+// accounts. Roles with `conversations.viewAll` ignore this list.
+export const userWhatsappAccountAccessTable = pgTable("user_whatsapp_account_access", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    userId: integer("user_id").references(() => usersTable.id).notNull(),
+    whatsappAccountId: integer("whatsapp_account_id").references(() => whatsappAccountsTable.id).notNull(),
+    createdBy: integer("created_by").references(() => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("user_whatsapp_account_access_user_account_unique")
+        .on(table.userId.asc(), table.whatsappAccountId.asc()),
+
+    index("user_whatsapp_account_access_company_user_idx")
+        .on(table.companyId.asc(), table.userId.asc()),
+]);
+
+// Teams (e.g. Sales, Support) that new conversations are routed to. A team's
+// queue is its unassigned conversations; `assignmentStrategy` decides whether a
+// member is picked automatically when a conversation is created.
+export const teamsTable = pgTable("teams", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    name: text("name").notNull(),
+    // manual | round_robin | least_open
+    assignmentStrategy: text("assignment_strategy").notNull().default("manual"),
+    // Only pick members whose inbox is open right now
+    onlineOnly: boolean("online_only").notNull().default(false),
+    // Round-robin cursor
+    lastAssignedUserId: integer("last_assigned_user_id").references(() => usersTable.id),
+    isActive: boolean("is_active").notNull().default(true),
+    createdBy: integer("created_by").references(() => usersTable.id),
+    updatedBy: integer("updated_by").references(() => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }),
+}, (table) => [
+    uniqueIndex("teams_company_name_unique")
+        .on(table.companyId.asc(), table.name.asc()),
+
+    index("teams_company_is_active_idx")
+        .on(table.companyId.asc(), table.isActive.asc()),
+]);
+
+export const teamMembersTable = pgTable("team_members", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    teamId: integer("team_id").references(() => teamsTable.id).notNull(),
+    userId: integer("user_id").references(() => usersTable.id).notNull(),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("team_members_team_user_unique")
+        .on(table.teamId.asc(), table.userId.asc()),
+
+    index("team_members_company_user_idx")
+        .on(table.companyId.asc(), table.userId.asc()),
+]);
+
+// Routes a new conversation to a team, either by the receiving WhatsApp account
+// or by a keyword in the first message. Keyword rules win over account rules.
+export const teamRoutingRulesTable = pgTable("team_routing_rules", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    teamId: integer("team_id").references(() => teamsTable.id).notNull(),
+    whatsappAccountId: integer("whatsapp_account_id").references(() => whatsappAccountsTable.id),
+    keyword: text("keyword"),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    index("team_routing_rules_company_idx")
+        .on(table.companyId.asc()),
+
+    index("team_routing_rules_team_idx")
+        .on(table.teamId.asc()),
+]);
+
 // Contacts Table
 export const contactsTable = pgTable("contacts", {
     id: serial("id").primaryKey(),
@@ -201,10 +282,19 @@ export const conversationsTable = pgTable("conversations", {
     lastMessageId: integer("last_message_id"),
     lastMessagePreview: text("last_message_preview"),
     lastMessageTime: timestamp("last_message_time", { withTimezone: true }),
+    // Last customer message; opens the 24-hour customer service window
+    lastInboundAt: timestamp("last_inbound_at", { withTimezone: true }),
+    // Inbound messages the assignee (or, while unassigned, anyone) has not read yet
     unreadCount: integer("unread_count").notNull().default(0),
     isFavorite: boolean("is_favorite").notNull().default(false),
     isArchived: boolean("is_archived").notNull().default(false),
+    // open | pending (waiting on the customer) | snoozed | resolved; inbound messages reopen it
+    status: text("status").notNull().default("open"),
+    // Set while snoozed; the wake-snoozed-conversations job reopens it after this
+    snoozedUntil: timestamp("snoozed_until", { withTimezone: true }),
     assignedToUserId: integer("assigned_to_user_id").references(() => usersTable.id),
+    // Team queue the conversation was routed to; unassigned ones are visible to its members
+    teamId: integer("team_id").references(() => teamsTable.id),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     createdBy: integer("created_by").references((): any => usersTable.id),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -237,11 +327,71 @@ export const conversationsTable = pgTable("conversations", {
     index("conversations_assigned_to_user_company_idx")
         .on(table.assignedToUserId.asc(), table.companyId.asc()),
 
+    // Team queues
+    index("conversations_company_team_idx")
+        .on(table.companyId.asc(), table.teamId.asc()),
+
+    // Filter by status
+    index("conversations_company_status_idx")
+        .on(table.companyId.asc(), table.status.asc()),
+
+    // Snoozed conversations due to wake up
+    index("conversations_snoozed_until_idx")
+        .on(table.snoozedUntil.asc())
+        .where(sql`${table.status} = 'snoozed'`),
+
     // Composite index for cursor pagination
     index("conversations_company_last_message_time_id_idx")
         .on(table.companyId.asc(), table.lastMessageTime.desc(), table.id.asc()),
 ]);
 
+// Company-defined tags. The same tag can label contacts (the customer) and
+// conversations (a single thread).
+export const tagsTable = pgTable("tags", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    name: text("name").notNull(),
+    // One of TAG_COLORS in features/tags
+    color: text("color").notNull(),
+    createdBy: integer("created_by").references(() => usersTable.id),
+    updatedBy: integer("updated_by").references(() => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }),
+}, (table) => [
+    uniqueIndex("tags_company_name_unique")
+        .on(table.companyId.asc(), table.name.asc()),
+]);
+
+export const contactTagsTable = pgTable("contact_tags", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    contactId: integer("contact_id").references(() => contactsTable.id).notNull(),
+    tagId: integer("tag_id").references(() => tagsTable.id).notNull(),
+    createdBy: integer("created_by").references(() => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("contact_tags_contact_tag_unique")
+        .on(table.contactId.asc(), table.tagId.asc()),
+
+    index("contact_tags_company_tag_idx")
+        .on(table.companyId.asc(), table.tagId.asc()),
+]);
+
+export const conversationTagsTable = pgTable("conversation_tags", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    conversationId: integer("conversation_id").references(() => conversationsTable.id).notNull(),
+    tagId: integer("tag_id").references(() => tagsTable.id).notNull(),
+    createdBy: integer("created_by").references(() => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("conversation_tags_conversation_tag_unique")
+        .on(table.conversationId.asc(), table.tagId.asc()),
+
+    index("conversation_tags_company_tag_idx")
+        .on(table.companyId.asc(), table.tagId.asc()),
+]);
+
 export const messagesTable = pgTable("messages", {
     id: serial("id").primaryKey(),
     conversationId: integer("conversation_id").references(() => conversationsTable.id).notNull(),
@@ -251,15 +401,33 @@ export const messagesTable = pgTable("messages", {
     direction: text("direction").notNull(),
     status: text("status").notNull().default("sending"),
     content: text("content").notNull(),
+    // WhatsApp message type; structured details live in `contentPayload`
+    messageType: text("message_type").notNull().default("text"),
+    contentPayload: jsonb("content_payload"),
     mediaUrl: text("media_url"),
     mediaType: text("media_type"),
     mediaId: text("media_id"),
     mediaMimeType: text("media_mime_type"),
     mediaCaption: text("media_caption"),
+    // Copy of inbound media kept in UploadThing; Meta's media URLs expire
+    storedMediaUrl: text("stored_media_url"),
     providerMessageId: text("provider_message_id"),
     providerStatus: text("provider_status"),
+    // Quoted message; the provider id is kept when the quoted message is not stored locally
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    replyToMessageId: integer("reply_to_message_id").references((): any => messagesTable.id),
+    replyToProviderMessageId: text("reply_to_provider_message_id"),
     errorCode: text("error_code"),
     errorMessage: text("error_message"),
+    // Delivery receipts reported by status webhooks
+    sentAt: timestamp("sent_at", { withTimezone: true }),
+    deliveredAt: timestamp("delivered_at", { withTimezone: true }),
+    readAt: timestamp("read_at", { withTimezone: true }),
+    failedAt: timestamp("failed_at", { withTimezone: true }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    templateId: integer("template_id").references((): any => messageTemplatesTable.id),
+    // Outbound only: the WhatsApp request the message was queued with, replayed on retry
+    sendRequest: jsonb("send_request"),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     createdBy: integer("created_by").references((): any => usersTable.id),
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -300,7 +468,7 @@ export const conversationRelations = relations(conversationsTable, ({ one }) =>
   }),
 }));
 
-export const messageRelations = relations(messagesTable, ({ one }) => ({
+export const messageRelations = relations(messagesTable, ({ one, many }) => ({
   conversation: one(conversationsTable, {
     fields: [messagesTable.conversationId],
     references: [conversationsTable.id],
@@ -309,8 +477,53 @@ export const messageRelations = relations(messagesTable, ({ one }) => ({
     fields: [messagesTable.contactId],
     references: [contactsTable.id],
   }),
+  replyTo: one(messagesTable, {
+    fields: [messagesTable.replyToMessageId],
+    references: [messagesTable.id],
+  }),
+  reactions: many(messageReactionsTable),
 }));
 
+// Emoji reactions. WhatsApp keeps one reaction per sender and message, so there is
+// at most one customer ("inbound") and one business ("outbound") row per message.
+export const messageReactionsTable = pgTable("message_reactions", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    messageId: integer("message_id").references(() => messagesTable.id).notNull(),
+    direction: text("direction").notNull(),
+    emoji: text("emoji").notNull(),
+    // Provider id of the reaction message itself
+    providerMessageId: text("provider_message_id"),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    reactedBy: integer("reacted_by").references((): any => usersTable.id),
+    createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+    updatedAt: timestamp("updated_at", { withTimezone: true }),
+}, (table) => [
+    uniqueIndex("message_reactions_message_direction_unique")
+        .on(table.messageId.asc(), table.direction.asc()),
+]);
+
+export const messageReactionRelations = relations(messageReactionsTable, ({ one }) => ({
+  message: one(messagesTable, {
+    fields: [messageReactionsTable.messageId],
+    references: [messagesTable.id],
+  }),
+}));
+
+// Per-agent read position; agents without a row fall back to the shared `unreadCount`
+export const conversationReadsTable = pgTable("conversation_reads", {
+    id: serial("id").primaryKey(),
+    companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+    conversationId: integer("conversation_id").references(() => conversationsTable.id).notNull(),
+    userId: integer("user_id").references(() => usersTable.id).notNull(),
+    // Newest message of the conversation when the agent last read it
+    lastReadMessageId: integer("last_read_message_id").references(() => messagesTable.id),
+    lastReadAt: timestamp("last_read_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+    uniqueIndex("conversation_reads_conversation_user_unique")
+        .on(table.conversationId.asc(), table.userId.asc()),
+]);
+
 // Conversation Notes Table
 export const conversationNotesTable = pgTable("conversation_notes", {
     // Primary key
@@ -385,8 +598,13 @@ export const whatsappWebhookConfigsTable = pgTable("whatsapp_webhook_configs", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companiesTable.id).notNull(),
   whatsappAccountId: integer("whatsapp_account_id").references(() => whatsappAccountsTable.id).notNull(),
-  appSecret: text("app_secret").notNull(),
+  appSecret: text("app_secret").notNull(), // Encrypted with lib/secret-encryption
+  // Still accepted for signatures until it expires, so Meta can be switched over without dropping events
+  previousAppSecret: text("previous_app_secret"),
+  previousAppSecretExpiresAt: timestamp("previous_app_secret_expires_at", { withTimezone: true }),
   callbackPath: text("callback_path").notNull(),
+  // Echoed back by Meta during the subscription handshake
+  verifyToken: text("verify_token").notNull(),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   createdBy: integer("created_by").references((): any => usersTable.id),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -397,6 +615,10 @@ export const whatsappWebhookConfigsTable = pgTable("whatsapp_webhook_configs", {
 }, (table) => [
   uniqueIndex("whatsapp_webhook_configs_company_account_unique")
     .on(table.companyId.asc(), table.whatsappAccountId.asc()),
+  uniqueIndex("whatsapp_webhook_configs_callback_path_unique")
+    .on(table.callbackPath.asc()),
+  uniqueIndex("whatsapp_webhook_configs_verify_token_unique")
+    .on(table.verifyToken.asc()),
 ]);
 
 export const whatsappWebhookEventLogsTable = pgTable("whatsapp_webhook_event_logs", {
@@ -411,6 +633,12 @@ export const whatsappWebhookEventLogsTable = pgTable("whatsapp_webhook_event_log
   dedupKey: text("dedup_key").notNull(),
   processed: boolean("processed").notNull().default(false),
   processedAt: timestamp("processed_at", { withTimezone: true }),
+  // pending -> processed, or failed once retries are exhausted (dead letter)
+  state: text("state").notNull().default("pending"),
+  attemptCount: integer("attempt_count").notNull().default(0),
+  lastError: text("last_error"),
+  lastAttemptAt: timestamp("last_attempt_at", { withTimezone: true }),
+  failedAt: timestamp("failed_at", { withTimezone: true }),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   createdBy: integer("created_by").references((): any => usersTable.id),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -421,16 +649,35 @@ export const whatsappWebhookEventLogsTable = pgTable("whatsapp_webhook_event_log
 }, (table) => [
   uniqueIndex("whatsapp_webhook_event_logs_company_dedup_unique")
     .on(table.companyId.asc(), table.dedupKey.asc()),
+  index("whatsapp_webhook_event_logs_company_account_state_ts_idx")
+    .on(table.companyId.asc(), table.whatsappAccountId.asc(), table.state.asc(), table.eventTs.desc()),
   index("whatsapp_webhook_event_logs_company_account_processed_ts_idx")
     .on(table.companyId.asc(), table.whatsappAccountId.asc(), table.processed.asc(), table.eventTs.desc()),
   index("whatsapp_webhook_event_logs_payload_gin_idx")
     .using("gin", table.payload),
 ]);
 
+export const whatsappWebhookSecurityLogsTable = pgTable("whatsapp_webhook_security_logs", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+  whatsappAccountId: integer("whatsapp_account_id").references(() => whatsappAccountsTable.id).notNull(),
+  reason: text("reason").notNull(),
+  signature: text("signature"),
+  sourceIp: text("source_ip"),
+  userAgent: text("user_agent"),
+  bodySha256: text("body_sha256"),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+}, (table) => [
+  index("whatsapp_webhook_security_logs_company_account_created_idx")
+    .on(table.companyId.asc(), table.whatsappAccountId.asc(), table.createdAt.desc()),
+]);
+
 export const fileUploadsTable = pgTable("file_uploads", {
   id: serial("id").primaryKey(),
   companyId: integer("company_id").references(() => companiesTable.id).notNull(),
   conversationId: integer("conversation_id").references(() => conversationsTable.id).notNull(),
+  // Set for inbound media downloaded from WhatsApp
+  messageId: integer("message_id").references(() => messagesTable.id),
   fileKey: text("file_key").notNull(),
   fileName: text("file_name").notNull(),
   fileUrl: text("file_url").notNull(),
@@ -438,11 +685,12 @@ export const fileUploadsTable = pgTable("file_uploads", {
   fileType: text("file_type").notNull(),
   mimeType: text("mime_type").notNull(),
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  uploadedBy: integer("uploaded_by").references((): any => usersTable.id).notNull(),
+  uploadedBy: integer("uploaded_by").references((): any => usersTable.id),
   createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
   updatedAt: timestamp("updated_at", { withTimezone: true }),
 }, (table) => [
   index("file_uploads_company_id_idx").on(table.companyId.asc()),
+  index("file_uploads_message_id_idx").on(table.messageId.asc()),
   uniqueIndex("file_uploads_file_key_unique").on(table.fileKey.asc()),
   index("file_uploads_conversation_id_idx").on(table.conversationId.asc()),
   index("file_uploads_uploaded_by_idx").on(table.uploadedBy.asc()),
@@ -459,6 +707,10 @@ export const fileUploadRelations = relations(fileUploadsTable, ({ one }) => ({
     fields: [fileUploadsTable.conversationId],
     references: [conversationsTable.id],
   }),
+  message: one(messagesTable, {
+    fields: [fileUploadsTable.messageId],
+    references: [messagesTable.id],
+  }),
   uploader: one(usersTable, {
     fields: [fileUploadsTable.uploadedBy],
     references: [usersTable.id],
@@ -516,3 +768,44 @@ export const orderRelations = relations(ordersTable, ({ one }) => ({
   }),
 }));
 
+
+// Message templates synced from the WhatsApp Business Account of each number
+export const messageTemplatesTable = pgTable("message_templates", {
+  id: serial("id").primaryKey(),
+  companyId: integer("company_id").references(() => companiesTable.id).notNull(),
+  whatsappAccountId: integer("whatsapp_account_id").references(() => whatsappAccountsTable.id).notNull(),
+  providerTemplateId: text("provider_template_id").notNull(),
+  name: text("name").notNull(),
+  language: text("language").notNull(),
+  category: text("category"),
+  status: text("status").notNull().default("pending"),
+  rejectedReason: text("rejected_reason"),
+  components: jsonb("components").notNull().default([]),
+  variables: jsonb("variables").notNull().default([]),
+  lastSyncedAt: timestamp("last_synced_at", { withTimezone: true }),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  createdBy: integer("created_by").references((): any => usersTable.id),
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  updatedBy: integer("updated_by").references((): any => usersTable.id),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).defaultNow().notNull(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }),
+}, (table) => [
+  uniqueIndex("message_templates_account_name_language_unique")
+    .on(table.whatsappAccountId.asc(), table.name.asc(), table.language.asc()),
+  index("message_templates_company_account_status_idx")
+    .on(table.companyId.asc(), table.whatsappAccountId.asc(), table.status.asc()),
+  index("message_templates_company_provider_id_idx")
+    .on(table.companyId.asc(), table.providerTemplateId.asc()),
+]);
+
+export const messageTemplateRelations = relations(messageTemplatesTable, ({ one }) => ({
+  company: one(companiesTable, {
+    fields: [messageTemplatesTable.companyId],
+    references: [companiesTable.id],
+  }),
+  whatsappAccount: one(whatsappAccountsTable, {
+    fields: [messageTemplatesTable.whatsappAccountId],
+    references: [whatsappAccountsTable.id],
+  }),
+}));
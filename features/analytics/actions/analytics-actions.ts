@@ -25,7 +25,7 @@ export const listAccountAnalyticsAction = withAction<AccountAnalyticsListInput,
 
     return Result.ok(result.data, "Analytics loaded");
   },
-  { schema: accountAnalyticsListSchema }
+  { schema: accountAnalyticsListSchema, permission: "analytics.view" }
 );
 
 export const getAccountAnalyticsAction = withAction<AccountAnalyticsGetInput, AccountAnalyticsDetail>(
@@ -39,5 +39,5 @@ export const getAccountAnalyticsAction = withAction<AccountAnalyticsGetInput, Ac
 
     return Result.ok(result.data, "Account analytics loaded");
   },
-  { schema: accountAnalyticsGetSchema }
+  { schema: accountAnalyticsGetSchema, permission: "analytics.view" }
 );
@@ -39,7 +39,7 @@ export default function SignInForm() {
       onSuccess: () => {
         toast.success("Signed in successfully");
         // Redirect to dashboard after successful login
-        router.push("/users");
+        router.push("/conversations");
       },
       onError: (error: Error) => {
         toast.error(error.message || "Something went wrong");
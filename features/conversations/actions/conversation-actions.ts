@@ -13,6 +13,9 @@ import {
   deleteConversationClientSchema,
   archiveConversationClientSchema,
   assignConversationClientSchema,
+  updateConversationStatusClientSchema,
+  updatePresenceClientSchema,
+  sendTypingIndicatorClientSchema,
   conversationListOutputSchema,
   messageListOutputSchema,
   getWhatsAppMessageHistorySchema,
@@ -25,6 +28,10 @@ import {
   type DeleteConversationInput,
   type ArchiveConversationInput,
   type AssignConversationInput,
+  type UpdateConversationStatusInput,
+  type UpdatePresenceInput,
+  type SendTypingIndicatorInput,
+  type UnreadCountsResponse,
   type ConversationListOutput,
   type MessageListOutput,
   type ConversationResponse,
@@ -35,13 +42,13 @@ import {
 export const listConversationsAction = withAction<ConversationListFilter, ConversationListOutput>(
   'conversations.list',
   async (auth, filter) => {
-    const result = await ConversationService.listConversations(auth.companyId, filter);
+    const result = await ConversationService.listConversations(auth.companyId, auth, filter);
     if (!result.isOk) return result;
 
     const validated = conversationListOutputSchema.parse(result.data);
     return Result.ok(validated, 'Conversations loaded');
   },
-  { schema: conversationFilterSchema }
+  { schema: conversationFilterSchema, permission: 'conversations.view' }
 );
 
 export const getConversationMessagesAction = withAction<GetMessagesInput, MessageListOutput>(
@@ -50,6 +57,7 @@ export const getConversationMessagesAction = withAction<GetMessagesInput, Messag
     const result = await ConversationService.getConversationMessages(
       input.conversationId,
       auth.companyId,
+      auth,
       input.cursor,
       input.limit
     );
@@ -58,7 +66,7 @@ export const getConversationMessagesAction = withAction<GetMessagesInput, Messag
     const validated = messageListOutputSchema.parse(result.data);
     return Result.ok(validated, 'Messages loaded');
   },
-  { schema: getMessagesSchema }
+  { schema: getMessagesSchema, permission: 'conversations.view' }
 );
 
 export const getConversationAction = withAction<GetConversationInput, ConversationResponse>(
@@ -66,13 +74,14 @@ export const getConversationAction = withAction<GetConversationInput, Conversati
   async (auth, input) => {
     const result = await ConversationService.getConversation(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Conversation loaded');
   },
-  { schema: getConversationSchema }
+  { schema: getConversationSchema, permission: 'conversations.view' }
 );
 
 export const updateContactNameAction = withAction<UpdateContactNameInput, ContactResponse>(
@@ -81,13 +90,14 @@ export const updateContactNameAction = withAction<UpdateContactNameInput, Contac
     const result = await ConversationService.updateContactName(
       input.contactId,
       auth.companyId,
-      input.name
+      input.name,
+      auth
     );
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Contact name updated');
   },
-  { schema: updateContactNameSchema }
+  { schema: updateContactNameSchema, permission: 'contacts.update' }
 );
 
 export const markConversationAsReadAction = withAction<MarkAsReadInput, void>(
@@ -95,10 +105,19 @@ export const markConversationAsReadAction = withAction<MarkAsReadInput, void>(
   async (auth, input) => {
     return await ConversationService.markConversationAsRead(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
   },
-  { schema: markAsReadClientSchema }
+  { schema: markAsReadClientSchema, permission: 'conversations.view' }
+);
+
+export const getUnreadCountsAction = withAction<void, UnreadCountsResponse>(
+  'conversations.unreadCounts',
+  async (auth) => {
+    return await ConversationService.getUnreadCounts(auth.companyId, auth);
+  },
+  { permission: 'conversations.view' }
 );
 
 export const assignConversationToUserAction = withAction<AssignConversationInput, void>(
@@ -107,10 +126,46 @@ export const assignConversationToUserAction = withAction<AssignConversationInput
     return await ConversationService.assignConversationToUser(
       input.conversationId,
       auth.companyId,
-      input.userId
+      input.userId,
+      auth
+    );
+  },
+  { schema: assignConversationClientSchema, permission: 'conversations.assign' }
+);
+
+export const updateConversationStatusAction = withAction<UpdateConversationStatusInput, void>(
+  'conversations.updateStatus',
+  async (auth, input) => {
+    return await ConversationService.updateConversationStatus(
+      input.conversationId,
+      auth.companyId,
+      auth,
+      input.status,
+      input.snoozedUntil
     );
   },
-  { schema: assignConversationClientSchema }
+  { schema: updateConversationStatusClientSchema, permission: 'conversations.reply' }
+);
+
+export const updatePresenceAction = withAction<UpdatePresenceInput, void>(
+  'conversations.updatePresence',
+  async (auth, input) => {
+    return await ConversationService.updatePresence(
+      input.conversationId,
+      auth.companyId,
+      auth,
+      input.state
+    );
+  },
+  { schema: updatePresenceClientSchema, permission: 'conversations.view' }
+);
+
+export const sendTypingIndicatorAction = withAction<SendTypingIndicatorInput, { sent: boolean }>(
+  'conversations.sendTypingIndicator',
+  async (auth, input) => {
+    return await ConversationService.sendTypingIndicator(input.conversationId, auth.companyId, auth);
+  },
+  { schema: sendTypingIndicatorClientSchema, permission: 'conversations.reply' }
 );
 
 export const clearConversationAction = withAction<ClearConversationInput, void>(
@@ -118,10 +173,11 @@ export const clearConversationAction = withAction<ClearConversationInput, void>(
   async (auth, input) => {
     return await ConversationService.clearConversation(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
   },
-  { schema: clearConversationClientSchema }
+  { schema: clearConversationClientSchema, permission: 'conversations.delete' }
 );
 
 export const deleteConversationAction = withAction<DeleteConversationInput, void>(
@@ -129,10 +185,11 @@ export const deleteConversationAction = withAction<DeleteConversationInput, void
   async (auth, input) => {
     return await ConversationService.deleteConversation(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
   },
-  { schema: deleteConversationClientSchema }
+  { schema: deleteConversationClientSchema, permission: 'conversations.delete' }
 );
 
 export const archiveConversationAction = withAction<ArchiveConversationInput, void>(
@@ -140,10 +197,11 @@ export const archiveConversationAction = withAction<ArchiveConversationInput, vo
   async (auth, input) => {
     return await ConversationService.archiveConversation(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
   },
-  { schema: archiveConversationClientSchema }
+  { schema: archiveConversationClientSchema, permission: 'conversations.archive' }
 );
 
 export const unarchiveConversationAction = withAction<ArchiveConversationInput, void>(
@@ -151,10 +209,11 @@ export const unarchiveConversationAction = withAction<ArchiveConversationInput,
   async (auth, input) => {
     return await ConversationService.unarchiveConversation(
       input.conversationId,
-      auth.companyId
+      auth.companyId,
+      auth
     );
   },
-  { schema: archiveConversationClientSchema }
+  { schema: archiveConversationClientSchema, permission: 'conversations.archive' }
 );
 
 export const getWhatsAppMessageHistoryAction = withAction<GetWhatsAppMessageHistoryInput, unknown>(
@@ -171,5 +230,5 @@ export const getWhatsAppMessageHistoryAction = withAction<GetWhatsAppMessageHist
 
     return Result.ok(result.data, 'WhatsApp message history loaded');
   },
-  { schema: getWhatsAppMessageHistorySchema }
+  { schema: getWhatsAppMessageHistorySchema, permission: 'conversations.view' }
 );
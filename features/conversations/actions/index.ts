@@ -3,7 +3,11 @@ export { getConversationMessagesAction } from './conversation-actions';
 export { getConversationAction } from './conversation-actions';
 export { updateContactNameAction } from './conversation-actions';
 export { markConversationAsReadAction } from './conversation-actions';
+export { getUnreadCountsAction } from './conversation-actions';
 export { assignConversationToUserAction } from './conversation-actions';
+export { updateConversationStatusAction } from './conversation-actions';
+export { updatePresenceAction } from './conversation-actions';
+export { sendTypingIndicatorAction } from './conversation-actions';
 export { clearConversationAction } from './conversation-actions';
 export { deleteConversationAction } from './conversation-actions';
 export { archiveConversationAction } from './conversation-actions';
@@ -11,6 +15,7 @@ export { unarchiveConversationAction } from './conversation-actions';
 export { getWhatsAppMessageHistoryAction } from './conversation-actions';
 export { sendNewMessageAction } from './message-actions';
 export { retryFailedMessageAction } from './message-actions';
+export { reactToMessageAction } from './message-actions';
 export { createConversationNoteAction } from './note-actions';
 export { updateConversationNoteAction } from './note-actions';
 export { deleteConversationNoteAction } from './note-actions';
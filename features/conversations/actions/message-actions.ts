@@ -9,10 +9,14 @@ import {
   sendNewMessageClientSchema,
   sendNewMessageOutputSchema,
   sendMessageWithImageClientSchema,
+  reactToMessageClientSchema,
+  reactToMessageOutputSchema,
   fileUploadResponseSchema,
   type SendNewMessageInput,
   type SendNewMessageOutput,
   type SendMessageWithImageInput,
+  type ReactToMessageInput,
+  type ReactToMessageOutput,
   type FileUploadResponse,
 } from '../schemas/conversation-schema';
 
@@ -25,13 +29,13 @@ export const sendNewMessageAction = withAction<SendNewMessageInput | SendMessage
       userId: auth.userId,
     };
 
-    const result = await MessageService.sendNewMessage(serverInput);
+    const result = await MessageService.sendNewMessage(serverInput, auth);
     if (!result.isOk) return result;
 
     const validated = sendNewMessageOutputSchema.parse(result.data);
     return Result.ok(validated, 'Message sent');
   },
-  { schema: sendMessageWithImageClientSchema }
+  { schema: sendMessageWithImageClientSchema, permission: 'conversations.reply' }
 );
 
 export const retryFailedMessageAction = withAction<number, SendNewMessageOutput>(
@@ -40,14 +44,30 @@ export const retryFailedMessageAction = withAction<number, SendNewMessageOutput>
     const result = await MessageService.retryFailedMessage(
       messageId,
       auth.companyId,
-      auth.userId
+      auth
     );
     if (!result.isOk) return result;
 
     const validated = sendNewMessageOutputSchema.parse(result.data);
     return Result.ok(validated, 'Message retried');
   },
-  { schema: z.number().int().positive() }
+  { schema: z.number().int().positive(), permission: 'conversations.reply' }
+);
+
+export const reactToMessageAction = withAction<ReactToMessageInput, ReactToMessageOutput>(
+  'conversations.reactToMessage',
+  async (auth, input) => {
+    const result = await MessageService.reactToMessage({
+      ...input,
+      companyId: auth.companyId,
+      userId: auth.userId,
+    }, auth);
+    if (!result.isOk) return result;
+
+    const validated = reactToMessageOutputSchema.parse(result.data);
+    return Result.ok(validated, result.message);
+  },
+  { schema: reactToMessageClientSchema, permission: 'conversations.reply' }
 );
 
 export const uploadMediaAction = withAction(
@@ -67,5 +87,6 @@ export const uploadMediaAction = withAction(
 
     const validated = fileUploadResponseSchema.parse(result.data);
     return Result.ok(validated, 'File uploaded successfully');
-  }
+  },
+  { permission: 'conversations.reply' }
 );
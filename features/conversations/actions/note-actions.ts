@@ -21,16 +21,19 @@ import {
 export const createConversationNoteAction = withAction<ConversationNoteCreateClientInput, ConversationNoteResponse>(
   'conversationNotes.create',
   async (auth, input) => {
-    const result = await NoteService.create({
-      ...input,
-      companyId: auth.companyId,
-      userId: auth.userId,
-    });
+    const result = await NoteService.create(
+      {
+        ...input,
+        companyId: auth.companyId,
+        userId: auth.userId,
+      },
+      auth
+    );
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Note created successfully');
   },
-  { schema: conversationNoteCreateClientSchema }
+  { schema: conversationNoteCreateClientSchema, permission: 'conversationNotes.write' }
 );
 
 export const updateConversationNoteAction = withAction<ConversationNoteUpdateClientInput, ConversationNoteResponse>(
@@ -45,7 +48,7 @@ export const updateConversationNoteAction = withAction<ConversationNoteUpdateCli
 
     return Result.ok(result.data, 'Note updated successfully');
   },
-  { schema: conversationNoteUpdateClientSchema }
+  { schema: conversationNoteUpdateClientSchema, permission: 'conversationNotes.write' }
 );
 
 export const deleteConversationNoteAction = withAction<ConversationNoteDeleteClientInput, { success: boolean }>(
@@ -60,35 +63,41 @@ export const deleteConversationNoteAction = withAction<ConversationNoteDeleteCli
 
     return Result.ok(result.data, 'Note deleted successfully');
   },
-  { schema: conversationNoteDeleteClientSchema }
+  { schema: conversationNoteDeleteClientSchema, permission: 'conversationNotes.write' }
 );
 
 export const listConversationNotesAction = withAction<ConversationNoteListInput, ConversationNoteListResponse>(
   'conversationNotes.list',
   async (auth, input) => {
-    const result = await NoteService.listForConversation({
-      ...input,
-      companyId: auth.companyId,
-    });
+    const result = await NoteService.listForConversation(
+      {
+        ...input,
+        companyId: auth.companyId,
+      },
+      auth
+    );
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Notes loaded');
   },
-  { schema: conversationNoteListSchema }
+  { schema: conversationNoteListSchema, permission: 'conversations.view' }
 );
 
 export const getConversationNoteAction = withAction<ConversationNoteGetInput, ConversationNoteResponse>(
   'conversationNotes.get',
   async (auth, input) => {
-    const result = await NoteService.getById({
-      ...input,
-      companyId: auth.companyId,
-    });
+    const result = await NoteService.getById(
+      {
+        ...input,
+        companyId: auth.companyId,
+      },
+      auth
+    );
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Note loaded');
   },
-  { schema: conversationNoteGetSchema }
+  { schema: conversationNoteGetSchema, permission: 'conversations.view' }
 );
 
 export const getUserNoteForConversationAction = withAction<{ conversationId: number }, ConversationNoteResponse | null>(
@@ -102,5 +111,6 @@ export const getUserNoteForConversationAction = withAction<{ conversationId: num
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'User note loaded');
-  }
+  },
+  { permission: 'conversations.view' }
 );
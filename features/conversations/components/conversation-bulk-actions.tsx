@@ -0,0 +1,107 @@
+'use client';
+
+import { CheckSquare, Tag, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { usePermission } from '@/hooks/use-permission';
+import { useApplyTags, useTags } from '@/features/tags/hooks/use-tags';
+import { TagBadge } from '@/features/tags/components/tag-badge';
+import { useConversationStore } from '../store/conversation-store';
+
+interface ConversationBulkActionsProps {
+  visibleIds: number[];
+}
+
+/**
+ * Toggles multi-select on the conversation list and labels or unlabels the
+ * selected conversations in one go.
+ */
+export function ConversationBulkActions({ visibleIds }: ConversationBulkActionsProps) {
+  const canApply = usePermission('tags.apply');
+  const { isSelecting, setSelecting, selectedConversationIds, clearConversationSelection, toggleConversationSelected } =
+    useConversationStore();
+  const { data: tags = [] } = useTags();
+  const applyTags = useApplyTags();
+
+  if (!canApply) return null;
+
+  if (!isSelecting) {
+    return (
+      <div className="flex justify-end px-2 pt-1">
+        <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => setSelecting(true)}>
+          <CheckSquare className="mr-1 h-3 w-3" />
+          Select
+        </Button>
+      </div>
+    );
+  }
+
+  const allSelected = visibleIds.length > 0 && visibleIds.every((id) => selectedConversationIds.includes(id));
+  const noneSelected = selectedConversationIds.length === 0;
+
+  const handleSelectAll = () => {
+    if (allSelected) {
+      clearConversationSelection();
+    } else {
+      visibleIds.filter((id) => !selectedConversationIds.includes(id)).forEach(toggleConversationSelected);
+    }
+  };
+
+  const apply = (tagId: number, mode: 'add' | 'remove') => {
+    applyTags.mutate(
+      { target: 'conversation', ids: selectedConversationIds, tagIds: [tagId], mode },
+      { onSuccess: () => setSelecting(false) }
+    );
+  };
+
+  const tagMenu = (mode: 'add' | 'remove') => (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="outline" size="sm" className="h-6 px-2 text-xs" disabled={noneSelected || applyTags.isPending}>
+          <Tag className="mr-1 h-3 w-3" />
+          {mode === 'add' ? 'Tag' : 'Untag'}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="start">
+        <DropdownMenuLabel className="text-xs">
+          {mode === 'add' ? 'Add label to' : 'Remove label from'} {selectedConversationIds.length} selected
+        </DropdownMenuLabel>
+        {tags.length === 0 ? (
+          <DropdownMenuItem disabled className="text-xs">No tags yet</DropdownMenuItem>
+        ) : (
+          tags.map((tag) => (
+            <DropdownMenuItem key={tag.id} onClick={() => apply(tag.id, mode)}>
+              <TagBadge tag={tag} />
+            </DropdownMenuItem>
+          ))
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+
+  return (
+    <div className="flex items-center gap-1 border-b px-2 py-1">
+      <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={handleSelectAll}>
+        {allSelected ? 'None' : 'All'}
+      </Button>
+      <span className="flex-1 text-xs text-muted-foreground">{selectedConversationIds.length} selected</span>
+      {tagMenu('add')}
+      {tagMenu('remove')}
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6"
+        onClick={() => setSelecting(false)}
+        aria-label="Cancel selection"
+      >
+        <X className="h-3 w-3" />
+      </Button>
+    </div>
+  );
+}
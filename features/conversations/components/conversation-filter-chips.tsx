@@ -2,7 +2,8 @@
 
 import { Button } from '@/components/ui/button';
 import { useConversationStore } from '../store/conversation-store';
-import type { ConversationFilterType } from '../schemas/conversation-schema';
+import { useUnreadCounts } from '../hooks/conversation-hooks';
+import type { ConversationFilterType, ConversationStatus } from '../schemas/conversation-schema';
 
 const FILTER_OPTIONS: { label: string; value: ConversationFilterType }[] = [
   { label: 'All', value: 'all' },
@@ -12,22 +13,53 @@ const FILTER_OPTIONS: { label: string; value: ConversationFilterType }[] = [
   { label: 'Assigned', value: 'assigned' },
 ];
 
+const STATUS_OPTIONS: { label: string; value: ConversationStatus | null }[] = [
+  { label: 'Any status', value: null },
+  { label: 'Open', value: 'open' },
+  { label: 'Pending', value: 'pending' },
+  { label: 'Snoozed', value: 'snoozed' },
+  { label: 'Resolved', value: 'resolved' },
+];
+
 export function ConversationFilterChips() {
-  const { filterType, setFilterType } = useConversationStore();
+  const { filterType, setFilterType, statusFilter, setStatusFilter, selectedWhatsappAccountId } =
+    useConversationStore();
+  const { data: unreadCounts } = useUnreadCounts();
+  const unreadTotal = selectedWhatsappAccountId
+    ? unreadCounts?.byAccount[selectedWhatsappAccountId]
+    : unreadCounts?.total;
 
   return (
-    <div className="flex gap-2 overflow-x-auto px-4 py-2">
-      {FILTER_OPTIONS.map((option) => (
-        <Button
-          key={option.value}
-          variant={filterType === option.value ? 'default' : 'outline'}
-          size="sm"
-          onClick={() => setFilterType(option.value)}
-          className="whitespace-nowrap"
-        >
-          {option.label}
-        </Button>
-      ))}
+    <div className="space-y-1 py-2">
+      <div className="flex gap-2 overflow-x-auto px-4">
+        {FILTER_OPTIONS.map((option) => (
+          <Button
+            key={option.value}
+            variant={filterType === option.value ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setFilterType(option.value)}
+            className="whitespace-nowrap"
+          >
+            {option.label}
+            {option.value === 'unread' && !!unreadTotal && (
+              <span className="ml-1 text-xs opacity-80">{unreadTotal > 99 ? '99+' : unreadTotal}</span>
+            )}
+          </Button>
+        ))}
+      </div>
+      <div className="flex gap-2 overflow-x-auto px-4">
+        {STATUS_OPTIONS.map((option) => (
+          <Button
+            key={option.value ?? 'any'}
+            variant={statusFilter === option.value ? 'secondary' : 'ghost'}
+            size="sm"
+            onClick={() => setStatusFilter(option.value)}
+            className="h-7 whitespace-nowrap text-xs"
+          >
+            {option.label}
+          </Button>
+        ))}
+      </div>
     </div>
   );
 }
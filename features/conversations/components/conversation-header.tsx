@@ -2,24 +2,42 @@
 
 import { useState } from 'react';
 import { useSession } from 'next-auth/react';
-import { useConversation } from '../hooks/conversation-hooks';
+import { addDays, addHours, nextMonday, setHours, startOfHour } from 'date-fns';
+import { toast } from 'sonner';
+import { useConversation, useUpdateConversationStatus } from '../hooks/conversation-hooks';
 import { useUserNoteForConversation } from '../hooks/note-hooks';
 import { useNoteStore } from '../store/note-store';
-import { MoreVertical, Pencil, User, StickyNote, ShoppingCart, Clock } from 'lucide-react';
+import { MoreVertical, Pencil, User, StickyNote, ShoppingCart, CheckCircle2, Clock, Hourglass, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
   DropdownMenuSeparator,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { UpdateContactNameDialog } from './update-contact-name-dialog';
 import { AssignUserDialog } from './assign-user-dialog';
 import { NoteDialog } from './note-dialog';
 import { CreateOrderDialog } from '@/features/orders/components/create-order-dialog';
-import { differenceInHours, differenceInMinutes, formatDistanceToNow } from 'date-fns';
-import { Badge } from '@/components/ui/badge';
+import { ServiceWindowBadge } from './service-window-badge';
+import { ConversationStatusBadge } from './conversation-status-badge';
+import { PresenceAvatars } from './conversation-presence';
+import { useConversationViewers } from '../hooks/use-conversation-presence';
+import { usePermission } from '@/hooks/use-permission';
+import { TagPicker } from '@/features/tags/components/tag-picker';
+import { useSetTags } from '@/features/tags/hooks/use-tags';
+import type { ConversationStatus } from '../schemas/conversation-schema';
+
+const SNOOZE_OPTIONS: { label: string; until: () => Date }[] = [
+  { label: '1 hour', until: () => addHours(new Date(), 1) },
+  { label: '4 hours', until: () => addHours(new Date(), 4) },
+  { label: 'Tomorrow 9:00', until: () => startOfHour(setHours(addDays(new Date(), 1), 9)) },
+  { label: 'Next Monday 9:00', until: () => startOfHour(setHours(nextMonday(new Date()), 9)) },
+];
 
 interface ConversationHeaderProps {
   conversationId: number | null;
@@ -30,6 +48,7 @@ export function ConversationHeader({ conversationId }: ConversationHeaderProps)
   const { data: selectedConversation } = useConversation(conversationId);
   const { data: userNote } = useUserNoteForConversation(conversationId);
   const { openDialog } = useNoteStore();
+  const viewers = useConversationViewers(conversationId);
   const contact = selectedConversation?.contact as { id?: number; name?: string | null; phone?: string } | undefined;
   const displayName = contact?.name || contact?.phone || '';
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = useState(false);
@@ -38,7 +57,16 @@ export function ConversationHeader({ conversationId }: ConversationHeaderProps)
 
   const currentUserId = session.data?.user?.id ? parseInt(session.data.user.id, 10) : undefined;
   const assignedToUserId = selectedConversation?.assignedToUserId;
-  const canUpdateContact = !assignedToUserId || assignedToUserId === currentUserId;
+  const canWriteNotes = usePermission('conversationNotes.write');
+  const canCreateOrder = usePermission('orders.create');
+  const canAssign = usePermission('conversations.assign');
+  const canChangeStatus = usePermission('conversations.reply');
+  const canTag = usePermission('tags.apply');
+  const setTags = useSetTags();
+  const updateStatus = useUpdateConversationStatus();
+  const status = selectedConversation?.status;
+  const canUpdateContact =
+    usePermission('contacts.update') && (!assignedToUserId || assignedToUserId === currentUserId);
 
   const handleUpdateName = () => {
     setIsUpdateDialogOpen(true);
@@ -64,21 +92,71 @@ export function ConversationHeader({ conversationId }: ConversationHeaderProps)
     setIsCreateOrderDialogOpen(true);
   };
 
-  const lastMessageAt = selectedConversation?.lastMessageTime;
-  const isOldConversation = lastMessageAt ? differenceInHours(new Date(), new Date(lastMessageAt)) >= 23 : false;
-
- 
+  const handleStatusChange = (nextStatus: ConversationStatus, snoozedUntil?: Date) => {
+    if (!conversationId) return;
+    updateStatus.mutate(
+      { conversationId, status: nextStatus, snoozedUntil },
+      { onError: (error) => toast.error(error.message || 'Failed to update status') }
+    );
+  };
 
   return (
     <>
       <div className="p-1 flex items-center justify-between w-full">
-        <h2 className="text-lg font-semibold">{displayName}</h2>
+        <div className="min-w-0 space-y-1">
+          <h2 className="text-lg font-semibold">{displayName}</h2>
+          {selectedConversation && (
+            <div className="flex flex-wrap items-center gap-2">
+              <TagPicker
+                label="Contact tags"
+                value={selectedConversation.contactTags ?? []}
+                onChange={(tagIds) => setTags.mutate({ target: 'contact', id: selectedConversation.contactId, tagIds })}
+                disabled={!canTag || setTags.isPending}
+              />
+              <TagPicker
+                label="Labels"
+                value={selectedConversation.tags ?? []}
+                onChange={(tagIds) => setTags.mutate({ target: 'conversation', id: selectedConversation.id, tagIds })}
+                disabled={!canTag || setTags.isPending}
+              />
+            </div>
+          )}
+        </div>
         <div className="flex items-center gap-2">
-         <span className="text-xs text-muted-foreground"> <Clock className="mr-2 h-3 w-3" /></span>
-          {lastMessageAt && (
-            <Badge className={`text-xs ${isOldConversation ? 'bg-red-100 text-red-700 border-red-300' : 'text-muted-foreground bg-muted'}`}>
-              {formatDistanceToNow(new Date(lastMessageAt), { addSuffix: true })}
-            </Badge>
+          <PresenceAvatars viewers={viewers} />
+          {selectedConversation && (
+            <ConversationStatusBadge
+              status={selectedConversation.status}
+              snoozedUntil={selectedConversation.snoozedUntil}
+            />
+          )}
+          {selectedConversation && (
+            <ServiceWindowBadge lastInboundAt={selectedConversation.lastInboundAt} />
+          )}
+          {selectedConversation && canChangeStatus && (
+            status === 'resolved' ? (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => handleStatusChange('open')}
+                disabled={updateStatus.isPending}
+              >
+                <RotateCcw className="mr-1 h-3 w-3" />
+                Reopen
+              </Button>
+            ) : (
+              <Button
+                variant="outline"
+                size="sm"
+                className="h-8 text-xs"
+                onClick={() => handleStatusChange('resolved')}
+                disabled={updateStatus.isPending}
+              >
+                <CheckCircle2 className="mr-1 h-3 w-3" />
+                Resolve
+              </Button>
+            )
           )}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
@@ -87,16 +165,52 @@ export function ConversationHeader({ conversationId }: ConversationHeaderProps)
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end">
-              <DropdownMenuItem onClick={handleAddNote} className="text-xs">
+              <DropdownMenuItem onClick={handleAddNote} className="text-xs" disabled={!canWriteNotes}>
                 <StickyNote className="mr-2 h-3 w-3" />
                 Add/Edit Note
               </DropdownMenuItem>
-              <DropdownMenuItem onClick={handleCreateOrder} className="text-xs" disabled={!contact?.id}>
+              <DropdownMenuItem onClick={handleCreateOrder} className="text-xs" disabled={!contact?.id || !canCreateOrder}>
                 <ShoppingCart className="mr-2 h-3 w-3" />
                 Create Order
               </DropdownMenuItem>
               <DropdownMenuSeparator />
-              <DropdownMenuItem onClick={handleAssignUser} className="text-xs">
+              <DropdownMenuItem
+                onClick={() => handleStatusChange('pending')}
+                className="text-xs"
+                disabled={!canChangeStatus || !status || status === 'pending'}
+              >
+                <Hourglass className="mr-2 h-3 w-3" />
+                Mark Pending Customer
+              </DropdownMenuItem>
+              <DropdownMenuSub>
+                <DropdownMenuSubTrigger className="text-xs" disabled={!canChangeStatus || !status}>
+                  <Clock className="mr-2 h-3 w-3" />
+                  Snooze
+                </DropdownMenuSubTrigger>
+                <DropdownMenuSubContent>
+                  {SNOOZE_OPTIONS.map((option) => (
+                    <DropdownMenuItem
+                      key={option.label}
+                      onClick={() => handleStatusChange('snoozed', option.until())}
+                      className="text-xs"
+                    >
+                      {option.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuSubContent>
+              </DropdownMenuSub>
+              {status && status !== 'open' && status !== 'resolved' && (
+                <DropdownMenuItem
+                  onClick={() => handleStatusChange('open')}
+                  className="text-xs"
+                  disabled={!canChangeStatus}
+                >
+                  <RotateCcw className="mr-2 h-3 w-3" />
+                  Reopen
+                </DropdownMenuItem>
+              )}
+              <DropdownMenuSeparator />
+              <DropdownMenuItem onClick={handleAssignUser} className="text-xs" disabled={!canAssign}>
                 <User className="mr-2 h-3 w-3" />
                 Assign User
               </DropdownMenuItem>
@@ -8,10 +8,16 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { format } from 'date-fns';
 import { MessageCircle } from 'lucide-react';
-import type { ConversationFilterType, ContactListResponse } from '../schemas/conversation-schema';
+import { Checkbox } from '@/components/ui/checkbox';
+import { TagBadge } from '@/features/tags/components/tag-badge';
+import { ServiceWindowBadge } from './service-window-badge';
+import { ConversationBulkActions } from './conversation-bulk-actions';
+import type { ConversationFilterType, ConversationStatus, ContactListResponse } from '../schemas/conversation-schema';
 
 interface ConversationListProps {
   filterType: ConversationFilterType;
+  status: ConversationStatus | null;
+  tagId: number | null;
   searchTerm: string;
   includeArchived: boolean;
   whatsappAccountId: number | null;
@@ -19,12 +25,20 @@ interface ConversationListProps {
 
 export function ConversationList({
   filterType,
+  status,
+  tagId,
   searchTerm,
   includeArchived,
   whatsappAccountId,
 }: ConversationListProps) {
   const session = useSession();
-  const { selectedConversationId, setSelectedConversation } = useConversationStore();
+  const {
+    selectedConversationId,
+    setSelectedConversation,
+    isSelecting,
+    selectedConversationIds,
+    toggleConversationSelected,
+  } = useConversationStore();
 
   const { data, isLoading, error } = useConversations({
     filterType,
@@ -33,6 +47,8 @@ export function ConversationList({
     limit: 50,
     assignedUserId: filterType === 'assigned' && session.data?.user.id ? parseInt(session.data.user.id, 10) : undefined,
     whatsappAccountId,
+    status: status ?? undefined,
+    tagId: tagId ?? undefined,
   });
 
   useEffect(() => {
@@ -77,48 +93,73 @@ export function ConversationList({
   }
 
   return (
-    <ScrollArea className="h-full">
-      <div className="space-y-1 p-2">
-        {data.conversations.map((conversation) => {
-          const contact = conversation.contact as ContactListResponse | undefined;
-          const isSelected = selectedConversationId === conversation.id;
+    <div className="flex h-full flex-col">
+      <ConversationBulkActions visibleIds={data.conversations.map((conversation) => conversation.id)} />
+      <ScrollArea className="min-h-0 flex-1">
+        <div className="space-y-1 p-2">
+          {data.conversations.map((conversation) => {
+            const contact = conversation.contact as ContactListResponse | undefined;
+            const isSelected = selectedConversationId === conversation.id;
+            const tags = [...(conversation.contactTags ?? []), ...(conversation.tags ?? [])];
 
-          return (
-            <button
-              key={conversation.id}
-              onClick={() => setSelectedConversation(conversation.id)}
-              className={`w-full rounded-lg px-3 py-2 text-left transition-colors ${
-                isSelected
-                  ? 'bg-accent text-accent-foreground'
-                  : 'hover:bg-accent/50'
-              }`}
-            >
-              <div className="flex items-start justify-between gap-2">
-                <div className="flex-1 min-w-0">
-                  <p className="font-medium text-sm truncate">
-                    {contact?.name || contact?.phone || 'Unknown'}
-                  </p>
-                  <p className="text-xs text-muted-foreground truncate">
-                    {conversation.lastMessagePreview || 'No messages'}
-                  </p>
-                </div>
-                <div className="flex flex-col items-end gap-1">
-                  {conversation.lastMessageTime && (
-                    <span className="text-xs text-muted-foreground">
-                      {format(new Date(conversation.lastMessageTime), 'HH:mm')}
-                    </span>
-                  )}
-                  {conversation.unreadCount > 0 && (
-                    <span className="inline-flex items-center justify-center h-5 w-5 rounded-full bg-primary text-xs font-medium text-primary-foreground">
-                      {conversation.unreadCount}
-                    </span>
-                  )}
-                </div>
+            return (
+              <div key={conversation.id} className="flex items-center gap-2">
+                {isSelecting && (
+                  <Checkbox
+                    checked={selectedConversationIds.includes(conversation.id)}
+                    onCheckedChange={() => toggleConversationSelected(conversation.id)}
+                    aria-label="Select conversation"
+                  />
+                )}
+                <button
+                  onClick={() =>
+                    isSelecting ? toggleConversationSelected(conversation.id) : setSelectedConversation(conversation.id)
+                  }
+                  className={`w-full min-w-0 rounded-lg px-3 py-2 text-left transition-colors ${
+                    isSelected
+                      ? 'bg-accent text-accent-foreground'
+                      : 'hover:bg-accent/50'
+                  }`}
+                >
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-sm truncate">
+                        {contact?.name || contact?.phone || 'Unknown'}
+                      </p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {conversation.lastMessagePreview || 'No messages'}
+                      </p>
+                      {tags.length > 0 && (
+                        <div className="mt-1 flex flex-wrap gap-1">
+                          {tags.slice(0, 3).map((tag, index) => (
+                            <TagBadge key={`${index}-${tag.id}`} tag={tag} />
+                          ))}
+                          {tags.length > 3 && (
+                            <span className="text-[10px] text-muted-foreground">+{tags.length - 3}</span>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                    <div className="flex flex-col items-end gap-1">
+                      {conversation.lastMessageTime && (
+                        <span className="text-xs text-muted-foreground">
+                          {format(new Date(conversation.lastMessageTime), 'HH:mm')}
+                        </span>
+                      )}
+                      <ServiceWindowBadge lastInboundAt={conversation.lastInboundAt} compact />
+                      {conversation.unreadCount > 0 && (
+                        <span className="inline-flex items-center justify-center h-5 w-5 rounded-full bg-primary text-xs font-medium text-primary-foreground">
+                          {conversation.unreadCount}
+                        </span>
+                      )}
+                    </div>
+                  </div>
+                </button>
               </div>
-            </button>
-          );
-        })}
-      </div>
-    </ScrollArea>
+            );
+          })}
+        </div>
+      </ScrollArea>
+    </div>
   );
 }
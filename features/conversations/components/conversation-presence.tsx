@@ -0,0 +1,52 @@
+'use client';
+
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import type { ConversationViewer } from '../hooks/use-conversation-presence';
+
+const MAX_AVATARS = 3;
+
+export function formatTypingNames(viewers: ConversationViewer[]): string {
+  const names = viewers.map((viewer) => viewer.userName);
+  if (names.length <= 2) return names.join(' and ');
+  return `${names.slice(0, 2).join(', ')} and ${names.length - 2} more`;
+}
+
+export function PresenceAvatars({ viewers }: { viewers: ConversationViewer[] }) {
+  if (viewers.length === 0) return null;
+
+  const shown = viewers.slice(0, MAX_AVATARS);
+  const hidden = viewers.length - shown.length;
+
+  return (
+    <div
+      className="flex items-center -space-x-2"
+      aria-label={`Also viewing: ${viewers.map((viewer) => viewer.userName).join(', ')}`}
+    >
+      {shown.map((viewer) => (
+        <Avatar
+          key={viewer.userId}
+          className={`h-7 w-7 border-2 ${viewer.isTyping ? 'border-primary' : 'border-background'}`}
+          title={viewer.isTyping ? `${viewer.userName} is typing` : `${viewer.userName} is viewing`}
+        >
+          <AvatarFallback className="text-xs">{viewer.userName.charAt(0).toUpperCase()}</AvatarFallback>
+        </Avatar>
+      ))}
+      {hidden > 0 && (
+        <Avatar className="h-7 w-7 border-2 border-background">
+          <AvatarFallback className="text-xs">+{hidden}</AvatarFallback>
+        </Avatar>
+      )}
+    </div>
+  );
+}
+
+export function TypingIndicator({ viewers }: { viewers: ConversationViewer[] }) {
+  const typing = viewers.filter((viewer) => viewer.isTyping);
+  if (typing.length === 0) return null;
+
+  return (
+    <div className="border-t bg-muted/50 px-4 py-1 text-xs text-muted-foreground" aria-live="polite">
+      {formatTypingNames(typing)} {typing.length === 1 ? 'is' : 'are'} typing…
+    </div>
+  );
+}
@@ -5,7 +5,8 @@ import { Button } from '@/components/ui/button';
 import { WhatsAppAccountSelector } from './whatsapp-account-selector';
 
 interface ConversationSidebarHeaderProps {
-  onNewMessage: () => void;
+  /** Omit to hide the new message button */
+  onNewMessage?: () => void;
 }
 
 export function ConversationSidebarHeader({ onNewMessage }: ConversationSidebarHeaderProps) {
@@ -16,14 +17,16 @@ export function ConversationSidebarHeader({ onNewMessage }: ConversationSidebarH
           <p className="text-sm uppercase tracking-[0.2em] text-muted-foreground">Messages</p>
           <p className="text-lg font-bold">Inbox</p>
         </div>
-        <Button
-          size="icon"
-          variant="outline"
-          onClick={onNewMessage}
-          aria-label="New message"
-        >
-          <Plus className="h-4 w-4" />
-        </Button>
+        {onNewMessage && (
+          <Button
+            size="icon"
+            variant="outline"
+            onClick={onNewMessage}
+            aria-label="New message"
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        )}
       </div>
       <WhatsAppAccountSelector />
     </div>
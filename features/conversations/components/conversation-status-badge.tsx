@@ -0,0 +1,37 @@
+'use client';
+
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import type { ConversationStatus } from '../schemas/conversation-schema';
+
+interface ConversationStatusBadgeProps {
+  status: ConversationStatus;
+  snoozedUntil?: Date | string | null;
+}
+
+const labels: Record<ConversationStatus, string> = {
+  open: 'Open',
+  pending: 'Pending customer',
+  snoozed: 'Snoozed',
+  resolved: 'Resolved',
+};
+
+const variants: Record<ConversationStatus, string> = {
+  open: 'bg-blue-100 text-blue-700 border-blue-300',
+  pending: 'bg-amber-100 text-amber-700 border-amber-300',
+  snoozed: 'bg-purple-100 text-purple-700 border-purple-300',
+  resolved: 'bg-green-100 text-green-700 border-green-300',
+};
+
+export function ConversationStatusBadge({ status, snoozedUntil }: ConversationStatusBadgeProps) {
+  const label =
+    status === 'snoozed' && snoozedUntil
+      ? `Snoozed until ${format(new Date(snoozedUntil), 'MMM d, HH:mm')}`
+      : labels[status];
+
+  return (
+    <Badge variant="outline" className={`text-xs ${variants[status]}`}>
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { useState } from 'react';
+import { Crosshair, Loader2, MapPin } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { messageLocationSchema, type MessageLocation } from '../schemas/conversation-schema';
+
+interface LocationShareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSend: (location: MessageLocation) => void;
+  isSending?: boolean;
+}
+
+const EMPTY_FORM = { latitude: '', longitude: '', name: '', address: '' };
+
+export function LocationShareDialog({ open, onOpenChange, onSend, isSending = false }: LocationShareDialogProps) {
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [isLocating, setIsLocating] = useState(false);
+
+  const parsed = messageLocationSchema.safeParse({
+    latitude: form.latitude.trim() ? Number(form.latitude) : undefined,
+    longitude: form.longitude.trim() ? Number(form.longitude) : undefined,
+    name: form.name.trim() || null,
+    address: form.address.trim() || null,
+  });
+
+  const handleUseCurrentLocation = () => {
+    if (!navigator.geolocation) {
+      toast.error('Location is not available in this browser');
+      return;
+    }
+
+    setIsLocating(true);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setForm((prev) => ({
+          ...prev,
+          latitude: position.coords.latitude.toFixed(6),
+          longitude: position.coords.longitude.toFixed(6),
+        }));
+        setIsLocating(false);
+      },
+      () => {
+        toast.error('Could not get your current location');
+        setIsLocating(false);
+      },
+      { enableHighAccuracy: true, timeout: 10000 }
+    );
+  };
+
+  const handleSend = () => {
+    if (!parsed.success) return;
+    onSend(parsed.data);
+    setForm(EMPTY_FORM);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Share location</DialogTitle>
+          <DialogDescription>Send a pin the contact can open in their maps app.</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <Button
+            type="button"
+            variant="outline"
+            className="w-full"
+            onClick={handleUseCurrentLocation}
+            disabled={isLocating || isSending}
+          >
+            {isLocating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Crosshair className="mr-2 h-4 w-4" />
+            )}
+            Use my current location
+          </Button>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="location-latitude">Latitude</Label>
+              <Input
+                id="location-latitude"
+                inputMode="decimal"
+                value={form.latitude}
+                onChange={(e) => setForm((prev) => ({ ...prev, latitude: e.target.value }))}
+                disabled={isSending}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="location-longitude">Longitude</Label>
+              <Input
+                id="location-longitude"
+                inputMode="decimal"
+                value={form.longitude}
+                onChange={(e) => setForm((prev) => ({ ...prev, longitude: e.target.value }))}
+                disabled={isSending}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="location-name">Name (optional)</Label>
+            <Input
+              id="location-name"
+              placeholder="Head office"
+              value={form.name}
+              onChange={(e) => setForm((prev) => ({ ...prev, name: e.target.value }))}
+              disabled={isSending}
+            />
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="location-address">Address (optional)</Label>
+            <Input
+              id="location-address"
+              value={form.address}
+              onChange={(e) => setForm((prev) => ({ ...prev, address: e.target.value }))}
+              disabled={isSending}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" onClick={handleSend} disabled={!parsed.success || isSending}>
+            {isSending ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <MapPin className="mr-2 h-4 w-4" />
+            )}
+            Send location
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,21 +1,26 @@
 'use client';
 
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Image, Video, FileAudio, FileText, RefreshCw } from 'lucide-react';
+import { Image, Video, FileAudio, FileText, RefreshCw, Sticker } from 'lucide-react';
 import { Loader2 } from 'lucide-react';
 import axios from 'axios';
 
 interface MediaPlaceholderProps {
   mediaId: string;
-  mediaType: 'image' | 'video' | 'audio' | 'document';
+  // Our own copy of the media; preferred over the live WhatsApp proxy
+  storedUrl?: string | null;
+  mediaType: 'image' | 'video' | 'audio' | 'document' | 'sticker';
   caption?: string;
+  fileName?: string | null;
   className?: string;
 }
 
 export function MediaPlaceholder({
   mediaId,
+  storedUrl,
   mediaType,
   caption,
+  fileName,
   className = '',
 }: MediaPlaceholderProps) {
   const [revealed, setRevealed] = useState(false);
@@ -26,6 +31,12 @@ export function MediaPlaceholder({
   const objectUrlRef = useRef<string | null>(null);
 
   const fetchMedia = useCallback(async () => {
+    if (storedUrl) {
+      setError(null);
+      setMediaUrl(storedUrl);
+      return;
+    }
+
     try {
       setLoading(true);
       setError(null);
@@ -53,7 +64,7 @@ export function MediaPlaceholder({
       setLoading(false);
       setError('Failed to load. Tap to retry.');
     }
-  }, [mediaId, timestamp]);
+  }, [mediaId, storedUrl, timestamp]);
 
   useEffect(() => {
     if (revealed) {
@@ -87,6 +98,8 @@ export function MediaPlaceholder({
         return <FileAudio className="h-12 w-12 text-muted-foreground" aria-hidden="true" />;
       case 'document':
         return <FileText className="h-12 w-12 text-muted-foreground" aria-hidden="true" />;
+      case 'sticker':
+        return <Sticker className="h-12 w-12 text-muted-foreground" aria-hidden="true" />;
       default:
         return <Image className="h-12 w-12 text-muted-foreground" aria-hidden="true" />;
     }
@@ -168,7 +181,7 @@ export function MediaPlaceholder({
     );
   }
 
-  if (mediaType === 'image') {
+  if (mediaType === 'image' || mediaType === 'sticker') {
     return (
       <div onClick={handleClick} className={`relative rounded-lg overflow-hidden cursor-pointer ${className}`} role="button" tabIndex={0} onKeyDown={(e) => {
           if (e.key === 'Enter' || e.key === ' ') {
@@ -179,8 +192,8 @@ export function MediaPlaceholder({
         {mediaUrl && (
           <img
             src={mediaUrl}
-            alt={caption || 'Image'}
-            className="w-full h-full object-cover"
+            alt={caption || (mediaType === 'sticker' ? 'Sticker' : 'Image')}
+            className={mediaType === 'sticker' ? 'w-full h-full object-contain' : 'w-full h-full object-cover'}
           />
         )}
       </div>
@@ -247,7 +260,7 @@ export function MediaPlaceholder({
       >
         {getIcon()}
         <p className="mt-2 text-sm text-muted-foreground text-center px-2">
-          {caption || 'Document'}
+          {fileName || caption || 'Document'}
         </p>
         <p className="mt-1 text-xs text-muted-foreground">Tap to open</p>
       </div>
@@ -0,0 +1,90 @@
+'use client';
+
+import { Download, FileText, MapPin, MousePointerClick, Phone, User } from 'lucide-react';
+import { buildVcard, locationMapUrl } from '@/lib/whatsapp-message-content';
+import type { MessageContentPayload } from '../schemas/conversation-schema';
+
+type PayloadOf<T extends MessageContentPayload['type']> = Extract<MessageContentPayload, { type: T }>;
+
+export function LocationBubble({ location }: { location: PayloadOf<'location'> }) {
+  return (
+    <a
+      href={locationMapUrl(location)}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-start gap-2 rounded-md bg-background/20 p-2 text-sm hover:bg-background/30"
+    >
+      <MapPin className="mt-0.5 h-4 w-4 shrink-0" aria-hidden="true" />
+      <div className="min-w-0">
+        <p className="font-medium">{location.name || 'Shared location'}</p>
+        {location.address && <p className="text-xs opacity-80">{location.address}</p>}
+        <p className="text-xs opacity-70">
+          {location.latitude.toFixed(5)}, {location.longitude.toFixed(5)}
+        </p>
+      </div>
+    </a>
+  );
+}
+
+export function ContactsBubble({ contacts }: { contacts: PayloadOf<'contacts'>['contacts'] }) {
+  return (
+    <div className="space-y-2">
+      {contacts.map((contact, index) => {
+        const vcardHref = `data:text/vcard;charset=utf-8,${encodeURIComponent(buildVcard(contact))}`;
+        return (
+          <div key={`${contact.name}-${index}`} className="rounded-md bg-background/20 p-2 text-sm">
+            <div className="flex items-center gap-2">
+              <User className="h-4 w-4 shrink-0" aria-hidden="true" />
+              <p className="truncate font-medium">{contact.name}</p>
+            </div>
+            {contact.organization && <p className="mt-1 text-xs opacity-80">{contact.organization}</p>}
+            {contact.phones.map((phone) => (
+              <p key={phone.phone} className="mt-1 flex items-center gap-1 text-xs">
+                <Phone className="h-3 w-3" aria-hidden="true" />
+                {phone.phone}
+                {phone.type && <span className="opacity-70">({phone.type.toLowerCase()})</span>}
+              </p>
+            ))}
+            {contact.emails.map((email) => (
+              <p key={email} className="mt-1 text-xs opacity-80">{email}</p>
+            ))}
+            <a
+              href={vcardHref}
+              download={`${contact.name}.vcf`}
+              className="mt-2 inline-flex items-center gap-1 text-xs underline"
+            >
+              <Download className="h-3 w-3" aria-hidden="true" />
+              Save contact
+            </a>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export function InteractiveReplyBubble({ reply }: { reply: PayloadOf<'interactive'> }) {
+  return (
+    <div className="flex items-start gap-2 text-sm">
+      <MousePointerClick className="mt-0.5 h-4 w-4 shrink-0 opacity-70" aria-hidden="true" />
+      <div className="min-w-0">
+        <p className="font-medium">{reply.title}</p>
+        {reply.description && <p className="text-xs opacity-80">{reply.description}</p>}
+      </div>
+    </div>
+  );
+}
+
+export function DocumentBubble({ url, filename }: { url: string; filename?: string | null }) {
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="flex items-center gap-2 rounded-md bg-background/20 p-2 text-sm hover:bg-background/30"
+    >
+      <FileText className="h-5 w-5 shrink-0" aria-hidden="true" />
+      <span className="truncate underline">{filename || 'Document'}</span>
+    </a>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import Image from 'next/image';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -14,7 +14,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { useConversationStore } from '../store/conversation-store';
-import { Plus, Send, X, Loader2, Image as ImageIcon, Mic } from 'lucide-react';
+import { Plus, Send, X, Loader2, Image as ImageIcon, Mic, FileText, Video, Paperclip, MapPin } from 'lucide-react';
 import { ImageAttachmentPopover } from './image-attachment-popover';
 import { AudioRecorder } from './audio-recorder';
 import { AudioPreview } from './audio-preview';
@@ -23,22 +23,63 @@ import type { OurFileRouter } from '@/app/api/uploadthing/core';
 import { uploadMediaAction } from '../actions/message-actions';
 import { toast } from 'sonner';
 import { convertToMp3, normalizeMimeType, getFileExtension } from '@/lib/audio-converter';
+import { TemplatePickerDialog } from '@/features/message-templates/components/template-picker-dialog';
+import type { TemplateComposerSubmit } from '@/features/message-templates/components/template-composer';
+import { LocationShareDialog } from './location-share-dialog';
+import { MessageQuote } from './message-quote';
+import {
+  DOCUMENT_FILE_TYPES,
+  VIDEO_FILE_TYPES,
+  type MessageLocation,
+  type SendMessageWithImageInput,
+} from '../schemas/conversation-schema';
+
+export type MessageAttachmentInput = Pick<
+  SendMessageWithImageInput,
+  'messageText' | 'videoUrl' | 'videoKey' | 'documentUrl' | 'documentKey' | 'documentFilename' | 'location'
+>;
 
 interface MessageInputProps {
   onSend: (message: string, imageUrl?: string, imageKey?: string, audioUrl?: string, audioKey?: string) => void;
   isLoading?: boolean;
   disabled?: boolean;
   conversationId: number;
+  whatsappAccountId?: number | null;
+  onSendTemplate?: (data: TemplateComposerSubmit) => void;
+  onSendAttachment?: (attachment: MessageAttachmentInput) => void;
+  // Called on every edit so other agents can see this one is replying
+  onTyping?: () => void;
+}
+
+interface UploadedAttachment {
+  key: string;
+  url: string;
+  name: string;
+  size: number;
+  type: string;
 }
 
 const { useUploadThing } = generateReactHelpers<OurFileRouter>();
 
-export function MessageInput({ onSend, isLoading = false, disabled = false, conversationId }: MessageInputProps) {
+export function MessageInput({
+  onSend,
+  isLoading = false,
+  disabled = false,
+  conversationId,
+  whatsappAccountId,
+  onSendTemplate,
+  onSendAttachment,
+  onTyping,
+}: MessageInputProps) {
   const [message, setMessage] = useState('');
   const [isPopoverOpen, setIsPopoverOpen] = useState(false);
+  const [isTemplateDialogOpen, setIsTemplateDialogOpen] = useState(false);
+  const [isLocationDialogOpen, setIsLocationDialogOpen] = useState(false);
+  const videoInputRef = useRef<HTMLInputElement>(null);
+  const documentInputRef = useRef<HTMLInputElement>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
-  const { selectedImage, clearSelectedImage, audioRecording, setAudioRecording, clearAudioRecording } = useConversationStore();
+  const { selectedImage, clearSelectedImage, audioRecording, setAudioRecording, clearAudioRecording, replyingTo, clearReplyingTo } = useConversationStore();
 
   const { startUpload: startImageUpload } = useUploadThing('imageUploader', {
     onClientUploadComplete: async (uploaded) => {
@@ -110,6 +151,86 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
     },
   });
 
+  // Records the upload against the conversation; the caption comes from the text box
+  const saveAttachment = async (uploadedFile: UploadedAttachment | undefined): Promise<boolean> => {
+    if (!uploadedFile) {
+      toast.error('Upload failed');
+      setIsUploading(false);
+      return false;
+    }
+
+    const result = await uploadMediaAction({
+      fileKey: uploadedFile.key,
+      fileUrl: uploadedFile.url,
+      fileName: uploadedFile.name,
+      fileSize: uploadedFile.size,
+      fileType: uploadedFile.type,
+      conversationId,
+    });
+
+    setIsUploading(false);
+
+    if (!result.ok) {
+      toast.error(result.error || 'Failed to upload file');
+      return false;
+    }
+    return true;
+  };
+
+  const { startUpload: startVideoUpload } = useUploadThing('videoUploader', {
+    onClientUploadComplete: async (uploaded) => {
+      const uploadedFile = uploaded?.[0];
+      if (!(await saveAttachment(uploadedFile)) || !uploadedFile) return;
+
+      onSendAttachment?.({
+        messageText: message.trim() || undefined,
+        videoUrl: uploadedFile.url,
+        videoKey: uploadedFile.key,
+      });
+      setMessage('');
+    },
+    onUploadError: (error) => {
+      toast.error(error.message || 'Upload failed');
+      setIsUploading(false);
+    },
+  });
+
+  const { startUpload: startDocumentUpload } = useUploadThing('documentUploader', {
+    onClientUploadComplete: async (uploaded) => {
+      const uploadedFile = uploaded?.[0];
+      if (!(await saveAttachment(uploadedFile)) || !uploadedFile) return;
+
+      onSendAttachment?.({
+        messageText: message.trim() || undefined,
+        documentUrl: uploadedFile.url,
+        documentKey: uploadedFile.key,
+        documentFilename: uploadedFile.name,
+      });
+      setMessage('');
+    },
+    onUploadError: (error) => {
+      toast.error(error.message || 'Upload failed');
+      setIsUploading(false);
+    },
+  });
+
+  const handleFileSelected = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+    startUpload: (files: File[]) => Promise<unknown>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setIsUploading(true);
+    await startUpload([file]);
+  };
+
+  const handleSendLocation = (location: MessageLocation) => {
+    onSendAttachment?.({ location });
+    setIsLocationDialogOpen(false);
+  };
+
   const handleSend = async () => {
     if (selectedImage?.file) {
       setIsUploading(true);
@@ -129,6 +250,11 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
     }
   };
 
+  const handleSendTemplate = (data: TemplateComposerSubmit) => {
+    onSendTemplate?.(data);
+    setIsTemplateDialogOpen(false);
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
     if (e.key === 'Enter' && e.ctrlKey) {
       handleSend();
@@ -167,6 +293,20 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
 
   return (
     <div className="border-t p-4 space-y-2">
+      {replyingTo && (
+        <div className="flex items-center gap-2">
+          <MessageQuote quote={replyingTo} className="flex-1 bg-muted/50" />
+          <Button
+            size="icon"
+            variant="ghost"
+            onClick={clearReplyingTo}
+            aria-label="Cancel reply"
+          >
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+
       {selectedImage && (
         <div className="flex items-center gap-3 p-3 bg-muted/50 rounded-lg">
           <div className="relative w-16 h-16 rounded-md overflow-hidden bg-muted">
@@ -217,7 +357,7 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
             <Button
               size="icon"
               variant="ghost"
-              disabled={disabled || isLoading || isRecording}
+              disabled={(disabled && !onSendTemplate) || isLoading || isRecording}
               title="Attach"
               className="border"
             >
@@ -228,6 +368,7 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
             <DropdownMenuLabel>Attach</DropdownMenuLabel>
             <DropdownMenuSeparator />
             <DropdownMenuItem
+              disabled={disabled}
               onSelect={() => {
                 setIsPopoverOpen(true);
               }}
@@ -236,6 +377,7 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
               Photos & videos
             </DropdownMenuItem>
             <DropdownMenuItem
+              disabled={disabled}
               onSelect={() => {
                 setIsRecording(true);
               }}
@@ -243,9 +385,80 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
               <Mic className="h-4 w-4 mr-2" />
               Audio
             </DropdownMenuItem>
+            {onSendAttachment && (
+              <>
+                <DropdownMenuItem
+                  disabled={disabled || isUploading}
+                  onSelect={() => {
+                    videoInputRef.current?.click();
+                  }}
+                >
+                  <Video className="h-4 w-4 mr-2" />
+                  Video
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={disabled || isUploading}
+                  onSelect={() => {
+                    documentInputRef.current?.click();
+                  }}
+                >
+                  <Paperclip className="h-4 w-4 mr-2" />
+                  Document
+                </DropdownMenuItem>
+                <DropdownMenuItem
+                  disabled={disabled}
+                  onSelect={() => {
+                    setIsLocationDialogOpen(true);
+                  }}
+                >
+                  <MapPin className="h-4 w-4 mr-2" />
+                  Location
+                </DropdownMenuItem>
+              </>
+            )}
+            {onSendTemplate && (
+              <DropdownMenuItem
+                onSelect={() => {
+                  setIsTemplateDialogOpen(true);
+                }}
+              >
+                <FileText className="h-4 w-4 mr-2" />
+                Template
+              </DropdownMenuItem>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
 
+        <input
+          ref={videoInputRef}
+          type="file"
+          accept={VIDEO_FILE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => handleFileSelected(e, startVideoUpload)}
+        />
+        <input
+          ref={documentInputRef}
+          type="file"
+          accept={DOCUMENT_FILE_TYPES.join(',')}
+          className="hidden"
+          onChange={(e) => handleFileSelected(e, startDocumentUpload)}
+        />
+
+        <LocationShareDialog
+          open={isLocationDialogOpen}
+          onOpenChange={setIsLocationDialogOpen}
+          onSend={handleSendLocation}
+          isSending={isLoading}
+        />
+
+        <TemplatePickerDialog
+          open={isTemplateDialogOpen}
+          onOpenChange={setIsTemplateDialogOpen}
+          whatsappAccountId={whatsappAccountId}
+          onSend={handleSendTemplate}
+          isSending={isLoading}
+        />
+
         <Dialog open={isPopoverOpen} onOpenChange={setIsPopoverOpen}>
           <DialogContent className="w-80 p-0">
             <DialogHeader className="p-4 pb-0">
@@ -259,9 +472,16 @@ export function MessageInput({ onSend, isLoading = false, disabled = false, conv
         </Dialog>
 
         <Textarea
-          placeholder="Type a message... (Ctrl+Enter to send)"
+          placeholder={
+            disabled && onSendTemplate
+              ? 'The 24-hour window has closed. Send a template from the attach menu.'
+              : 'Type a message... (Ctrl+Enter to send)'
+          }
           value={message}
-          onChange={(e) => setMessage(e.target.value)}
+          onChange={(e) => {
+            setMessage(e.target.value);
+            onTyping?.();
+          }}
           onKeyDown={handleKeyDown}
           disabled={disabled || isLoading || isRecording}
           className="min-h-[40px] max-h-[120px] resize-none"
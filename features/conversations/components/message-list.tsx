@@ -4,11 +4,23 @@ import { useConversationMessages, useRetryFailedMessage } from '../hooks/convers
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Button } from '@/components/ui/button';
+import Image from 'next/image';
 import { format } from 'date-fns';
-import { RotateCcw } from 'lucide-react';
+import { Reply, RotateCcw } from 'lucide-react';
 import { toast } from 'sonner';
 import { useEffect, useRef } from 'react';
 import { MediaPlaceholder } from './media-placeholder';
+import { MessageStatusTicks } from './message-status-ticks';
+import { MessageQuote } from './message-quote';
+import { useConversationStore } from '../store/conversation-store';
+import {
+  ContactsBubble,
+  DocumentBubble,
+  InteractiveReplyBubble,
+  LocationBubble,
+} from './message-content-bubbles';
+import { MessageReactionChips, ReactionPicker } from './message-reactions';
+import type { MessageResponse } from '../schemas/conversation-schema';
 
 interface MessageListProps {
   conversationId: number;
@@ -19,6 +31,7 @@ export function MessageList({ conversationId }: MessageListProps) {
   const { data, isLoading, error, hasNextPage, fetchNextPage, isFetchingNextPage } =
     useConversationMessages(conversationId);
   const { mutate: retryMessage, isPending: isRetrying } = useRetryFailedMessage();
+  const setReplyingTo = useConversationStore((state) => state.setReplyingTo);
   const bottomRef = useRef<HTMLDivElement | null>(null);
   const isInitialMount = useRef(true);
 
@@ -71,110 +84,87 @@ export function MessageList({ conversationId }: MessageListProps) {
         {messages.map((message) => (
           <div
             key={message.id}
-            className={`flex ${
-              message.direction === 'outbound' ? 'justify-end' : 'justify-start'
+            className={`group flex items-center gap-1 ${
+              message.direction === 'outbound' ? 'flex-row-reverse justify-start' : 'justify-start'
             }`}
           >
-            <div
-              className={`max-w-xs rounded-lg px-4 py-2 ${
-                message.direction === 'outbound'
-                  ? 'bg-primary text-primary-foreground'
-                  : 'bg-muted text-foreground'
-              }`}
-            >
-              {message.mediaId && message.mediaType && (
-                <div className="mb-2">
-                  <MediaPlaceholder
-                    mediaId={message.mediaId}
-                    mediaType={message.mediaType as 'image' | 'video' | 'audio' | 'document'}
-                    caption={message.mediaCaption || undefined}
-                    className={
-                      message.mediaType === 'audio'
-                        ? 'w-80 max-w-full'
-                        : 'max-w-[250px]'
-                    }
-                  />
-                  {message.mediaType === 'image' && (
-                    <p className="text-xs opacity-70 mt-1"></p>
-                  )}
-                </div>
-              )}
-              {message.mediaUrl && message.mediaType && !message.mediaId && (
-                <div className="mb-2">
-                  {message.mediaType === 'image' && (
-                    <img
-                      src={message.mediaUrl}
-                      alt="Sent image"
-                      className="max-w-[250px] rounded-lg"
-                    />
-                  )}
-                  {message.mediaType === 'video' && (
-                    <video
-                      src={message.mediaUrl}
-                      controls
-                      className="max-w-[250px] rounded-lg"
-                    />
-                  )}
-                  {message.mediaType === 'audio' && (
-                    <audio
-                      src={message.mediaUrl}
-                      controls
-                      className="w-80 max-w-full rounded-lg"
-                      style={{
-                        filter: 'brightness(0.95) contrast(1.1)',
-                        borderRadius: '0.5rem',
-                      }}
-                    />
-                  )}
-                  {message.mediaType === 'document' && (
-                    <a
-                      href={message.mediaUrl}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="flex items-center gap-2 text-sm underline"
-                    >
-                      📄 Document
-                    </a>
+            <div className="flex max-w-xs flex-col">
+              <div
+                className={`rounded-lg px-4 py-2 ${
+                  message.direction === 'outbound'
+                    ? 'bg-primary text-primary-foreground'
+                    : 'bg-muted text-foreground'
+                }`}
+              >
+                {message.replyTo ? (
+                  <MessageQuote quote={message.replyTo} className="mb-2" />
+                ) : message.replyToProviderMessageId ? (
+                  <p className="mb-2 text-xs italic opacity-70">Replying to an earlier message</p>
+                ) : null}
+                <MessageBody message={message} />
+                <div className="mt-1 flex items-center justify-between gap-2 text-xs opacity-70">
+                  <span>{format(new Date(message.createdAt), 'HH:mm')}</span>
+                  {message.direction === 'outbound' && (
+                    <MessageStatusTicks message={message} />
                   )}
                 </div>
-              )}
-              {message.content && message.mediaType !== 'image' && message.mediaType !== 'audio' && (
-                <p className="text-sm">{message.content}</p>
-              )}
-              <div className="mt-1 flex items-center justify-between gap-2 text-xs opacity-70">
-                <span>{format(new Date(message.createdAt), 'HH:mm')}</span>
-                {message.direction === 'outbound' && (
-                  <span>
-                    {message.status === 'sending' && '⏱'}
-                    {message.status === 'sent' && '✓'}
-                    {message.status === 'delivered' && '✓✓'}
-                    {message.status === 'read' && '✓✓'}
-                    {message.status === 'failed' && '✗'}
-                  </span>
+                {/* Optimistic messages that failed were never stored, so there is nothing to retry */}
+                {message.status === 'failed' && message.direction === 'outbound' && message.id > 0 && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="mt-2 h-auto w-full p-1 text-xs"
+                    onClick={() => {
+                      retryMessage(message.id, {
+                        onSuccess: () => {
+                          toast.success('Message retry sent');
+                        },
+                        onError: (error) => {
+                          toast.error(error.message || 'Failed to retry message');
+                        },
+                      });
+                    }}
+                    disabled={isRetrying}
+                  >
+                    <RotateCcw className="mr-1 h-3 w-3" />
+                    Retry
+                  </Button>
                 )}
               </div>
-              {message.status === 'failed' && message.direction === 'outbound' && (
-                <Button
-                  size="sm"
-                  variant="ghost"
-                  className="mt-2 h-auto w-full p-1 text-xs"
-                  onClick={() => {
-                    retryMessage(message.id, {
-                      onSuccess: () => {
-                        toast.success('Message retry sent');
-                      },
-                      onError: (error) => {
-                        toast.error(error.message || 'Failed to retry message');
-                      },
-                    });
-                  }}
-                  disabled={isRetrying}
-                >
-                  <RotateCcw className="mr-1 h-3 w-3" />
-                  Retry
-                </Button>
+              {message.reactions && message.reactions.length > 0 && (
+                <MessageReactionChips
+                  reactions={message.reactions}
+                  align={message.direction === 'outbound' ? 'end' : 'start'}
+                />
               )}
             </div>
+            {message.providerMessageId && (
+              <Button
+                size="icon"
+                variant="ghost"
+                className="h-7 w-7 shrink-0 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100"
+                title="Reply"
+                aria-label="Reply"
+                onClick={() =>
+                  setReplyingTo({
+                    id: message.id,
+                    direction: message.direction,
+                    content: message.content,
+                    messageType: message.messageType,
+                  })
+                }
+              >
+                <Reply className="h-4 w-4" />
+              </Button>
+            )}
+            {message.providerMessageId && message.direction === 'inbound' && (
+              <ReactionPicker
+                messageId={message.id}
+                currentEmoji={
+                  message.reactions?.find((reaction) => reaction.direction === 'outbound')?.emoji ?? null
+                }
+              />
+            )}
           </div>
         ))}
 
@@ -196,3 +186,77 @@ export function MessageList({ conversationId }: MessageListProps) {
     </ScrollArea>
   );
 }
+
+type MediaKind = 'image' | 'video' | 'audio' | 'document' | 'sticker';
+
+function MessageBody({ message }: { message: MessageResponse }) {
+  const payload = message.contentPayload;
+
+  if (payload?.type === 'location') return <LocationBubble location={payload} />;
+  if (payload?.type === 'contacts') return <ContactsBubble contacts={payload.contacts} />;
+  if (payload?.type === 'interactive') return <InteractiveReplyBubble reply={payload} />;
+
+  const mediaType = message.mediaType as MediaKind | null;
+  const fileName = payload?.type === 'document' ? payload.filename : null;
+  // Text and template messages carry their body in `content`; media shows its caption
+  const text = mediaType ? message.mediaCaption : message.content;
+
+  return (
+    <>
+      {message.mediaId && mediaType && (
+        <div className="mb-2">
+          <MediaPlaceholder
+            mediaId={message.mediaId}
+            storedUrl={message.storedMediaUrl}
+            mediaType={mediaType}
+            caption={message.mediaCaption || undefined}
+            fileName={fileName}
+            className={
+              mediaType === 'audio'
+                ? 'w-80 max-w-full'
+                : mediaType === 'sticker'
+                  ? 'w-32'
+                  : 'max-w-[250px]'
+            }
+          />
+        </div>
+      )}
+      {message.mediaUrl && mediaType && !message.mediaId && (
+        <div className="mb-2">
+          {(mediaType === 'image' || mediaType === 'sticker') && (
+            <Image
+              src={message.mediaUrl}
+              alt={mediaType === 'sticker' ? 'Sticker' : 'Sent image'}
+              width={mediaType === 'sticker' ? 128 : 250}
+              height={mediaType === 'sticker' ? 128 : 250}
+              unoptimized
+              className={mediaType === 'sticker' ? 'w-32 h-auto' : 'max-w-[250px] h-auto rounded-lg'}
+            />
+          )}
+          {mediaType === 'video' && (
+            <video
+              src={message.mediaUrl}
+              controls
+              className="max-w-[250px] rounded-lg"
+            />
+          )}
+          {mediaType === 'audio' && (
+            <audio
+              src={message.mediaUrl}
+              controls
+              className="w-80 max-w-full rounded-lg"
+              style={{
+                filter: 'brightness(0.95) contrast(1.1)',
+                borderRadius: '0.5rem',
+              }}
+            />
+          )}
+          {mediaType === 'document' && (
+            <DocumentBubble url={message.mediaUrl} filename={fileName} />
+          )}
+        </div>
+      )}
+      {text && <p className="text-sm">{text}</p>}
+    </>
+  );
+}
@@ -0,0 +1,19 @@
+'use client';
+
+import type { MessageQuote as MessageQuoteData } from '../schemas/conversation-schema';
+
+interface MessageQuoteProps {
+  quote: MessageQuoteData;
+  className?: string;
+}
+
+export function MessageQuote({ quote, className = '' }: MessageQuoteProps) {
+  return (
+    <div className={`rounded-md border-l-4 border-primary/60 bg-background/30 px-2 py-1 text-xs ${className}`}>
+      <p className="font-medium opacity-80">
+        {quote.direction === 'outbound' ? 'You' : 'Customer'}
+      </p>
+      <p className="line-clamp-2 opacity-80">{quote.content}</p>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { useReactToMessage } from '../hooks/conversation-hooks';
+import type { MessageReactionResponse } from '../schemas/conversation-schema';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface MessageReactionChipsProps {
+  reactions: MessageReactionResponse[];
+  align: 'start' | 'end';
+}
+
+export function MessageReactionChips({ reactions, align }: MessageReactionChipsProps) {
+  if (reactions.length === 0) return null;
+
+  return (
+    <div className={`-mt-2 flex gap-1 ${align === 'end' ? 'justify-end' : 'justify-start'} px-2`}>
+      {reactions.map((reaction) => (
+        <span
+          key={reaction.id}
+          className="rounded-full border bg-background px-1.5 text-sm shadow-sm"
+          title={reaction.direction === 'outbound' ? 'Your reaction' : 'Customer reaction'}
+        >
+          {reaction.emoji}
+        </span>
+      ))}
+    </div>
+  );
+}
+
+interface ReactionPickerProps {
+  messageId: number;
+  // Our current reaction, if any; picking it again removes it
+  currentEmoji: string | null;
+}
+
+export function ReactionPicker({ messageId, currentEmoji }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+  const { mutate: react, isPending } = useReactToMessage();
+
+  const handleSelect = (emoji: string) => {
+    setOpen(false);
+    react(
+      { messageId, emoji: emoji === currentEmoji ? null : emoji },
+      { onError: (error) => toast.error(error.message || 'Failed to react to message') }
+    );
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          size="icon"
+          variant="ghost"
+          className="h-7 w-7 shrink-0 opacity-0 transition-opacity group-hover:opacity-100 focus-visible:opacity-100 data-[state=open]:opacity-100"
+          title="React"
+          aria-label="React"
+          disabled={isPending}
+        >
+          <SmilePlus className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="top" className="flex w-auto gap-1 p-1">
+        {QUICK_REACTIONS.map((emoji) => (
+          <Button
+            key={emoji}
+            size="icon"
+            variant={emoji === currentEmoji ? 'secondary' : 'ghost'}
+            className="h-8 w-8 text-lg"
+            onClick={() => handleSelect(emoji)}
+          >
+            {emoji}
+          </Button>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,74 @@
+'use client';
+
+import { format } from 'date-fns';
+import { AlertCircle, Check, CheckCheck, Clock } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import type { MessageResponse } from '../schemas/conversation-schema';
+
+interface MessageStatusTicksProps {
+  message: Pick<
+    MessageResponse,
+    'status' | 'sentAt' | 'deliveredAt' | 'readAt' | 'failedAt' | 'errorCode' | 'errorMessage'
+  >;
+}
+
+function formatReceipt(label: string, value: Date | null): string | null {
+  return value ? `${label} ${format(new Date(value), 'MMM dd, HH:mm')}` : null;
+}
+
+export function MessageStatusTicks({ message }: MessageStatusTicksProps) {
+  if (message.status === 'failed') {
+    const reason = message.errorMessage || 'Message could not be delivered';
+
+    return (
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="inline-flex cursor-help text-red-500" aria-label="Failed">
+            <AlertCircle className="h-3.5 w-3.5" />
+          </span>
+        </TooltipTrigger>
+        <TooltipContent className="max-w-xs">
+          {message.errorCode ? `${reason} (code ${message.errorCode})` : reason}
+        </TooltipContent>
+      </Tooltip>
+    );
+  }
+
+  const icon =
+    message.status === 'sending' ? (
+      <Clock className="h-3.5 w-3.5" />
+    ) : message.status === 'sent' ? (
+      <Check className="h-3.5 w-3.5" />
+    ) : (
+      <CheckCheck className={`h-3.5 w-3.5 ${message.status === 'read' ? 'text-sky-500' : ''}`} />
+    );
+
+  const receipts = [
+    formatReceipt('Sent', message.sentAt),
+    formatReceipt('Delivered', message.deliveredAt),
+    formatReceipt('Read', message.readAt),
+  ].filter((line): line is string => !!line);
+
+  if (receipts.length === 0) {
+    return (
+      <span className="inline-flex" aria-label={message.status}>
+        {icon}
+      </span>
+    );
+  }
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <span className="inline-flex" aria-label={message.status}>
+          {icon}
+        </span>
+      </TooltipTrigger>
+      <TooltipContent>
+        {receipts.map((line) => (
+          <p key={line}>{line}</p>
+        ))}
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -1,5 +1,6 @@
 'use client';
 
+import { useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import {
@@ -12,6 +13,15 @@ import {
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { Label } from '@/components/ui/label';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Form,
   FormControl,
@@ -22,14 +32,20 @@ import {
 } from '@/components/ui/form';
 import { useSendNewMessage } from '../hooks/conversation-hooks';
 import { useConversationStore } from '../store/conversation-store';
-import { sendNewMessageClientSchema } from '../schemas/conversation-schema';
+import { useSelectedWhatsappAccount } from '../hooks/use-selected-whatsapp-account';
+import { sendNewMessageClientSchema, phoneNumberSchema } from '../schemas/conversation-schema';
 import type { SendNewMessageInput } from '../schemas/conversation-schema';
+import { TemplateComposer, type TemplateComposerSubmit } from '@/features/message-templates/components/template-composer';
 import { toast } from 'sonner';
 import { Loader2, X } from 'lucide-react';
 
 export function NewMessageModal() {
   const { isNewMessageModalOpen, closeNewMessageModal } = useConversationStore();
   const { mutate: sendMessage, isPending } = useSendNewMessage();
+  const { selectedAccount, allAccounts } = useSelectedWhatsappAccount();
+  const [chosenAccountId, setChosenAccountId] = useState<number | null>(null);
+  const [templatePhoneNumber, setTemplatePhoneNumber] = useState('');
+  const [templatePhoneError, setTemplatePhoneError] = useState<string | null>(null);
 
   const form = useForm<SendNewMessageInput>({
     resolver: zodResolver(sendNewMessageClientSchema),
@@ -39,8 +55,11 @@ export function NewMessageModal() {
     },
   });
 
+  // Sender for the new conversation; replies later keep using the same number
+  const senderAccountId = chosenAccountId ?? selectedAccount?.id ?? null;
+
   const onSubmit = (data: SendNewMessageInput) => {
-    sendMessage(data, {
+    sendMessage({ ...data, whatsappAccountId: senderAccountId ?? undefined }, {
       onSuccess: () => {
         toast.success('Message sent successfully');
         form.reset();
@@ -52,6 +71,34 @@ export function NewMessageModal() {
     });
   };
 
+  const onSubmitTemplate = ({ templateId, templateVariables }: TemplateComposerSubmit) => {
+    const phone = phoneNumberSchema.safeParse(templatePhoneNumber);
+    if (!phone.success) {
+      setTemplatePhoneError(phone.error.issues[0]?.message ?? 'Invalid phone number');
+      return;
+    }
+    setTemplatePhoneError(null);
+
+    sendMessage(
+      {
+        phoneNumber: templatePhoneNumber,
+        whatsappAccountId: senderAccountId ?? undefined,
+        templateId,
+        templateVariables,
+      },
+      {
+        onSuccess: () => {
+          toast.success('Template sent successfully');
+          setTemplatePhoneNumber('');
+          closeNewMessageModal();
+        },
+        onError: (error) => {
+          toast.error(error.message || 'Failed to send template');
+        },
+      }
+    );
+  };
+
   return (
     <Dialog open={isNewMessageModalOpen} onOpenChange={closeNewMessageModal}>
       <DialogContent className="sm:max-w-[500px]">
@@ -65,67 +112,117 @@ export function NewMessageModal() {
           </DialogClose>
         </DialogHeader>
 
-        <Form {...form}>
-          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-            <FormField
-              control={form.control}
-              name="phoneNumber"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Phone Number</FormLabel>
-                  <FormControl>
-                    <Input
-                      placeholder="+1234567890"
-                      {...field}
-                      disabled={isPending}
-                    />
-                  </FormControl>
-                  <FormMessage />
-                </FormItem>
-              )}
-            />
+        <div className="space-y-2">
+          <Label htmlFor="sender-account">Send from</Label>
+          <Select
+            value={senderAccountId?.toString() ?? ''}
+            onValueChange={(value) => setChosenAccountId(parseInt(value, 10))}
+            disabled={isPending || allAccounts.length === 0}
+          >
+            <SelectTrigger id="sender-account" className="w-full">
+              <SelectValue placeholder="Select a WhatsApp number" />
+            </SelectTrigger>
+            <SelectContent>
+              {allAccounts.map((account) => (
+                <SelectItem key={account.id} value={account.id.toString()}>
+                  {account.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-            <FormField
-              control={form.control}
-              name="messageText"
-              render={({ field }) => (
-                <FormItem>
-                  <FormLabel>Message</FormLabel>
-                  <FormControl>
-                    <Textarea
-                      placeholder="Type your message..."
-                      className="min-h-[120px] resize-none"
-                      {...field}
-                      disabled={isPending}
-                    />
-                  </FormControl>
-                  <div className="flex justify-between text-sm text-muted-foreground">
-                    <FormMessage />
-                    <span>{field.value.length}/4096</span>
-                  </div>
-                </FormItem>
-              )}
-            />
+        <Tabs defaultValue="message" className="space-y-4">
+          <TabsList>
+            <TabsTrigger value="message">Message</TabsTrigger>
+            <TabsTrigger value="template">Template</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="message">
+            <Form {...form}>
+              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+                <FormField
+                  control={form.control}
+                  name="phoneNumber"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Phone Number</FormLabel>
+                      <FormControl>
+                        <Input
+                          placeholder="+1234567890"
+                          {...field}
+                          disabled={isPending}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="messageText"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Message</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="Type your message..."
+                          className="min-h-[120px] resize-none"
+                          {...field}
+                          disabled={isPending}
+                        />
+                      </FormControl>
+                      <div className="flex justify-between text-sm text-muted-foreground">
+                        <FormMessage />
+                        <span>{field.value.length}/4096</span>
+                      </div>
+                    </FormItem>
+                  )}
+                />
 
-            <div className="flex justify-end gap-3">
-              <Button
-                type="button"
-                variant="outline"
-                onClick={closeNewMessageModal}
+                <div className="flex justify-end gap-3">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={closeNewMessageModal}
+                    disabled={isPending}
+                  >
+                    Cancel
+                  </Button>
+                  <Button
+                    type="submit"
+                    disabled={isPending || !form.formState.isValid}
+                  >
+                    {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Send
+                  </Button>
+                </div>
+              </form>
+            </Form>
+          </TabsContent>
+
+          <TabsContent value="template" className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-phone-number">Phone Number</Label>
+              <Input
+                id="template-phone-number"
+                placeholder="+1234567890"
+                value={templatePhoneNumber}
+                onChange={(e) => setTemplatePhoneNumber(e.target.value)}
                 disabled={isPending}
-              >
-                Cancel
-              </Button>
-              <Button
-                type="submit"
-                disabled={isPending || !form.formState.isValid}
-              >
-                {isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                Send
-              </Button>
+              />
+              {templatePhoneError && (
+                <p className="text-sm text-destructive">{templatePhoneError}</p>
+              )}
             </div>
-          </form>
-        </Form>
+            <TemplateComposer
+              whatsappAccountId={senderAccountId}
+              onSubmit={onSubmitTemplate}
+              isSubmitting={isPending}
+            />
+          </TabsContent>
+        </Tabs>
       </DialogContent>
     </Dialog>
   );
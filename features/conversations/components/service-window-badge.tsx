@@ -0,0 +1,44 @@
+'use client';
+
+import { Clock } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { formatServiceWindowRemaining, type ServiceWindowState } from '@/lib/service-window';
+import { useServiceWindow } from '../hooks/use-service-window';
+
+interface ServiceWindowBadgeProps {
+  lastInboundAt: Date | string | null | undefined;
+  compact?: boolean;
+}
+
+const variants: Record<ServiceWindowState['status'], string> = {
+  open: 'bg-green-100 text-green-700 border-green-300',
+  closing_soon: 'bg-amber-100 text-amber-700 border-amber-300',
+  closed: 'bg-red-100 text-red-700 border-red-300',
+};
+
+export function ServiceWindowBadge({ lastInboundAt, compact = false }: ServiceWindowBadgeProps) {
+  const serviceWindow = useServiceWindow(lastInboundAt);
+  const remaining = formatServiceWindowRemaining(serviceWindow.remainingMs);
+
+  // The list only flags conversations that need attention
+  if (compact && serviceWindow.status === 'open') {
+    return null;
+  }
+
+  const label =
+    serviceWindow.status === 'closed'
+      ? compact ? 'Closed' : 'Window closed · template only'
+      : compact ? remaining : `${remaining} left to reply`;
+
+  const title =
+    serviceWindow.status === 'closed'
+      ? 'The 24-hour customer service window has closed. Only approved templates can be sent.'
+      : `Free-form replies allowed until ${serviceWindow.expiresAt?.toLocaleString()}`;
+
+  return (
+    <Badge variant="outline" className={`text-xs ${variants[serviceWindow.status]}`} title={title}>
+      {!compact && <Clock className="mr-1 h-3 w-3" />}
+      {label}
+    </Badge>
+  );
+}
@@ -9,12 +9,24 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { useSelectedWhatsappAccount } from '../hooks/use-selected-whatsapp-account';
+import { useUnreadCounts } from '../hooks/conversation-hooks';
 import { Skeleton } from '@/components/ui/skeleton';
 import Link from 'next/link';
 import { Separator } from '@/components/ui/separator';
 
+function UnreadBadge({ count }: { count: number | undefined }) {
+  if (!count) return null;
+
+  return (
+    <span className="ml-auto inline-flex h-5 min-w-5 items-center justify-center rounded-full bg-primary px-1.5 text-xs font-medium text-primary-foreground">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
+
 export function WhatsAppAccountSelector() {
   const { selectedAccount, allAccounts, isLoading, selectAccount } = useSelectedWhatsappAccount();
+  const { data: unreadCounts } = useUnreadCounts();
 
   if (isLoading) {
     return (
@@ -49,6 +61,7 @@ export function WhatsAppAccountSelector() {
                   Default
                 </span>
               )}
+              <UnreadBadge count={unreadCounts?.byAccount[selectedAccount.id]} />
             </div>
           )}
         </SelectValue>
@@ -64,8 +77,9 @@ export function WhatsAppAccountSelector() {
                   Default
                 </span>
               )}
+              <UnreadBadge count={unreadCounts?.byAccount[account.id]} />
               {selectedAccount?.id === account.id && (
-                <Check className="h-4 w-4 ml-auto" />
+                <Check className={`h-4 w-4 ${unreadCounts?.byAccount[account.id] ? '' : 'ml-auto'}`} />
               )}
             </div>
           </SelectItem>
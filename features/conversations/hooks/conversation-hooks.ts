@@ -1,10 +1,12 @@
-import { useMutation, useQuery, useQueryClient, useInfiniteQuery } from '@tanstack/react-query';
+import { useMutation, useQuery, useQueryClient, useInfiniteQuery, type InfiniteData } from '@tanstack/react-query';
 import {
   listConversationsAction,
   getConversationMessagesAction,
   getConversationAction,
   markConversationAsReadAction,
+  getUnreadCountsAction,
   assignConversationToUserAction,
+  updateConversationStatusAction,
   clearConversationAction,
   deleteConversationAction,
   archiveConversationAction,
@@ -14,6 +16,7 @@ import {
 import {
   sendNewMessageAction,
   retryFailedMessageAction,
+  reactToMessageAction,
 } from '../actions/message-actions';
 import type {
   ConversationListFilter,
@@ -26,9 +29,80 @@ import type {
   DeleteConversationInput,
   ArchiveConversationInput,
   AssignConversationInput,
+  UpdateConversationStatusInput,
   MarkAsReadInput,
   GetWhatsAppMessageHistoryInput,
+  ReactToMessageInput,
+  MessageResponse,
 } from '../schemas/conversation-schema';
+import { useConversationStore } from '../store/conversation-store';
+
+type MessagePages = InfiniteData<{ messages: MessageResponse[]; previousCursor?: string; hasMore: boolean }>;
+
+// Optimistic messages get negative ids so they never collide with stored ones
+let nextOptimisticMessageId = -1;
+
+function buildOptimisticMessage(conversationId: number, input: SendMessageWithImageInput): MessageResponse {
+  const messageType: MessageResponse['messageType'] = input.templateId
+    ? 'template'
+    : input.imageUrl
+      ? 'image'
+      : input.videoUrl
+        ? 'video'
+        : input.audioUrl
+          ? 'audio'
+          : input.documentUrl
+            ? 'document'
+            : input.location
+              ? 'location'
+              : 'text';
+  const mediaUrl = input.imageUrl ?? input.videoUrl ?? input.audioUrl ?? input.documentUrl ?? null;
+
+  return {
+    id: nextOptimisticMessageId--,
+    conversationId,
+    companyId: 0,
+    contactId: 0,
+    direction: 'outbound',
+    status: 'sending',
+    content: input.messageText ?? '',
+    messageType,
+    contentPayload:
+      messageType === 'document'
+        ? { type: 'document', filename: input.documentFilename ?? null }
+        : messageType === 'location' && input.location
+          ? { type: 'location', ...input.location }
+          : null,
+    mediaUrl,
+    mediaType: mediaUrl ? messageType : null,
+    mediaId: null,
+    mediaMimeType: null,
+    mediaCaption: mediaUrl ? input.messageText ?? null : null,
+    storedMediaUrl: null,
+    providerMessageId: null,
+    providerStatus: null,
+    replyToMessageId: input.replyToMessageId ?? null,
+    replyToProviderMessageId: null,
+    reactions: [],
+    errorCode: null,
+    errorMessage: null,
+    sentAt: null,
+    deliveredAt: null,
+    readAt: null,
+    failedAt: null,
+    templateId: input.templateId ?? null,
+    createdAt: new Date(),
+    updatedAt: null,
+    isActive: true,
+  };
+}
+
+function mapMessagePages(
+  old: MessagePages | undefined,
+  update: (messages: MessageResponse[], pageIndex: number) => MessageResponse[]
+): MessagePages | undefined {
+  return old && { ...old, pages: old.pages.map((page, index) => ({ ...page, messages: update(page.messages, index) })) };
+}
 
 export const conversationKeys = {
   all: ['conversations'] as const,
@@ -36,6 +110,7 @@ export const conversationKeys = {
   list: (filter: ConversationListFilter) => [...conversationKeys.lists(), filter] as const,
   details: () => [...conversationKeys.all, 'detail'] as const,
   detail: (id: number) => [...conversationKeys.details(), id] as const,
+  unreadCounts: () => [...conversationKeys.all, 'unread-counts'] as const,
 };
 
 export const messageKeys = {
@@ -48,6 +123,8 @@ export const messageKeys = {
 };
 
 export function useConversations(filter: ConversationListFilter) {
+  const realtimeConnected = useConversationStore((state) => state.realtimeConnected);
+
   return useQuery({
     queryKey: conversationKeys.list(filter),
     queryFn: async () => {
@@ -57,13 +134,16 @@ export function useConversations(filter: ConversationListFilter) {
     },
     enabled: true,
     staleTime: 10000,
-    refetchInterval: 10000,
+    // The event stream keeps the list current; poll only while it is down
+    refetchInterval: realtimeConnected ? false : 10000,
     refetchOnWindowFocus: false,
     refetchOnMount: false,
   });
 }
 
 export function useConversationMessages(conversationId: number) {
+  const realtimeConnected = useConversationStore((state) => state.realtimeConnected);
+
   return useInfiniteQuery({
     queryKey: messageKeys.list(conversationId),
     queryFn: async ({ pageParam }: { pageParam: string | undefined }) => {
@@ -78,7 +158,7 @@ export function useConversationMessages(conversationId: number) {
     getNextPageParam: (lastPage) => (lastPage?.hasMore ? lastPage.previousCursor : undefined),
     initialPageParam: undefined as string | undefined,
     staleTime: 5000,
-    refetchInterval: 5000,
+    refetchInterval: realtimeConnected ? false : 5000,
     gcTime: 5000,
     refetchOnWindowFocus: false,
     refetchOnMount: false,
@@ -100,6 +180,10 @@ export function useConversation(conversationId: number | null) {
   });
 }
 
+/**
+ * Sends go through a queue, so the message is shown straight away as
+ * "sending" and flips to sent or failed over the event stream.
+ */
 export function useSendNewMessage() {
   const queryClient = useQueryClient();
 
@@ -109,41 +193,50 @@ export function useSendNewMessage() {
       if (!result.ok) throw new Error(result.error);
       return result.data;
     },
-    onSuccess: (data) => {
+    onMutate: async (input) => {
+      if (!input.conversationId) return undefined;
+
+      const listKey = messageKeys.list(input.conversationId);
+      await queryClient.cancelQueries({ queryKey: listKey });
+
+      const optimistic = buildOptimisticMessage(input.conversationId, input);
+      queryClient.setQueryData<MessagePages>(listKey, (old) =>
+        mapMessagePages(old, (messages, index) => (index === 0 ? [...messages, optimistic] : messages))
+      );
+      return { optimisticId: optimistic.id, conversationId: input.conversationId };
+    },
+    onError: (error, _input, context) => {
+      if (!context) return;
+      queryClient.setQueryData<MessagePages>(messageKeys.list(context.conversationId), (old) =>
+        mapMessagePages(old, (messages) =>
+          messages.map((message) =>
+            message.id === context.optimisticId
+              ? { ...message, status: 'failed', errorMessage: error.message, failedAt: new Date() }
+              : message
+          )
+        )
+      );
+    },
+    onSuccess: (data, input, context) => {
       queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
-      if (data?.success && data.conversationId) {
-        queryClient.setQueryData(messageKeys.list(data.conversationId), (old: any) => {
-          if (!old) return old;
-          const newMessage = {
-            ...data.message,
-            conversationId: data.conversationId,
-            companyId: 0,
-            contactId: data.contactId,
-            direction: 'outbound' as const,
-            mediaUrl: data.message.mediaUrl ?? null,
-            mediaType: data.message.mediaType ?? null,
-            mediaId: null,
-            mediaMimeType: null,
-            mediaCaption: null,
-            providerMessageId: null,
-            providerStatus: null,
-            errorCode: null,
-            errorMessage: null,
-            updatedAt: null,
-            isActive: true,
-          };
-          return {
-            pages: [
-              {
-                messages: [...(old.pages[0]?.messages || []), newMessage],
-                previousCursor: undefined,
-                hasMore: old.pages[0]?.hasMore || false,
-              },
-            ],
-            pageParams: [undefined],
-          };
+      if (!data?.success || !data.conversationId) return;
+
+      const queued: MessageResponse = {
+        ...buildOptimisticMessage(data.conversationId, input),
+        ...data.message,
+        contactId: data.contactId,
+        mediaUrl: data.message.mediaUrl ?? null,
+        mediaType: data.message.mediaType ?? null,
+      };
+
+      queryClient.setQueryData<MessagePages>(messageKeys.list(data.conversationId), (old) => {
+        // The stream may already have delivered this message
+        const delivered = old?.pages.some((page) => page.messages.some((message) => message.id === queued.id));
+        return mapMessagePages(old, (messages, index) => {
+          const withoutOptimistic = messages.filter((message) => message.id !== context?.optimisticId);
+          return index === 0 && !delivered ? [...withoutOptimistic, queued] : withoutOptimistic;
         });
-      }
+      });
     },
     retry: false,
   });
@@ -168,6 +261,40 @@ export function useRetryFailedMessage() {
   });
 }
 
+export function useReactToMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: ReactToMessageInput) => {
+      const result = await reactToMessageAction(input);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (data) => {
+      if (data) {
+        queryClient.invalidateQueries({ queryKey: messageKeys.list(data.conversationId) });
+      }
+    },
+    retry: false,
+  });
+}
+
+export function useUnreadCounts() {
+  const realtimeConnected = useConversationStore((state) => state.realtimeConnected);
+
+  return useQuery({
+    queryKey: conversationKeys.unreadCounts(),
+    queryFn: async () => {
+      const result = await getUnreadCountsAction();
+      if (!result.ok) throw new Error(result.error || 'Failed to load unread counts');
+      return result.data;
+    },
+    staleTime: 10000,
+    refetchInterval: realtimeConnected ? false : 30000,
+    refetchOnWindowFocus: false,
+  });
+}
+
 export function useMarkConversationAsRead() {
   const queryClient = useQueryClient();
 
@@ -178,6 +305,7 @@ export function useMarkConversationAsRead() {
     },
     onSuccess: (_, input) => {
       queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: conversationKeys.unreadCounts() });
       queryClient.setQueryData(conversationKeys.detail(input.conversationId), (old: any) => {
         if (!old) return old;
         return { ...old, unreadCount: 0 };
@@ -202,6 +330,22 @@ export function useAssignConversation() {
   });
 }
 
+export function useUpdateConversationStatus() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (input: UpdateConversationStatusInput) => {
+      const result = await updateConversationStatusAction(input);
+      if (!result.ok) throw new Error(result.error);
+    },
+    onSuccess: (_, input) => {
+      queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
+      queryClient.invalidateQueries({ queryKey: conversationKeys.detail(input.conversationId) });
+    },
+    retry: false,
+  });
+}
+
 export function useClearConversation() {
   const queryClient = useQueryClient();
 
@@ -1,2 +1,5 @@
-export { conversationKeys, messageKeys, useConversations, useConversationMessages, useConversation, useSendNewMessage, useRetryFailedMessage, useMarkConversationAsRead, useAssignConversation, useClearConversation, useDeleteConversation, useArchiveConversation, useUnarchiveConversation, useWhatsAppMessageHistory } from './conversation-hooks';
+export { conversationKeys, messageKeys, useConversations, useConversationMessages, useConversation, useSendNewMessage, useRetryFailedMessage, useReactToMessage, useMarkConversationAsRead, useUnreadCounts, useAssignConversation, useClearConversation, useDeleteConversation, useArchiveConversation, useUnarchiveConversation, useWhatsAppMessageHistory } from './conversation-hooks';
 export { noteKeys, useConversationNotes, useConversationNote, useUserNoteForConversation, useCreateConversationNote, useUpdateConversationNote, useDeleteConversationNote } from './note-hooks';
+export { useServiceWindow } from './use-service-window';
+export { useRealtimeInbox } from './use-realtime-inbox';
+export { useConversationPresence, useConversationViewers } from './use-conversation-presence';
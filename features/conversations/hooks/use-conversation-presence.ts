@@ -0,0 +1,92 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useSession } from 'next-auth/react';
+import { sendTypingIndicatorAction, updatePresenceAction } from '../actions/conversation-actions';
+import { usePresenceStore } from '../store/presence-store';
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+const TYPING_THROTTLE_MS = 3000;
+// WhatsApp shows the customer's typing bubble for up to 25 seconds
+const CUSTOMER_TYPING_THROTTLE_MS = 20000;
+const EXPIRY_CHECK_INTERVAL_MS = 2000;
+
+export interface ConversationViewer {
+  userId: number;
+  userName: string;
+  isTyping: boolean;
+}
+
+/**
+ * Announces the current agent as viewing `conversationId` for as long as it
+ * stays selected. `notifyTyping` can be called on every keystroke; it is
+ * throttled before telling other agents and, where the account allows it,
+ * the customer.
+ */
+export function useConversationPresence(conversationId: number | null) {
+  const lastTypingAt = useRef(0);
+  const lastCustomerTypingAt = useRef(0);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const announce = (state: 'viewing' | 'left') => {
+      void updatePresenceAction({ conversationId, state }).catch(() => undefined);
+    };
+
+    announce('viewing');
+    const heartbeat = setInterval(() => announce('viewing'), HEARTBEAT_INTERVAL_MS);
+    lastTypingAt.current = 0;
+    lastCustomerTypingAt.current = 0;
+
+    return () => {
+      clearInterval(heartbeat);
+      announce('left');
+    };
+  }, [conversationId]);
+
+  const notifyTyping = useCallback(() => {
+    if (!conversationId) return;
+
+    const now = Date.now();
+    if (now - lastTypingAt.current < TYPING_THROTTLE_MS) return;
+    lastTypingAt.current = now;
+
+    void updatePresenceAction({ conversationId, state: 'typing' }).catch(() => undefined);
+
+    if (now - lastCustomerTypingAt.current >= CUSTOMER_TYPING_THROTTLE_MS) {
+      lastCustomerTypingAt.current = now;
+      void sendTypingIndicatorAction({ conversationId }).catch(() => undefined);
+    }
+  }, [conversationId]);
+
+  return { notifyTyping };
+}
+
+/**
+ * Other agents currently viewing or typing in a conversation.
+ */
+export function useConversationViewers(conversationId: number | null): ConversationViewer[] {
+  const session = useSession();
+  const currentUserId = session.data?.user?.id ? parseInt(session.data.user.id, 10) : undefined;
+  const agents = usePresenceStore((state) => (conversationId ? state.presence[conversationId] : undefined));
+  const [now, setNow] = useState(() => Date.now());
+
+  // Re-evaluate periodically so lapsed presence disappears without a new event
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), EXPIRY_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, []);
+
+  return useMemo(
+    () =>
+      Object.values(agents ?? {})
+        .filter((agent) => agent.userId !== currentUserId && agent.viewingUntil > now)
+        .map((agent) => ({
+          userId: agent.userId,
+          userName: agent.userName,
+          isTyping: agent.typingUntil > now,
+        })),
+    [agents, currentUserId, now]
+  );
+}
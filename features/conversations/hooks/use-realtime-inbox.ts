@@ -0,0 +1,267 @@
+'use client';
+
+import { useEffect } from 'react';
+import { useQueryClient, type InfiniteData, type QueryClient } from '@tanstack/react-query';
+import type { RealtimeEvent } from '@/lib/realtime-events';
+import { conversationKeys, messageKeys } from './conversation-hooks';
+import { useConversationStore } from '../store/conversation-store';
+import { usePresenceStore } from '../store/presence-store';
+import type { ConversationResponse, MessageResponse } from '../schemas/conversation-schema';
+
+const EVENTS_URL = '/api/conversations/events';
+
+interface MessagePage {
+  messages: MessageResponse[];
+  previousCursor?: string;
+  hasMore: boolean;
+}
+
+interface ConversationPage {
+  conversations: ConversationResponse[];
+  nextCursor?: string;
+  hasMore: boolean;
+}
+
+type EventOf<T extends RealtimeEvent['type']> = Extract<RealtimeEvent, { type: T }>;
+
+const toDate = (value: string | null | undefined) => (value ? new Date(value) : null);
+
+function reviveMessage(message: NonNullable<EventOf<'message.created'>['message']>): MessageResponse {
+  return {
+    ...message,
+    direction: message.direction as MessageResponse['direction'],
+    status: message.status as MessageResponse['status'],
+    messageType: message.messageType as MessageResponse['messageType'],
+    contentPayload: message.contentPayload as MessageResponse['contentPayload'],
+    reactions: [],
+    sentAt: toDate(message.sentAt),
+    deliveredAt: toDate(message.deliveredAt),
+    readAt: toDate(message.readAt),
+    failedAt: toDate(message.failedAt),
+    createdAt: new Date(message.createdAt),
+    updatedAt: toDate(message.updatedAt),
+  };
+}
+
+function reviveStatusChanges(changes: EventOf<'message.status_changed'>['changes']): Partial<MessageResponse> {
+  const { status, sentAt, deliveredAt, readAt, failedAt, ...rest } = changes;
+  return {
+    ...rest,
+    ...(status !== undefined && { status: status as MessageResponse['status'] }),
+    ...(sentAt !== undefined && { sentAt: toDate(sentAt) }),
+    ...(deliveredAt !== undefined && { deliveredAt: toDate(deliveredAt) }),
+    ...(readAt !== undefined && { readAt: toDate(readAt) }),
+    ...(failedAt !== undefined && { failedAt: toDate(failedAt) }),
+  };
+}
+
+function reviveConversationChanges(
+  changes: EventOf<'conversation.updated'>['changes']
+): Partial<ConversationResponse> {
+  const { lastMessageTime, lastInboundAt, status, snoozedUntil, ...rest } = changes;
+  return {
+    ...rest,
+    ...(lastMessageTime !== undefined && { lastMessageTime: toDate(lastMessageTime) }),
+    ...(lastInboundAt !== undefined && { lastInboundAt: toDate(lastInboundAt) }),
+    ...(status !== undefined && { status: status as ConversationResponse['status'] }),
+    ...(snoozedUntil !== undefined && { snoozedUntil: toDate(snoozedUntil) }),
+  };
+}
+
+function patchMessage(queryClient: QueryClient, conversationId: number, messageId: number, patch: Partial<MessageResponse>) {
+  queryClient.setQueryData<InfiniteData<MessagePage>>(messageKeys.list(conversationId), (old) =>
+    old && {
+      ...old,
+      pages: old.pages.map((page) => ({
+        ...page,
+        messages: page.messages.map((message) => (message.id === messageId ? { ...message, ...patch } : message)),
+      })),
+    }
+  );
+}
+
+/**
+ * Inbound messages always report `open`; only treat it as a change when a
+ * cached copy had another status, or when nothing is cached to compare with.
+ */
+function statusChanged(
+  queryClient: QueryClient,
+  conversationId: number,
+  status: ConversationResponse['status'] | undefined
+): boolean {
+  if (status === undefined) return false;
+
+  const cached = [
+    queryClient.getQueryData<ConversationResponse>(conversationKeys.detail(conversationId)),
+    ...queryClient
+      .getQueriesData<ConversationPage>({ queryKey: conversationKeys.lists() })
+      .flatMap(([, page]) => page?.conversations ?? [])
+      .filter((conversation) => conversation.id === conversationId),
+  ].filter((conversation) => conversation !== undefined);
+
+  return cached.length === 0 || cached.some((conversation) => conversation.status !== status);
+}
+
+/**
+ * Applies a conversation change to every cached list. Lists that do not hold
+ * the conversation are refetched when the change could add it to them.
+ */
+function patchConversationLists(
+  queryClient: QueryClient,
+  conversationId: number,
+  patch: Partial<ConversationResponse>
+) {
+  const lists = queryClient.getQueriesData<ConversationPage>({ queryKey: conversationKeys.lists() });
+
+  for (const [queryKey, page] of lists) {
+    if (!page) continue;
+
+    if (!page.conversations.some((conversation) => conversation.id === conversationId)) {
+      if (patch.lastMessageTime !== undefined) {
+        queryClient.invalidateQueries({ queryKey, exact: true });
+      }
+      continue;
+    }
+
+    const conversations = page.conversations.map((conversation) =>
+      conversation.id === conversationId ? { ...conversation, ...patch } : conversation
+    );
+    conversations.sort(
+      (a, b) => (b.lastMessageTime ? new Date(b.lastMessageTime).getTime() : 0) -
+        (a.lastMessageTime ? new Date(a.lastMessageTime).getTime() : 0) || b.id - a.id
+    );
+    queryClient.setQueryData<ConversationPage>(queryKey, { ...page, conversations });
+  }
+
+  queryClient.setQueryData<ConversationResponse>(conversationKeys.detail(conversationId), (old) =>
+    old && { ...old, ...patch }
+  );
+}
+
+/**
+ * Counts a new inbound message as unread in every cached list until the
+ * next refetch brings the agent's own count.
+ */
+function incrementUnread(queryClient: QueryClient, conversationId: number) {
+  const lists = queryClient.getQueriesData<ConversationPage>({ queryKey: conversationKeys.lists() });
+
+  for (const [queryKey, page] of lists) {
+    if (!page?.conversations.some((conversation) => conversation.id === conversationId)) continue;
+    queryClient.setQueryData<ConversationPage>(queryKey, {
+      ...page,
+      conversations: page.conversations.map((conversation) =>
+        conversation.id === conversationId
+          ? { ...conversation, unreadCount: conversation.unreadCount + 1 }
+          : conversation
+      ),
+    });
+  }
+
+  queryClient.invalidateQueries({ queryKey: conversationKeys.unreadCounts() });
+}
+
+function applyEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'message.created': {
+      const listKey = messageKeys.list(event.conversationId);
+      if (!event.message) {
+        queryClient.invalidateQueries({ queryKey: listKey });
+        queryClient.invalidateQueries({ queryKey: conversationKeys.unreadCounts() });
+        return;
+      }
+
+      const message = reviveMessage(event.message);
+      // The open conversation is marked read as its messages arrive, so it never counts as unread
+      const isOpen = useConversationStore.getState().selectedConversationId === event.conversationId;
+      if (message.direction === 'inbound' && !isOpen) {
+        incrementUnread(queryClient, event.conversationId);
+      }
+      queryClient.setQueryData<InfiniteData<MessagePage>>(listKey, (old) => {
+        if (!old || old.pages.some((page) => page.messages.some((m) => m.id === message.id))) {
+          return old;
+        }
+        const [latest, ...older] = old.pages;
+        return {
+          ...old,
+          pages: [{ ...latest, messages: [...(latest?.messages ?? []), message] }, ...older],
+        };
+      });
+      return;
+    }
+    case 'message.status_changed':
+      patchMessage(queryClient, event.conversationId, event.messageId, reviveStatusChanges(event.changes));
+      return;
+    case 'message.reactions_changed':
+      queryClient.invalidateQueries({ queryKey: messageKeys.list(event.conversationId) });
+      return;
+    case 'conversation.updated': {
+      const patch = reviveConversationChanges(event.changes);
+      if (patch.isArchived !== undefined || statusChanged(queryClient, event.conversationId, patch.status)) {
+        // Archiving and status changes move the conversation between lists
+        queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
+        queryClient.setQueryData<ConversationResponse>(conversationKeys.detail(event.conversationId), (old) =>
+          old && { ...old, ...patch }
+        );
+        return;
+      }
+      patchConversationLists(queryClient, event.conversationId, patch);
+      return;
+    }
+    case 'conversation.assigned':
+      // Assignment decides which filters a conversation shows up under
+      queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
+      queryClient.setQueryData<ConversationResponse>(conversationKeys.detail(event.conversationId), (old) =>
+        old && { ...old, assignedToUserId: event.assignedToUserId }
+      );
+      return;
+    case 'presence.updated':
+      usePresenceStore
+        .getState()
+        .applyPresence(event.conversationId, event.userId, event.userName, event.state);
+      return;
+  }
+}
+
+/**
+ * Keeps the inbox caches current from the company event stream. While the
+ * stream is down `realtimeConnected` is false and the list hooks fall back
+ * to polling; after a reconnect everything is refetched once to catch up.
+ */
+export function useRealtimeInbox() {
+  const queryClient = useQueryClient();
+  const setRealtimeConnected = useConversationStore((state) => state.setRealtimeConnected);
+
+  useEffect(() => {
+    if (typeof EventSource === 'undefined') return;
+
+    const source = new EventSource(EVENTS_URL);
+    let hasConnected = false;
+
+    source.onopen = () => {
+      if (hasConnected) {
+        queryClient.invalidateQueries({ queryKey: conversationKeys.all });
+        queryClient.invalidateQueries({ queryKey: messageKeys.lists() });
+      }
+      hasConnected = true;
+      setRealtimeConnected(true);
+    };
+
+    source.onerror = () => {
+      // EventSource retries on its own; poll until it is back
+      setRealtimeConnected(false);
+    };
+
+    source.onmessage = (message: MessageEvent<string>) => {
+      try {
+        applyEvent(queryClient, JSON.parse(message.data) as RealtimeEvent);
+      } catch (error) {
+        console.error('[Realtime] Failed to apply event', error);
+      }
+    };
+
+    return () => {
+      source.close();
+      setRealtimeConnected(false);
+    };
+  }, [queryClient, setRealtimeConnected]);
+}
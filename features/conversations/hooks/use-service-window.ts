@@ -0,0 +1,19 @@
+import { useEffect, useState } from 'react';
+import { getServiceWindowState, type ServiceWindowState } from '@/lib/service-window';
+
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Live 24-hour customer service window state, re-evaluated every minute so
+ * countdowns and the closed state update without a refetch.
+ */
+export function useServiceWindow(lastInboundAt: Date | string | null | undefined): ServiceWindowState {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  return getServiceWindowState(lastInboundAt, now);
+}
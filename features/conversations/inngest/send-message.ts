@@ -0,0 +1,56 @@
+import { RetryAfterError } from 'inngest';
+import { inngest } from '@/lib/inngest';
+import { getRateLimitRetryDelaySeconds } from '@/lib/whatsapp-send-errors';
+import { MessageService, OUTBOUND_SEND_EVENT, type OutboundSendJob } from '../services/message-service';
+
+// Stays below Meta's default throughput of 80 messages per second per business number
+const SENDS_PER_SECOND_PER_NUMBER = 60;
+
+// One event per outbound message. Retryable failures back off exponentially;
+// rate limits wait longer, permanent failures are recorded without retrying.
+export const sendOutboundMessage = inngest.createFunction(
+  {
+    id: 'send-whatsapp-outbound-message',
+    retries: 6,
+    throttle: {
+      key: 'event.data.whatsappAccountId',
+      limit: SENDS_PER_SECOND_PER_NUMBER,
+      period: '1s',
+    },
+    // Retries exhausted: surface the last error on the message
+    onFailure: async ({ event, error }) => {
+      const job = event.data.event.data as OutboundSendJob;
+      await MessageService.markSendFailed(job, error.message);
+    },
+  },
+  { event: OUTBOUND_SEND_EVENT },
+  async ({ event, step, attempt }) => {
+    const job = event.data as OutboundSendJob;
+
+    const outcome = await step.run('deliver', async () => {
+      const result = await MessageService.deliverQueuedMessage(job);
+      if (result.success && result.data) {
+        return result.data;
+      }
+
+      const message = result.message || 'Failed to send message';
+      if (result.error?.code === 'RATE_LIMITED') {
+        throw new RetryAfterError(message, getRateLimitRetryDelaySeconds(attempt) * 1000);
+      }
+      throw new Error(message);
+    });
+
+    // Its own step: once Graph accepted the message, retries only repeat the bookkeeping
+    if (outcome.status === 'sent' && outcome.providerMessageId) {
+      const providerMessageId = outcome.providerMessageId;
+      await step.run('record-sent', async () => {
+        const result = await MessageService.recordQueuedMessageSent(job, providerMessageId);
+        if (!result.success) {
+          throw new Error(result.message || 'Failed to record sent message');
+        }
+      });
+    }
+
+    return { messageId: job.messageId, status: outcome.status };
+  }
+);
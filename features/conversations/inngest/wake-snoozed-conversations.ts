@@ -0,0 +1,30 @@
+import { inngest } from '@/lib/inngest';
+import { ConversationService } from '../services/conversation-service';
+
+const WAKE_BATCH_SIZE = 200;
+// Bounds one run; anything left over is picked up by the next tick
+const MAX_BATCHES_PER_RUN = 10;
+
+// Reopens snoozed conversations once their snooze time has passed
+export const wakeSnoozedConversations = inngest.createFunction(
+  { id: 'wake-snoozed-conversations', concurrency: 1 },
+  { cron: '* * * * *' },
+  async ({ step }) => {
+    let woken = 0;
+
+    for (let batch = 0; batch < MAX_BATCHES_PER_RUN; batch++) {
+      const result = await step.run(`wake-batch-${batch}`, async () => {
+        const outcome = await ConversationService.wakeSnoozedConversations(WAKE_BATCH_SIZE);
+        if (!outcome.success || !outcome.data) {
+          throw new Error(outcome.message || 'Failed to wake snoozed conversations');
+        }
+        return outcome.data;
+      });
+
+      woken += result.woken;
+      if (result.woken < WAKE_BATCH_SIZE) break;
+    }
+
+    return { woken };
+  }
+);
@@ -1,16 +1,66 @@
 import { z } from 'zod';
+import { templateVariableValuesSchema } from '@/features/message-templates/schemas/message-template.schema';
+import { tagChipSchema } from '@/features/tags/schemas/tag.schema';
 
 // Constants
 export const CONVERSATION_FILTER_TYPES = ['all', 'unread', 'favorites', 'groups', 'assigned'] as const;
 export type ConversationFilterType = (typeof CONVERSATION_FILTER_TYPES)[number];
 
+// Lifecycle: open -> pending (waiting on the customer) -> resolved, or snoozed
+// until a date. New inbound messages put it back to open.
+export const CONVERSATION_STATUSES = ['open', 'pending', 'snoozed', 'resolved'] as const;
+export type ConversationStatus = (typeof CONVERSATION_STATUSES)[number];
+
 export const MESSAGE_STATUSES = ['sending', 'sent', 'delivered', 'read', 'failed'] as const;
 export type MessageStatus = (typeof MESSAGE_STATUSES)[number];
 
 export const MESSAGE_DIRECTIONS = ['inbound', 'outbound'] as const;
 export type MessageDirection = (typeof MESSAGE_DIRECTIONS)[number];
 
-export const FILE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'audio/mpeg', 'audio/mp4', 'audio/webm', 'audio/ogg'] as const;
+export const MESSAGE_TYPES = [
+  'text',
+  'image',
+  'video',
+  'audio',
+  'document',
+  'sticker',
+  'location',
+  'contacts',
+  'reaction',
+  'interactive',
+  'template',
+  'unsupported',
+] as const;
+export type MessageType = (typeof MESSAGE_TYPES)[number];
+
+// Reasons carried in `error.details.reason` when a send is refused
+export const MESSAGE_SEND_ERROR_REASONS = ['SERVICE_WINDOW_CLOSED', 'ACCOUNT_INACTIVE'] as const;
+export type MessageSendErrorReason = (typeof MESSAGE_SEND_ERROR_REASONS)[number];
+
+export const VIDEO_FILE_TYPES = ['video/mp4', 'video/3gpp'] as const;
+
+export const DOCUMENT_FILE_TYPES = [
+  'application/pdf',
+  'text/plain',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-powerpoint',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+] as const;
+
+export const FILE_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'audio/mpeg',
+  'audio/mp4',
+  'audio/webm',
+  'audio/ogg',
+  ...VIDEO_FILE_TYPES,
+  ...DOCUMENT_FILE_TYPES,
+] as const;
 export type FileType = (typeof FILE_TYPES)[number];
 
 // Phone number validation and normalization
@@ -31,6 +81,8 @@ export const messageTextSchema = z
 export const sendNewMessageClientSchema = z.object({
   phoneNumber: phoneNumberSchema,
   messageText: messageTextSchema,
+  // Sender number for a new conversation; defaults to the company's default account
+  whatsappAccountId: z.number().int().positive().optional(),
 });
 
 export type SendNewMessageInput = z.infer<typeof sendNewMessageClientSchema>;
@@ -39,22 +91,85 @@ export type SendNewMessageInput = z.infer<typeof sendNewMessageClientSchema>;
 export const fileUploadClientSchema = z.object({
   file: z.instanceof(File)
     .refine((f) => f.size <= 16 * 1024 * 1024, 'File size must be less than 16MB')
-    .refine((f) => FILE_TYPES.includes(f.type as FileType), 'Invalid file type. Supported: Images (JPEG, PNG, WEBP), Audio (MP3, M4A, WebM, OGG)'),
+    .refine((f) => FILE_TYPES.includes(f.type as FileType), 'Invalid file type. Supported: Images (JPEG, PNG, WEBP), Audio (MP3, M4A, WebM, OGG), Video (MP4, 3GP), Documents (PDF, TXT, Office)'),
 });
 
 export type FileUploadInput = z.infer<typeof fileUploadClientSchema>;
 
+// Structured message content (mirrors `WhatsappMessageContent` in lib/whatsapp-message-content)
+export const sharedContactSchema = z.object({
+  name: z.string(),
+  phones: z.array(
+    z.object({
+      phone: z.string(),
+      type: z.string().nullable(),
+      waId: z.string().nullable(),
+    })
+  ),
+  emails: z.array(z.string()),
+  organization: z.string().nullable(),
+});
+
+export const messageLocationSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  name: z.string().max(1000).nullable(),
+  address: z.string().max(1000).nullable(),
+});
+
+export type MessageLocation = z.infer<typeof messageLocationSchema>;
+
+export const messageContentPayloadSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('document'), filename: z.string().nullable() }),
+  z.object({ type: z.literal('sticker'), animated: z.boolean() }),
+  messageLocationSchema.extend({ type: z.literal('location') }),
+  z.object({ type: z.literal('contacts'), contacts: z.array(sharedContactSchema) }),
+  z.object({
+    type: z.literal('reaction'),
+    targetMessageId: z.string(),
+    emoji: z.string().nullable(),
+  }),
+  z.object({
+    type: z.literal('interactive'),
+    replyType: z.enum(['button_reply', 'list_reply', 'button']),
+    replyId: z.string().nullable(),
+    title: z.string(),
+    description: z.string().nullable(),
+  }),
+]);
+
+export type MessageContentPayload = z.infer<typeof messageContentPayloadSchema>;
+
 // Send message with image - Client schema (extends existing)
 export const sendMessageWithImageClientSchema = z.object({
   phoneNumber: phoneNumberSchema,
+  // Replies go out from the conversation's own account
+  conversationId: z.number().int().positive().optional(),
+  whatsappAccountId: z.number().int().positive().optional(),
   messageText: messageTextSchema.optional(),
   imageUrl: z.string().url().optional(),
   imageKey: z.string().min(1).optional(),
   audioUrl: z.string().url().optional(),
   audioKey: z.string().min(1).optional(),
+  videoUrl: z.string().url().optional(),
+  videoKey: z.string().min(1).optional(),
+  documentUrl: z.string().url().optional(),
+  documentKey: z.string().min(1).optional(),
+  documentFilename: z.string().min(1).max(240).optional(),
+  location: messageLocationSchema.optional(),
+  replyToMessageId: z.number().int().positive().optional(),
+  templateId: z.number().int().positive().optional(),
+  templateVariables: templateVariableValuesSchema.optional(),
 }).refine(
-  (data) => data.messageText || data.imageUrl || data.audioUrl,
-  'Either messageText, imageUrl, or audioUrl is required'
+  (data) =>
+    data.messageText ||
+    data.imageUrl ||
+    data.audioUrl ||
+    data.videoUrl ||
+    data.documentUrl ||
+    data.location ||
+    data.templateId,
+  'Either messageText, a media URL, a location, or templateId is required'
 );
 
 export type SendMessageWithImageInput = z.infer<typeof sendMessageWithImageClientSchema>;
@@ -95,6 +210,9 @@ export const conversationFilterSchema = z.object({
   includeArchived: z.boolean().default(false),
   assignedUserId: z.number().int().positive().optional(),
   whatsappAccountId: z.number().int().positive().nullable().optional(),
+  status: z.enum(CONVERSATION_STATUSES).optional(),
+  // Matches conversation labels and tags on the conversation's contact
+  tagId: z.number().int().positive().optional(),
 });
 
 export type ConversationListFilter = z.infer<typeof conversationFilterSchema>;
@@ -111,6 +229,31 @@ export const assignConversationServerSchema = assignConversationClientSchema.ext
   companyId: z.number().int().positive(),
 });
 
+// Change a conversation's status; snoozing needs a future wake-up time
+export const updateConversationStatusClientSchema = z
+  .object({
+    conversationId: z.number().int().positive(),
+    status: z.enum(CONVERSATION_STATUSES),
+    snoozedUntil: z.coerce.date().optional(),
+  })
+  .refine((data) => data.status !== 'snoozed' || (data.snoozedUntil && data.snoozedUntil > new Date()), {
+    message: 'Snoozing needs a time in the future',
+    path: ['snoozedUntil'],
+  });
+
+export type UpdateConversationStatusInput = z.infer<typeof updateConversationStatusClientSchema>;
+
+// Agent presence in a conversation; `left` clears it before it expires
+export const PRESENCE_STATES = ['viewing', 'typing', 'left'] as const;
+export type PresenceState = (typeof PRESENCE_STATES)[number];
+
+export const updatePresenceClientSchema = z.object({
+  conversationId: z.number().int().positive(),
+  state: z.enum(PRESENCE_STATES),
+});
+
+export type UpdatePresenceInput = z.infer<typeof updatePresenceClientSchema>;
+
 // Mark as read schema
 export const markAsReadClientSchema = z.object({
   conversationId: z.number().int().positive(),
@@ -122,6 +265,21 @@ export const markAsReadServerSchema = markAsReadClientSchema.extend({
   companyId: z.number().int().positive(),
 });
 
+// Typing indicator shown to the customer while an agent composes
+export const sendTypingIndicatorClientSchema = z.object({
+  conversationId: z.number().int().positive(),
+});
+
+export type SendTypingIndicatorInput = z.infer<typeof sendTypingIndicatorClientSchema>;
+
+// Unread totals for the current agent, keyed by WhatsApp account id
+export const unreadCountsResponseSchema = z.object({
+  total: z.number().int(),
+  byAccount: z.record(z.string(), z.number().int()),
+});
+
+export type UnreadCountsResponse = z.infer<typeof unreadCountsResponseSchema>;
+
 // Get messages schema
 export const getMessagesSchema = z.object({
   conversationId: z.number().int().positive(),
@@ -204,6 +362,47 @@ export const contactListResponseSchema = z.object({
 
 export type ContactListResponse = z.infer<typeof contactListResponseSchema>;
 
+// React to a message schema; a null emoji removes our reaction
+export const reactToMessageClientSchema = z.object({
+  messageId: z.number().int().positive(),
+  emoji: z.string().trim().min(1).max(16).nullable(),
+});
+
+export type ReactToMessageInput = z.infer<typeof reactToMessageClientSchema>;
+
+export const reactToMessageServerSchema = reactToMessageClientSchema.extend({
+  companyId: z.number().int().positive(),
+  userId: z.number().int().positive(),
+});
+
+export type ReactToMessageServerInput = z.infer<typeof reactToMessageServerSchema>;
+
+export const reactToMessageOutputSchema = z.object({
+  messageId: z.number().int(),
+  conversationId: z.number().int(),
+  emoji: z.string().nullable(),
+});
+
+export type ReactToMessageOutput = z.infer<typeof reactToMessageOutputSchema>;
+
+export const messageReactionResponseSchema = z.object({
+  id: z.number().int(),
+  direction: z.enum(MESSAGE_DIRECTIONS),
+  emoji: z.string(),
+});
+
+export type MessageReactionResponse = z.infer<typeof messageReactionResponseSchema>;
+
+// Preview of a quoted message shown above a reply
+export const messageQuoteSchema = z.object({
+  id: z.number().int(),
+  direction: z.enum(MESSAGE_DIRECTIONS),
+  content: z.string(),
+  messageType: z.enum(MESSAGE_TYPES),
+});
+
+export type MessageQuote = z.infer<typeof messageQuoteSchema>;
+
 export const messageResponseSchema = z.object({
   id: z.number().int(),
   conversationId: z.number().int(),
@@ -212,15 +411,28 @@ export const messageResponseSchema = z.object({
   direction: z.enum(MESSAGE_DIRECTIONS),
   status: z.enum(MESSAGE_STATUSES),
   content: z.string(),
+  messageType: z.enum(MESSAGE_TYPES),
+  contentPayload: messageContentPayloadSchema.nullable(),
   mediaUrl: z.string().nullable(),
   mediaType: z.string().nullable(),
   mediaId: z.string().nullable(),
   mediaMimeType: z.string().nullable(),
   mediaCaption: z.string().nullable(),
+  storedMediaUrl: z.string().nullable(),
   providerMessageId: z.string().nullable(),
   providerStatus: z.string().nullable(),
+  replyToMessageId: z.number().int().nullable(),
+  replyToProviderMessageId: z.string().nullable(),
+  // Loaded with message pages only
+  replyTo: messageQuoteSchema.nullable().optional(),
+  reactions: z.array(messageReactionResponseSchema).optional(),
   errorCode: z.string().nullable(),
   errorMessage: z.string().nullable(),
+  sentAt: z.date().nullable(),
+  deliveredAt: z.date().nullable(),
+  readAt: z.date().nullable(),
+  failedAt: z.date().nullable(),
+  templateId: z.number().int().nullable(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
   isActive: z.boolean(),
@@ -232,17 +444,23 @@ export const conversationResponseSchema = z.object({
   id: z.number().int(),
   companyId: z.number().int(),
   contactId: z.number().int(),
+  whatsappAccountId: z.number().int().nullable(),
   lastMessageId: z.number().int().nullable(),
   lastMessagePreview: z.string().nullable(),
   lastMessageTime: z.date().nullable(),
+  lastInboundAt: z.date().nullable(),
   unreadCount: z.number().int(),
   isFavorite: z.boolean(),
   isArchived: z.boolean(),
+  status: z.enum(CONVERSATION_STATUSES),
+  snoozedUntil: z.date().nullable(),
   assignedToUserId: z.number().int().nullable(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
   isActive: z.boolean(),
   contact: contactResponseSchema.optional(),
+  tags: z.array(tagChipSchema).optional(),
+  contactTags: z.array(tagChipSchema).optional(),
 });
 
 export type ConversationResponse = z.infer<typeof conversationResponseSchema>;
@@ -252,17 +470,23 @@ export const conversationListResponseSchema = z.object({
   id: z.number().int(),
   companyId: z.number().int(),
   contactId: z.number().int(),
+  whatsappAccountId: z.number().int().nullable(),
   lastMessageId: z.number().int().nullable(),
   lastMessagePreview: z.string().nullable(),
   lastMessageTime: z.date().nullable(),
+  lastInboundAt: z.date().nullable(),
   unreadCount: z.number().int(),
   isFavorite: z.boolean(),
   isArchived: z.boolean(),
+  status: z.enum(CONVERSATION_STATUSES),
+  snoozedUntil: z.date().nullable(),
   assignedToUserId: z.number().int().nullable(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
   isActive: z.boolean(),
   contact: contactListResponseSchema.optional(),
+  tags: z.array(tagChipSchema).optional(),
+  contactTags: z.array(tagChipSchema).optional(),
 });
 
 export type ConversationListResponse = z.infer<typeof conversationListResponseSchema>;
@@ -280,6 +504,8 @@ export const sendNewMessageOutputSchema = z.union([
       id: z.number().int(),
       status: z.enum(['sending', 'sent']),
       content: z.string(),
+      messageType: z.enum(MESSAGE_TYPES),
+      contentPayload: messageContentPayloadSchema.nullable(),
       mediaUrl: z.string().url().nullable(),
       mediaType: z.string().nullable(),
       createdAt: z.date(),
@@ -1,22 +1,36 @@
 import { db } from '@/db/drizzle';
-import { contactsTable, conversationsTable, messagesTable, whatsappAccountsTable } from '@/db/schema';
-import { eq, and, desc, lt, or, isNull, sql } from 'drizzle-orm';
+import { contactsTable, conversationReadsTable, conversationsTable, messagesTable, userWhatsappAccountAccessTable, usersTable, whatsappAccountsTable } from '@/db/schema';
+import { eq, and, desc, lt, lte, or, inArray, isNull, isNotNull, sql } from 'drizzle-orm';
 import { createPerformanceLogger } from '@/lib/logger';
 import { Result } from '@/lib/result';
 import { AuditLogService } from '@/lib/audit-log.service';
-import axios from 'axios';
+import { publishRealtimeEvent } from '@/lib/realtime-events';
+import { WhatsappCloudApi, type WhatsappSendMessageInput } from '@/lib/whatsapp-cloud-api';
+import { TagService } from '@/features/tags/services/tag.service';
+import {
+  contactRefVisibilityFilter,
+  conversationVisibilityFilter,
+  seesAllConversations,
+  type InboxViewer,
+} from './conversation-visibility';
 import type {
   ContactResponse,
   ConversationResponse,
   MessageResponse,
   ConversationListFilter,
+  ConversationStatus,
   MessageStatus,
   MessageDirection,
+  MessageType,
+  MessageContentPayload,
+  PresenceState,
+  UnreadCountsResponse,
 } from '../schemas/conversation-schema';
 
 
 type ServiceResult<T> = Result<T>;
 
+
 interface CreateMessageInput {
   conversationId: number;
   companyId: number;
@@ -25,9 +39,16 @@ interface CreateMessageInput {
   status: MessageStatus;
   content: string;
   createdBy: number;
+  messageType?: MessageType;
+  contentPayload?: MessageContentPayload | null;
   mediaUrl?: string;
   mediaType?: string;
+  mediaCaption?: string;
+  replyToMessageId?: number;
+  replyToProviderMessageId?: string;
   whatsappAccountId?: number;
+  templateId?: number;
+  sendRequest?: WhatsappSendMessageInput;
 }
 
 interface MessagePage {
@@ -42,14 +63,36 @@ interface ConversationPage {
   hasMore: boolean;
 }
 
+/**
+ * Unread inbound messages for one agent: those after the agent's own read
+ * position, or the shared count if the agent has never opened the conversation.
+ * Inner tables are spelled out because relational queries rewrite every column
+ * reference to the root table alias.
+ */
+function agentUnreadCountSql(userId: number) {
+  return sql<number>`coalesce((
+    select count(m.id)::int
+    from conversation_reads r
+    left join messages m
+      on m.conversation_id = r.conversation_id
+      and m.direction = 'inbound'
+      and m.is_active = true
+      and m.id > coalesce(r.last_read_message_id, 0)
+    where r.conversation_id = ${conversationsTable.id}
+      and r.user_id = ${userId}
+    group by r.id
+  ), ${conversationsTable.unreadCount})`;
+}
+
 export class ConversationService {
   static async updateContactName(
     contactId: number,
     companyId: number,
-    name: string
+    name: string,
+    actor: InboxViewer
   ): Promise<ServiceResult<ContactResponse>> {
     const logger = createPerformanceLogger('ConversationService.updateContactName', {
-      context: { contactId, companyId },
+      context: { contactId, companyId, userId: actor.userId },
     });
     try {
       const [updated] = await db
@@ -58,7 +101,13 @@ export class ConversationService {
           name,
           updatedAt: new Date(),
         })
-        .where(and(eq(contactsTable.id, contactId), eq(contactsTable.companyId, companyId)))
+        .where(
+          and(
+            eq(contactsTable.id, contactId),
+            eq(contactsTable.companyId, companyId),
+            contactRefVisibilityFilter(contactsTable.id, actor)
+          )
+        )
         .returning({
           id: contactsTable.id,
           companyId: contactsTable.companyId,
@@ -79,7 +128,7 @@ export class ConversationService {
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: 'UPDATE',
         resourceId: contactId,
         entityType: 'contact',
@@ -95,7 +144,7 @@ export class ConversationService {
         entityType: "contact",
         entityId: contactId,
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: "UPDATE",
         error: errorMessage,
       });
@@ -172,31 +221,67 @@ export class ConversationService {
     }
   }
 
+  /**
+   * The company's default sending number, used when a conversation is started
+   * without choosing one.
+   */
+  static async findDefaultWhatsappAccountId(companyId: number): Promise<number | null> {
+    const [account] = await db
+      .select({ id: whatsappAccountsTable.id })
+      .from(whatsappAccountsTable)
+      .where(and(eq(whatsappAccountsTable.companyId, companyId), eq(whatsappAccountsTable.isDefault, true)))
+      .limit(1);
+
+    return account?.id ?? null;
+  }
+
+  /**
+   * Finds the contact's conversation on `whatsappAccountId`, creating it if needed.
+   * A conversation from before accounts were tracked is adopted by the account.
+   */
   static async ensureConversation(
     companyId: number,
-    contactId: number
+    contactId: number,
+    whatsappAccountId: number
   ): Promise<ServiceResult<ConversationResponse>> {
     const logger = createPerformanceLogger('ConversationService.ensureConversation', {
-      context: { companyId, contactId },
+      context: { companyId, contactId, whatsappAccountId },
     });
     try {
       const existing = await db.query.conversationsTable.findFirst({
         where: and(
           eq(conversationsTable.companyId, companyId),
-          eq(conversationsTable.contactId, contactId)
+          eq(conversationsTable.contactId, contactId),
+          or(
+            eq(conversationsTable.whatsappAccountId, whatsappAccountId),
+            isNull(conversationsTable.whatsappAccountId)
+          )
         ),
+        orderBy: [sql`${conversationsTable.whatsappAccountId} is null`],
       });
 
-      if (existing) {
+      if (existing?.whatsappAccountId === whatsappAccountId) {
         logger.complete(1);
         return Result.ok(existing as ConversationResponse, 'Conversation found');
       }
 
+      if (existing) {
+        const [adopted] = await db
+          .update(conversationsTable)
+          .set({ whatsappAccountId, updatedAt: new Date() })
+          .where(eq(conversationsTable.id, existing.id))
+          .returning();
+
+        logger.complete(1);
+        return Result.ok(adopted as ConversationResponse, 'Conversation found');
+      }
+
       const [newConversation] = await db
         .insert(conversationsTable)
         .values({
           companyId,
           contactId,
+          whatsappAccountId,
           unreadCount: 0,
           isArchived: false,
           isActive: true,
@@ -209,7 +294,7 @@ export class ConversationService {
         action: 'CREATE',
         resourceId: newConversation.id,
         entityType: 'conversation',
-        newValues: { contactId, unreadCount: 0, isArchived: false },
+        newValues: { contactId, whatsappAccountId, unreadCount: 0, isArchived: false },
       });
 
       logger.complete(1);
@@ -248,9 +333,16 @@ export class ConversationService {
           direction: input.direction,
           status: input.status,
           content: input.content,
+          messageType: input.messageType,
+          contentPayload: input.contentPayload,
           mediaUrl: input.mediaUrl,
           mediaType: input.mediaType,
+          mediaCaption: input.mediaCaption,
+          replyToMessageId: input.replyToMessageId,
+          replyToProviderMessageId: input.replyToProviderMessageId,
           whatsappAccountId: input.whatsappAccountId,
+          templateId: input.templateId,
+          sendRequest: input.sendRequest,
           createdBy: input.createdBy,
           isActive: true,
         })
@@ -300,6 +392,8 @@ export class ConversationService {
           status,
           providerMessageId: providerMessageId || null,
           errorMessage: errorMessage || null,
+          sentAt: status === 'sent' ? new Date() : undefined,
+          failedAt: status === 'failed' ? new Date() : undefined,
           updatedAt: new Date(),
         })
         .where(and(eq(messagesTable.id, messageId), eq(messagesTable.companyId, companyId)));
@@ -377,19 +471,102 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Not found when the conversation is outside the viewer's inbox, so callers
+   * guarding related data (messages, notes, orders) don't reveal that it exists.
+   */
+  static async ensureVisible(
+    conversationId: number,
+    companyId: number,
+    viewer: InboxViewer
+  ): Promise<ServiceResult<void>> {
+    if (seesAllConversations(viewer)) {
+      return Result.ok(undefined);
+    }
+
+    const [conversation] = await db
+      .select({ id: conversationsTable.id })
+      .from(conversationsTable)
+      .where(
+        and(
+          eq(conversationsTable.id, conversationId),
+          eq(conversationsTable.companyId, companyId),
+          conversationVisibilityFilter(viewer)
+        )
+      )
+      .limit(1);
+
+    return conversation ? Result.ok(undefined) : Result.notFound('Conversation not found');
+  }
+
+  /**
+   * Checked before a send creates the contact or conversation: the conversation
+   * `ensureConversation` would pick must already be visible to the viewer, or
+   * the viewer needs access to the account so the result lands in their inbox.
+   */
+  static async ensureCanStartConversation(
+    companyId: number,
+    phone: string,
+    whatsappAccountId: number,
+    viewer: InboxViewer
+  ): Promise<ServiceResult<void>> {
+    if (seesAllConversations(viewer)) {
+      return Result.ok(undefined);
+    }
+
+    const [existing] = await db
+      .select({ id: conversationsTable.id })
+      .from(conversationsTable)
+      .innerJoin(contactsTable, eq(contactsTable.id, conversationsTable.contactId))
+      .where(
+        and(
+          eq(conversationsTable.companyId, companyId),
+          eq(contactsTable.phone, phone),
+          or(
+            eq(conversationsTable.whatsappAccountId, whatsappAccountId),
+            isNull(conversationsTable.whatsappAccountId)
+          )
+        )
+      )
+      .orderBy(sql`${conversationsTable.whatsappAccountId} is null`)
+      .limit(1);
+
+    if (existing && (await this.ensureVisible(existing.id, companyId, viewer)).isOk) {
+      return Result.ok(undefined);
+    }
+
+    const [grant] = await db
+      .select({ id: userWhatsappAccountAccessTable.id })
+      .from(userWhatsappAccountAccessTable)
+      .where(
+        and(
+          eq(userWhatsappAccountAccessTable.companyId, companyId),
+          eq(userWhatsappAccountAccessTable.userId, viewer.userId),
+          eq(userWhatsappAccountAccessTable.whatsappAccountId, whatsappAccountId)
+        )
+      )
+      .limit(1);
+
+    return grant
+      ? Result.ok(undefined)
+      : Result.forbidden("You don't have access to this WhatsApp number");
+  }
+
   static async getConversation(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    viewer: InboxViewer
   ): Promise<ServiceResult<ConversationResponse>> {
     const logger = createPerformanceLogger('ConversationService.getConversation', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId: viewer.userId },
     });
     try {
       const result = await db.query.conversationsTable.findFirst({
         where: and(
           eq(conversationsTable.id, conversationId),
           eq(conversationsTable.companyId, companyId),
-          eq(conversationsTable.isActive, true)
+          eq(conversationsTable.isActive, true),
+          conversationVisibilityFilter(viewer)
         ),
         with: {
           contact: true,
@@ -401,8 +578,16 @@ export class ConversationService {
         return Result.fail('Conversation not found', { code: 'NOT_FOUND' });
       }
 
+      const [tags, contactTags] = await Promise.all([
+        TagService.loadTags('conversation', [result.id]),
+        TagService.loadTags('contact', [result.contactId]),
+      ]);
+
       logger.complete(1);
-      return Result.ok(result as ConversationResponse, 'Conversation found');
+      return Result.ok(
+        { ...result, tags: tags.get(result.id) ?? [], contactTags: contactTags.get(result.contactId) ?? [] } as ConversationResponse,
+        'Conversation found'
+      );
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Operation failed";
       logger.fail(error as Error);
@@ -410,7 +595,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId: viewer.userId,
         action: "READ",
         error: errorMessage,
       });
@@ -421,13 +606,20 @@ export class ConversationService {
   static async getConversationMessages(
     conversationId: number,
     companyId: number,
+    viewer: InboxViewer,
     cursor?: string,
     limit: number = 50
   ): Promise<ServiceResult<MessagePage>> {
     const logger = createPerformanceLogger('ConversationService.getConversationMessages', {
-      context: { conversationId, companyId, limit, ...(cursor ? { cursor } : {}) },
+      context: { conversationId, companyId, userId: viewer.userId, limit, ...(cursor ? { cursor } : {}) },
     });
     try {
+      const visible = await this.ensureVisible(conversationId, companyId, viewer);
+      if (!visible.success) {
+        logger.fail(visible.message);
+        return Result.fail(visible.message, visible.error);
+      }
+
       const fetchLimit = limit + 1;
       let cursorCondition = undefined;
 
@@ -452,6 +644,14 @@ export class ConversationService {
             ),
         orderBy: [desc(messagesTable.createdAt), desc(messagesTable.id)],
         limit: fetchLimit,
+        with: {
+          replyTo: {
+            columns: { id: true, direction: true, content: true, messageType: true },
+          },
+          reactions: {
+            columns: { id: true, direction: true, emoji: true },
+          },
+        },
       });
 
       const hasMore = results.length > limit;
@@ -473,7 +673,7 @@ export class ConversationService {
         entityType: "message",
         entityId: null,
         companyId,
-        userId: 0,
+        userId: viewer.userId,
         action: "READ",
         error: errorMessage,
       });
@@ -483,12 +683,17 @@ export class ConversationService {
 
   static async listConversations(
     companyId: number,
+    viewer: InboxViewer,
     filter: Omit<ConversationListFilter, 'companyId'>
   ): Promise<ServiceResult<ConversationPage>> {
+    const { userId } = viewer;
     const logger = createPerformanceLogger('ConversationService.listConversations', {
       context: {
         companyId,
+        userId,
         filterType: filter.filterType,
+        ...(filter.status && { status: filter.status }),
+        ...(filter.tagId && { tagId: filter.tagId }),
         limit: filter.limit,
         includeArchived: filter.includeArchived,
         ...(filter.whatsappAccountId !== undefined && { whatsappAccountId: filter.whatsappAccountId }),
@@ -509,12 +714,21 @@ export class ConversationService {
         eq(conversationsTable.isActive, true),
         filter.includeArchived ? undefined : eq(conversationsTable.isArchived, false),
         filter.whatsappAccountId ? eq(conversationsTable.whatsappAccountId, filter.whatsappAccountId) : undefined,
+        conversationVisibilityFilter(viewer),
       ].filter(Boolean);
 
       if (cursorCondition) {
         baseClauses.push(cursorCondition);
       }
 
+      if (filter.status) {
+        baseClauses.push(eq(conversationsTable.status, filter.status));
+      }
+
+      if (filter.tagId) {
+        baseClauses.push(TagService.taggedFilter(conversationsTable.id, conversationsTable.contactId, filter.tagId));
+      }
+
       if (filter.filterType === 'favorites') {
         baseClauses.push(eq(conversationsTable.isFavorite, true));
       }
@@ -527,12 +741,19 @@ export class ConversationService {
         baseClauses.push(isNull(conversationsTable.assignedToUserId));
       }
 
+      if (filter.filterType === 'unread') {
+        baseClauses.push(sql`${agentUnreadCountSql(userId)} > 0`);
+      }
+
       const whereConditions = and(...baseClauses);
 
       const results = await db.query.conversationsTable.findMany({
         where: whereConditions,
         orderBy: [desc(conversationsTable.lastMessageTime), desc(conversationsTable.id)],
         limit: fetchLimit,
+        extras: {
+          agentUnreadCount: agentUnreadCountSql(userId).as('agent_unread_count'),
+        },
         with: {
           contact: {
             columns: {
@@ -557,7 +778,17 @@ export class ConversationService {
       }
 
       const hasMore = filtered.length > filter.limit;
-      const items = hasMore ? filtered.slice(0, filter.limit) : filtered;
+      const page = hasMore ? filtered.slice(0, filter.limit) : filtered;
+      const [tags, contactTags] = await Promise.all([
+        TagService.loadTags('conversation', page.map((conv) => conv.id)),
+        TagService.loadTags('contact', [...new Set(page.map((conv) => conv.contactId))]),
+      ]);
+      const items = page.map(({ agentUnreadCount, ...conversation }) => ({
+        ...conversation,
+        unreadCount: agentUnreadCount,
+        tags: tags.get(conversation.id) ?? [],
+        contactTags: contactTags.get(conversation.contactId) ?? [],
+      }));
       const nextCursor = hasMore
         ? Buffer.from(`${items[items.length - 1].lastMessageTime?.getTime() || 0}:${items[items.length - 1].id}`).toString('base64')
         : undefined;
@@ -575,7 +806,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: null,
         companyId,
-        userId: 0,
+        userId,
         action: "READ",
         error: errorMessage,
       });
@@ -583,31 +814,124 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Sums the agent's unread messages over open conversations, per WhatsApp account.
+   */
+  static async getUnreadCounts(
+    companyId: number,
+    viewer: InboxViewer
+  ): Promise<ServiceResult<UnreadCountsResponse>> {
+    const { userId } = viewer;
+    const logger = createPerformanceLogger('ConversationService.getUnreadCounts', {
+      context: { companyId, userId },
+    });
+    try {
+      const rows = await db
+        .select({
+          whatsappAccountId: conversationsTable.whatsappAccountId,
+          unread: sql<number>`coalesce(sum(${agentUnreadCountSql(userId)}), 0)::int`,
+        })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.companyId, companyId),
+            eq(conversationsTable.isActive, true),
+            eq(conversationsTable.isArchived, false),
+            conversationVisibilityFilter(viewer)
+          )
+        )
+        .groupBy(conversationsTable.whatsappAccountId);
+
+      const byAccount: Record<string, number> = {};
+      let total = 0;
+      for (const row of rows) {
+        total += row.unread;
+        if (row.whatsappAccountId !== null) {
+          byAccount[row.whatsappAccountId] = row.unread;
+        }
+      }
+
+      logger.complete(rows.length);
+      return Result.ok({ total, byAccount }, 'Unread counts loaded');
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to load unread counts');
+    }
+  }
+
+  /**
+   * Moves the agent's read position to the newest message. The shared unread
+   * count is only cleared by the assignee, or by anyone while unassigned.
+   */
   static async markConversationAsRead(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    viewer: InboxViewer
   ): Promise<ServiceResult<void>> {
+    const { userId } = viewer;
     const logger = createPerformanceLogger('ConversationService.markConversationAsRead', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId },
     });
     try {
+      const [conversation] = await db
+        .select({ id: conversationsTable.id, assignedToUserId: conversationsTable.assignedToUserId })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.id, conversationId),
+            eq(conversationsTable.companyId, companyId),
+            conversationVisibilityFilter(viewer)
+          )
+        )
+        .limit(1);
+
+      if (!conversation) {
+        logger.fail('Conversation not found');
+        return Result.notFound('Conversation not found');
+      }
+
+      const [latest] = await db
+        .select({ id: sql<number | null>`max(${messagesTable.id})` })
+        .from(messagesTable)
+        .where(eq(messagesTable.conversationId, conversationId));
+
       await db
-        .update(conversationsTable)
-        .set({
-          unreadCount: 0,
-          updatedAt: new Date(),
+        .insert(conversationReadsTable)
+        .values({
+          companyId,
+          conversationId,
+          userId,
+          lastReadMessageId: latest?.id ?? null,
         })
-        .where(and(eq(conversationsTable.id, conversationId), eq(conversationsTable.companyId, companyId)));
+        .onConflictDoUpdate({
+          target: [conversationReadsTable.conversationId, conversationReadsTable.userId],
+          set: { lastReadMessageId: latest?.id ?? null, lastReadAt: sql`now()` },
+        });
+
+      const clearsShared = conversation.assignedToUserId === null || conversation.assignedToUserId === userId;
+      if (clearsShared) {
+        await db
+          .update(conversationsTable)
+          .set({
+            unreadCount: 0,
+            updatedAt: new Date(),
+          })
+          .where(eq(conversationsTable.id, conversationId));
+      }
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId,
         action: 'UPDATE',
         resourceId: conversationId,
         entityType: 'conversation',
-        newValues: { unreadCount: 0 },
+        newValues: { lastReadMessageId: latest?.id ?? null, ...(clearsShared ? { unreadCount: 0 } : {}) },
       });
 
+      // Best effort: the conversation is read locally even if WhatsApp is unreachable
+      const receipt = await this.sendReadMarker(conversationId, companyId, false);
+      logger.checkpoint(receipt.success ? 'read_marker_sent' : 'read_marker_failed');
+
       logger.complete();
       return Result.ok(undefined, 'Conversation marked as read');
     } catch (error) {
@@ -617,7 +941,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId,
         action: "UPDATE",
         error: errorMessage,
       });
@@ -625,30 +949,175 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Shows the customer a typing bubble while an agent composes. WhatsApp only
+   * offers it together with a read marker, so it needs both account settings.
+   */
+  static async sendTypingIndicator(
+    conversationId: number,
+    companyId: number,
+    viewer: InboxViewer
+  ): Promise<ServiceResult<{ sent: boolean }>> {
+    const logger = createPerformanceLogger('ConversationService.sendTypingIndicator', {
+      context: { conversationId, companyId, userId: viewer.userId },
+    });
+
+    const visible = await this.ensureVisible(conversationId, companyId, viewer);
+    if (!visible.success) {
+      logger.fail(visible.message);
+      return Result.fail(visible.message, visible.error);
+    }
+
+    const result = await this.sendReadMarker(conversationId, companyId, true);
+    if (!result.success) {
+      logger.fail(result.message);
+    } else {
+      logger.complete();
+    }
+    return result;
+  }
+
+  /**
+   * Marks the latest inbound message read on WhatsApp, which turns the ticks
+   * of everything before it blue too. Inbound messages get a local `readAt`
+   * either way. Nothing is sent when the account has read receipts turned off
+   * (or typing indicators, when `showTyping` is set).
+   */
+  private static async sendReadMarker(
+    conversationId: number,
+    companyId: number,
+    showTyping: boolean
+  ): Promise<ServiceResult<{ sent: boolean }>> {
+    try {
+      const [latest] = await db
+        .select({
+          providerMessageId: messagesTable.providerMessageId,
+          readAt: messagesTable.readAt,
+          phoneNumberId: whatsappAccountsTable.phoneNumberId,
+          accessToken: whatsappAccountsTable.accessToken,
+          sendReadReceipts: whatsappAccountsTable.sendReadReceipts,
+          sendTypingIndicator: whatsappAccountsTable.sendTypingIndicator,
+        })
+        .from(messagesTable)
+        .innerJoin(whatsappAccountsTable, eq(messagesTable.whatsappAccountId, whatsappAccountsTable.id))
+        .where(
+          and(
+            eq(messagesTable.conversationId, conversationId),
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.direction, 'inbound'),
+            eq(messagesTable.isActive, true),
+            isNotNull(messagesTable.providerMessageId)
+          )
+        )
+        .orderBy(desc(messagesTable.createdAt), desc(messagesTable.id))
+        .limit(1);
+
+      if (!latest?.providerMessageId) {
+        return Result.ok({ sent: false });
+      }
+
+      const enabled = latest.sendReadReceipts && (!showTyping || latest.sendTypingIndicator);
+      // A plain read marker only needs sending once per message
+      const needed = showTyping || !latest.readAt;
+
+      if (enabled && needed) {
+        const receipt = await WhatsappCloudApi.forAccount(latest).markRead(latest.providerMessageId, {
+          showTyping,
+        });
+        if (!receipt.success) {
+          console.error('[ConversationService.sendReadMarker]', receipt.message);
+          return Result.fail(receipt.message, receipt.error);
+        }
+      }
+
+      await db
+        .update(messagesTable)
+        .set({ readAt: new Date() })
+        .where(
+          and(
+            eq(messagesTable.conversationId, conversationId),
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.direction, 'inbound'),
+            isNull(messagesTable.readAt)
+          )
+        );
+
+      return Result.ok({ sent: enabled && needed });
+    } catch (error) {
+      console.error('[ConversationService.sendReadMarker]', error);
+      return Result.internal('Failed to send read marker');
+    }
+  }
+
+  /**
+   * Manual (re)assignment. The conversation stays in its team queue; every
+   * change is written to the audit log as assignment history.
+   */
   static async assignConversationToUser(
     conversationId: number,
     companyId: number,
-    userId: number | null
+    userId: number | null,
+    actor: InboxViewer
   ): Promise<ServiceResult<void>> {
     const logger = createPerformanceLogger('ConversationService.assignConversationToUser', {
-      context: { conversationId, companyId, userId },
+      context: { conversationId, companyId, userId, actorId: actor.userId },
     });
     try {
+      const [conversation] = await db
+        .select({ assignedToUserId: conversationsTable.assignedToUserId, teamId: conversationsTable.teamId })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.id, conversationId),
+            eq(conversationsTable.companyId, companyId),
+            conversationVisibilityFilter(actor)
+          )
+        )
+        .limit(1);
+
+      if (!conversation) {
+        logger.fail('Conversation not found');
+        return Result.notFound('Conversation not found');
+      }
+
+      if (userId !== null) {
+        const [assignee] = await db
+          .select({ id: usersTable.id })
+          .from(usersTable)
+          .where(and(eq(usersTable.id, userId), eq(usersTable.companyId, companyId), eq(usersTable.isActive, true)))
+          .limit(1);
+
+        if (!assignee) {
+          logger.fail('Assignee not found');
+          return Result.badRequest('User not found');
+        }
+      }
+
       await db
         .update(conversationsTable)
         .set({
           assignedToUserId: userId,
+          updatedBy: actor.userId,
           updatedAt: new Date(),
         })
         .where(and(eq(conversationsTable.id, conversationId), eq(conversationsTable.companyId, companyId)));
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
-        action: 'UPDATE',
+        userId: actor.userId,
+        action: 'ASSIGN',
         resourceId: conversationId,
         entityType: 'conversation',
-        newValues: { assignedToUserId: userId },
+        oldValues: { assignedToUserId: conversation.assignedToUserId, teamId: conversation.teamId },
+        newValues: { assignedToUserId: userId, teamId: conversation.teamId },
+        changeReason: userId === null ? 'Unassigned' : 'Manually assigned',
+      });
+
+      await publishRealtimeEvent(db, {
+        type: 'conversation.assigned',
+        companyId,
+        conversationId,
+        assignedToUserId: userId,
       });
 
       logger.complete();
@@ -660,22 +1129,89 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
-        action: "UPDATE",
+        userId: actor.userId,
+        action: "ASSIGN",
         error: errorMessage,
       });
       return Result.internal('Failed to assign conversation');
     }
   }
 
+  /**
+   * Broadcasts that an agent is viewing, typing in or has left a conversation.
+   * Presence is ephemeral, so nothing is stored or audited.
+   */
+  static async updatePresence(
+    conversationId: number,
+    companyId: number,
+    viewer: InboxViewer,
+    state: PresenceState
+  ): Promise<ServiceResult<void>> {
+    const { userId } = viewer;
+    const logger = createPerformanceLogger('ConversationService.updatePresence', {
+      context: { conversationId, companyId, userId, state },
+    });
+    try {
+      const [conversation] = await db
+        .select({ id: conversationsTable.id })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.id, conversationId),
+            eq(conversationsTable.companyId, companyId),
+            conversationVisibilityFilter(viewer)
+          )
+        )
+        .limit(1);
+
+      if (!conversation) {
+        logger.fail('Conversation not found');
+        return Result.notFound('Conversation not found');
+      }
+
+      const [user] = await db
+        .select({ name: usersTable.name })
+        .from(usersTable)
+        .where(and(eq(usersTable.id, userId), eq(usersTable.companyId, companyId)))
+        .limit(1);
+
+      if (!user) {
+        logger.fail('User not found');
+        return Result.notFound('User not found');
+      }
+
+      await publishRealtimeEvent(db, {
+        type: 'presence.updated',
+        companyId,
+        conversationId,
+        userId,
+        userName: user.name,
+        state,
+      });
+
+      logger.complete();
+      return Result.ok(undefined, 'Presence updated');
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to update presence');
+    }
+  }
+
   static async clearConversation(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    actor: InboxViewer
   ): Promise<ServiceResult<void>> {
     const logger = createPerformanceLogger('ConversationService.clearConversation', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId: actor.userId },
     });
     try {
+      const visible = await this.ensureVisible(conversationId, companyId, actor);
+      if (!visible.success) {
+        logger.fail(visible.message);
+        return Result.fail(visible.message, visible.error);
+      }
+
       await db
         .update(messagesTable)
         .set({
@@ -696,7 +1232,7 @@ export class ConversationService {
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: 'UPDATE',
         resourceId: conversationId,
         entityType: 'conversation',
@@ -712,7 +1248,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: "UPDATE",
         error: errorMessage,
       });
@@ -722,12 +1258,19 @@ export class ConversationService {
 
   static async deleteConversation(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    actor: InboxViewer
   ): Promise<ServiceResult<void>> {
     const logger = createPerformanceLogger('ConversationService.deleteConversation', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId: actor.userId },
     });
     try {
+      const visible = await this.ensureVisible(conversationId, companyId, actor);
+      if (!visible.success) {
+        logger.fail(visible.message);
+        return Result.fail(visible.message, visible.error);
+      }
+
       await db
         .update(messagesTable)
         .set({
@@ -746,7 +1289,7 @@ export class ConversationService {
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: 'DELETE',
         resourceId: conversationId,
         entityType: 'conversation',
@@ -762,7 +1305,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: "DELETE",
         error: errorMessage,
       });
@@ -770,14 +1313,145 @@ export class ConversationService {
     }
   }
 
+  /**
+   * Moves a conversation through its lifecycle. Snoozing keeps `snoozedUntil`
+   * until the wake-up job or a new inbound message reopens it; any other
+   * status clears it.
+   */
+  static async updateConversationStatus(
+    conversationId: number,
+    companyId: number,
+    actor: InboxViewer,
+    status: ConversationStatus,
+    snoozedUntil?: Date
+  ): Promise<ServiceResult<void>> {
+    const logger = createPerformanceLogger('ConversationService.updateConversationStatus', {
+      context: { conversationId, companyId, userId: actor.userId, status },
+    });
+    try {
+      const [conversation] = await db
+        .select({ status: conversationsTable.status, snoozedUntil: conversationsTable.snoozedUntil })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.id, conversationId),
+            eq(conversationsTable.companyId, companyId),
+            conversationVisibilityFilter(actor)
+          )
+        )
+        .limit(1);
+
+      if (!conversation) {
+        logger.fail('Conversation not found');
+        return Result.notFound('Conversation not found');
+      }
+
+      const nextSnoozedUntil = status === 'snoozed' ? snoozedUntil ?? null : null;
+      if (status === 'snoozed' && !nextSnoozedUntil) {
+        logger.fail('Missing snooze time');
+        return Result.badRequest('Snoozing needs a time in the future');
+      }
+
+      await db
+        .update(conversationsTable)
+        .set({
+          status,
+          snoozedUntil: nextSnoozedUntil,
+          updatedBy: actor.userId,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(conversationsTable.id, conversationId), eq(conversationsTable.companyId, companyId)));
+
+      await AuditLogService.log({
+        companyId,
+        userId: actor.userId,
+        action: 'STATUS_CHANGE',
+        resourceId: conversationId,
+        entityType: 'conversation',
+        oldValues: { status: conversation.status, snoozedUntil: conversation.snoozedUntil },
+        newValues: { status, snoozedUntil: nextSnoozedUntil },
+      });
+
+      await publishRealtimeEvent(db, {
+        type: 'conversation.updated',
+        companyId,
+        conversationId,
+        changes: { status, snoozedUntil: nextSnoozedUntil },
+      });
+
+      logger.complete();
+      return Result.ok(undefined, 'Conversation status updated');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Operation failed";
+      logger.fail(error as Error);
+      await AuditLogService.logFailure({
+        entityType: "conversation",
+        entityId: conversationId,
+        companyId,
+        userId: actor.userId,
+        action: "STATUS_CHANGE",
+        error: errorMessage,
+      });
+      return Result.internal('Failed to update conversation status');
+    }
+  }
+
+  /**
+   * Reopens snoozed conversations whose time is up, across all companies.
+   * Called by the wake-snoozed-conversations job; returns how many woke up.
+   */
+  static async wakeSnoozedConversations(limit: number): Promise<ServiceResult<{ woken: number }>> {
+    const logger = createPerformanceLogger('ConversationService.wakeSnoozedConversations');
+    try {
+      const due = db
+        .select({ id: conversationsTable.id })
+        .from(conversationsTable)
+        .where(and(eq(conversationsTable.status, 'snoozed'), lte(conversationsTable.snoozedUntil, new Date())))
+        .orderBy(conversationsTable.snoozedUntil)
+        .limit(limit);
+
+      const woken = await db.transaction(async (tx) => {
+        const rows = await tx
+          .update(conversationsTable)
+          .set({ status: 'open', snoozedUntil: null, updatedAt: new Date() })
+          // Re-checks the status so a conversation changed meanwhile is left alone
+          .where(and(inArray(conversationsTable.id, due), eq(conversationsTable.status, 'snoozed')))
+          .returning({ id: conversationsTable.id, companyId: conversationsTable.companyId });
+
+        for (const row of rows) {
+          await publishRealtimeEvent(tx, {
+            type: 'conversation.updated',
+            companyId: row.companyId,
+            conversationId: row.id,
+            changes: { status: 'open', snoozedUntil: null },
+          });
+        }
+        return rows.length;
+      });
+
+      logger.complete(woken);
+      return Result.ok({ woken });
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to wake snoozed conversations');
+    }
+  }
+
   static async archiveConversation(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    actor: InboxViewer
   ): Promise<ServiceResult<void>> {
     const logger = createPerformanceLogger('ConversationService.archiveConversation', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId: actor.userId },
     });
     try {
+      const visible = await this.ensureVisible(conversationId, companyId, actor);
+      if (!visible.success) {
+        logger.fail(visible.message);
+        return Result.fail(visible.message, visible.error);
+      }
+
       await db
         .update(conversationsTable)
         .set({
@@ -788,13 +1462,20 @@ export class ConversationService {
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: 'UPDATE',
         resourceId: conversationId,
         entityType: 'conversation',
         newValues: { isArchived: true },
       });
 
+      await publishRealtimeEvent(db, {
+        type: 'conversation.updated',
+        companyId,
+        conversationId,
+        changes: { isArchived: true },
+      });
+
       logger.complete();
       return Result.ok(undefined, 'Conversation archived');
     } catch (error) {
@@ -804,7 +1485,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: "UPDATE",
         error: errorMessage,
       });
@@ -814,12 +1495,19 @@ export class ConversationService {
 
   static async unarchiveConversation(
     conversationId: number,
-    companyId: number
+    companyId: number,
+    actor: InboxViewer
   ): Promise<ServiceResult<void>> {
     const logger = createPerformanceLogger('ConversationService.unarchiveConversation', {
-      context: { conversationId, companyId },
+      context: { conversationId, companyId, userId: actor.userId },
     });
     try {
+      const visible = await this.ensureVisible(conversationId, companyId, actor);
+      if (!visible.success) {
+        logger.fail(visible.message);
+        return Result.fail(visible.message, visible.error);
+      }
+
       await db
         .update(conversationsTable)
         .set({
@@ -830,13 +1518,20 @@ export class ConversationService {
 
       await AuditLogService.log({
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: 'UPDATE',
         resourceId: conversationId,
         entityType: 'conversation',
         newValues: { isArchived: false },
       });
 
+      await publishRealtimeEvent(db, {
+        type: 'conversation.updated',
+        companyId,
+        conversationId,
+        changes: { isArchived: false },
+      });
+
       logger.complete();
       return Result.ok(undefined, 'Conversation unarchived');
     } catch (error) {
@@ -846,7 +1541,7 @@ export class ConversationService {
         entityType: "conversation",
         entityId: conversationId,
         companyId,
-        userId: 0,
+        userId: actor.userId,
         action: "UPDATE",
         error: errorMessage,
       });
@@ -884,33 +1579,15 @@ export class ConversationService {
         return Result.fail('WhatsApp account not found');
       }
 
-      const queryParams = new URLSearchParams({
-        companyId: companyId.toString(),
-        phoneNumberId: account.phoneNumberId,
-        accessToken: account.accessToken,
-      });
-      if (limit) queryParams.append('limit', limit.toString());
-      if (before) queryParams.append('before', before);
-      if (after) queryParams.append('after', after);
-
-      const response = await axios.get(
-        `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/conversations/get-message-history?${queryParams.toString()}`,
-        {
-          timeout: 30000,
-          headers: {
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+      const history = await WhatsappCloudApi.forAccount(account).getMessageHistory({ limit, before, after });
 
-      if (response.data.success !== undefined && !response.data.success) {
-        const errorMessage = response.data.error || 'Failed to fetch message history';
-        logger.fail(new Error(errorMessage));
-        return Result.fail(errorMessage);
+      if (!history.success) {
+        logger.fail(new Error(history.message));
+        return Result.fail(history.message, history.error);
       }
 
       logger.complete();
-      return Result.ok(response.data, 'WhatsApp message history loaded');
+      return Result.ok(history.data, 'WhatsApp message history loaded');
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Operation failed";
       logger.fail(error as Error);
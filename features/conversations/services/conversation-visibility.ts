@@ -0,0 +1,73 @@
+import { sql, or, eq, type AnyColumn, type SQL } from 'drizzle-orm';
+import { conversationsTable } from '@/db/schema';
+import { hasPermission } from '@/lib/permissions';
+
+/** Who is looking at the inbox; `AuthSession` satisfies it. */
+export interface InboxViewer {
+  userId: number;
+  role?: string | null;
+}
+
+export function seesAllConversations(viewer: InboxViewer): boolean {
+  return hasPermission(viewer.role, 'conversations.viewAll');
+}
+
+/**
+ * Conversation ids the viewer may open: assigned to them, on a WhatsApp
+ * account they were granted, or waiting unassigned in one of their team
+ * queues. Written as raw SQL with its own aliases so it can
+ * be embedded in relational queries, which rewrite column references.
+ */
+export function visibleConversationIdsSql(viewer: InboxViewer): SQL {
+  return sql`select c.id from conversations c
+    where c.assigned_to_user_id = ${viewer.userId}
+      or c.whatsapp_account_id in (
+        select a.whatsapp_account_id from user_whatsapp_account_access a
+        where a.user_id = ${viewer.userId}
+      )
+      or (c.assigned_to_user_id is null and c.team_id in (
+        select m.team_id from team_members m
+        where m.user_id = ${viewer.userId}
+      ))`;
+}
+
+/**
+ * Where clause restricting a conversations query to what the viewer may see;
+ * undefined when the role sees everything.
+ */
+export function conversationVisibilityFilter(viewer: InboxViewer): SQL | undefined {
+  if (seesAllConversations(viewer)) return undefined;
+
+  return or(
+    eq(conversationsTable.assignedToUserId, viewer.userId),
+    sql`${conversationsTable.whatsappAccountId} in (
+      select a.whatsapp_account_id from user_whatsapp_account_access a
+      where a.user_id = ${viewer.userId}
+    )`,
+    sql`(${conversationsTable.assignedToUserId} is null and ${conversationsTable.teamId} in (
+      select m.team_id from team_members m
+      where m.user_id = ${viewer.userId}
+    ))`
+  );
+}
+
+/** Same policy for rows that point at a conversation, e.g. notes and orders. */
+export function conversationRefVisibilityFilter(
+  conversationIdColumn: AnyColumn,
+  viewer: InboxViewer
+): SQL | undefined {
+  if (seesAllConversations(viewer)) return undefined;
+  return sql`${conversationIdColumn} in (${visibleConversationIdsSql(viewer)})`;
+}
+
+/** Contacts are visible through any conversation the viewer may see. */
+export function contactRefVisibilityFilter(
+  contactIdColumn: AnyColumn,
+  viewer: InboxViewer
+): SQL | undefined {
+  if (seesAllConversations(viewer)) return undefined;
+  return sql`${contactIdColumn} in (
+    select v.contact_id from conversations v
+    where v.id in (${visibleConversationIdsSql(viewer)})
+  )`;
+}
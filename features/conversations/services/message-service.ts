@@ -1,19 +1,88 @@
 import { ConversationService } from './conversation-service';
+import type { InboxViewer } from './conversation-visibility';
 import { Result } from '@/lib/result';
 import { createPerformanceLogger } from '@/lib/logger';
 import { db } from '@/db/drizzle';
-import { messagesTable, contactsTable, whatsappAccountsTable } from '@/db/schema';
-import { eq, and } from 'drizzle-orm';
-import axios from 'axios';
+import { messagesTable, contactsTable, conversationsTable, whatsappAccountsTable, messageTemplatesTable, messageReactionsTable } from '@/db/schema';
+import { eq, and, sql } from 'drizzle-orm';
+import {
+  buildTemplateSendComponents,
+  findMissingTemplateVariables,
+  renderTemplateText,
+  type WhatsappTemplateComponent,
+  type WhatsappTemplateVariable,
+} from '@/lib/whatsapp-template';
+import { getServiceWindowState } from '@/lib/service-window';
+import { describeMessageContent } from '@/lib/whatsapp-message-content';
+import { publishRealtimeEvent } from '@/lib/realtime-events';
+import { inngest } from '@/lib/inngest';
+import { WhatsappCloudApi, type WhatsappSendMessageInput } from '@/lib/whatsapp-cloud-api';
 import type {
+  ConversationResponse,
   SendNewMessageServerInput,
   SendNewMessageOutput,
   SendMessageWithImageServerInput,
+  MessageSendErrorReason,
+  MessageType,
+  MessageContentPayload,
+  ReactToMessageServerInput,
+  ReactToMessageOutput,
 } from '../schemas/conversation-schema';
 
+export const OUTBOUND_SEND_EVENT = 'whatsapp/message.send';
+
+/**
+ * Payload of a queued send. Credentials are not part of it; they are looked up
+ * from the account when the job runs.
+ */
+export interface OutboundSendJob {
+  messageId: number;
+  companyId: number;
+  conversationId: number;
+  whatsappAccountId: number;
+  userId: number;
+  request: WhatsappSendMessageInput;
+}
+
+export interface OutboundSendOutcome {
+  status: 'sent' | 'failed' | 'skipped';
+  /** Graph's id for a message it accepted; recorded by `recordQueuedMessageSent` */
+  providerMessageId?: string;
+}
+
 export class MessageService {
+  /**
+   * Loads the account a message is sent from. Inactive numbers are refused so a
+   * reply never silently leaves from a different number.
+   */
+  private static async loadSenderAccount(
+    companyId: number,
+    whatsappAccountId: number
+  ): Promise<Result<typeof whatsappAccountsTable.$inferSelect>> {
+    const account = await db.query.whatsappAccountsTable.findFirst({
+      where: and(
+        eq(whatsappAccountsTable.id, whatsappAccountId),
+        eq(whatsappAccountsTable.companyId, companyId)
+      ),
+    });
+
+    if (!account) {
+      return Result.notFound('WhatsApp account not found');
+    }
+
+    if (!account.isActive) {
+      return Result.forbidden(
+        `The WhatsApp number "${account.name}" is inactive. Reactivate it before sending from it.`,
+        { reason: 'ACCOUNT_INACTIVE' satisfies MessageSendErrorReason }
+      );
+    }
+
+    return Result.ok(account);
+  }
+
   static async sendNewMessage(
-    input: SendNewMessageServerInput | SendMessageWithImageServerInput
+    input: SendNewMessageServerInput | SendMessageWithImageServerInput,
+    viewer: InboxViewer
   ): Promise<Result<SendNewMessageOutput>> {
     const logger = createPerformanceLogger('MessageService.sendNewMessage', {
       context: { 
@@ -21,11 +90,125 @@ export class MessageService {
         phoneNumber: input.phoneNumber,
         hasImage: 'imageUrl' in input && !!input.imageUrl,
         hasAudio: 'audioUrl' in input && !!input.audioUrl,
+        hasVideo: 'videoUrl' in input && !!input.videoUrl,
+        hasDocument: 'documentUrl' in input && !!input.documentUrl,
+        hasLocation: 'location' in input && !!input.location,
+        templateId: ('templateId' in input && input.templateId) || null,
       },
     });
 
     try {
-      // Step 1: Ensure contact exists
+      // Step 0: Resolve the template when sending a template message
+      const templateId = 'templateId' in input ? input.templateId : undefined;
+      const templateVariables = ('templateVariables' in input && input.templateVariables) || {};
+      let template: typeof messageTemplatesTable.$inferSelect | undefined;
+
+      if (templateId) {
+        template = await db.query.messageTemplatesTable.findFirst({
+          where: and(
+            eq(messageTemplatesTable.id, templateId),
+            eq(messageTemplatesTable.companyId, input.companyId),
+            eq(messageTemplatesTable.isActive, true)
+          ),
+        });
+
+        if (!template) {
+          logger.fail('Message template not found');
+          return Result.notFound('Message template not found');
+        }
+
+        if (template.status !== 'approved') {
+          logger.fail('Message template is not approved');
+          return Result.badRequest(`Template "${template.name}" is ${template.status} and cannot be sent`);
+        }
+
+        const missing = findMissingTemplateVariables(
+          template.variables as WhatsappTemplateVariable[],
+          templateVariables
+        );
+        if (missing.length > 0) {
+          logger.fail('Missing template variables');
+          return Result.validation('Fill in all template variables before sending', {
+            missing: missing.map((variable) => variable.key),
+          });
+        }
+      }
+
+      // Step 1: Resolve the conversation being replied to and the number it is sent from
+      const conversationId = 'conversationId' in input ? input.conversationId : undefined;
+      let conversation: Pick<ConversationResponse, 'id' | 'whatsappAccountId' | 'lastInboundAt'> | undefined;
+
+      if (conversationId) {
+        [conversation] = await db
+          .select({
+            id: conversationsTable.id,
+            whatsappAccountId: conversationsTable.whatsappAccountId,
+            lastInboundAt: conversationsTable.lastInboundAt,
+          })
+          .from(conversationsTable)
+          .innerJoin(contactsTable, eq(contactsTable.id, conversationsTable.contactId))
+          .where(
+            and(
+              eq(conversationsTable.id, conversationId),
+              eq(conversationsTable.companyId, input.companyId),
+              eq(contactsTable.phone, input.phoneNumber)
+            )
+          )
+          .limit(1);
+
+        if (!conversation) {
+          logger.fail('Conversation not found');
+          return Result.notFound('Conversation not found');
+        }
+
+        // Agents may only write into conversations in their own inbox
+        const visible = await ConversationService.ensureVisible(conversation.id, input.companyId, viewer);
+        if (!visible.isOk) {
+          logger.fail(visible.message);
+          return Result.fail(visible.message, visible.error);
+        }
+      }
+
+      // Replies keep the customer's number; only new conversations fall back to the default account
+      const whatsappAccountId =
+        conversation?.whatsappAccountId ??
+        input.whatsappAccountId ??
+        template?.whatsappAccountId ??
+        (await ConversationService.findDefaultWhatsappAccountId(input.companyId));
+
+      if (!whatsappAccountId) {
+        logger.fail('No sender account resolved');
+        return Result.badRequest('No default WhatsApp account is configured. Choose a number to send from.');
+      }
+
+      const accountResult = await this.loadSenderAccount(input.companyId, whatsappAccountId);
+      if (!accountResult.isOk || !accountResult.data) {
+        logger.fail(accountResult.message);
+        return Result.fail(accountResult.message, accountResult.error);
+      }
+      const whatsappAccount = accountResult.data;
+
+      // Templates belong to a Business Account, so they can only go out from the number they were synced for
+      if (template && template.whatsappAccountId !== whatsappAccount.id) {
+        logger.fail('Template belongs to another account');
+        return Result.badRequest(`Template "${template.name}" belongs to a different WhatsApp number`);
+      }
+
+      // New conversations are checked before the contact or conversation is created
+      if (!conversation) {
+        const allowed = await ConversationService.ensureCanStartConversation(
+          input.companyId,
+          input.phoneNumber,
+          whatsappAccount.id,
+          viewer
+        );
+        if (!allowed.isOk) {
+          logger.fail(allowed.message);
+          return Result.fail(allowed.message, allowed.error);
+        }
+      }
+
+      // Step 2: Ensure the contact and conversation exist
       const contactResult = await ConversationService.ensureContact(
         input.companyId,
         input.phoneNumber
@@ -43,42 +226,142 @@ export class MessageService {
       }
       const createdContact = !contact.id;
 
-      // Step 2: Ensure conversation exists
-      const conversationResult = await ConversationService.ensureConversation(
-        input.companyId,
-        contact.id
-      );
+      if (!conversation) {
+        const conversationResult = await ConversationService.ensureConversation(
+          input.companyId,
+          contact.id,
+          whatsappAccount.id
+        );
 
-      if (!conversationResult.isOk) {
-        logger.fail(conversationResult.message);
-        return Result.fail(conversationResult.message, conversationResult.error);
-      }
+        if (!conversationResult.isOk) {
+          logger.fail(conversationResult.message);
+          return Result.fail(conversationResult.message, conversationResult.error);
+        }
 
-      const conversation = conversationResult.data;
-      if (!conversation) {
-        logger.fail('Conversation data missing');
-        return Result.internal('Conversation data missing');
+        conversation = conversationResult.data;
+        if (!conversation) {
+          logger.fail('Conversation data missing');
+          return Result.internal('Conversation data missing');
+        }
       }
       const createdConversation = !conversation.id;
 
-      // Step 3: Get WhatsApp account credentials for the company
-      const whatsappAccount = await db.query.whatsappAccountsTable.findFirst({
-        where: and(
-          eq(whatsappAccountsTable.companyId, input.companyId),
-          eq(whatsappAccountsTable.isActive, true)
-        ),
-      });
+      // Step 2b: Free-form messages are only delivered inside the 24-hour customer service window
+      if (!template) {
+        const serviceWindow = getServiceWindowState(conversation.lastInboundAt);
+        if (serviceWindow.status === 'closed') {
+          logger.fail('Customer service window closed');
+          return Result.fail(
+            'The 24-hour customer service window has closed. Send an approved template to re-open the conversation.',
+            {
+              code: 'FORBIDDEN',
+              details: {
+                reason: 'SERVICE_WINDOW_CLOSED' satisfies MessageSendErrorReason,
+                lastInboundAt: conversation.lastInboundAt ? conversation.lastInboundAt.toISOString() : null,
+              },
+            }
+          );
+        }
+      }
+
+      // Step 2c: Resolve the quoted message so WhatsApp threads the reply
+      const replyToMessageId = 'replyToMessageId' in input ? input.replyToMessageId : undefined;
+      let quotedProviderMessageId: string | undefined;
+
+      if (replyToMessageId) {
+        const quoted = await db.query.messagesTable.findFirst({
+          columns: { id: true, providerMessageId: true },
+          where: and(
+            eq(messagesTable.id, replyToMessageId),
+            eq(messagesTable.companyId, input.companyId),
+            eq(messagesTable.conversationId, conversation.id)
+          ),
+        });
+
+        if (!quoted) {
+          logger.fail('Quoted message not found');
+          return Result.notFound('The message you are replying to was not found');
+        }
 
-      if (!whatsappAccount) {
-        logger.fail('No active WhatsApp account found for company');
-        return Result.fail('No active WhatsApp account configured', { code: 'INTERNAL_ERROR' });
+        if (!quoted.providerMessageId) {
+          logger.fail('Quoted message has no provider id');
+          return Result.badRequest('Cannot reply to a message that was never delivered');
+        }
+
+        quotedProviderMessageId = quoted.providerMessageId;
       }
 
-      // Step 4: Create message record (status = 'sending')
-      const isImageMessage = 'imageUrl' in input && !!input.imageUrl;
-      const isAudioMessage = 'audioUrl' in input && !!input.audioUrl;
-      const messageContent = input.messageText || (isImageMessage ? '📷 Photo' : '') || '';
+      // Step 3: Work out the message type and content
+      const attachments: Partial<SendMessageWithImageServerInput> = input;
+      const messageType: MessageType = template
+        ? 'template'
+        : attachments.imageUrl
+          ? 'image'
+          : attachments.videoUrl
+            ? 'video'
+            : attachments.audioUrl
+              ? 'audio'
+              : attachments.documentUrl
+                ? 'document'
+                : attachments.location
+                  ? 'location'
+                  : 'text';
+      const mediaUrl =
+        attachments.imageUrl || attachments.videoUrl || attachments.audioUrl || attachments.documentUrl;
+      const contentPayload: MessageContentPayload | null =
+        messageType === 'document'
+          ? { type: 'document', filename: attachments.documentFilename ?? null }
+          : messageType === 'location' && attachments.location
+            ? { type: 'location', ...attachments.location }
+            : null;
+      // WhatsApp has no caption on audio messages
+      const mediaCaption =
+        mediaUrl && messageType !== 'audio' && input.messageText ? input.messageText : undefined;
+      const messageContent = template
+        ? renderTemplateText(template.components as WhatsappTemplateComponent[], templateVariables)
+        : messageType === 'text'
+          ? input.messageText || ''
+          : describeMessageContent(messageType, contentPayload, mediaCaption);
+
+      // Step 4: Build the WhatsApp request
+      const to = input.phoneNumber;
+      const contextMessageId = quotedProviderMessageId;
+      let request: WhatsappSendMessageInput;
+
+      if (template) {
+        request = {
+          to,
+          contextMessageId,
+          type: 'template',
+          template: {
+            name: template.name,
+            language: template.language,
+            components: buildTemplateSendComponents(
+              template.variables as WhatsappTemplateVariable[],
+              templateVariables
+            ),
+          },
+        };
+      } else if (messageType === 'image' || messageType === 'video') {
+        request = { to, contextMessageId, type: messageType, mediaUrl, caption: mediaCaption };
+      } else if (messageType === 'document') {
+        request = {
+          to,
+          contextMessageId,
+          type: 'document',
+          mediaUrl,
+          caption: mediaCaption,
+          filename: attachments.documentFilename,
+        };
+      } else if (messageType === 'audio') {
+        request = { to, contextMessageId, type: 'audio', mediaUrl: attachments.audioUrl };
+      } else if (messageType === 'location' && attachments.location) {
+        request = { to, contextMessageId, type: 'location', location: attachments.location };
+      } else {
+        request = { to, contextMessageId, type: 'text', text: input.messageText || '' };
+      }
 
+      // Step 5: Create message record (status = 'sending'), keeping the request so a failed send can be retried as-is
       const messageResult = await ConversationService.createMessage({
         conversationId: conversation.id,
         companyId: input.companyId,
@@ -86,9 +369,16 @@ export class MessageService {
         direction: 'outbound',
         status: 'sending',
         content: messageContent,
-        mediaUrl: isImageMessage && 'imageUrl' in input ? input.imageUrl : isAudioMessage && 'audioUrl' in input ? input.audioUrl : undefined,
-        mediaType: isImageMessage ? 'image' : isAudioMessage ? 'audio' : undefined,
+        messageType,
+        contentPayload,
+        mediaUrl,
+        mediaType: mediaUrl ? messageType : undefined,
+        mediaCaption,
+        replyToMessageId,
+        replyToProviderMessageId: quotedProviderMessageId,
         whatsappAccountId: whatsappAccount.id,
+        templateId: template?.id,
+        sendRequest: request,
         createdBy: input.userId,
       });
 
@@ -103,97 +393,31 @@ export class MessageService {
         return Result.internal('Message data missing');
       }
 
-      // Step 5: Send message via WhatsApp API
-      let finalStatus: 'sent' | 'failed' = 'sent';
-      let providerMessageId: string | undefined;
-      let errorMessage: string | undefined;
-
-      try {
-        const isImageMessage = 'imageUrl' in input && !!input.imageUrl;
-        const isAudioMessage = 'audioUrl' in input && !!input.audioUrl;
-        
-        interface WhatsAppApiRequestBody {
-          companyId: number;
-          recipientPhoneNumber: string;
-          phoneNumberId: string;
-          accessToken: string;
-          type: 'text' | 'image' | 'audio';
-          text?: string;
-          mediaUrl?: string;
-        }
-        
-        const requestBody: WhatsAppApiRequestBody = {
-          companyId: input.companyId,
-          recipientPhoneNumber: input.phoneNumber,
-          phoneNumberId: whatsappAccount.phoneNumberId,
-          accessToken: whatsappAccount.accessToken,
-          type: isImageMessage ? 'image' : isAudioMessage ? 'audio' : 'text',
-        };
-
-        if (isImageMessage) {
-          requestBody.mediaUrl = input.imageUrl;
-          if (input.messageText) {
-            requestBody.text = input.messageText;
-          }
-        } else if (isAudioMessage) {
-          requestBody.mediaUrl = input.audioUrl;
-          if (input.messageText) {
-            requestBody.text = input.messageText;
-          }
-          console.log('[Audio Message Debug]', {
-            isAudioMessage,
-            audioUrl: input.audioUrl,
-            messageText: input.messageText,
-            requestBody: { ...requestBody, accessToken: '***' }
-          });
-        } else {
-          requestBody.text = input.messageText;
-        }
+      await publishRealtimeEvent(db, {
+        type: 'message.created',
+        companyId: input.companyId,
+        conversationId: conversation.id,
+        messageId: message.id,
+        message,
+      });
 
-        const response = await axios.post(
-          `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/conversations/send-message`,
-          requestBody,
-          {
-            timeout: 30000,
-            headers: {
-              'Content-Type': 'application/json',
-            },
-          }
-        );
+      // Step 6: Hand the message to the send queue
+      const job: OutboundSendJob = {
+        messageId: message.id,
+        companyId: input.companyId,
+        conversationId: conversation.id,
+        whatsappAccountId: whatsappAccount.id,
+        userId: input.userId,
+        request,
+      };
 
-        if (response.data.success) {
-          providerMessageId = response.data.messageId;
-          logger.complete();
-        } else {
-          finalStatus = 'failed';
-          errorMessage = response.data.error || 'Failed to send via WhatsApp API';
-          logger.fail(new Error(errorMessage));
-        }
+      try {
+        await inngest.send({ name: OUTBOUND_SEND_EVENT, data: job });
       } catch (error) {
-        finalStatus = 'failed';
-        const axiosError = error as { response?: { data?: { error?: string } }; message?: string };
-        errorMessage = axiosError.response?.data?.error || axiosError.message || 'Failed to send via WhatsApp API';
-        logger.fail(new Error(errorMessage));
-      }
-
-      // Step 6: Update message status
-      const statusResult = await ConversationService.updateMessageStatus(
-        message.id,
-        input.companyId,
-        finalStatus,
-        providerMessageId,
-        errorMessage,
-        input.userId
-      );
-
-      if (!statusResult.isOk) {
-        logger.fail(statusResult.message);
-        return Result.fail(statusResult.message, statusResult.error);
-      }
-
-      // If WhatsApp send failed, return error
-      if (finalStatus === 'failed') {
-        return Result.fail(errorMessage || 'Failed to send message via WhatsApp', { code: 'INTERNAL_ERROR' });
+        const errorMessage = error instanceof Error ? error.message : 'Failed to queue message';
+        await this.markSendFailed(job, `Failed to queue message: ${errorMessage}`);
+        logger.fail(error as Error);
+        return Result.internal('Failed to queue message for sending');
       }
 
       // Step 7: Update conversation last message
@@ -210,7 +434,18 @@ export class MessageService {
         return Result.fail(updateResult.message, updateResult.error);
       }
 
-      // Step 8: Return success response
+      await publishRealtimeEvent(db, {
+        type: 'conversation.updated',
+        companyId: input.companyId,
+        conversationId: conversation.id,
+        changes: {
+          lastMessageId: message.id,
+          lastMessagePreview: messageContent.substring(0, 255),
+          lastMessageTime: new Date(),
+        },
+      });
+
+      // Step 8: Return the queued message; its status follows over the event stream
       logger.complete();
       return Result.ok({
         success: true,
@@ -221,73 +456,447 @@ export class MessageService {
         createdConversation,
         message: {
           id: message.id,
-          status: finalStatus,
+          status: 'sending',
           content: messageContent,
+          messageType,
+          contentPayload,
           mediaUrl: message.mediaUrl,
           mediaType: message.mediaType,
           createdAt: message.createdAt,
         },
-      }, 'Message sent');
+      }, 'Message queued');
     } catch (error) {
       logger.fail(error as Error);
       return Result.internal('Failed to send message');
     }
   }
 
+  /**
+   * Makes one delivery attempt for a queued message. Permanent failures are
+   * recorded on the message; retryable ones come back as RATE_LIMITED or
+   * INTERNAL_ERROR results so the queue can try again. A successful send only
+   * returns the provider id: recording it is a separate step, so a failure
+   * there can never send the message a second time.
+   */
+  static async deliverQueuedMessage(job: OutboundSendJob): Promise<Result<OutboundSendOutcome>> {
+    const logger = createPerformanceLogger('MessageService.deliverQueuedMessage', {
+      context: { messageId: job.messageId, whatsappAccountId: job.whatsappAccountId },
+    });
+
+    try {
+      const message = await db.query.messagesTable.findFirst({
+        columns: { id: true, status: true },
+        where: and(eq(messagesTable.id, job.messageId), eq(messagesTable.companyId, job.companyId)),
+      });
+
+      // Delivered by an earlier attempt, or cleared while queued
+      if (!message || message.status !== 'sending') {
+        logger.complete();
+        return Result.ok({ status: 'skipped' }, 'Nothing to send');
+      }
+
+      const accountResult = await this.loadSenderAccount(job.companyId, job.whatsappAccountId);
+      if (!accountResult.isOk || !accountResult.data) {
+        await this.markSendFailed(job, accountResult.message);
+        logger.fail(accountResult.message);
+        return Result.ok({ status: 'failed' }, accountResult.message);
+      }
+      const whatsappAccount = accountResult.data;
+
+      const sendResult = await WhatsappCloudApi.forAccount(whatsappAccount).sendMessage(job.request);
+
+      if (sendResult.success && sendResult.data) {
+        logger.complete();
+        return Result.ok({ status: 'sent', providerMessageId: sendResult.data.messageId }, 'Message sent');
+      }
+
+      logger.fail(sendResult.message);
+
+      // Rate limits and temporary Graph failures go back to the queue
+      if (sendResult.error?.code === 'RATE_LIMITED' || sendResult.error?.code === 'INTERNAL_ERROR') {
+        return Result.fail(sendResult.message, sendResult.error);
+      }
+
+      const details = sendResult.error?.details as { graphCode?: number | null } | undefined;
+      const errorMessage = sendResult.message;
+      const errorCode = details?.graphCode ?? undefined;
+
+      await this.markSendFailed(job, errorMessage, errorCode);
+      return Result.ok({ status: 'failed' }, errorMessage);
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to deliver message');
+    }
+  }
+
+  /**
+   * Marks a queued message as sent once Graph has accepted it.
+   */
+  static async recordQueuedMessageSent(job: OutboundSendJob, providerMessageId: string): Promise<Result<void>> {
+    const logger = createPerformanceLogger('MessageService.recordQueuedMessageSent', {
+      context: { messageId: job.messageId, providerMessageId },
+    });
+
+    try {
+      const statusResult = await ConversationService.updateMessageStatus(
+        job.messageId,
+        job.companyId,
+        'sent',
+        providerMessageId,
+        undefined,
+        job.userId
+      );
+
+      if (!statusResult.isOk) {
+        logger.fail(statusResult.message);
+        return Result.fail(statusResult.message, statusResult.error);
+      }
+
+      await publishRealtimeEvent(db, {
+        type: 'message.status_changed',
+        companyId: job.companyId,
+        conversationId: job.conversationId,
+        messageId: job.messageId,
+        changes: { status: 'sent', sentAt: new Date() },
+      });
+
+      logger.complete();
+      return Result.ok(undefined, 'Message recorded as sent');
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to record sent message');
+    }
+  }
+
+  /**
+   * Records a queued message as failed, unless a concurrent attempt already sent it.
+   */
+  static async markSendFailed(job: OutboundSendJob, errorMessage: string, errorCode?: number): Promise<void> {
+    const failedAt = new Date();
+    const updated = await db
+      .update(messagesTable)
+      .set({
+        status: 'failed',
+        errorMessage,
+        errorCode: errorCode !== undefined ? String(errorCode) : null,
+        failedAt,
+        updatedAt: failedAt,
+      })
+      .where(
+        and(
+          eq(messagesTable.id, job.messageId),
+          eq(messagesTable.companyId, job.companyId),
+          eq(messagesTable.status, 'sending')
+        )
+      )
+      .returning({ id: messagesTable.id });
+
+    if (updated.length === 0) return;
+
+    await publishRealtimeEvent(db, {
+      type: 'message.status_changed',
+      companyId: job.companyId,
+      conversationId: job.conversationId,
+      messageId: job.messageId,
+      changes: {
+        status: 'failed',
+        errorMessage,
+        errorCode: errorCode !== undefined ? String(errorCode) : null,
+        failedAt,
+      },
+    });
+  }
+
+  /**
+   * Puts a failed message back on the send queue. The same row is re-queued
+   * with the request it was first sent with, so templates and reply context
+   * are kept and no second bubble appears in the thread.
+   */
   static async retryFailedMessage(
     messageId: number,
     companyId: number,
-    userId: number
+    viewer: InboxViewer
   ): Promise<Result<SendNewMessageOutput>> {
     const logger = createPerformanceLogger('MessageService.retryFailedMessage', {
-      context: { messageId, companyId },
+      context: { messageId, companyId, userId: viewer.userId },
     });
 
     try {
-      // Fetch the failed message directly from DB
-      const message = await db.query.messagesTable.findFirst({
-        where: and(
-          eq(messagesTable.id, messageId),
-          eq(messagesTable.companyId, companyId)
-        ),
+      const [row] = await db
+        .select({
+          message: messagesTable,
+          lastInboundAt: conversationsTable.lastInboundAt,
+        })
+        .from(messagesTable)
+        .innerJoin(conversationsTable, eq(messagesTable.conversationId, conversationsTable.id))
+        .where(
+          and(
+            eq(messagesTable.id, messageId),
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.isActive, true)
+          )
+        )
+        .limit(1);
+
+      if (!row) {
+        logger.fail('Message not found');
+        return Result.notFound('Message not found');
+      }
+
+      const { message: failed, lastInboundAt } = row;
+      const visible = await ConversationService.ensureVisible(failed.conversationId, companyId, viewer);
+      if (!visible.isOk) {
+        logger.fail(visible.message);
+        return Result.notFound('Message not found');
+      }
+
+      if (failed.direction !== 'outbound' || failed.status !== 'failed') {
+        logger.fail('Message has not failed');
+        return Result.badRequest('Only failed messages can be retried');
+      }
+
+      const request = failed.sendRequest as WhatsappSendMessageInput | null;
+      if (!request || !failed.whatsappAccountId) {
+        logger.fail('Message has no stored send request');
+        return Result.badRequest('This message cannot be retried. Send it again instead.');
+      }
+
+      // Templates may re-open a closed window; free-form retries follow the 24-hour rule
+      if (!failed.templateId) {
+        const serviceWindow = getServiceWindowState(lastInboundAt);
+        if (serviceWindow.status === 'closed') {
+          logger.fail('Customer service window closed');
+          return Result.fail(
+            'The 24-hour customer service window has closed. Send an approved template to re-open the conversation.',
+            {
+              code: 'FORBIDDEN',
+              details: {
+                reason: 'SERVICE_WINDOW_CLOSED' satisfies MessageSendErrorReason,
+                lastInboundAt: lastInboundAt ? lastInboundAt.toISOString() : null,
+              },
+            }
+          );
+        }
+      }
+
+      const accountResult = await this.loadSenderAccount(companyId, failed.whatsappAccountId);
+      if (!accountResult.isOk) {
+        logger.fail(accountResult.message);
+        return Result.fail(accountResult.message, accountResult.error);
+      }
+
+      // Guarded on the failed status so a double click queues the message once
+      const requeued = await db
+        .update(messagesTable)
+        .set({
+          status: 'sending',
+          errorCode: null,
+          errorMessage: null,
+          failedAt: null,
+          updatedBy: viewer.userId,
+          updatedAt: new Date(),
+        })
+        .where(
+          and(
+            eq(messagesTable.id, failed.id),
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.status, 'failed')
+          )
+        )
+        .returning({ id: messagesTable.id });
+
+      if (requeued.length === 0) {
+        logger.fail('Message already retried');
+        return Result.badRequest('This message is already being retried');
+      }
+
+      const job: OutboundSendJob = {
+        messageId: failed.id,
+        companyId,
+        conversationId: failed.conversationId,
+        whatsappAccountId: failed.whatsappAccountId,
+        userId: viewer.userId,
+        request,
+      };
+
+      await publishRealtimeEvent(db, {
+        type: 'message.status_changed',
+        companyId,
+        conversationId: failed.conversationId,
+        messageId: failed.id,
+        changes: { status: 'sending', errorCode: null, errorMessage: null, failedAt: null },
       });
 
+      try {
+        await inngest.send({ name: OUTBOUND_SEND_EVENT, data: job });
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Failed to queue message';
+        await this.markSendFailed(job, `Failed to queue message: ${errorMessage}`);
+        logger.fail(error as Error);
+        return Result.internal('Failed to queue message for sending');
+      }
+
+      logger.complete();
+      return Result.ok({
+        success: true,
+        conversationId: failed.conversationId,
+        contactId: failed.contactId,
+        messageId: failed.id,
+        createdContact: false,
+        createdConversation: false,
+        message: {
+          id: failed.id,
+          status: 'sending',
+          content: failed.content,
+          messageType: failed.messageType as MessageType,
+          contentPayload: failed.contentPayload as MessageContentPayload | null,
+          mediaUrl: failed.mediaUrl,
+          mediaType: failed.mediaType,
+          createdAt: failed.createdAt,
+        },
+      }, 'Message queued');
+    } catch (error) {
+      logger.fail(error as Error);
+      return Result.internal('Failed to retry message');
+    }
+  }
+
+  /**
+   * Reacts to (or, with a null emoji, un-reacts from) a customer message.
+   * WhatsApp keeps a single reaction per sender, so ours is replaced in place.
+   */
+  static async reactToMessage(
+    input: ReactToMessageServerInput,
+    viewer: InboxViewer
+  ): Promise<Result<ReactToMessageOutput>> {
+    const logger = createPerformanceLogger('MessageService.reactToMessage', {
+      context: { messageId: input.messageId, companyId: input.companyId, removing: input.emoji === null },
+    });
+
+    try {
+      const [message] = await db
+        .select({
+          id: messagesTable.id,
+          conversationId: messagesTable.conversationId,
+          direction: messagesTable.direction,
+          providerMessageId: messagesTable.providerMessageId,
+          whatsappAccountId: messagesTable.whatsappAccountId,
+          conversationAccountId: conversationsTable.whatsappAccountId,
+          contactPhone: contactsTable.phone,
+          lastInboundAt: conversationsTable.lastInboundAt,
+        })
+        .from(messagesTable)
+        .innerJoin(contactsTable, eq(messagesTable.contactId, contactsTable.id))
+        .innerJoin(conversationsTable, eq(messagesTable.conversationId, conversationsTable.id))
+        .where(
+          and(
+            eq(messagesTable.id, input.messageId),
+            eq(messagesTable.companyId, input.companyId),
+            eq(messagesTable.isActive, true)
+          )
+        )
+        .limit(1);
+
       if (!message) {
         logger.fail('Message not found');
         return Result.notFound('Message not found');
       }
 
-      // Fetch contact to get phone number
-      const contact = await db.query.contactsTable.findFirst({
-        where: and(
-          eq(contactsTable.id, message.contactId),
-          eq(contactsTable.companyId, companyId)
-        ),
-      });
+      const visible = await ConversationService.ensureVisible(message.conversationId, input.companyId, viewer);
+      if (!visible.isOk) {
+        logger.fail(visible.message);
+        return Result.notFound('Message not found');
+      }
 
-      if (!contact) {
-        logger.fail('Contact not found');
-        return Result.notFound('Contact not found');
+      if (message.direction !== 'inbound' || !message.providerMessageId) {
+        logger.fail('Message cannot be reacted to');
+        return Result.badRequest('Only messages received from the customer can be reacted to');
       }
 
-      // Retry sending
-      const result = await this.sendNewMessage({
-        companyId,
-        phoneNumber: contact.phone,
-        messageText: message.content,
-        userId,
+      // Reactions are free-form messages and follow the same 24-hour rule
+      const serviceWindow = getServiceWindowState(message.lastInboundAt);
+      if (serviceWindow.status === 'closed') {
+        logger.fail('Customer service window closed');
+        return Result.fail('The 24-hour customer service window has closed.', {
+          code: 'FORBIDDEN',
+          details: {
+            reason: 'SERVICE_WINDOW_CLOSED' satisfies MessageSendErrorReason,
+            lastInboundAt: message.lastInboundAt ? message.lastInboundAt.toISOString() : null,
+          },
+        });
+      }
+
+      const whatsappAccountId = message.whatsappAccountId ?? message.conversationAccountId;
+      if (!whatsappAccountId) {
+        logger.fail('Message has no WhatsApp account');
+        return Result.badRequest('This conversation is not linked to a WhatsApp number');
+      }
+
+      const accountResult = await this.loadSenderAccount(input.companyId, whatsappAccountId);
+      if (!accountResult.isOk || !accountResult.data) {
+        logger.fail(accountResult.message);
+        return Result.fail(accountResult.message, accountResult.error);
+      }
+      const whatsappAccount = accountResult.data;
+
+      const sendResult = await WhatsappCloudApi.forAccount(whatsappAccount).sendMessage({
+        to: message.contactPhone,
+        type: 'reaction',
+        reaction: { messageId: message.providerMessageId, emoji: input.emoji ?? '' },
       });
 
-      if (result.isOk) {
-        logger.complete();
+      if (!sendResult.success || !sendResult.data) {
+        logger.fail(sendResult.message);
+        return Result.fail(sendResult.message, sendResult.error);
+      }
+      const providerMessageId = sendResult.data.messageId;
+
+      if (input.emoji === null) {
+        await db
+          .delete(messageReactionsTable)
+          .where(
+            and(
+              eq(messageReactionsTable.messageId, message.id),
+              eq(messageReactionsTable.direction, 'outbound')
+            )
+          );
       } else {
-        logger.fail(result.message);
+        await db
+          .insert(messageReactionsTable)
+          .values({
+            companyId: input.companyId,
+            messageId: message.id,
+            direction: 'outbound',
+            emoji: input.emoji,
+            providerMessageId,
+            reactedBy: input.userId,
+          })
+          .onConflictDoUpdate({
+            target: [messageReactionsTable.messageId, messageReactionsTable.direction],
+            set: {
+              emoji: input.emoji,
+              providerMessageId,
+              reactedBy: input.userId,
+              updatedAt: sql`now()`,
+            },
+          });
       }
 
-      return result;
+      await publishRealtimeEvent(db, {
+        type: 'message.reactions_changed',
+        companyId: input.companyId,
+        conversationId: message.conversationId,
+        messageId: message.id,
+      });
+
+      logger.complete();
+      return Result.ok(
+        { messageId: message.id, conversationId: message.conversationId, emoji: input.emoji },
+        input.emoji ? 'Reaction sent' : 'Reaction removed'
+      );
     } catch (error) {
       logger.fail(error as Error);
-      return Result.internal('Failed to retry message');
+      return Result.internal('Failed to react to message');
     }
   }
 }
@@ -4,6 +4,11 @@ import { db } from "@/db/drizzle";
 import { conversationNotesTable, conversationsTable } from "@/db/schema";
 import { eq, and, desc, lt } from "drizzle-orm";
 import { AuditLogService } from "@/lib/audit-log.service";
+import {
+  conversationRefVisibilityFilter,
+  conversationVisibilityFilter,
+  type InboxViewer,
+} from "./conversation-visibility";
 import type {
   ConversationNoteCreateServerInput,
   ConversationNoteUpdateServerInput,
@@ -16,7 +21,8 @@ import type {
 
 export class NoteService {
   static async create(
-    data: ConversationNoteCreateServerInput
+    data: ConversationNoteCreateServerInput,
+    viewer: InboxViewer
   ): Promise<Result<ConversationNoteResponse>> {
     const logger = createPerformanceLogger("NoteService.create");
 
@@ -25,7 +31,8 @@ export class NoteService {
         where: and(
           eq(conversationsTable.id, data.conversationId),
           eq(conversationsTable.companyId, data.companyId),
-          eq(conversationsTable.isActive, true)
+          eq(conversationsTable.isActive, true),
+          conversationVisibilityFilter(viewer)
         ),
       });
 
@@ -208,7 +215,8 @@ export class NoteService {
   }
 
   static async listForConversation(
-    data: ConversationNoteListInput & { companyId: number }
+    data: ConversationNoteListInput & { companyId: number },
+    viewer: InboxViewer
   ): Promise<Result<ConversationNoteListResponse>> {
     const logger = createPerformanceLogger("NoteService.listForConversation");
 
@@ -227,7 +235,8 @@ export class NoteService {
       const companyFilter = and(
         eq(conversationNotesTable.conversationId, data.conversationId),
         eq(conversationNotesTable.companyId, data.companyId),
-        eq(conversationNotesTable.isActive, true)
+        eq(conversationNotesTable.isActive, true),
+        conversationRefVisibilityFilter(conversationNotesTable.conversationId, viewer)
       );
 
       const whereClause = cursorCondition ? and(companyFilter, cursorCondition) : companyFilter;
@@ -285,7 +294,8 @@ export class NoteService {
   }
 
   static async getById(
-    data: ConversationNoteGetInput & { companyId: number }
+    data: ConversationNoteGetInput & { companyId: number },
+    viewer: InboxViewer
   ): Promise<Result<ConversationNoteResponse>> {
     const logger = createPerformanceLogger("NoteService.getById");
 
@@ -294,7 +304,8 @@ export class NoteService {
         where: and(
           eq(conversationNotesTable.id, data.noteId),
           eq(conversationNotesTable.companyId, data.companyId),
-          eq(conversationNotesTable.isActive, true)
+          eq(conversationNotesTable.isActive, true),
+          conversationRefVisibilityFilter(conversationNotesTable.conversationId, viewer)
         ),
         with: {
           creator: {
@@ -1,6 +1,6 @@
 import { create } from 'zustand';
 import { persist } from 'zustand/middleware';
-import type { ConversationFilterType } from '../schemas/conversation-schema';
+import type { ConversationFilterType, ConversationStatus, MessageQuote } from '../schemas/conversation-schema';
 
 interface SelectedImage {
   file: File;
@@ -25,6 +25,21 @@ interface ConversationStoreState {
   filterType: ConversationFilterType;
   setFilterType: (type: ConversationFilterType) => void;
 
+  // null shows every status
+  statusFilter: ConversationStatus | null;
+  setStatusFilter: (status: ConversationStatus | null) => void;
+
+  // null shows conversations with any or no tags
+  tagFilter: number | null;
+  setTagFilter: (tagId: number | null) => void;
+
+  // Multi-select in the list for bulk tagging
+  isSelecting: boolean;
+  setSelecting: (selecting: boolean) => void;
+  selectedConversationIds: number[];
+  toggleConversationSelected: (id: number) => void;
+  clearConversationSelection: () => void;
+
   searchTerm: string;
   setSearchTerm: (term: string) => void;
 
@@ -43,13 +58,21 @@ interface ConversationStoreState {
   audioRecording: AudioRecording | null;
   setAudioRecording: (recording: AudioRecording | null) => void;
   clearAudioRecording: () => void;
+
+  replyingTo: MessageQuote | null;
+  setReplyingTo: (message: MessageQuote | null) => void;
+  clearReplyingTo: () => void;
+
+  // Whether the inbox event stream is live; list queries poll while it is not
+  realtimeConnected: boolean;
+  setRealtimeConnected: (connected: boolean) => void;
 }
 
 export const useConversationStore = create<ConversationStoreState>()(
   persist(
     (set) => ({
       selectedConversationId: null,
-      setSelectedConversation: (id) => set({ selectedConversationId: id }),
+      setSelectedConversation: (id) => set({ selectedConversationId: id, replyingTo: null }),
 
       selectedWhatsappAccountId: null,
       setSelectedWhatsappAccountId: (id) => set({ selectedWhatsappAccountId: id }),
@@ -57,6 +80,22 @@ export const useConversationStore = create<ConversationStoreState>()(
       filterType: 'all',
       setFilterType: (type) => set({ filterType: type }),
 
+      statusFilter: null,
+      setStatusFilter: (status) => set({ statusFilter: status }),
+
+      tagFilter: null,
+      setTagFilter: (tagId) => set({ tagFilter: tagId }),
+
+      isSelecting: false,
+      setSelecting: (selecting) => set({ isSelecting: selecting, selectedConversationIds: [] }),
+      selectedConversationIds: [],
+      toggleConversationSelected: (id) => set((state) => ({
+        selectedConversationIds: state.selectedConversationIds.includes(id)
+          ? state.selectedConversationIds.filter((selectedId) => selectedId !== id)
+          : [...state.selectedConversationIds, id],
+      })),
+      clearConversationSelection: () => set({ selectedConversationIds: [] }),
+
       searchTerm: '',
       setSearchTerm: (term) => set({ searchTerm: term }),
 
@@ -86,12 +125,21 @@ export const useConversationStore = create<ConversationStoreState>()(
       audioRecording: null,
       setAudioRecording: (recording) => set({ audioRecording: recording }),
       clearAudioRecording: () => set({ audioRecording: null }),
+
+      replyingTo: null,
+      setReplyingTo: (message) => set({ replyingTo: message }),
+      clearReplyingTo: () => set({ replyingTo: null }),
+
+      realtimeConnected: false,
+      setRealtimeConnected: (connected) => set({ realtimeConnected: connected }),
     }),
     {
       name: 'conversation-store',
       partialize: (state) => ({
         selectedConversationId: state.selectedConversationId,
         filterType: state.filterType,
+        statusFilter: state.statusFilter,
+        tagFilter: state.tagFilter,
       }),
     }
   )
@@ -0,0 +1,42 @@
+import { create } from 'zustand';
+import type { PresenceState } from '../schemas/conversation-schema';
+
+// Viewers heartbeat well within this; a closed tab drops out once it lapses
+const VIEWING_TTL_MS = 40000;
+const TYPING_TTL_MS = 6000;
+
+export interface AgentPresence {
+  userId: number;
+  userName: string;
+  viewingUntil: number;
+  typingUntil: number;
+}
+
+interface PresenceStoreState {
+  // conversationId -> userId -> presence
+  presence: Record<number, Record<number, AgentPresence>>;
+  applyPresence: (conversationId: number, userId: number, userName: string, state: PresenceState) => void;
+}
+
+export const usePresenceStore = create<PresenceStoreState>()((set) => ({
+  presence: {},
+  applyPresence: (conversationId, userId, userName, state) =>
+    set((current) => {
+      const agents = { ...current.presence[conversationId] };
+
+      if (state === 'left') {
+        delete agents[userId];
+      } else {
+        const now = Date.now();
+        const previous = agents[userId];
+        agents[userId] = {
+          userId,
+          userName,
+          viewingUntil: now + VIEWING_TTL_MS,
+          typingUntil: state === 'typing' ? now + TYPING_TTL_MS : previous?.typingUntil ?? 0,
+        };
+      }
+
+      return { presence: { ...current.presence, [conversationId]: agents } };
+    }),
+}));
@@ -0,0 +1,4 @@
+export {
+  listMessageTemplatesAction,
+  syncMessageTemplatesAction,
+} from './message-template.actions';
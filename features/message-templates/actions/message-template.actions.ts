@@ -0,0 +1,48 @@
+"use server";
+
+import { withAction } from "@/lib/server-action-helper";
+import { Result } from "@/lib/result";
+import { MessageTemplateService } from "../services/message-template.service";
+import {
+  messageTemplateListClientSchema,
+  messageTemplateSyncClientSchema,
+  type MessageTemplateListInput,
+  type MessageTemplateSyncInput,
+  type MessageTemplateListResponse,
+  type MessageTemplateSyncResponse,
+} from "../schemas/message-template.schema";
+
+export const listMessageTemplatesAction = withAction<MessageTemplateListInput, MessageTemplateListResponse>(
+  "messageTemplates.list",
+  async (auth, input) => {
+    const result = await MessageTemplateService.list({
+      ...input,
+      companyId: auth.companyId,
+    });
+
+    if (!result.success) {
+      return Result.fail(result.message, result.error);
+    }
+
+    return result;
+  },
+  { schema: messageTemplateListClientSchema, permission: "messageTemplates.view" }
+);
+
+export const syncMessageTemplatesAction = withAction<MessageTemplateSyncInput, MessageTemplateSyncResponse>(
+  "messageTemplates.sync",
+  async (auth, input) => {
+    const result = await MessageTemplateService.sync({
+      ...input,
+      companyId: auth.companyId,
+      userId: auth.userId,
+    });
+
+    if (!result.success) {
+      return Result.fail(result.message, result.error);
+    }
+
+    return result;
+  },
+  { schema: messageTemplateSyncClientSchema, permission: "messageTemplates.sync" }
+);
@@ -0,0 +1,5 @@
+export { MessageTemplatesTable } from './message-templates-table';
+export { TemplateComposer } from './template-composer';
+export type { TemplateComposerSubmit } from './template-composer';
+export { TemplatePickerDialog } from './template-picker-dialog';
+export { TemplateStatusBadge } from './template-status-badge';
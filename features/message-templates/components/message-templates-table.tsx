@@ -0,0 +1,107 @@
+"use client";
+
+import { format } from "date-fns";
+import { RefreshCw } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePermission } from "@/hooks/use-permission";
+import { useMessageTemplates, useSyncMessageTemplates } from "../hooks/use-message-templates";
+import { TemplateStatusBadge } from "./template-status-badge";
+
+interface MessageTemplatesTableProps {
+  whatsappAccountId: number;
+}
+
+export function MessageTemplatesTable({ whatsappAccountId }: MessageTemplatesTableProps) {
+  const { data, isLoading, error } = useMessageTemplates({ whatsappAccountId });
+  const { mutate: syncTemplates, isPending: isSyncing } = useSyncMessageTemplates();
+  const canSync = usePermission("messageTemplates.sync");
+
+  const templates = data?.items ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Message Templates</CardTitle>
+            <CardDescription>
+              Templates synced from the WhatsApp Business Account. Only approved templates can be sent.
+            </CardDescription>
+          </div>
+          {canSync && (
+            <Button
+              variant="outline"
+              onClick={() => syncTemplates(whatsappAccountId)}
+              disabled={isSyncing}
+            >
+              {isSyncing ? <Spinner className="mr-2 h-4 w-4" /> : <RefreshCw className="mr-2 h-4 w-4" />}
+              Sync templates
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-12">
+            <Spinner className="h-6 w-6" />
+          </div>
+        ) : error ? (
+          <p className="py-8 text-center text-destructive">Failed to load templates</p>
+        ) : templates.length === 0 ? (
+          <p className="py-8 text-center text-sm text-muted-foreground">
+            No templates yet. Sync to import templates from Meta.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Language</TableHead>
+                <TableHead>Category</TableHead>
+                <TableHead>Variables</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Last synced</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {templates.map((template) => (
+                <TableRow key={template.id}>
+                  <TableCell className="font-medium">{template.name}</TableCell>
+                  <TableCell>{template.language}</TableCell>
+                  <TableCell>
+                    {template.category ? (
+                      <Badge variant="outline">{template.category}</Badge>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell>{template.variables.length}</TableCell>
+                  <TableCell>
+                    <TemplateStatusBadge
+                      status={template.status}
+                      rejectedReason={template.rejectedReason}
+                    />
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {template.lastSyncedAt ? format(template.lastSyncedAt, "MMM dd, yyyy HH:mm") : "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,154 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Loader2, Send } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  findMissingTemplateVariables,
+  renderTemplateText,
+  templateVariableId,
+} from "@/lib/whatsapp-template";
+import { useMessageTemplates } from "../hooks/use-message-templates";
+import type { TemplateVariable, TemplateVariableValues } from "../schemas/message-template.schema";
+
+export interface TemplateComposerSubmit {
+  templateId: number;
+  templateVariables: TemplateVariableValues;
+}
+
+interface TemplateComposerProps {
+  whatsappAccountId?: number | null;
+  onSubmit: (data: TemplateComposerSubmit) => void;
+  isSubmitting?: boolean;
+  disabled?: boolean;
+  submitLabel?: string;
+}
+
+function variableLabel(variable: TemplateVariable): string {
+  if (variable.format !== "text") {
+    return `Header ${variable.format} URL`;
+  }
+  const component =
+    variable.component === "button"
+      ? `Button ${(variable.buttonIndex ?? 0) + 1}`
+      : variable.component === "header"
+        ? "Header"
+        : "Body";
+  return `${component} {{${variable.key}}}`;
+}
+
+export function TemplateComposer({
+  whatsappAccountId,
+  onSubmit,
+  isSubmitting = false,
+  disabled = false,
+  submitLabel = "Send template",
+}: TemplateComposerProps) {
+  const [templateId, setTemplateId] = useState<number | null>(null);
+  const [values, setValues] = useState<TemplateVariableValues>({});
+
+  const { data, isLoading } = useMessageTemplates({
+    whatsappAccountId: whatsappAccountId ?? null,
+    status: "approved",
+  });
+
+  const templates = useMemo(() => data?.items ?? [], [data]);
+  const selectedTemplate = templates.find((template) => template.id === templateId) ?? null;
+  const missing = selectedTemplate
+    ? findMissingTemplateVariables(selectedTemplate.variables, values)
+    : [];
+  const preview = selectedTemplate ? renderTemplateText(selectedTemplate.components, values) : "";
+
+  const handleSelect = (value: string) => {
+    setTemplateId(Number(value));
+    setValues({});
+  };
+
+  const handleSubmit = () => {
+    if (!selectedTemplate || missing.length > 0) return;
+    onSubmit({ templateId: selectedTemplate.id, templateVariables: values });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>Template</Label>
+        <Select
+          value={templateId ? String(templateId) : undefined}
+          onValueChange={handleSelect}
+          disabled={disabled || isSubmitting || isLoading}
+        >
+          <SelectTrigger className="w-full">
+            <SelectValue
+              placeholder={
+                isLoading
+                  ? "Loading templates..."
+                  : templates.length === 0
+                    ? "No approved templates"
+                    : "Select a template"
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={String(template.id)}>
+                {template.name} ({template.language})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {selectedTemplate && selectedTemplate.variables.length > 0 && (
+        <div className="space-y-3">
+          {selectedTemplate.variables.map((variable) => {
+            const id = templateVariableId(variable);
+            return (
+              <div key={id} className="space-y-1">
+                <Label htmlFor={`template-variable-${id}`}>{variableLabel(variable)}</Label>
+                <Input
+                  id={`template-variable-${id}`}
+                  value={values[id] ?? ""}
+                  placeholder={variable.example ?? undefined}
+                  onChange={(e) => setValues((prev) => ({ ...prev, [id]: e.target.value }))}
+                  disabled={disabled || isSubmitting}
+                />
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {selectedTemplate && (
+        <div className="space-y-1">
+          <Label>Preview</Label>
+          <p className="whitespace-pre-wrap rounded-md bg-muted p-3 text-sm">{preview}</p>
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <Button
+          type="button"
+          onClick={handleSubmit}
+          disabled={disabled || isSubmitting || !selectedTemplate || missing.length > 0}
+        >
+          {isSubmitting ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Send className="mr-2 h-4 w-4" />
+          )}
+          {submitLabel}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { TemplateComposer, type TemplateComposerSubmit } from "./template-composer";
+
+interface TemplatePickerDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  whatsappAccountId?: number | null;
+  onSend: (data: TemplateComposerSubmit) => void;
+  isSending?: boolean;
+}
+
+export function TemplatePickerDialog({
+  open,
+  onOpenChange,
+  whatsappAccountId,
+  onSend,
+  isSending = false,
+}: TemplatePickerDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[520px] max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Send Template</DialogTitle>
+          <DialogDescription>
+            Pick an approved template and fill in its variables.
+          </DialogDescription>
+        </DialogHeader>
+        {open && (
+          <TemplateComposer
+            whatsappAccountId={whatsappAccountId}
+            onSubmit={onSend}
+            isSubmitting={isSending}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,46 @@
+"use client";
+
+import { Badge } from "@/components/ui/badge";
+import type { MessageTemplateStatus } from "../schemas/message-template.schema";
+
+interface TemplateStatusBadgeProps {
+  status: MessageTemplateStatus;
+  rejectedReason?: string | null;
+}
+
+const variants: Record<MessageTemplateStatus, { label: string; className: string }> = {
+  approved: {
+    label: "Approved",
+    className: "bg-green-500/10 text-green-700 border-green-500/20",
+  },
+  pending: {
+    label: "Pending",
+    className: "bg-yellow-500/10 text-yellow-700 border-yellow-500/20",
+  },
+  rejected: {
+    label: "Rejected",
+    className: "bg-red-500/10 text-red-700 border-red-500/20",
+  },
+  paused: {
+    label: "Paused",
+    className: "bg-orange-500/10 text-orange-700 border-orange-500/20",
+  },
+  disabled: {
+    label: "Disabled",
+    className: "bg-gray-500/10 text-gray-700 border-gray-500/20",
+  },
+  deleted: {
+    label: "Deleted",
+    className: "bg-gray-500/10 text-gray-700 border-gray-500/20",
+  },
+};
+
+export function TemplateStatusBadge({ status, rejectedReason }: TemplateStatusBadgeProps) {
+  const { label, className } = variants[status] ?? variants.pending;
+
+  return (
+    <Badge variant="outline" className={className} title={rejectedReason ?? undefined}>
+      {label}
+    </Badge>
+  );
+}
@@ -0,0 +1,4 @@
+export {
+  useMessageTemplates,
+  useSyncMessageTemplates,
+} from './use-message-templates';
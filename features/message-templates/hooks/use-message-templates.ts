@@ -0,0 +1,47 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  listMessageTemplatesAction,
+  syncMessageTemplatesAction,
+} from "../actions/message-template.actions";
+import type {
+  MessageTemplateListInput,
+  MessageTemplateListResponse,
+  MessageTemplateSyncResponse,
+} from "../schemas/message-template.schema";
+
+const MESSAGE_TEMPLATES_KEY = "message-templates";
+
+export { MESSAGE_TEMPLATES_KEY };
+
+export function useMessageTemplates(params: MessageTemplateListInput, enabled = true) {
+  return useQuery({
+    queryKey: [MESSAGE_TEMPLATES_KEY, params],
+    queryFn: async () => {
+      const result = await listMessageTemplatesAction(params);
+      if (!result.ok) throw new Error(result.error);
+      return result.data as MessageTemplateListResponse;
+    },
+    enabled,
+    staleTime: 300000,
+    refetchOnWindowFocus: false,
+  });
+}
+
+export function useSyncMessageTemplates() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (whatsappAccountId: number) => {
+      const result = await syncMessageTemplatesAction({ whatsappAccountId });
+      if (!result.ok) throw new Error(result.error);
+      return result.data as MessageTemplateSyncResponse;
+    },
+    onSuccess: (data) => {
+      toast.success(`Synced ${data.synced} template${data.synced === 1 ? "" : "s"}`);
+      queryClient.invalidateQueries({ queryKey: [MESSAGE_TEMPLATES_KEY] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
@@ -0,0 +1 @@
+export * from './message-template.schema';
@@ -0,0 +1,139 @@
+import { z } from "zod";
+
+// Enumerations / constants
+export const MESSAGE_TEMPLATE_STATUSES = [
+  "approved",
+  "pending",
+  "rejected",
+  "paused",
+  "disabled",
+  "deleted",
+] as const;
+export type MessageTemplateStatus = (typeof MESSAGE_TEMPLATE_STATUSES)[number];
+
+export const MESSAGE_TEMPLATE_CATEGORIES = [
+  "MARKETING",
+  "UTILITY",
+  "AUTHENTICATION",
+] as const;
+
+export const TEMPLATE_VARIABLE_COMPONENTS = ["header", "body", "button"] as const;
+export const TEMPLATE_VARIABLE_FORMATS = ["text", "image", "video", "document"] as const;
+
+// Shared schemas
+export const templateVariableSchema = z.object({
+  component: z.enum(TEMPLATE_VARIABLE_COMPONENTS),
+  key: z.string().min(1),
+  format: z.enum(TEMPLATE_VARIABLE_FORMATS),
+  buttonIndex: z.number().int().min(0).optional(),
+  example: z.string().nullable().optional(),
+});
+export type TemplateVariable = z.infer<typeof templateVariableSchema>;
+
+export const templateComponentSchema = z
+  .object({
+    type: z.string(),
+    format: z.string().optional(),
+    text: z.string().optional(),
+    buttons: z
+      .array(
+        z
+          .object({
+            type: z.string(),
+            text: z.string().optional(),
+            url: z.string().optional(),
+            phone_number: z.string().optional(),
+            example: z.array(z.string()).optional(),
+          })
+          .passthrough()
+      )
+      .optional(),
+    example: z
+      .object({
+        header_text: z.array(z.string()).optional(),
+        body_text: z.array(z.array(z.string())).optional(),
+        header_handle: z.array(z.string()).optional(),
+      })
+      .passthrough()
+      .optional(),
+  })
+  .passthrough();
+export type TemplateComponent = z.infer<typeof templateComponentSchema>;
+
+export const templateVariableValuesSchema = z.record(
+  z.string(),
+  z.string().max(1024, "Variable value too long")
+);
+export type TemplateVariableValues = z.infer<typeof templateVariableValuesSchema>;
+
+// Client schemas
+export const messageTemplateListClientSchema = z.object({
+  whatsappAccountId: z.number().int().positive().nullable().optional(),
+  status: z.enum(MESSAGE_TEMPLATE_STATUSES).optional(),
+  search: z.string().max(120).trim().optional(),
+});
+export type MessageTemplateListInput = z.infer<
+  typeof messageTemplateListClientSchema
+>;
+
+export const messageTemplateSyncClientSchema = z.object({
+  whatsappAccountId: z.number().int().positive(),
+});
+export type MessageTemplateSyncInput = z.infer<
+  typeof messageTemplateSyncClientSchema
+>;
+
+// Server schemas
+export const messageTemplateListServerSchema =
+  messageTemplateListClientSchema.extend({
+    companyId: z.number().int(),
+  });
+export type MessageTemplateListServerInput = z.infer<
+  typeof messageTemplateListServerSchema
+>;
+
+export const messageTemplateSyncServerSchema =
+  messageTemplateSyncClientSchema.extend({
+    companyId: z.number().int(),
+    userId: z.number().int(),
+  });
+export type MessageTemplateSyncServerInput = z.infer<
+  typeof messageTemplateSyncServerSchema
+>;
+
+// Response schemas
+export const messageTemplateResponseSchema = z.object({
+  id: z.number().int(),
+  companyId: z.number().int(),
+  whatsappAccountId: z.number().int(),
+  providerTemplateId: z.string(),
+  name: z.string(),
+  language: z.string(),
+  category: z.string().nullable(),
+  status: z.enum(MESSAGE_TEMPLATE_STATUSES),
+  rejectedReason: z.string().nullable(),
+  components: z.array(templateComponentSchema),
+  variables: z.array(templateVariableSchema),
+  lastSyncedAt: z.date().nullable(),
+  isActive: z.boolean(),
+  createdAt: z.date(),
+  updatedAt: z.date().nullable(),
+});
+export type MessageTemplateResponse = z.infer<
+  typeof messageTemplateResponseSchema
+>;
+
+export const messageTemplateListResponseSchema = z.object({
+  items: z.array(messageTemplateResponseSchema),
+});
+export type MessageTemplateListResponse = z.infer<
+  typeof messageTemplateListResponseSchema
+>;
+
+export const messageTemplateSyncResponseSchema = z.object({
+  synced: z.number().int(),
+  deactivated: z.number().int(),
+});
+export type MessageTemplateSyncResponse = z.infer<
+  typeof messageTemplateSyncResponseSchema
+>;
@@ -0,0 +1 @@
+export { MessageTemplateService } from './message-template.service';
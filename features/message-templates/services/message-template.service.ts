@@ -0,0 +1,220 @@
+import { db } from "@/db/drizzle";
+import { messageTemplatesTable, whatsappAccountsTable, auditLogsTable } from "@/db/schema";
+import { Result } from "@/lib/result";
+import { AuditLogService } from "@/lib/audit-log.service";
+import { createPerformanceLogger } from "@/lib/logger";
+import {
+  extractTemplateVariables,
+  normalizeTemplateStatus,
+  type WhatsappTemplateComponent,
+} from "@/lib/whatsapp-template";
+import { and, asc, eq, ilike, notInArray, sql } from "drizzle-orm";
+import { WhatsappCloudApi } from "@/lib/whatsapp-cloud-api";
+import type {
+  MessageTemplateListServerInput,
+  MessageTemplateSyncServerInput,
+  MessageTemplateResponse,
+  MessageTemplateListResponse,
+  MessageTemplateSyncResponse,
+} from "../schemas/message-template.schema";
+
+type MessageTemplateRecord = MessageTemplateResponse;
+
+const BASE_SELECTION = {
+  id: messageTemplatesTable.id,
+  companyId: messageTemplatesTable.companyId,
+  whatsappAccountId: messageTemplatesTable.whatsappAccountId,
+  providerTemplateId: messageTemplatesTable.providerTemplateId,
+  name: messageTemplatesTable.name,
+  language: messageTemplatesTable.language,
+  category: messageTemplatesTable.category,
+  status: messageTemplatesTable.status,
+  rejectedReason: messageTemplatesTable.rejectedReason,
+  components: messageTemplatesTable.components,
+  variables: messageTemplatesTable.variables,
+  lastSyncedAt: messageTemplatesTable.lastSyncedAt,
+  isActive: messageTemplatesTable.isActive,
+  createdAt: messageTemplatesTable.createdAt,
+  updatedAt: messageTemplatesTable.updatedAt,
+} satisfies Record<keyof MessageTemplateRecord, unknown>;
+
+export class MessageTemplateService {
+  static async list(
+    input: MessageTemplateListServerInput
+  ): Promise<Result<MessageTemplateListResponse>> {
+    const perf = createPerformanceLogger("MessageTemplateService.list", {
+      context: { companyId: input.companyId, whatsappAccountId: input.whatsappAccountId ?? null },
+    });
+
+    try {
+      const filters = [
+        eq(messageTemplatesTable.companyId, input.companyId),
+        eq(messageTemplatesTable.isActive, true),
+        input.whatsappAccountId
+          ? eq(messageTemplatesTable.whatsappAccountId, input.whatsappAccountId)
+          : undefined,
+        input.status ? eq(messageTemplatesTable.status, input.status) : undefined,
+        input.search ? ilike(messageTemplatesTable.name, `%${input.search}%`) : undefined,
+      ].filter(Boolean);
+
+      const items = await db
+        .select(BASE_SELECTION)
+        .from(messageTemplatesTable)
+        .where(and(...filters))
+        .orderBy(asc(messageTemplatesTable.name), asc(messageTemplatesTable.language));
+
+      perf.complete(items.length);
+      return Result.ok({ items: items as MessageTemplateRecord[] });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to list message templates";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to list message templates");
+    }
+  }
+
+  static async sync(
+    input: MessageTemplateSyncServerInput
+  ): Promise<Result<MessageTemplateSyncResponse>> {
+    const perf = createPerformanceLogger("MessageTemplateService.sync", {
+      context: { companyId: input.companyId, whatsappAccountId: input.whatsappAccountId },
+    });
+
+    try {
+      const [account] = await db
+        .select({
+          id: whatsappAccountsTable.id,
+          businessAccountId: whatsappAccountsTable.businessAccountId,
+          phoneNumberId: whatsappAccountsTable.phoneNumberId,
+          accessToken: whatsappAccountsTable.accessToken,
+          isActive: whatsappAccountsTable.isActive,
+        })
+        .from(whatsappAccountsTable)
+        .where(
+          and(
+            eq(whatsappAccountsTable.companyId, input.companyId),
+            eq(whatsappAccountsTable.id, input.whatsappAccountId)
+          )
+        )
+        .limit(1);
+
+      if (!account) {
+        perf.fail("WhatsApp account not found");
+        return Result.notFound("WhatsApp account not found");
+      }
+
+      if (!account.isActive) {
+        perf.fail("WhatsApp account is inactive");
+        return Result.badRequest("Cannot sync templates for an inactive WhatsApp account");
+      }
+
+      const fetched = await WhatsappCloudApi.forAccount(account).listTemplates();
+      if (!fetched.success || !fetched.data) {
+        perf.fail(fetched.message);
+        return Result.fail(fetched.message, fetched.error);
+      }
+      const providerTemplates = fetched.data;
+
+      const result = await db.transaction(async (tx) => {
+        for (const template of providerTemplates) {
+          const components = (template.components ?? []) as WhatsappTemplateComponent[];
+          const values = {
+            providerTemplateId: template.id,
+            category: template.category ?? null,
+            status: normalizeTemplateStatus(template.status),
+            rejectedReason:
+              template.rejected_reason && template.rejected_reason !== "NONE"
+                ? template.rejected_reason
+                : null,
+            components,
+            variables: extractTemplateVariables(components),
+            lastSyncedAt: sql`now()`,
+            isActive: true,
+            updatedBy: input.userId,
+          };
+
+          await tx
+            .insert(messageTemplatesTable)
+            .values({
+              ...values,
+              companyId: input.companyId,
+              whatsappAccountId: account.id,
+              name: template.name,
+              language: template.language,
+              createdBy: input.userId,
+            })
+            .onConflictDoUpdate({
+              target: [
+                messageTemplatesTable.whatsappAccountId,
+                messageTemplatesTable.name,
+                messageTemplatesTable.language,
+              ],
+              set: { ...values, updatedAt: sql`now()` },
+            });
+        }
+
+        const syncedIds = providerTemplates.map((template) => template.id);
+        const deactivated = await tx
+          .update(messageTemplatesTable)
+          .set({
+            isActive: false,
+            updatedBy: input.userId,
+            updatedAt: sql`now()`,
+          })
+          .where(
+            and(
+              eq(messageTemplatesTable.companyId, input.companyId),
+              eq(messageTemplatesTable.whatsappAccountId, account.id),
+              eq(messageTemplatesTable.isActive, true),
+              syncedIds.length > 0
+                ? notInArray(messageTemplatesTable.providerTemplateId, syncedIds)
+                : undefined
+            )
+          )
+          .returning({ id: messageTemplatesTable.id });
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "message_template",
+          entityId: account.id,
+          companyId: input.companyId,
+          action: "SYNC_ATTEMPT",
+          oldValues: null,
+          newValues: {
+            whatsappAccountId: account.id,
+            synced: providerTemplates.length,
+            deactivated: deactivated.length,
+          },
+          changedBy: input.userId,
+          changeReason: "Message templates synced from WhatsApp Business Account",
+        });
+
+        return { synced: providerTemplates.length, deactivated: deactivated.length };
+      });
+
+      await db.insert(auditLogsTable).values({
+        entityType: "message_template",
+        entityId: account.id,
+        companyId: input.companyId,
+        action: "SYNC_SUCCESS",
+        oldValues: null,
+        newValues: { whatsappAccountId: account.id, ...result },
+        changedBy: input.userId,
+        changeReason: "Message templates synced successfully",
+      });
+
+      perf.complete(result.synced);
+      return Result.ok(result, "Message templates synced");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to sync message templates";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "message_template",
+        entityId: input.whatsappAccountId,
+        companyId: input.companyId,
+        userId: input.userId,
+        action: "SYNC",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to sync message templates");
+    }
+  }
+}
@@ -27,12 +27,12 @@ export const createOrderAction = withAction<OrderCreateClientInput, OrderRespons
       ...input,
       companyId: auth.companyId,
       userId: auth.userId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Order created successfully');
   },
-  { schema: orderCreateClientSchema }
+  { schema: orderCreateClientSchema, permission: 'orders.create' }
 );
 
 export const updateOrderAction = withAction<OrderUpdateClientInput, OrderResponse>(
@@ -42,12 +42,12 @@ export const updateOrderAction = withAction<OrderUpdateClientInput, OrderRespons
       ...input,
       companyId: auth.companyId,
       userId: auth.userId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Order updated successfully');
   },
-  { schema: orderUpdateClientSchema }
+  { schema: orderUpdateClientSchema, permission: 'orders.update' }
 );
 
 export const updateOrderStatusAction = withAction<OrderUpdateStatusInput, OrderResponse>(
@@ -57,12 +57,12 @@ export const updateOrderStatusAction = withAction<OrderUpdateStatusInput, OrderR
       ...input,
       companyId: auth.companyId,
       userId: auth.userId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Order status updated successfully');
   },
-  { schema: orderUpdateStatusSchema }
+  { schema: orderUpdateStatusSchema, permission: 'orders.updateStatus' }
 );
 
 export const deactivateOrderAction = withAction<OrderDeactivateInput, { success: boolean }>(
@@ -72,12 +72,12 @@ export const deactivateOrderAction = withAction<OrderDeactivateInput, { success:
       ...input,
       companyId: auth.companyId,
       userId: auth.userId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok({ success: true }, 'Order deactivated successfully');
   },
-  { schema: orderDeactivateSchema }
+  { schema: orderDeactivateSchema, permission: 'orders.updateStatus' }
 );
 
 export const getOrderByIdAction = withAction<OrderGetByIdInput, OrderResponse>(
@@ -86,12 +86,12 @@ export const getOrderByIdAction = withAction<OrderGetByIdInput, OrderResponse>(
     const result = await OrderService.getById({
       ...input,
       companyId: auth.companyId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Order loaded');
   },
-  { schema: orderGetByIdSchema }
+  { schema: orderGetByIdSchema, permission: 'orders.view' }
 );
 
 export const listOrdersAction = withAction<OrderListInput, OrderListResponse>(
@@ -100,10 +100,10 @@ export const listOrdersAction = withAction<OrderListInput, OrderListResponse>(
     const result = await OrderService.list({
       ...input,
       companyId: auth.companyId,
-    });
+    }, auth);
     if (!result.isOk) return result;
 
     return Result.ok(result.data, 'Orders loaded');
   },
-  { schema: orderListSchema }
+  { schema: orderListSchema, permission: 'orders.view' }
 );
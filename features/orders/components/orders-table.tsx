@@ -31,6 +31,8 @@ import {
 import { Spinner } from "@/components/ui/spinner";
 import { Pencil, RefreshCw, Search, Shuffle, X, XCircle } from "lucide-react";
 import { useSession } from "next-auth/react";
+import { usePermission } from "@/hooks/use-permission";
+import { TagFilterSelect } from "@/features/tags/components/tag-filter-select";
 import { useOrders, useUpdateOrderStatus, useDeactivateOrder } from "../hooks/order-hooks";
 import type { OrderListInput, OrderResponse } from "../schemas/order-schema";
 import { ORDER_STATUSES } from "../schemas/order-schema";
@@ -49,6 +51,9 @@ export function OrdersTable() {
         : session.data.user.companyId)
     : 0;
 
+  const canUpdate = usePermission("orders.update");
+  const canUpdateStatus = usePermission("orders.updateStatus");
+
   const [sorting, setSorting] = React.useState<SortingState>([
     { id: "createdAt", desc: true },
   ]);
@@ -58,6 +63,7 @@ export function OrdersTable() {
   const [pageSize, setPageSize] = React.useState(DEFAULT_PAGE_SIZE);
   const [searchTerm, setSearchTerm] = React.useState("");
   const [statusFilter, setStatusFilter] = React.useState<(typeof ORDER_STATUSES)[number] | "all">("all");
+  const [tagFilter, setTagFilter] = React.useState<number | null>(null);
   const [selectedOrder, setSelectedOrder] = React.useState<OrderResponse | null>(null);
   const [isUpdateDialogOpen, setIsUpdateDialogOpen] = React.useState(false);
   const [isStatusDialogOpen, setIsStatusDialogOpen] = React.useState(false);
@@ -69,9 +75,10 @@ export function OrdersTable() {
       cursor,
       limit: pageSize,
       status: statusFilter === "all" ? undefined : statusFilter,
+      tagId: tagFilter ?? undefined,
       searchTerm: searchTerm.trim() || undefined,
     };
-  }, [companyId, pageIndex, pageSize, statusFilter, searchTerm]);
+  }, [companyId, pageIndex, pageSize, statusFilter, tagFilter, searchTerm]);
 
   const ordersQuery = useOrders(queryParams);
   const updateStatusMutation = useUpdateOrderStatus();
@@ -183,27 +190,31 @@ export function OrdersTable() {
           const order = info.row.original;
           return (
             <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleUpdateOrder(order)}
-                                disabled={order.status === "delivered" || order.status === "cancelled"}
-                className="h-8 text-xs gap-1.5"
-              >
-                <Pencil className="h-4 w-4" />
-                Update Data
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => handleUpdateStatus(order)}
-                disabled={order.status === "delivered" || order.status === "cancelled"}
-                className="h-8 text-xs gap-1.5"
-              >
-                <Shuffle className="h-4 w-4" />
-                Update Status
-              </Button>
-              {order.status !== "cancelled" && (
+              {canUpdate && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUpdateOrder(order)}
+                  disabled={order.status === "delivered" || order.status === "cancelled"}
+                  className="h-8 text-xs gap-1.5"
+                >
+                  <Pencil className="h-4 w-4" />
+                  Update Data
+                </Button>
+              )}
+              {canUpdateStatus && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleUpdateStatus(order)}
+                  disabled={order.status === "delivered" || order.status === "cancelled"}
+                  className="h-8 text-xs gap-1.5"
+                >
+                  <Shuffle className="h-4 w-4" />
+                  Update Status
+                </Button>
+              )}
+              {canUpdateStatus && order.status !== "cancelled" && (
                 <Button
                   variant="destructive"
                   size="sm"
@@ -219,7 +230,7 @@ export function OrdersTable() {
         },
       }),
     ],
-    [handleUpdateOrder, handleUpdateStatus, handleCancelOrder]
+    [handleUpdateOrder, handleUpdateStatus, handleCancelOrder, canUpdate, canUpdateStatus]
   );
 
   const table = useReactTable({
@@ -285,12 +296,22 @@ export function OrdersTable() {
           </SelectContent>
         </Select>
 
+        <TagFilterSelect
+          value={tagFilter}
+          onChange={(tagId) => {
+            setTagFilter(tagId);
+            setPageIndex(0);
+          }}
+          className="w-[160px]"
+        />
+
         <Button
           variant="outline"
           size="sm"
           onClick={() => {
             setSearchTerm("");
             setStatusFilter("all");
+            setTagFilter(null);
             setPageIndex(0);
           }}
           className="gap-1.5"
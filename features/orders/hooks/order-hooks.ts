@@ -31,6 +31,7 @@ function getFilterKey(filters: OrderListInput): string {
     searchTerm: filters.searchTerm,
     contactId: filters.contactId,
     conversationId: filters.conversationId,
+    tagId: filters.tagId,
   });
 }
 
@@ -88,6 +88,8 @@ export const orderListSchema = z.object({
   searchTerm: z.string().trim().max(255).optional(),
   contactId: z.number().int().positive().optional(),
   conversationId: z.number().int().positive().optional(),
+  // Orders whose contact or conversation carries the tag
+  tagId: z.number().int().positive().optional(),
 });
 
 export type OrderListInput = z.infer<typeof orderListSchema>;
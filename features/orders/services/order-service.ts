@@ -7,6 +7,13 @@ import {
 } from "@/db/schema";
 import { createPerformanceLogger } from "@/lib/logger";
 import { Result } from "@/lib/result";
+import {
+  conversationRefVisibilityFilter,
+  conversationVisibilityFilter,
+  seesAllConversations,
+  type InboxViewer,
+} from "@/features/conversations/services/conversation-visibility";
+import { TagService } from "@/features/tags/services/tag.service";
 import type {
   OrderCreateServerInput,
   OrderDeactivateInput,
@@ -34,8 +41,20 @@ function decodeCursor(cursor?: string) {
   return { createdAt: new Date(createdAtNum), id: idNum };
 }
 
+/**
+ * Orders an agent may see: ones they created and ones on conversations in
+ * their inbox. Undefined when the role sees every conversation.
+ */
+function orderVisibilityFilter(viewer: InboxViewer): SQL | undefined {
+  if (seesAllConversations(viewer)) return undefined;
+  return or(
+    eq(ordersTable.createdBy, viewer.userId),
+    conversationRefVisibilityFilter(ordersTable.conversationId, viewer)
+  );
+}
+
 export class OrderService {
-  static async create(input: OrderCreateServerInput): Promise<Result<OrderResponse>> {
+  static async create(input: OrderCreateServerInput, viewer: InboxViewer): Promise<Result<OrderResponse>> {
     const logger = createPerformanceLogger("OrderService.create", {
       context: {
         companyId: input.companyId,
@@ -55,7 +74,11 @@ export class OrderService {
 
       if (input.conversationId) {
         const conversation = await db.query.conversationsTable.findFirst({
-          where: and(eq(conversationsTable.id, input.conversationId), eq(conversationsTable.companyId, input.companyId)),
+          where: and(
+            eq(conversationsTable.id, input.conversationId),
+            eq(conversationsTable.companyId, input.companyId),
+            conversationVisibilityFilter(viewer)
+          ),
         });
         if (!conversation) {
           logger.fail(new Error("Conversation not found"));
@@ -111,7 +134,7 @@ export class OrderService {
     }
   }
 
-  static async update(input: OrderUpdateServerInput): Promise<Result<OrderResponse>> {
+  static async update(input: OrderUpdateServerInput, viewer: InboxViewer): Promise<Result<OrderResponse>> {
     const logger = createPerformanceLogger("OrderService.update", {
       context: { companyId: input.companyId, orderId: input.orderId },
     });
@@ -130,7 +153,14 @@ export class OrderService {
       const [updated] = await db
         .update(ordersTable)
         .set(updateData)
-        .where(and(eq(ordersTable.id, input.orderId), eq(ordersTable.companyId, input.companyId), eq(ordersTable.isActive, true)))
+        .where(
+          and(
+            eq(ordersTable.id, input.orderId),
+            eq(ordersTable.companyId, input.companyId),
+            eq(ordersTable.isActive, true),
+            orderVisibilityFilter(viewer)
+          )
+        )
         .returning({
           id: ordersTable.id,
           companyId: ordersTable.companyId,
@@ -164,13 +194,17 @@ export class OrderService {
     }
   }
 
-  static async updateStatus(input: OrderUpdateStatusServerInput): Promise<Result<OrderResponse>> {
+  static async updateStatus(input: OrderUpdateStatusServerInput, viewer: InboxViewer): Promise<Result<OrderResponse>> {
     const logger = createPerformanceLogger("OrderService.updateStatus", {
       context: { companyId: input.companyId, orderId: input.orderId, status: input.status },
     });
     try {
       const existing = await db.query.ordersTable.findFirst({
-        where: and(eq(ordersTable.id, input.orderId), eq(ordersTable.companyId, input.companyId)),
+        where: and(
+          eq(ordersTable.id, input.orderId),
+          eq(ordersTable.companyId, input.companyId),
+          orderVisibilityFilter(viewer)
+        ),
       });
 
       if (!existing) {
@@ -220,7 +254,7 @@ export class OrderService {
     }
   }
 
-  static async deactivate(input: OrderDeactivateInput): Promise<Result<{ success: boolean }>> {
+  static async deactivate(input: OrderDeactivateInput, viewer: InboxViewer): Promise<Result<{ success: boolean }>> {
     const logger = createPerformanceLogger("OrderService.deactivate", {
       context: { companyId: input.companyId, orderId: input.orderId },
     });
@@ -233,7 +267,13 @@ export class OrderService {
           updatedBy: input.userId,
           updatedAt: new Date(),
         })
-        .where(and(eq(ordersTable.id, input.orderId), eq(ordersTable.companyId, input.companyId)))
+        .where(
+          and(
+            eq(ordersTable.id, input.orderId),
+            eq(ordersTable.companyId, input.companyId),
+            orderVisibilityFilter(viewer)
+          )
+        )
         .returning({ id: ordersTable.id });
 
       if (!updated) {
@@ -249,13 +289,17 @@ export class OrderService {
     }
   }
 
-  static async getById(input: OrderGetByIdInput): Promise<Result<OrderResponse>> {
+  static async getById(input: OrderGetByIdInput, viewer: InboxViewer): Promise<Result<OrderResponse>> {
     const logger = createPerformanceLogger("OrderService.getById", {
       context: { companyId: input.companyId, orderId: input.orderId },
     });
     try {
       const result = await db.query.ordersTable.findFirst({
-        where: and(eq(ordersTable.id, input.orderId), eq(ordersTable.companyId, input.companyId)),
+        where: and(
+          eq(ordersTable.id, input.orderId),
+          eq(ordersTable.companyId, input.companyId),
+          orderVisibilityFilter(viewer)
+        ),
       });
 
       if (!result) {
@@ -271,11 +315,12 @@ export class OrderService {
     }
   }
 
-  static async list(input: OrderListInput): Promise<Result<{ orders: OrderResponse[]; nextCursor?: string; hasMore: boolean }>> {
+  static async list(input: OrderListInput, viewer: InboxViewer): Promise<Result<{ orders: OrderResponse[]; nextCursor?: string; hasMore: boolean }>> {
     const logger = createPerformanceLogger("OrderService.list", {
       context: {
         companyId: input.companyId,
         status: input.status ?? null,
+        tagId: input.tagId ?? null,
         limit: input.limit,
         cursor: input.cursor ?? null,
       },
@@ -287,9 +332,12 @@ export class OrderService {
       const whereClauses: SQL<unknown>[] = [
         eq(ordersTable.companyId, input.companyId),
       ];
+      const visibility = orderVisibilityFilter(viewer);
+      if (visibility) whereClauses.push(visibility);
       if (input.status) whereClauses.push(eq(ordersTable.status, input.status));
       if (input.contactId) whereClauses.push(eq(ordersTable.contactId, input.contactId));
       if (input.conversationId) whereClauses.push(eq(ordersTable.conversationId, input.conversationId));
+      if (input.tagId) whereClauses.push(TagService.taggedFilter(ordersTable.conversationId, ordersTable.contactId, input.tagId));
 
       if (cursorDecoded) {
         const cursorCondition = or(
@@ -0,0 +1,6 @@
+export { listTagsAction } from './tag.actions';
+export { createTagAction } from './tag.actions';
+export { updateTagAction } from './tag.actions';
+export { deleteTagAction } from './tag.actions';
+export { applyTagsAction } from './tag.actions';
+export { setTagsAction } from './tag.actions';
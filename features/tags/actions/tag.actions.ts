@@ -0,0 +1,63 @@
+"use server";
+
+import { withAction } from "@/lib/server-action-helper";
+import { TagService } from "../services/tag.service";
+import {
+  tagApplyClientSchema,
+  tagCreateClientSchema,
+  tagDeleteClientSchema,
+  tagSetClientSchema,
+  tagUpdateClientSchema,
+  type TagApplyInput,
+  type TagChip,
+  type TagCreateInput,
+  type TagDeleteInput,
+  type TagResponse,
+  type TagSetInput,
+  type TagUpdateInput,
+} from "../schemas/tag.schema";
+
+// Every role sees tags on rows and filters by them, so listing needs no permission
+export const listTagsAction = withAction<void, TagResponse[]>("tags.list", async (auth) => {
+  return TagService.list(auth.companyId);
+});
+
+export const createTagAction = withAction<TagCreateInput, TagResponse>(
+  "tags.create",
+  async (auth, input) => {
+    return TagService.create({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: tagCreateClientSchema, permission: "tags.manage" }
+);
+
+export const updateTagAction = withAction<TagUpdateInput, TagResponse>(
+  "tags.update",
+  async (auth, input) => {
+    return TagService.update({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: tagUpdateClientSchema, permission: "tags.manage" }
+);
+
+export const deleteTagAction = withAction<TagDeleteInput, null>(
+  "tags.delete",
+  async (auth, input) => {
+    return TagService.delete({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: tagDeleteClientSchema, permission: "tags.manage" }
+);
+
+export const applyTagsAction = withAction<TagApplyInput, { updated: number }>(
+  "tags.apply",
+  async (auth, input) => {
+    return TagService.apply({ ...input, companyId: auth.companyId, userId: auth.userId }, auth);
+  },
+  { schema: tagApplyClientSchema, permission: "tags.apply" }
+);
+
+export const setTagsAction = withAction<TagSetInput, TagChip[]>(
+  "tags.set",
+  async (auth, input) => {
+    return TagService.set({ ...input, companyId: auth.companyId, userId: auth.userId }, auth);
+  },
+  { schema: tagSetClientSchema, permission: "tags.apply" }
+);
@@ -0,0 +1,5 @@
+export { TagsTable } from './tags-table';
+export { TagForm } from './tag-form';
+export { TagBadge } from './tag-badge';
+export { TagPicker } from './tag-picker';
+export { TagFilterSelect } from './tag-filter-select';
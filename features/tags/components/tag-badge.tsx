@@ -0,0 +1,46 @@
+"use client";
+
+import { X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import type { TagChip, TagColor } from "../schemas/tag.schema";
+
+export const TAG_COLOR_CLASSES: Record<TagColor, string> = {
+  slate: "bg-slate-100 text-slate-700 border-slate-300",
+  red: "bg-red-100 text-red-700 border-red-300",
+  orange: "bg-orange-100 text-orange-700 border-orange-300",
+  amber: "bg-amber-100 text-amber-700 border-amber-300",
+  green: "bg-green-100 text-green-700 border-green-300",
+  teal: "bg-teal-100 text-teal-700 border-teal-300",
+  blue: "bg-blue-100 text-blue-700 border-blue-300",
+  indigo: "bg-indigo-100 text-indigo-700 border-indigo-300",
+  purple: "bg-purple-100 text-purple-700 border-purple-300",
+  pink: "bg-pink-100 text-pink-700 border-pink-300",
+};
+
+interface TagBadgeProps {
+  tag: Pick<TagChip, "name" | "color">;
+  onRemove?: () => void;
+  className?: string;
+}
+
+export function TagBadge({ tag, onRemove, className }: TagBadgeProps) {
+  return (
+    <Badge variant="outline" className={cn("gap-1 px-1.5 py-0 text-[10px]", TAG_COLOR_CLASSES[tag.color], className)}>
+      {tag.name}
+      {onRemove && (
+        <button
+          type="button"
+          className="rounded-full hover:bg-black/10"
+          onClick={(event) => {
+            event.stopPropagation();
+            onRemove();
+          }}
+          aria-label={`Remove ${tag.name}`}
+        >
+          <X className="h-2.5 w-2.5" />
+        </button>
+      )}
+    </Badge>
+  );
+}
@@ -0,0 +1,35 @@
+"use client";
+
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTags } from "../hooks/use-tags";
+import { TagBadge } from "./tag-badge";
+
+interface TagFilterSelectProps {
+  value: number | null;
+  onChange: (tagId: number | null) => void;
+  className?: string;
+}
+
+export function TagFilterSelect({ value, onChange, className }: TagFilterSelectProps) {
+  const tagsQuery = useTags();
+  const tags = tagsQuery.data ?? [];
+
+  return (
+    <Select
+      value={value === null ? "all" : String(value)}
+      onValueChange={(next) => onChange(next === "all" ? null : Number(next))}
+    >
+      <SelectTrigger className={className}>
+        <SelectValue placeholder="Tag" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="all">All tags</SelectItem>
+        {tags.map((tag) => (
+          <SelectItem key={tag.id} value={String(tag.id)}>
+            <TagBadge tag={tag} />
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,105 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+
+import { Button } from "@/components/ui/button";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+import { TAG_COLORS, tagCreateClientSchema, type TagCreateInput } from "../schemas/tag.schema";
+import { TAG_COLOR_CLASSES, TagBadge } from "./tag-badge";
+
+interface TagFormProps {
+  defaultValues?: Partial<TagCreateInput>;
+  onSubmit: (values: TagCreateInput) => Promise<void> | void;
+  onCancel?: () => void;
+  loading?: boolean;
+  isEdit?: boolean;
+}
+
+function toFormValues(values?: Partial<TagCreateInput>): TagCreateInput {
+  return {
+    name: values?.name ?? "",
+    color: values?.color ?? "slate",
+  };
+}
+
+export function TagForm({ defaultValues, onSubmit, onCancel, loading = false, isEdit = false }: TagFormProps) {
+  const form = useForm<TagCreateInput>({
+    resolver: zodResolver(tagCreateClientSchema),
+    defaultValues: toFormValues(defaultValues),
+  });
+
+  const name = form.watch("name");
+  const color = form.watch("color");
+
+  useEffect(() => {
+    if (defaultValues) {
+      form.reset(toFormValues(defaultValues));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [defaultValues]);
+
+  return (
+    <Form {...form}>
+      <form className="space-y-4" onSubmit={form.handleSubmit(onSubmit)}>
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="VIP" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="color"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Colour</FormLabel>
+              <div className="flex flex-wrap gap-2">
+                {TAG_COLORS.map((value) => (
+                  <button
+                    key={value}
+                    type="button"
+                    onClick={() => field.onChange(value)}
+                    className={cn(
+                      "h-6 w-6 rounded-full border",
+                      TAG_COLOR_CLASSES[value],
+                      field.value === value && "ring-2 ring-ring ring-offset-2"
+                    )}
+                    aria-label={value}
+                  />
+                ))}
+              </div>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          Preview <TagBadge tag={{ name: name || "Tag", color }} />
+        </div>
+
+        <div className="flex justify-end gap-2 pt-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={loading}>
+            {loading ? "Saving..." : isEdit ? "Update tag" : "Add tag"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,104 @@
+"use client";
+
+import { useState } from "react";
+import { Check, Plus, Tag } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { usePermission } from "@/hooks/use-permission";
+import { useCreateTag, useTags } from "../hooks/use-tags";
+import { TAG_COLORS, type TagChip } from "../schemas/tag.schema";
+import { TagBadge } from "./tag-badge";
+
+interface TagPickerProps {
+  label: string;
+  value: TagChip[];
+  onChange: (tagIds: number[]) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Selected tags as chips plus a searchable popover to toggle tags. Users who
+ * manage tags can create a missing tag straight from the search box.
+ */
+export function TagPicker({ label, value, onChange, disabled = false }: TagPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [search, setSearch] = useState("");
+  const canManage = usePermission("tags.manage");
+  const tagsQuery = useTags();
+  const createTag = useCreateTag();
+
+  const tags = tagsQuery.data ?? [];
+  const selectedIds = value.map((tag) => tag.id);
+  const trimmed = search.trim();
+  const canCreate =
+    canManage && trimmed.length > 0 && !tags.some((tag) => tag.name.toLowerCase() === trimmed.toLowerCase());
+
+  const toggle = (tagId: number) => {
+    onChange(selectedIds.includes(tagId) ? selectedIds.filter((id) => id !== tagId) : [...selectedIds, tagId]);
+  };
+
+  const handleCreate = () => {
+    const color = TAG_COLORS[tags.length % TAG_COLORS.length];
+    createTag.mutate(
+      { name: trimmed, color },
+      {
+        onSuccess: (tag) => {
+          if (tag) onChange([...selectedIds, tag.id]);
+          setSearch("");
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1">
+      {value.map((tag) => (
+        <TagBadge
+          key={tag.id}
+          tag={tag}
+          onRemove={disabled ? undefined : () => onChange(selectedIds.filter((id) => id !== tag.id))}
+        />
+      ))}
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-1.5 text-[10px] text-muted-foreground" disabled={disabled}>
+            <Tag className="mr-1 h-3 w-3" />
+            {label}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-0" align="start">
+          <Command>
+            <CommandInput placeholder="Search tags..." value={search} onValueChange={setSearch} />
+            <CommandList>
+              <CommandEmpty>{tagsQuery.isLoading ? "Loading..." : "No tags found"}</CommandEmpty>
+              <CommandGroup>
+                {tags.map((tag) => (
+                  <CommandItem key={tag.id} value={tag.name} onSelect={() => toggle(tag.id)}>
+                    <Check className={`h-3 w-3 ${selectedIds.includes(tag.id) ? "opacity-100" : "opacity-0"}`} />
+                    <TagBadge tag={tag} />
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+              {canCreate && (
+                <CommandGroup>
+                  <CommandItem value={`create ${trimmed}`} onSelect={handleCreate} disabled={createTag.isPending}>
+                    <Plus className="h-3 w-3" />
+                    Create &quot;{trimmed}&quot;
+                  </CommandItem>
+                </CommandGroup>
+              )}
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
@@ -0,0 +1,176 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { Plus, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCreateTag, useDeleteTag, useTags, useUpdateTag } from "../hooks/use-tags";
+import type { TagCreateInput, TagResponse } from "../schemas/tag.schema";
+import { TagBadge } from "./tag-badge";
+import { TagForm } from "./tag-form";
+
+export function TagsTable() {
+  const tagsQuery = useTags();
+  const createMutation = useCreateTag();
+  const updateMutation = useUpdateTag();
+  const deleteMutation = useDeleteTag();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<TagResponse | null>(null);
+  const [deleting, setDeleting] = useState<TagResponse | null>(null);
+
+  const tags = tagsQuery.data ?? [];
+  const editingValues = useMemo(() => editing ?? undefined, [editing]);
+  const isMutating = createMutation.isPending || updateMutation.isPending;
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = async (values: TagCreateInput) => {
+    if (editing) {
+      await updateMutation.mutateAsync({ ...values, id: editing.id });
+    } else {
+      await createMutation.mutateAsync(values);
+    }
+    closeForm();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => tagsQuery.refetch()}
+          disabled={tagsQuery.isFetching}
+          aria-label="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${tagsQuery.isFetching ? "animate-spin" : ""}`} />
+        </Button>
+        <Dialog
+          open={formOpen}
+          onOpenChange={(open) => {
+            setFormOpen(open);
+            if (!open) setEditing(null);
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Tag
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="sm:max-w-md">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit tag" : "Add tag"}</DialogTitle>
+            </DialogHeader>
+            <TagForm
+              isEdit={!!editing}
+              defaultValues={editingValues}
+              loading={isMutating}
+              onCancel={closeForm}
+              onSubmit={handleSubmit}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Tag</TableHead>
+              <TableHead>Created</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {tagsQuery.isLoading ? (
+              <TableRow>
+                <TableCell colSpan={3} className="py-6 text-center">
+                  <Spinner className="mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : tagsQuery.error ? (
+              <TableRow>
+                <TableCell colSpan={3} className="py-6 text-center text-sm text-destructive">
+                  {tagsQuery.error.message}
+                </TableCell>
+              </TableRow>
+            ) : tags.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={3} className="py-6 text-center text-sm text-muted-foreground">
+                  No tags yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              tags.map((tag) => (
+                <TableRow key={tag.id}>
+                  <TableCell>
+                    <TagBadge tag={tag} className="text-xs" />
+                  </TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {format(new Date(tag.createdAt), "MMM d, yyyy")}
+                  </TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditing(tag);
+                        setFormOpen(true);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => setDeleting(tag)}>
+                      Delete
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <AlertDialog open={!!deleting} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete tag?</AlertDialogTitle>
+            <AlertDialogDescription>
+              &quot;{deleting?.name}&quot; will be removed from every contact and conversation.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              disabled={deleteMutation.isPending}
+              onClick={() => {
+                if (deleting) deleteMutation.mutate(deleting.id);
+                setDeleting(null);
+              }}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
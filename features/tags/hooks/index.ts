@@ -0,0 +1,7 @@
+export { useTags } from './use-tags';
+export { useCreateTag } from './use-tags';
+export { useUpdateTag } from './use-tags';
+export { useDeleteTag } from './use-tags';
+export { useApplyTags } from './use-tags';
+export { useSetTags } from './use-tags';
+export { tagKeys } from './use-tags';
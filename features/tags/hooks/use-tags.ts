@@ -0,0 +1,130 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import { conversationKeys } from "@/features/conversations/hooks/conversation-hooks";
+import { orderKeys } from "@/features/orders/hooks/order-hooks";
+import {
+  applyTagsAction,
+  createTagAction,
+  deleteTagAction,
+  listTagsAction,
+  setTagsAction,
+  updateTagAction,
+} from "../actions/tag.actions";
+import type { TagApplyInput, TagCreateInput, TagSetInput, TagUpdateInput } from "../schemas/tag.schema";
+
+export const tagKeys = {
+  all: ["tags"] as const,
+  list: () => [...tagKeys.all, "list"] as const,
+} as const;
+
+function useInvalidateTagged() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: conversationKeys.lists() });
+    queryClient.invalidateQueries({ queryKey: conversationKeys.details() });
+    queryClient.invalidateQueries({ queryKey: orderKeys.lists() });
+  };
+}
+
+export function useTags() {
+  return useQuery({
+    queryKey: tagKeys.list(),
+    queryFn: async () => {
+      const result = await listTagsAction();
+      if (!result.ok) throw new Error(result.error);
+      return result.data ?? [];
+    },
+    staleTime: 60 * 1000,
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+}
+
+export function useCreateTag() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: TagCreateInput) => {
+      const result = await createTagAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Tag created");
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useUpdateTag() {
+  const queryClient = useQueryClient();
+  const invalidateTagged = useInvalidateTagged();
+  return useMutation({
+    mutationFn: async (data: TagUpdateInput) => {
+      const result = await updateTagAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Tag updated");
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      invalidateTagged();
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useDeleteTag() {
+  const queryClient = useQueryClient();
+  const invalidateTagged = useInvalidateTagged();
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const result = await deleteTagAction({ id });
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Tag deleted");
+      queryClient.invalidateQueries({ queryKey: tagKeys.all });
+      invalidateTagged();
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useApplyTags() {
+  const invalidateTagged = useInvalidateTagged();
+  return useMutation({
+    mutationFn: async (data: TagApplyInput) => {
+      const result = await applyTagsAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (data, input) => {
+      const count = data?.updated ?? input.ids.length;
+      toast.success(`${input.mode === "add" ? "Tagged" : "Untagged"} ${count} ${input.target}${count === 1 ? "" : "s"}`);
+      invalidateTagged();
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useSetTags() {
+  const invalidateTagged = useInvalidateTagged();
+  return useMutation({
+    mutationFn: async (data: TagSetInput) => {
+      const result = await setTagsAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data ?? [];
+    },
+    onSuccess: () => invalidateTagged(),
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
@@ -0,0 +1,96 @@
+import { z } from "zod";
+
+export const TAG_COLORS = [
+  "slate",
+  "red",
+  "orange",
+  "amber",
+  "green",
+  "teal",
+  "blue",
+  "indigo",
+  "purple",
+  "pink",
+] as const;
+export type TagColor = (typeof TAG_COLORS)[number];
+
+// Contacts carry tags about the customer, conversations carry labels for one thread
+export const TAG_TARGETS = ["contact", "conversation"] as const;
+export type TagTarget = (typeof TAG_TARGETS)[number];
+
+export const tagCreateClientSchema = z.object({
+  name: z.string().min(1).max(40).trim(),
+  color: z.enum(TAG_COLORS),
+});
+export type TagCreateInput = z.infer<typeof tagCreateClientSchema>;
+
+export const tagUpdateClientSchema = tagCreateClientSchema.partial().extend({
+  id: z.number().int().positive(),
+});
+export type TagUpdateInput = z.infer<typeof tagUpdateClientSchema>;
+
+export const tagDeleteClientSchema = z.object({
+  id: z.number().int().positive(),
+});
+export type TagDeleteInput = z.infer<typeof tagDeleteClientSchema>;
+
+// Bulk tag or untag many contacts or conversations at once
+export const tagApplyClientSchema = z.object({
+  target: z.enum(TAG_TARGETS),
+  ids: z.array(z.number().int().positive()).min(1).max(200),
+  tagIds: z.array(z.number().int().positive()).min(1).max(50),
+  mode: z.enum(["add", "remove"]),
+});
+export type TagApplyInput = z.infer<typeof tagApplyClientSchema>;
+
+// Replace the full tag set of one contact or conversation (tag pickers)
+export const tagSetClientSchema = z.object({
+  target: z.enum(TAG_TARGETS),
+  id: z.number().int().positive(),
+  tagIds: z.array(z.number().int().positive()).max(50),
+});
+export type TagSetInput = z.infer<typeof tagSetClientSchema>;
+
+export const tagCreateServerSchema = tagCreateClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TagCreateServerInput = z.infer<typeof tagCreateServerSchema>;
+
+export const tagUpdateServerSchema = tagUpdateClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TagUpdateServerInput = z.infer<typeof tagUpdateServerSchema>;
+
+export const tagDeleteServerSchema = tagDeleteClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TagDeleteServerInput = z.infer<typeof tagDeleteServerSchema>;
+
+export const tagApplyServerSchema = tagApplyClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TagApplyServerInput = z.infer<typeof tagApplyServerSchema>;
+
+export const tagSetServerSchema = tagSetClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TagSetServerInput = z.infer<typeof tagSetServerSchema>;
+
+// What rows and pickers need to render a tag
+export const tagChipSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  color: z.enum(TAG_COLORS),
+});
+export type TagChip = z.infer<typeof tagChipSchema>;
+
+export const tagResponseSchema = tagChipSchema.extend({
+  createdAt: z.date(),
+  updatedAt: z.date().nullable(),
+});
+export type TagResponse = z.infer<typeof tagResponseSchema>;
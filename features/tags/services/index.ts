@@ -0,0 +1 @@
+export { TagService } from './tag.service';
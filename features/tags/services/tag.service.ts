@@ -0,0 +1,448 @@
+import { Result } from "@/lib/result";
+import { createPerformanceLogger } from "@/lib/logger";
+import { AuditLogService } from "@/lib/audit-log.service";
+import { db } from "@/db/drizzle";
+import {
+  auditLogsTable,
+  contactsTable,
+  contactTagsTable,
+  conversationsTable,
+  conversationTagsTable,
+  tagsTable,
+} from "@/db/schema";
+import { and, asc, eq, inArray, ne, sql, type AnyColumn, type SQL } from "drizzle-orm";
+import {
+  contactRefVisibilityFilter,
+  conversationVisibilityFilter,
+  type InboxViewer,
+} from "@/features/conversations/services/conversation-visibility";
+import type {
+  TagApplyServerInput,
+  TagChip,
+  TagCreateServerInput,
+  TagDeleteServerInput,
+  TagResponse,
+  TagSetServerInput,
+  TagTarget,
+  TagUpdateServerInput,
+} from "../schemas/tag.schema";
+
+type TagRow = typeof tagsTable.$inferSelect;
+
+function toResponse(tag: TagRow): TagResponse {
+  return {
+    id: tag.id,
+    name: tag.name,
+    color: tag.color as TagResponse["color"],
+    createdAt: tag.createdAt,
+    updatedAt: tag.updatedAt,
+  };
+}
+
+/**
+ * Rows that tie tags to a contact or conversation; `contact_tags` and
+ * `conversation_tags` share a shape apart from the target column.
+ */
+function linkTable(target: TagTarget) {
+  return target === "contact"
+    ? { table: contactTagsTable, targetId: contactTagsTable.contactId }
+    : { table: conversationTagsTable, targetId: conversationTagsTable.conversationId };
+}
+
+export class TagService {
+  static async list(companyId: number): Promise<Result<TagResponse[]>> {
+    const perf = createPerformanceLogger("TagService.list", { context: { companyId } });
+
+    try {
+      const tags = await db
+        .select()
+        .from(tagsTable)
+        .where(eq(tagsTable.companyId, companyId))
+        .orderBy(asc(tagsTable.name));
+
+      perf.complete(tags.length);
+      return Result.ok(tags.map(toResponse));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to list tags";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to list tags");
+    }
+  }
+
+  static async create(data: TagCreateServerInput): Promise<Result<TagResponse>> {
+    const perf = createPerformanceLogger("TagService.create", {
+      context: { companyId: data.companyId, userId: data.userId },
+    });
+
+    try {
+      if (await TagService.nameTaken(data.companyId, data.name)) {
+        perf.fail("Tag name already exists");
+        return Result.conflict("A tag with this name already exists");
+      }
+
+      const tag = await db.transaction(async (tx) => {
+        const [newTag] = await tx
+          .insert(tagsTable)
+          .values({
+            companyId: data.companyId,
+            name: data.name,
+            color: data.color,
+            createdBy: data.userId,
+            updatedBy: data.userId,
+          })
+          .returning();
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "tag",
+          entityId: newTag.id,
+          companyId: data.companyId,
+          action: "CREATE",
+          oldValues: null,
+          newValues: { name: newTag.name, color: newTag.color },
+          changedBy: data.userId,
+          changeReason: "Tag created",
+        });
+
+        return newTag;
+      });
+
+      perf.complete(1);
+      return Result.ok(toResponse(tag), "Tag created successfully");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create tag";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "tag",
+        entityId: null,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "CREATE",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to create tag");
+    }
+  }
+
+  static async update(data: TagUpdateServerInput): Promise<Result<TagResponse>> {
+    const perf = createPerformanceLogger("TagService.update", {
+      context: { companyId: data.companyId, userId: data.userId, tagId: data.id },
+    });
+
+    try {
+      const [existing] = await db
+        .select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, data.id), eq(tagsTable.companyId, data.companyId)))
+        .limit(1);
+
+      if (!existing) {
+        perf.fail("Tag not found");
+        return Result.notFound("Tag not found");
+      }
+
+      if (data.name && (await TagService.nameTaken(data.companyId, data.name, existing.id))) {
+        perf.fail("Tag name already exists");
+        return Result.conflict("A tag with this name already exists");
+      }
+
+      const tag = await db.transaction(async (tx) => {
+        const [updatedTag] = await tx
+          .update(tagsTable)
+          .set({
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.color !== undefined ? { color: data.color } : {}),
+            updatedBy: data.userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(tagsTable.id, existing.id))
+          .returning();
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "tag",
+          entityId: existing.id,
+          companyId: data.companyId,
+          action: "UPDATE",
+          oldValues: { name: existing.name, color: existing.color },
+          newValues: { name: updatedTag.name, color: updatedTag.color },
+          changedBy: data.userId,
+          changeReason: "Tag updated",
+        });
+
+        return updatedTag;
+      });
+
+      perf.complete(1);
+      return Result.ok(toResponse(tag), "Tag updated successfully");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update tag";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "tag",
+        entityId: data.id,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "UPDATE",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to update tag");
+    }
+  }
+
+  /** Deleting a tag removes it from every contact and conversation. */
+  static async delete(data: TagDeleteServerInput): Promise<Result<null>> {
+    const perf = createPerformanceLogger("TagService.delete", {
+      context: { companyId: data.companyId, userId: data.userId, tagId: data.id },
+    });
+
+    try {
+      const [existing] = await db
+        .select()
+        .from(tagsTable)
+        .where(and(eq(tagsTable.id, data.id), eq(tagsTable.companyId, data.companyId)))
+        .limit(1);
+
+      if (!existing) {
+        perf.fail("Tag not found");
+        return Result.notFound("Tag not found");
+      }
+
+      await db.transaction(async (tx) => {
+        await tx.delete(contactTagsTable).where(eq(contactTagsTable.tagId, existing.id));
+        await tx.delete(conversationTagsTable).where(eq(conversationTagsTable.tagId, existing.id));
+        await tx.delete(tagsTable).where(eq(tagsTable.id, existing.id));
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "tag",
+          entityId: existing.id,
+          companyId: data.companyId,
+          action: "DELETE",
+          oldValues: { name: existing.name, color: existing.color },
+          newValues: null,
+          changedBy: data.userId,
+          changeReason: "Tag deleted",
+        });
+      });
+
+      perf.complete(1);
+      return Result.ok(null, "Tag deleted successfully");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to delete tag";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "tag",
+        entityId: data.id,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "DELETE",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to delete tag");
+    }
+  }
+
+  /** Adds or removes the given tags on many contacts or conversations. */
+  static async apply(data: TagApplyServerInput, viewer: InboxViewer): Promise<Result<{ updated: number }>> {
+    const perf = createPerformanceLogger("TagService.apply", {
+      context: { companyId: data.companyId, userId: data.userId, target: data.target, mode: data.mode },
+    });
+
+    try {
+      const ids = [...new Set(data.ids)];
+      const tagIds = [...new Set(data.tagIds)];
+      const invalid = await TagService.validate(data.companyId, data.target, ids, tagIds, viewer);
+      if (invalid) {
+        perf.fail(invalid);
+        return invalid === "Tag not found" ? Result.badRequest(invalid) : Result.notFound(invalid);
+      }
+
+      const { table, targetId } = linkTable(data.target);
+
+      await db.transaction(async (tx) => {
+        if (data.mode === "add") {
+          await tx
+            .insert(table)
+            .values(
+              ids.flatMap((id) =>
+                tagIds.map((tagId) => ({
+                  companyId: data.companyId,
+                  ...(data.target === "contact" ? { contactId: id } : { conversationId: id }),
+                  tagId,
+                  createdBy: data.userId,
+                }))
+              ) as Array<typeof contactTagsTable.$inferInsert & typeof conversationTagsTable.$inferInsert>
+            )
+            .onConflictDoNothing();
+        } else {
+          await tx.delete(table).where(and(inArray(targetId, ids), inArray(table.tagId, tagIds)));
+        }
+
+        await tx.insert(auditLogsTable).values(
+          ids.map((id) => ({
+            entityType: data.target,
+            entityId: id,
+            companyId: data.companyId,
+            action: data.mode === "add" ? "TAG" : "UNTAG",
+            oldValues: null,
+            newValues: { tagIds },
+            changedBy: data.userId,
+            changeReason: data.mode === "add" ? "Tags added" : "Tags removed",
+          }))
+        );
+      });
+
+      perf.complete(ids.length);
+      return Result.ok({ updated: ids.length }, data.mode === "add" ? "Tags added" : "Tags removed");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update tags";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to update tags");
+    }
+  }
+
+  /** Replaces the tag set of one contact or conversation. */
+  static async set(data: TagSetServerInput, viewer: InboxViewer): Promise<Result<TagChip[]>> {
+    const perf = createPerformanceLogger("TagService.set", {
+      context: { companyId: data.companyId, userId: data.userId, target: data.target, id: data.id },
+    });
+
+    try {
+      const tagIds = [...new Set(data.tagIds)];
+      const invalid = await TagService.validate(data.companyId, data.target, [data.id], tagIds, viewer);
+      if (invalid) {
+        perf.fail(invalid);
+        return invalid === "Tag not found" ? Result.badRequest(invalid) : Result.notFound(invalid);
+      }
+
+      const { table, targetId } = linkTable(data.target);
+      const oldTagIds = ((await TagService.loadTags(data.target, [data.id])).get(data.id) ?? []).map(
+        (tag) => tag.id
+      );
+
+      await db.transaction(async (tx) => {
+        await tx.delete(table).where(eq(targetId, data.id));
+
+        if (tagIds.length > 0) {
+          await tx.insert(table).values(
+            tagIds.map((tagId) => ({
+              companyId: data.companyId,
+              ...(data.target === "contact" ? { contactId: data.id } : { conversationId: data.id }),
+              tagId,
+              createdBy: data.userId,
+            })) as Array<typeof contactTagsTable.$inferInsert & typeof conversationTagsTable.$inferInsert>
+          );
+        }
+
+        await tx.insert(auditLogsTable).values({
+          entityType: data.target,
+          entityId: data.id,
+          companyId: data.companyId,
+          action: "SET_TAGS",
+          oldValues: { tagIds: oldTagIds },
+          newValues: { tagIds },
+          changedBy: data.userId,
+          changeReason: "Tags updated",
+        });
+      });
+
+      const tags = (await TagService.loadTags(data.target, [data.id])).get(data.id) ?? [];
+      perf.complete(tags.length);
+      return Result.ok(tags, "Tags updated");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update tags";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to update tags");
+    }
+  }
+
+  /** Tags per contact or conversation id, for decorating list and detail responses. */
+  static async loadTags(target: TagTarget, ids: number[]): Promise<Map<number, TagChip[]>> {
+    const byId = new Map<number, TagChip[]>();
+    if (ids.length === 0) return byId;
+
+    const { table, targetId } = linkTable(target);
+    const rows = await db
+      .select({ targetId, id: tagsTable.id, name: tagsTable.name, color: tagsTable.color })
+      .from(table)
+      .innerJoin(tagsTable, eq(tagsTable.id, table.tagId))
+      .where(inArray(targetId, ids))
+      .orderBy(asc(tagsTable.name));
+
+    for (const row of rows) {
+      const tag: TagChip = { id: row.id, name: row.name, color: row.color as TagChip["color"] };
+      byId.set(row.targetId, [...(byId.get(row.targetId) ?? []), tag]);
+    }
+    return byId;
+  }
+
+  /**
+   * Where clause matching rows whose conversation is labelled with the tag, or
+   * whose contact carries it. Raw SQL so it also works inside relational queries.
+   */
+  static taggedFilter(conversationIdColumn: AnyColumn, contactIdColumn: AnyColumn, tagId: number): SQL {
+    return sql`(${conversationIdColumn} in (
+      select ct.conversation_id from conversation_tags ct where ct.tag_id = ${tagId}
+    ) or ${contactIdColumn} in (
+      select kt.contact_id from contact_tags kt where kt.tag_id = ${tagId}
+    ))`;
+  }
+
+  private static async nameTaken(companyId: number, name: string, exceptId?: number): Promise<boolean> {
+    const rows = await db
+      .select({ id: tagsTable.id })
+      .from(tagsTable)
+      .where(
+        and(
+          eq(tagsTable.companyId, companyId),
+          sql`lower(${tagsTable.name}) = lower(${name})`,
+          exceptId ? ne(tagsTable.id, exceptId) : undefined
+        )
+      )
+      .limit(1);
+    return rows.length > 0;
+  }
+
+  /** Error message when a tag or target is outside the company or the viewer's inbox. */
+  private static async validate(
+    companyId: number,
+    target: TagTarget,
+    ids: number[],
+    tagIds: number[],
+    viewer: InboxViewer
+  ): Promise<string | null> {
+    if (tagIds.length > 0) {
+      const tags = await db
+        .select({ id: tagsTable.id })
+        .from(tagsTable)
+        .where(and(eq(tagsTable.companyId, companyId), inArray(tagsTable.id, tagIds)));
+      if (tags.length !== tagIds.length) return "Tag not found";
+    }
+
+    const targets =
+      target === "contact"
+        ? await db
+            .select({ id: contactsTable.id })
+            .from(contactsTable)
+            .where(
+              and(
+                eq(contactsTable.companyId, companyId),
+                inArray(contactsTable.id, ids),
+                contactRefVisibilityFilter(contactsTable.id, viewer)
+              )
+            )
+        : await db
+            .select({ id: conversationsTable.id })
+            .from(conversationsTable)
+            .where(
+              and(
+                eq(conversationsTable.companyId, companyId),
+                inArray(conversationsTable.id, ids),
+                conversationVisibilityFilter(viewer)
+              )
+            );
+
+    if (targets.length !== ids.length) {
+      return target === "contact" ? "Contact not found" : "Conversation not found";
+    }
+    return null;
+  }
+}
@@ -0,0 +1,4 @@
+export { listTeamsAction } from './team.actions';
+export { createTeamAction } from './team.actions';
+export { updateTeamAction } from './team.actions';
+export { toggleTeamStatusAction } from './team.actions';
@@ -0,0 +1,47 @@
+"use server";
+
+import { withAction } from "@/lib/server-action-helper";
+import { TeamService } from "../services/team.service";
+import {
+  teamCreateClientSchema,
+  teamListClientSchema,
+  teamToggleStatusClientSchema,
+  teamUpdateClientSchema,
+  type TeamCreateInput,
+  type TeamListInput,
+  type TeamResponse,
+  type TeamToggleStatusInput,
+  type TeamUpdateInput,
+} from "../schemas/team.schema";
+
+export const listTeamsAction = withAction<TeamListInput, TeamResponse[]>(
+  "teams.list",
+  async (auth, input) => {
+    return TeamService.list({ ...input, companyId: auth.companyId });
+  },
+  { schema: teamListClientSchema, permission: "teams.manage" }
+);
+
+export const createTeamAction = withAction<TeamCreateInput, TeamResponse>(
+  "teams.create",
+  async (auth, input) => {
+    return TeamService.create({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: teamCreateClientSchema, permission: "teams.manage" }
+);
+
+export const updateTeamAction = withAction<TeamUpdateInput, TeamResponse>(
+  "teams.update",
+  async (auth, input) => {
+    return TeamService.update({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: teamUpdateClientSchema, permission: "teams.manage" }
+);
+
+export const toggleTeamStatusAction = withAction<TeamToggleStatusInput, TeamResponse>(
+  "teams.toggleStatus",
+  async (auth, input) => {
+    return TeamService.toggleStatus({ ...input, companyId: auth.companyId, userId: auth.userId });
+  },
+  { schema: teamToggleStatusClientSchema, permission: "teams.manage" }
+);
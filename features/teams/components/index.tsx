@@ -0,0 +1,2 @@
+export { TeamsTable } from './teams-table';
+export { TeamForm } from './team-form';
@@ -0,0 +1,247 @@
+"use client";
+
+import { useEffect } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useUsers } from "@/features/users/hooks/use-users";
+import { useWhatsappAccounts } from "@/features/whatsapp-accounts/hooks/use-whatsapp-accounts";
+import {
+  TEAM_ASSIGNMENT_STRATEGIES,
+  TEAM_ASSIGNMENT_STRATEGY_LABELS,
+  teamCreateClientSchema,
+} from "../schemas/team.schema";
+
+// Keywords are edited as one comma separated field
+const teamFormSchema = teamCreateClientSchema.extend({
+  keywords: z.string().max(2000),
+});
+type TeamFormValues = z.infer<typeof teamFormSchema>;
+export type TeamFormSubmitValues = z.infer<typeof teamCreateClientSchema>;
+
+interface TeamFormProps {
+  defaultValues?: Partial<TeamFormSubmitValues>;
+  onSubmit: (values: TeamFormSubmitValues) => Promise<void> | void;
+  onCancel?: () => void;
+  loading?: boolean;
+  isEdit?: boolean;
+}
+
+function toFormValues(values?: Partial<TeamFormSubmitValues>): TeamFormValues {
+  return {
+    name: values?.name ?? "",
+    assignmentStrategy: values?.assignmentStrategy ?? "manual",
+    onlineOnly: values?.onlineOnly ?? false,
+    memberUserIds: values?.memberUserIds ?? [],
+    whatsappAccountIds: values?.whatsappAccountIds ?? [],
+    keywords: (values?.keywords ?? []).join(", "),
+  };
+}
+
+interface IdChecklistProps {
+  options: Array<{ id: number; label: string }>;
+  value: number[];
+  onChange: (value: number[]) => void;
+  emptyLabel: string;
+}
+
+function IdChecklist({ options, value, onChange, emptyLabel }: IdChecklistProps) {
+  return (
+    <div className="max-h-48 space-y-2 overflow-y-auto rounded-md border px-3 py-3">
+      {options.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{emptyLabel}</p>
+      ) : (
+        options.map((option) => (
+          <label key={option.id} className="flex items-center gap-3 text-sm">
+            <Checkbox
+              checked={value.includes(option.id)}
+              onCheckedChange={(checked) =>
+                onChange(checked ? [...value, option.id] : value.filter((id) => id !== option.id))
+              }
+            />
+            {option.label}
+          </label>
+        ))
+      )}
+    </div>
+  );
+}
+
+export function TeamForm({ defaultValues, onSubmit, onCancel, loading = false, isEdit = false }: TeamFormProps) {
+  const form = useForm<TeamFormValues>({
+    resolver: zodResolver(teamFormSchema),
+    defaultValues: toFormValues(defaultValues),
+  });
+
+  const usersQuery = useUsers({ limit: 100, isActive: true, sortField: "name", sortOrder: "asc" });
+  const accountsQuery = useWhatsappAccounts({
+    isActive: true,
+    limit: 100,
+    sortField: "name",
+    sortOrder: "asc",
+  });
+  const users = usersQuery.data?.pages.flatMap((page) => page.items) ?? [];
+  const accounts = accountsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+  const strategy = form.watch("assignmentStrategy");
+
+  useEffect(() => {
+    if (defaultValues) {
+      form.reset(toFormValues(defaultValues));
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [defaultValues]);
+
+  return (
+    <Form {...form}>
+      <form
+        className="space-y-4"
+        onSubmit={form.handleSubmit(async (values) => {
+          await onSubmit({
+            ...values,
+            keywords: values.keywords
+              .split(",")
+              .map((keyword) => keyword.trim().toLowerCase())
+              .filter(Boolean),
+          });
+        })}
+      >
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Support" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="assignmentStrategy"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Assignment</FormLabel>
+              <Select onValueChange={field.onChange} value={field.value}>
+                <FormControl>
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select strategy" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {TEAM_ASSIGNMENT_STRATEGIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TEAM_ASSIGNMENT_STRATEGY_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                How new conversations in this team&apos;s queue are handed to a member.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {strategy !== "manual" && (
+          <FormField
+            control={form.control}
+            name="onlineOnly"
+            render={({ field }) => (
+              <FormItem className="flex items-center space-x-3 rounded-md border px-3 py-3">
+                <FormControl>
+                  <Checkbox checked={field.value} onCheckedChange={(checked) => field.onChange(!!checked)} />
+                </FormControl>
+                <div className="space-y-0.5">
+                  <FormLabel className="text-sm font-medium">Only agents currently online</FormLabel>
+                  <FormDescription>Otherwise the conversation waits in the queue.</FormDescription>
+                </div>
+              </FormItem>
+            )}
+          />
+        )}
+
+        <FormField
+          control={form.control}
+          name="memberUserIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Members</FormLabel>
+              <IdChecklist
+                options={users.map((user) => ({ id: user.id, label: `${user.name} (${user.email})` }))}
+                value={field.value}
+                onChange={field.onChange}
+                emptyLabel="No active users"
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="whatsappAccountIds"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Receiving WhatsApp accounts</FormLabel>
+              <FormDescription>New conversations on these numbers go to this team.</FormDescription>
+              <IdChecklist
+                options={accounts.map((account) => ({ id: account.id, label: account.name }))}
+                value={field.value}
+                onChange={field.onChange}
+                emptyLabel="No active WhatsApp accounts"
+              />
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="keywords"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Keywords</FormLabel>
+              <FormControl>
+                <Input placeholder="price, order, refund" {...field} />
+              </FormControl>
+              <FormDescription>
+                Comma separated. A first message containing one routes here, ahead of account rules.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2 pt-2">
+          {onCancel && (
+            <Button type="button" variant="outline" onClick={onCancel}>
+              Cancel
+            </Button>
+          )}
+          <Button type="submit" disabled={loading}>
+            {loading ? "Saving..." : isEdit ? "Update team" : "Add team"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
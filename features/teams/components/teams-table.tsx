@@ -0,0 +1,159 @@
+"use client";
+
+import { useMemo, useState } from "react";
+import { Plus, RefreshCw } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Spinner } from "@/components/ui/spinner";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useCreateTeam, useTeams, useToggleTeamStatus, useUpdateTeam } from "../hooks/use-teams";
+import { TEAM_ASSIGNMENT_STRATEGY_LABELS, type TeamResponse } from "../schemas/team.schema";
+import { TeamForm, type TeamFormSubmitValues } from "./team-form";
+
+export function TeamsTable() {
+  const teamsQuery = useTeams({ includeInactive: true });
+  const createMutation = useCreateTeam();
+  const updateMutation = useUpdateTeam();
+  const toggleMutation = useToggleTeamStatus();
+
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<TeamResponse | null>(null);
+
+  const teams = teamsQuery.data ?? [];
+  const editingValues = useMemo(() => editing ?? undefined, [editing]);
+  const isMutating = createMutation.isPending || updateMutation.isPending;
+
+  const closeForm = () => {
+    setFormOpen(false);
+    setEditing(null);
+  };
+
+  const handleSubmit = async (values: TeamFormSubmitValues) => {
+    if (editing) {
+      await updateMutation.mutateAsync({ ...values, id: editing.id });
+    } else {
+      await createMutation.mutateAsync(values);
+    }
+    closeForm();
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => teamsQuery.refetch()}
+          disabled={teamsQuery.isFetching}
+          aria-label="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${teamsQuery.isFetching ? "animate-spin" : ""}`} />
+        </Button>
+        <Dialog
+          open={formOpen}
+          onOpenChange={(open) => {
+            setFormOpen(open);
+            if (!open) setEditing(null);
+          }}
+        >
+          <DialogTrigger asChild>
+            <Button size="sm">
+              <Plus className="mr-2 h-4 w-4" />
+              Add Team
+            </Button>
+          </DialogTrigger>
+          <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle>{editing ? "Edit team" : "Add team"}</DialogTitle>
+            </DialogHeader>
+            <TeamForm
+              isEdit={!!editing}
+              defaultValues={editingValues}
+              loading={isMutating}
+              onCancel={closeForm}
+              onSubmit={handleSubmit}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <div className="rounded-md border">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Name</TableHead>
+              <TableHead>Assignment</TableHead>
+              <TableHead>Members</TableHead>
+              <TableHead>Routing</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead className="text-right">Actions</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {teamsQuery.isLoading ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-6 text-center">
+                  <Spinner className="mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : teamsQuery.error ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-6 text-center text-sm text-destructive">
+                  {teamsQuery.error.message}
+                </TableCell>
+              </TableRow>
+            ) : teams.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={6} className="py-6 text-center text-sm text-muted-foreground">
+                  No teams yet
+                </TableCell>
+              </TableRow>
+            ) : (
+              teams.map((team) => (
+                <TableRow key={team.id}>
+                  <TableCell className="font-medium">{team.name}</TableCell>
+                  <TableCell>
+                    {TEAM_ASSIGNMENT_STRATEGY_LABELS[team.assignmentStrategy]}
+                    {team.onlineOnly && team.assignmentStrategy !== "manual" && (
+                      <span className="text-muted-foreground"> · online only</span>
+                    )}
+                  </TableCell>
+                  <TableCell>{team.memberUserIds.length}</TableCell>
+                  <TableCell className="text-sm text-muted-foreground">
+                    {team.whatsappAccountIds.length} accounts, {team.keywords.length} keywords
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={team.isActive ? "default" : "secondary"}>
+                      {team.isActive ? "Active" : "Inactive"}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="space-x-2 text-right">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => {
+                        setEditing(team);
+                        setFormOpen(true);
+                      }}
+                    >
+                      Edit
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={toggleMutation.isPending}
+                      onClick={() => toggleMutation.mutate({ id: team.id, isActive: !team.isActive })}
+                    >
+                      {team.isActive ? "Deactivate" : "Activate"}
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+    </div>
+  );
+}
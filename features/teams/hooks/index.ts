@@ -0,0 +1,5 @@
+export { useTeams } from './use-teams';
+export { useCreateTeam } from './use-teams';
+export { useUpdateTeam } from './use-teams';
+export { useToggleTeamStatus } from './use-teams';
+export { teamKeys } from './use-teams';
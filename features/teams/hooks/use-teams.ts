@@ -0,0 +1,81 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  createTeamAction,
+  listTeamsAction,
+  toggleTeamStatusAction,
+  updateTeamAction,
+} from "../actions/team.actions";
+import type { TeamCreateInput, TeamListInput, TeamUpdateInput } from "../schemas/team.schema";
+
+export const teamKeys = {
+  all: ["teams"] as const,
+  lists: () => [...teamKeys.all, "list"] as const,
+  list: (params: TeamListInput) => [...teamKeys.lists(), params] as const,
+} as const;
+
+export function useTeams(params: TeamListInput = {}) {
+  return useQuery({
+    queryKey: teamKeys.list(params),
+    queryFn: async () => {
+      const result = await listTeamsAction(params);
+      if (!result.ok) throw new Error(result.error);
+      return result.data ?? [];
+    },
+    refetchOnWindowFocus: false,
+    retry: false,
+  });
+}
+
+export function useCreateTeam() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: TeamCreateInput) => {
+      const result = await createTeamAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Team created");
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useUpdateTeam() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: TeamUpdateInput) => {
+      const result = await updateTeamAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Team updated");
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
+
+export function useToggleTeamStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (input: { id: number; isActive: boolean }) => {
+      const result = await toggleTeamStatusAction(input);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (_, input) => {
+      toast.success(`Team ${input.isActive ? "activated" : "deactivated"}`);
+      queryClient.invalidateQueries({ queryKey: teamKeys.all });
+    },
+    onError: (error: Error) => toast.error(error.message),
+    retry: false,
+  });
+}
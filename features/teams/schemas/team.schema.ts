@@ -0,0 +1,77 @@
+import { z } from "zod";
+
+export const TEAM_ASSIGNMENT_STRATEGIES = ["manual", "round_robin", "least_open"] as const;
+export type TeamAssignmentStrategy = (typeof TEAM_ASSIGNMENT_STRATEGIES)[number];
+
+export const TEAM_ASSIGNMENT_STRATEGY_LABELS: Record<TeamAssignmentStrategy, string> = {
+  manual: "Manual (queue only)",
+  round_robin: "Round-robin",
+  least_open: "Fewest open conversations",
+};
+
+const idList = z.array(z.number().int().positive()).max(100);
+
+export const teamCreateClientSchema = z.object({
+  name: z.string().min(2).max(80).trim(),
+  assignmentStrategy: z.enum(TEAM_ASSIGNMENT_STRATEGIES),
+  onlineOnly: z.boolean(),
+  memberUserIds: idList,
+  // Conversations arriving on these accounts land in this team's queue
+  whatsappAccountIds: idList,
+  // Matched case-insensitively against the first customer message
+  keywords: z.array(z.string().min(2).max(60).trim().toLowerCase()).max(50),
+});
+export type TeamCreateInput = z.infer<typeof teamCreateClientSchema>;
+
+export const teamUpdateClientSchema = teamCreateClientSchema.partial().extend({
+  id: z.number().int(),
+});
+export type TeamUpdateInput = z.infer<typeof teamUpdateClientSchema>;
+
+export const teamToggleStatusClientSchema = z.object({
+  id: z.number().int(),
+  isActive: z.boolean(),
+});
+export type TeamToggleStatusInput = z.infer<typeof teamToggleStatusClientSchema>;
+
+export const teamListClientSchema = z.object({
+  includeInactive: z.boolean().optional(),
+});
+export type TeamListInput = z.infer<typeof teamListClientSchema>;
+
+export const teamCreateServerSchema = teamCreateClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TeamCreateServerInput = z.infer<typeof teamCreateServerSchema>;
+
+export const teamUpdateServerSchema = teamUpdateClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TeamUpdateServerInput = z.infer<typeof teamUpdateServerSchema>;
+
+export const teamToggleStatusServerSchema = teamToggleStatusClientSchema.extend({
+  companyId: z.number().int(),
+  userId: z.number().int(),
+});
+export type TeamToggleStatusServerInput = z.infer<typeof teamToggleStatusServerSchema>;
+
+export const teamListServerSchema = teamListClientSchema.extend({
+  companyId: z.number().int(),
+});
+export type TeamListServerInput = z.infer<typeof teamListServerSchema>;
+
+export const teamResponseSchema = z.object({
+  id: z.number().int(),
+  name: z.string(),
+  assignmentStrategy: z.enum(TEAM_ASSIGNMENT_STRATEGIES),
+  onlineOnly: z.boolean(),
+  isActive: z.boolean(),
+  memberUserIds: z.array(z.number().int()),
+  whatsappAccountIds: z.array(z.number().int()),
+  keywords: z.array(z.string()),
+  createdAt: z.date(),
+  updatedAt: z.date().nullable(),
+});
+export type TeamResponse = z.infer<typeof teamResponseSchema>;
@@ -0,0 +1,2 @@
+export { TeamService } from './team.service';
+export { TeamRoutingService } from './team-routing.service';
@@ -0,0 +1,176 @@
+import { createPerformanceLogger } from "@/lib/logger";
+import { hasPermission } from "@/lib/permissions";
+import { publishRealtimeEvent } from "@/lib/realtime-events";
+import { db } from "@/db/drizzle";
+import {
+  auditLogsTable,
+  conversationsTable,
+  teamMembersTable,
+  teamRoutingRulesTable,
+  teamsTable,
+  usersTable,
+} from "@/db/schema";
+import { and, asc, count, eq, gte, inArray } from "drizzle-orm";
+import type { TeamAssignmentStrategy } from "../schemas/team.schema";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Users count as online while their inbox stream has pinged within this window
+// (see app/api/conversations/events/route.ts)
+export const ONLINE_WINDOW_MS = 2 * 60 * 1000;
+
+export interface RouteConversationInput {
+  companyId: number;
+  conversationId: number;
+  whatsappAccountId: number;
+  /** Text of the first customer message, matched against keyword rules */
+  messageText: string | null;
+}
+
+export interface RouteConversationOutcome {
+  teamId: number;
+  assignedToUserId: number | null;
+}
+
+interface TeamMatch {
+  teamId: number;
+  assignmentStrategy: TeamAssignmentStrategy;
+  onlineOnly: boolean;
+}
+
+export class TeamRoutingService {
+  /**
+   * Puts a newly created conversation into a team queue and, unless the team
+   * assigns manually, hands it to a member. Runs inside the webhook ingest
+   * transaction so a failed routing leaves no half-assigned conversation.
+   * Returns null when no routing rule matches.
+   */
+  static async routeNewConversation(
+    tx: Tx,
+    input: RouteConversationInput
+  ): Promise<RouteConversationOutcome | null> {
+    const perf = createPerformanceLogger("TeamRoutingService.routeNewConversation", {
+      context: { companyId: input.companyId, conversationId: input.conversationId },
+    });
+
+    const team = await TeamRoutingService.matchTeam(tx, input);
+    if (!team) {
+      perf.complete(0);
+      return null;
+    }
+
+    const assignedToUserId =
+      team.assignmentStrategy === "manual" ? null : await TeamRoutingService.pickAgent(tx, input.companyId, team);
+
+    await tx
+      .update(conversationsTable)
+      .set({ teamId: team.teamId, assignedToUserId, updatedAt: new Date() })
+      .where(eq(conversationsTable.id, input.conversationId));
+
+    if (assignedToUserId !== null) {
+      // No one acts on an automatic assignment: no actor, the strategy goes in the reason
+      await tx.insert(auditLogsTable).values({
+        entityType: "conversation",
+        entityId: input.conversationId,
+        companyId: input.companyId,
+        action: "ASSIGN",
+        oldValues: { assignedToUserId: null, teamId: null },
+        newValues: { assignedToUserId, teamId: team.teamId, strategy: team.assignmentStrategy },
+        changedBy: null,
+        changeReason: `Auto-assigned (${team.assignmentStrategy})`,
+      });
+
+      await publishRealtimeEvent(tx, {
+        type: "conversation.assigned",
+        companyId: input.companyId,
+        conversationId: input.conversationId,
+        assignedToUserId,
+      });
+    }
+
+    perf.complete(1);
+    return { teamId: team.teamId, assignedToUserId };
+  }
+
+  /** Keyword rules win over account rules; ties go to the oldest team. */
+  private static async matchTeam(tx: Tx, input: RouteConversationInput): Promise<TeamMatch | null> {
+    const rules = await tx
+      .select({
+        teamId: teamRoutingRulesTable.teamId,
+        whatsappAccountId: teamRoutingRulesTable.whatsappAccountId,
+        keyword: teamRoutingRulesTable.keyword,
+        assignmentStrategy: teamsTable.assignmentStrategy,
+        onlineOnly: teamsTable.onlineOnly,
+      })
+      .from(teamRoutingRulesTable)
+      .innerJoin(teamsTable, eq(teamsTable.id, teamRoutingRulesTable.teamId))
+      .where(and(eq(teamRoutingRulesTable.companyId, input.companyId), eq(teamsTable.isActive, true)))
+      .orderBy(asc(teamsTable.id), asc(teamRoutingRulesTable.id));
+
+    const text = input.messageText?.toLowerCase() ?? "";
+    const rule =
+      (text && rules.find((candidate) => candidate.keyword && text.includes(candidate.keyword))) ||
+      rules.find((candidate) => candidate.whatsappAccountId === input.whatsappAccountId);
+
+    if (!rule) return null;
+    return {
+      teamId: rule.teamId,
+      assignmentStrategy: rule.assignmentStrategy as TeamAssignmentStrategy,
+      onlineOnly: rule.onlineOnly,
+    };
+  }
+
+  private static async pickAgent(tx: Tx, companyId: number, team: TeamMatch): Promise<number | null> {
+    const conditions = [eq(teamMembersTable.teamId, team.teamId), eq(usersTable.isActive, true)];
+    if (team.onlineOnly) {
+      conditions.push(gte(usersTable.lastSeenAt, new Date(Date.now() - ONLINE_WINDOW_MS)));
+    }
+
+    const members = await tx
+      .select({ userId: usersTable.id, role: usersTable.role })
+      .from(teamMembersTable)
+      .innerJoin(usersTable, eq(usersTable.id, teamMembersTable.userId))
+      .where(and(...conditions))
+      .orderBy(asc(usersTable.id));
+
+    const candidateIds = members
+      .filter((member) => hasPermission(member.role, "conversations.reply"))
+      .map((member) => member.userId);
+    if (candidateIds.length === 0) return null;
+
+    if (team.assignmentStrategy === "least_open") {
+      // Open and pending conversations are live work; snoozed and resolved ones are not
+      const openCounts = await tx
+        .select({ userId: conversationsTable.assignedToUserId, open: count() })
+        .from(conversationsTable)
+        .where(
+          and(
+            eq(conversationsTable.companyId, companyId),
+            eq(conversationsTable.isActive, true),
+            eq(conversationsTable.isArchived, false),
+            inArray(conversationsTable.status, ["open", "pending"]),
+            inArray(conversationsTable.assignedToUserId, candidateIds)
+          )
+        )
+        .groupBy(conversationsTable.assignedToUserId);
+
+      const openByUser = new Map(openCounts.map((row) => [row.userId, row.open]));
+      return candidateIds.reduce((best, userId) =>
+        (openByUser.get(userId) ?? 0) < (openByUser.get(best) ?? 0) ? userId : best
+      );
+    }
+
+    // Round-robin: lock the team row so concurrent webhooks advance the cursor in turn
+    const [cursor] = await tx
+      .select({ lastAssignedUserId: teamsTable.lastAssignedUserId })
+      .from(teamsTable)
+      .where(eq(teamsTable.id, team.teamId))
+      .for("update");
+
+    const lastAssigned = cursor?.lastAssignedUserId ?? 0;
+    const next = candidateIds.find((userId) => userId > lastAssigned) ?? candidateIds[0];
+
+    await tx.update(teamsTable).set({ lastAssignedUserId: next }).where(eq(teamsTable.id, team.teamId));
+    return next;
+  }
+}
@@ -0,0 +1,412 @@
+import { Result } from "@/lib/result";
+import { createPerformanceLogger } from "@/lib/logger";
+import { AuditLogService } from "@/lib/audit-log.service";
+import { db } from "@/db/drizzle";
+import {
+  auditLogsTable,
+  teamMembersTable,
+  teamRoutingRulesTable,
+  teamsTable,
+  usersTable,
+  whatsappAccountsTable,
+} from "@/db/schema";
+import { and, asc, eq, inArray, sql } from "drizzle-orm";
+import type {
+  TeamCreateServerInput,
+  TeamListServerInput,
+  TeamResponse,
+  TeamToggleStatusServerInput,
+  TeamUpdateServerInput,
+} from "../schemas/team.schema";
+
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+type TeamRow = typeof teamsTable.$inferSelect;
+
+interface TeamMembership {
+  memberUserIds: number[];
+  whatsappAccountIds: number[];
+  keywords: string[];
+}
+
+export class TeamService {
+  static async list(data: TeamListServerInput): Promise<Result<TeamResponse[]>> {
+    const perf = createPerformanceLogger("TeamService.list", {
+      context: { companyId: data.companyId },
+    });
+
+    try {
+      const conditions = [eq(teamsTable.companyId, data.companyId)];
+      if (!data.includeInactive) {
+        conditions.push(eq(teamsTable.isActive, true));
+      }
+
+      const teams = await db
+        .select()
+        .from(teamsTable)
+        .where(and(...conditions))
+        .orderBy(asc(teamsTable.name));
+
+      const membership = await TeamService.loadMembership(teams.map((team) => team.id));
+      const items = teams.map((team) => TeamService.toResponse(team, membership.get(team.id)));
+
+      perf.complete(items.length);
+      return Result.ok(items);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to list teams";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to list teams");
+    }
+  }
+
+  static async create(data: TeamCreateServerInput): Promise<Result<TeamResponse>> {
+    const perf = createPerformanceLogger("TeamService.create", {
+      context: { companyId: data.companyId, userId: data.userId },
+    });
+
+    try {
+      if (await TeamService.nameTaken(data.companyId, data.name)) {
+        perf.fail("Team name already exists");
+        return Result.conflict("A team with this name already exists");
+      }
+
+      const membership = TeamService.normalizeMembership(data);
+      const invalid = await TeamService.validateMembership(data.companyId, membership);
+      if (invalid) {
+        perf.fail(invalid);
+        return Result.badRequest(invalid);
+      }
+
+      const team = await db.transaction(async (tx) => {
+        const [newTeam] = await tx
+          .insert(teamsTable)
+          .values({
+            companyId: data.companyId,
+            name: data.name,
+            assignmentStrategy: data.assignmentStrategy,
+            onlineOnly: data.onlineOnly,
+            createdBy: data.userId,
+            updatedBy: data.userId,
+          })
+          .returning();
+
+        await TeamService.replaceMembership(tx, data.companyId, newTeam.id, membership);
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "team",
+          entityId: newTeam.id,
+          companyId: data.companyId,
+          action: "CREATE",
+          oldValues: null,
+          newValues: {
+            name: newTeam.name,
+            assignmentStrategy: newTeam.assignmentStrategy,
+            onlineOnly: newTeam.onlineOnly,
+            ...membership,
+          },
+          changedBy: data.userId,
+          changeReason: "Team created",
+        });
+
+        return newTeam;
+      });
+
+      perf.complete(1);
+      return Result.ok(TeamService.toResponse(team, membership), "Team created successfully");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to create team";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "team",
+        entityId: null,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "CREATE",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to create team");
+    }
+  }
+
+  static async update(data: TeamUpdateServerInput): Promise<Result<TeamResponse>> {
+    const perf = createPerformanceLogger("TeamService.update", {
+      context: { companyId: data.companyId, userId: data.userId, teamId: data.id },
+    });
+
+    try {
+      const [existing] = await db
+        .select()
+        .from(teamsTable)
+        .where(and(eq(teamsTable.id, data.id), eq(teamsTable.companyId, data.companyId)))
+        .limit(1);
+
+      if (!existing) {
+        perf.fail("Team not found");
+        return Result.notFound("Team not found");
+      }
+
+      if (data.name && data.name !== existing.name && (await TeamService.nameTaken(data.companyId, data.name))) {
+        perf.fail("Team name already exists");
+        return Result.conflict("A team with this name already exists");
+      }
+
+      const oldMembership = (await TeamService.loadMembership([existing.id])).get(existing.id) ?? {
+        memberUserIds: [],
+        whatsappAccountIds: [],
+        keywords: [],
+      };
+      const membership = TeamService.normalizeMembership({
+        memberUserIds: data.memberUserIds ?? oldMembership.memberUserIds,
+        whatsappAccountIds: data.whatsappAccountIds ?? oldMembership.whatsappAccountIds,
+        keywords: data.keywords ?? oldMembership.keywords,
+      });
+      const invalid = await TeamService.validateMembership(data.companyId, membership);
+      if (invalid) {
+        perf.fail(invalid);
+        return Result.badRequest(invalid);
+      }
+
+      const team = await db.transaction(async (tx) => {
+        const [updatedTeam] = await tx
+          .update(teamsTable)
+          .set({
+            ...(data.name !== undefined ? { name: data.name } : {}),
+            ...(data.assignmentStrategy !== undefined ? { assignmentStrategy: data.assignmentStrategy } : {}),
+            ...(data.onlineOnly !== undefined ? { onlineOnly: data.onlineOnly } : {}),
+            updatedBy: data.userId,
+            updatedAt: new Date(),
+          })
+          .where(eq(teamsTable.id, existing.id))
+          .returning();
+
+        await TeamService.replaceMembership(tx, data.companyId, existing.id, membership);
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "team",
+          entityId: existing.id,
+          companyId: data.companyId,
+          action: "UPDATE",
+          oldValues: {
+            name: existing.name,
+            assignmentStrategy: existing.assignmentStrategy,
+            onlineOnly: existing.onlineOnly,
+            ...oldMembership,
+          },
+          newValues: {
+            name: updatedTeam.name,
+            assignmentStrategy: updatedTeam.assignmentStrategy,
+            onlineOnly: updatedTeam.onlineOnly,
+            ...membership,
+          },
+          changedBy: data.userId,
+          changeReason: "Team updated",
+        });
+
+        return updatedTeam;
+      });
+
+      perf.complete(1);
+      return Result.ok(TeamService.toResponse(team, membership), "Team updated successfully");
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update team";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "team",
+        entityId: data.id,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "UPDATE",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to update team");
+    }
+  }
+
+  /** Inactive teams keep their queue but no longer receive new conversations. */
+  static async toggleStatus(data: TeamToggleStatusServerInput): Promise<Result<TeamResponse>> {
+    const perf = createPerformanceLogger("TeamService.toggleStatus", {
+      context: { companyId: data.companyId, userId: data.userId, teamId: data.id },
+    });
+
+    try {
+      const [existing] = await db
+        .select({ id: teamsTable.id, isActive: teamsTable.isActive })
+        .from(teamsTable)
+        .where(and(eq(teamsTable.id, data.id), eq(teamsTable.companyId, data.companyId)))
+        .limit(1);
+
+      if (!existing) {
+        perf.fail("Team not found");
+        return Result.notFound("Team not found");
+      }
+
+      if (existing.isActive === data.isActive) {
+        perf.fail("Team already has the requested status");
+        return Result.badRequest("Team already has the requested status");
+      }
+
+      const team = await db.transaction(async (tx) => {
+        const [updatedTeam] = await tx
+          .update(teamsTable)
+          .set({ isActive: data.isActive, updatedBy: data.userId, updatedAt: new Date() })
+          .where(eq(teamsTable.id, existing.id))
+          .returning();
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "team",
+          entityId: existing.id,
+          companyId: data.companyId,
+          action: "TOGGLE_STATUS",
+          oldValues: { isActive: existing.isActive },
+          newValues: { isActive: data.isActive },
+          changedBy: data.userId,
+          changeReason: data.isActive ? "Team activated" : "Team deactivated",
+        });
+
+        return updatedTeam;
+      });
+
+      const membership = (await TeamService.loadMembership([team.id])).get(team.id);
+
+      perf.complete(1);
+      return Result.ok(
+        TeamService.toResponse(team, membership),
+        data.isActive ? "Team activated successfully" : "Team deactivated successfully"
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to toggle team status";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "team",
+        entityId: data.id,
+        companyId: data.companyId,
+        userId: data.userId,
+        action: "TOGGLE_STATUS",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to toggle team status");
+    }
+  }
+
+  private static toResponse(team: TeamRow, membership?: TeamMembership): TeamResponse {
+    return {
+      id: team.id,
+      name: team.name,
+      assignmentStrategy: team.assignmentStrategy as TeamResponse["assignmentStrategy"],
+      onlineOnly: team.onlineOnly,
+      isActive: team.isActive,
+      memberUserIds: membership?.memberUserIds ?? [],
+      whatsappAccountIds: membership?.whatsappAccountIds ?? [],
+      keywords: membership?.keywords ?? [],
+      createdAt: team.createdAt,
+      updatedAt: team.updatedAt,
+    };
+  }
+
+  private static normalizeMembership(input: TeamMembership): TeamMembership {
+    return {
+      memberUserIds: [...new Set(input.memberUserIds)],
+      whatsappAccountIds: [...new Set(input.whatsappAccountIds)],
+      keywords: [...new Set(input.keywords.map((keyword) => keyword.trim().toLowerCase()).filter(Boolean))],
+    };
+  }
+
+  private static async nameTaken(companyId: number, name: string): Promise<boolean> {
+    const rows = await db
+      .select({ id: teamsTable.id })
+      .from(teamsTable)
+      .where(and(eq(teamsTable.companyId, companyId), sql`lower(${teamsTable.name}) = lower(${name})`))
+      .limit(1);
+    return rows.length > 0;
+  }
+
+  /** Error message when a member or account is not in the company, otherwise null. */
+  private static async validateMembership(companyId: number, membership: TeamMembership): Promise<string | null> {
+    if (membership.memberUserIds.length > 0) {
+      const users = await db
+        .select({ id: usersTable.id })
+        .from(usersTable)
+        .where(and(eq(usersTable.companyId, companyId), inArray(usersTable.id, membership.memberUserIds)));
+      if (users.length !== membership.memberUserIds.length) {
+        return "One or more team members were not found";
+      }
+    }
+
+    if (membership.whatsappAccountIds.length > 0) {
+      const accounts = await db
+        .select({ id: whatsappAccountsTable.id })
+        .from(whatsappAccountsTable)
+        .where(
+          and(
+            eq(whatsappAccountsTable.companyId, companyId),
+            inArray(whatsappAccountsTable.id, membership.whatsappAccountIds)
+          )
+        );
+      if (accounts.length !== membership.whatsappAccountIds.length) {
+        return "One or more WhatsApp accounts were not found";
+      }
+    }
+
+    return null;
+  }
+
+  private static async loadMembership(teamIds: number[]): Promise<Map<number, TeamMembership>> {
+    const byTeam = new Map<number, TeamMembership>();
+    if (teamIds.length === 0) return byTeam;
+
+    for (const teamId of teamIds) {
+      byTeam.set(teamId, { memberUserIds: [], whatsappAccountIds: [], keywords: [] });
+    }
+
+    const [members, rules] = await Promise.all([
+      db
+        .select({ teamId: teamMembersTable.teamId, userId: teamMembersTable.userId })
+        .from(teamMembersTable)
+        .where(inArray(teamMembersTable.teamId, teamIds)),
+      db
+        .select({
+          teamId: teamRoutingRulesTable.teamId,
+          whatsappAccountId: teamRoutingRulesTable.whatsappAccountId,
+          keyword: teamRoutingRulesTable.keyword,
+        })
+        .from(teamRoutingRulesTable)
+        .where(inArray(teamRoutingRulesTable.teamId, teamIds))
+        .orderBy(asc(teamRoutingRulesTable.id)),
+    ]);
+
+    for (const member of members) {
+      byTeam.get(member.teamId)?.memberUserIds.push(member.userId);
+    }
+    for (const rule of rules) {
+      const membership = byTeam.get(rule.teamId);
+      if (!membership) continue;
+      if (rule.whatsappAccountId !== null) membership.whatsappAccountIds.push(rule.whatsappAccountId);
+      if (rule.keyword !== null) membership.keywords.push(rule.keyword);
+    }
+    return byTeam;
+  }
+
+  private static async replaceMembership(
+    tx: Tx,
+    companyId: number,
+    teamId: number,
+    membership: TeamMembership
+  ): Promise<void> {
+    await tx.delete(teamMembersTable).where(eq(teamMembersTable.teamId, teamId));
+    await tx.delete(teamRoutingRulesTable).where(eq(teamRoutingRulesTable.teamId, teamId));
+
+    if (membership.memberUserIds.length > 0) {
+      await tx.insert(teamMembersTable).values(
+        membership.memberUserIds.map((userId) => ({ companyId, teamId, userId }))
+      );
+    }
+
+    const rules = [
+      ...membership.whatsappAccountIds.map((whatsappAccountId) => ({ companyId, teamId, whatsappAccountId })),
+      ...membership.keywords.map((keyword) => ({ companyId, teamId, keyword })),
+    ];
+    if (rules.length > 0) {
+      await tx.insert(teamRoutingRulesTable).values(rules);
+    }
+  }
+}
@@ -47,7 +47,7 @@ export const listUsersAction = withAction<ListInput, UserListResponse>(
 
     return result;
   },
-  { schema: userListClientSchema }
+  { schema: userListClientSchema, permission: "users.view" }
 );
 
 export const getUserAction = withAction<z.infer<typeof userGetServerSchema>, UserResponse>(
@@ -64,7 +64,7 @@ export const getUserAction = withAction<z.infer<typeof userGetServerSchema>, Use
 
     return result;
   },
-  { schema: userGetServerSchema }
+  { schema: userGetServerSchema, permission: "users.view" }
 );
 
 export const createUserAction = withAction<CreateInput, UserResponse>(
@@ -89,7 +89,7 @@ export const createUserAction = withAction<CreateInput, UserResponse>(
 
     return result;
   },
-  { schema: userCreateClientSchema }
+  { schema: userCreateClientSchema, permission: "users.manage" }
 );
 
 export const updateUserAction = withAction<UpdateInput, UserResponse>(
@@ -114,7 +114,7 @@ export const updateUserAction = withAction<UpdateInput, UserResponse>(
 
     return result;
   },
-  { schema: userUpdateWithIdSchema }
+  { schema: userUpdateWithIdSchema, permission: "users.manage" }
 );
 
 export const toggleUserStatusAction = withAction<ToggleInput, UserResponse>(
@@ -139,7 +139,7 @@ export const toggleUserStatusAction = withAction<ToggleInput, UserResponse>(
 
     return result;
   },
-  { schema: userToggleStatusClientSchema.extend({ id: z.number().int() }) }
+  { schema: userToggleStatusClientSchema.extend({ id: z.number().int() }), permission: "users.manage" }
 );
 
 export const resetUserPasswordAction = withAction<ResetPasswordInput, { id: number; temporaryPassword: string }>(
@@ -166,5 +166,6 @@ export const resetUserPasswordAction = withAction<ResetPasswordInput, { id: numb
   },
   {
     schema: userResetPasswordClientSchema.extend({ id: z.number().int() }),
+    permission: "users.resetPassword",
   }
 );
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -18,6 +19,8 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { USER_ROLES, userCreateClientSchema } from "../schemas/user.schema";
 import { z } from "zod";
+import { hasPermission } from "@/lib/permissions";
+import { useWhatsappAccounts } from "@/features/whatsapp-accounts/hooks/use-whatsapp-accounts";
 
 const userFormSchema = userCreateClientSchema.extend({
   id: z.number().int().optional(),
@@ -48,10 +51,19 @@ export function UserForm({
       role: "agent",
       temporaryPassword: "",
       isActive: true,
+      whatsappAccountIds: [],
       id: defaultValues?.id,
       ...defaultValues,
     },
   });
+  const accountsQuery = useWhatsappAccounts({
+    isActive: true,
+    limit: 100,
+    sortField: "name",
+    sortOrder: "asc",
+  });
+  const accounts = accountsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+  const role = form.watch("role");
 
   useEffect(() => {
     if (defaultValues) {
@@ -61,6 +73,7 @@ export function UserForm({
         role: defaultValues.role ?? "agent",
         temporaryPassword: defaultValues.temporaryPassword ?? "",
         isActive: defaultValues.isActive ?? true,
+        whatsappAccountIds: defaultValues.whatsappAccountIds ?? [],
         id: defaultValues.id,
       });
     }
@@ -162,6 +175,46 @@ export function UserForm({
           )}
         </div>
 
+        {!hasPermission(role, "conversations.viewAll") && (
+          <FormField
+            control={form.control}
+            name="whatsappAccountIds"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>WhatsApp accounts</FormLabel>
+                <FormDescription>
+                  The user sees every conversation on these numbers, plus any assigned to them.
+                </FormDescription>
+                <div className="space-y-2 rounded-md border px-3 py-3">
+                  {accounts.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No active WhatsApp accounts</p>
+                  ) : (
+                    accounts.map((account) => {
+                      const selected = field.value ?? [];
+                      return (
+                        <label key={account.id} className="flex items-center gap-3 text-sm">
+                          <Checkbox
+                            checked={selected.includes(account.id)}
+                            onCheckedChange={(checked) =>
+                              field.onChange(
+                                checked
+                                  ? [...selected, account.id]
+                                  : selected.filter((id) => id !== account.id)
+                              )
+                            }
+                          />
+                          {account.name}
+                        </label>
+                      );
+                    })
+                  )}
+                </div>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         {isEdit && (
           <FormField
             control={form.control}
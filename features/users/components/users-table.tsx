@@ -36,6 +36,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { usePermission } from "@/hooks/use-permission";
 import { UserForm } from "./user-form";
 import { ResetPasswordDialog } from "./reset-password-dialog";
 import {
@@ -75,6 +76,8 @@ export function UsersTable() {
   const [editing, setEditing] = React.useState<UserResponse | null>(null);
   const [resetUserId, setResetUserId] = React.useState<number | null>(null);
   const [resetUserName, setResetUserName] = React.useState<string | undefined>(undefined);
+  const canManage = usePermission("users.manage");
+  const canResetPassword = usePermission("users.resetPassword");
 
   const statusFilterValue = React.useMemo<"true" | "false" | undefined>(() => {
     const statusFilter = columnFilters.find((filter) => filter.id === "isActive");
@@ -248,6 +251,7 @@ export function UsersTable() {
             <Button
               variant="outline"
               size="sm"
+              disabled={!canManage}
               onClick={() => {
                 setEditing(row.original);
                 setFormOpen(true);
@@ -255,23 +259,25 @@ export function UsersTable() {
             >
               Edit
             </Button>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => {
-                setResetUserId(row.original.id);
-                setResetUserName(row.original.name);
-              }}
-            >
-              Reset password
-            </Button>
+            {canResetPassword && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setResetUserId(row.original.id);
+                  setResetUserName(row.original.name);
+                }}
+              >
+                Reset password
+              </Button>
+            )}
           </div>
         ),
         enableSorting: false,
         enableHiding: false,
       }),
     ],
-    []
+    [canManage, canResetPassword]
   );
 
   // eslint-disable-next-line react-hooks/incompatible-library
@@ -318,7 +324,7 @@ export function UsersTable() {
           }}
         >
           <DialogTrigger asChild>
-            <Button size="sm">
+            <Button size="sm" disabled={!canManage}>
               <Plus className="mr-2 h-4 w-4" />
               Add User
             </Button>
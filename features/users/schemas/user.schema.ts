@@ -1,7 +1,7 @@
 import { z } from "zod";
+import { USER_ROLES } from "@/lib/permissions";
 
-export const USER_ROLES = ["admin", "manager", "agent", "viewer"] as const;
-export type UserRole = (typeof USER_ROLES)[number];
+export { USER_ROLES, type UserRole } from "@/lib/permissions";
 
 export const USER_SORT_FIELDS = ["createdAt", "name", "email", "role"] as const;
 export type UserSortField = (typeof USER_SORT_FIELDS)[number];
@@ -18,6 +18,8 @@ export const userCreateClientSchema = z.object({
   role: z.enum(USER_ROLES),
   temporaryPassword: z.string().min(12).max(255),
   isActive: z.boolean().optional(),
+  // Accounts whose whole inbox the user sees; ignored for roles that see everything
+  whatsappAccountIds: z.array(z.number().int().positive()).max(100).optional(),
 });
 export type UserCreateInput = z.infer<typeof userCreateClientSchema>;
 
@@ -116,6 +118,7 @@ export const userResponseSchema = z.object({
   updatedAt: z.date().nullable(),
   createdBy: z.number().int().nullable(),
   updatedBy: z.number().int().nullable(),
+  whatsappAccountIds: z.array(z.number().int()),
 });
 export type UserResponse = z.infer<typeof userResponseSchema>;
 
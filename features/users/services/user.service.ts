@@ -2,8 +2,13 @@ import { Result } from "@/lib/result";
 import { createPerformanceLogger } from "@/lib/logger";
 import { AuditLogService } from "@/lib/audit-log.service";
 import { db } from "@/db/drizzle";
-import { usersTable, auditLogsTable } from "@/db/schema";
-import { eq, and, desc, asc, or, sql } from "drizzle-orm";
+import {
+  usersTable,
+  auditLogsTable,
+  userWhatsappAccountAccessTable,
+  whatsappAccountsTable,
+} from "@/db/schema";
+import { eq, and, desc, asc, or, sql, inArray } from "drizzle-orm";
 import type {
   UserCreateServerInput,
   UserUpdateServerInput,
@@ -15,6 +20,8 @@ import type {
   UserListResponse,
 } from "../schemas/user.schema";
 
+type Tx = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
 export class UserService {
   static async create(
     data: UserCreateServerInput
@@ -40,6 +47,12 @@ export class UserService {
         return Result.conflict("A user with this email already exists");
       }
 
+      const whatsappAccountIds = [...new Set(data.whatsappAccountIds ?? [])];
+      if (!(await UserService.belongToCompany(data.companyId, whatsappAccountIds))) {
+        perf.fail("Unknown WhatsApp account");
+        return Result.badRequest("One or more WhatsApp accounts were not found");
+      }
+
       const passwordHash = await UserService.hashPassword(data.temporaryPassword);
 
       const result = await db.transaction(async (tx) => {
@@ -69,6 +82,13 @@ export class UserService {
             updatedBy: usersTable.updatedBy,
           });
 
+        await UserService.replaceWhatsappAccountAccess(tx, {
+          companyId: data.companyId,
+          userId: newUser.id,
+          whatsappAccountIds,
+          actorId: data.userId,
+        });
+
         await tx.insert(auditLogsTable).values({
           entityType: "user",
           entityId: newUser.id,
@@ -80,6 +100,7 @@ export class UserService {
             email: newUser.email,
             role: newUser.role,
             isActive: newUser.isActive,
+            whatsappAccountIds,
           },
           changedBy: data.userId,
           changeReason: "User created",
@@ -91,6 +112,7 @@ export class UserService {
       const userResponse: UserResponse = {
         ...result,
         role: result.role as UserResponse["role"],
+        whatsappAccountIds,
       };
 
       await db.insert(auditLogsTable).values({
@@ -175,6 +197,14 @@ export class UserService {
         }
       }
 
+      const whatsappAccountIds = data.whatsappAccountIds
+        ? [...new Set(data.whatsappAccountIds)]
+        : undefined;
+      if (whatsappAccountIds && !(await UserService.belongToCompany(data.companyId, whatsappAccountIds))) {
+        perf.fail("Unknown WhatsApp account");
+        return Result.badRequest("One or more WhatsApp accounts were not found");
+      }
+
       const updateData: {
         name?: string;
         email?: string;
@@ -218,16 +248,27 @@ export class UserService {
             updatedBy: usersTable.updatedBy,
           });
 
+        if (whatsappAccountIds) {
+          await UserService.replaceWhatsappAccountAccess(tx, {
+            companyId: data.companyId,
+            userId: data.id,
+            whatsappAccountIds,
+            actorId: data.userId,
+          });
+        }
+
         const newValues: {
           name?: string;
           email?: string;
           role?: string;
           isActive?: boolean;
+          whatsappAccountIds?: number[];
         } = {};
         if (data.name !== undefined) newValues.name = data.name;
         if (data.email !== undefined) newValues.email = data.email;
         if (data.role !== undefined) newValues.role = data.role;
         if (data.isActive !== undefined) newValues.isActive = data.isActive;
+        if (whatsappAccountIds) newValues.whatsappAccountIds = whatsappAccountIds;
 
         await tx.insert(auditLogsTable).values({
           entityType: "user",
@@ -246,6 +287,8 @@ export class UserService {
       const userResponse: UserResponse = {
         ...result,
         role: result.role as UserResponse["role"],
+        whatsappAccountIds:
+          whatsappAccountIds ?? (await UserService.loadWhatsappAccountIds([result.id])).get(result.id) ?? [],
       };
 
       const finalNewValues: {
@@ -253,11 +296,13 @@ export class UserService {
         email?: string;
         role?: string;
         isActive?: boolean;
+        whatsappAccountIds?: number[];
       } = {};
       if (data.name !== undefined) finalNewValues.name = data.name;
       if (data.email !== undefined) finalNewValues.email = data.email;
       if (data.role !== undefined) finalNewValues.role = data.role;
       if (data.isActive !== undefined) finalNewValues.isActive = data.isActive;
+      if (whatsappAccountIds) finalNewValues.whatsappAccountIds = whatsappAccountIds;
 
       await db.insert(auditLogsTable).values({
         entityType: "user",
@@ -326,6 +371,7 @@ export class UserService {
       const userResponse: UserResponse = {
         ...user,
         role: user.role as UserResponse["role"],
+        whatsappAccountIds: (await UserService.loadWhatsappAccountIds([user.id])).get(user.id) ?? [],
       };
 
       perf.complete(1);
@@ -412,9 +458,11 @@ export class UserService {
       const hasMore = users.length > data.limit;
       const items = hasMore ? users.slice(0, data.limit) : users;
 
+      const accountIdsByUser = await UserService.loadWhatsappAccountIds(items.map((item) => item.id));
       const typedItems: UserResponse[] = items.map((item) => ({
         ...item,
         role: item.role as UserResponse["role"],
+        whatsappAccountIds: accountIdsByUser.get(item.id) ?? [],
       }));
 
       let nextCursor = null;
@@ -517,6 +565,7 @@ export class UserService {
       const userResponse: UserResponse = {
         ...result,
         role: result.role as UserResponse["role"],
+        whatsappAccountIds: (await UserService.loadWhatsappAccountIds([result.id])).get(result.id) ?? [],
       };
 
       await db.insert(auditLogsTable).values({
@@ -636,6 +685,59 @@ export class UserService {
     }
   }
 
+  private static async belongToCompany(companyId: number, whatsappAccountIds: number[]): Promise<boolean> {
+    if (whatsappAccountIds.length === 0) return true;
+
+    const accounts = await db
+      .select({ id: whatsappAccountsTable.id })
+      .from(whatsappAccountsTable)
+      .where(
+        and(
+          eq(whatsappAccountsTable.companyId, companyId),
+          inArray(whatsappAccountsTable.id, whatsappAccountIds)
+        )
+      );
+    return accounts.length === whatsappAccountIds.length;
+  }
+
+  private static async loadWhatsappAccountIds(userIds: number[]): Promise<Map<number, number[]>> {
+    const byUser = new Map<number, number[]>();
+    if (userIds.length === 0) return byUser;
+
+    const rows = await db
+      .select({
+        userId: userWhatsappAccountAccessTable.userId,
+        whatsappAccountId: userWhatsappAccountAccessTable.whatsappAccountId,
+      })
+      .from(userWhatsappAccountAccessTable)
+      .where(inArray(userWhatsappAccountAccessTable.userId, userIds));
+
+    for (const row of rows) {
+      byUser.set(row.userId, [...(byUser.get(row.userId) ?? []), row.whatsappAccountId]);
+    }
+    return byUser;
+  }
+
+  private static async replaceWhatsappAccountAccess(
+    tx: Tx,
+    input: { companyId: number; userId: number; whatsappAccountIds: number[]; actorId: number }
+  ): Promise<void> {
+    await tx
+      .delete(userWhatsappAccountAccessTable)
+      .where(eq(userWhatsappAccountAccessTable.userId, input.userId));
+
+    if (input.whatsappAccountIds.length === 0) return;
+
+    await tx.insert(userWhatsappAccountAccessTable).values(
+      input.whatsappAccountIds.map((whatsappAccountId) => ({
+        companyId: input.companyId,
+        userId: input.userId,
+        whatsappAccountId,
+        createdBy: input.actorId,
+      }))
+    );
+  }
+
   private static async hashPassword(password: string): Promise<string> {
     const encoder = new TextEncoder();
     const data = encoder.encode(password);
@@ -34,7 +34,7 @@ export const listWhatsappAccountsAction = withAction<ListInput, WhatsappAccountL
 
     return result;
   },
-  { schema: whatsappAccountListClientSchema }
+  { schema: whatsappAccountListClientSchema, permission: "whatsappAccounts.view" }
 );
 
 export const getWhatsappAccountAction = withAction<GetInput, WhatsappAccountResponse>(
@@ -51,7 +51,7 @@ export const getWhatsappAccountAction = withAction<GetInput, WhatsappAccountResp
 
     return result;
   },
-  { schema: whatsappAccountGetSchema }
+  { schema: whatsappAccountGetSchema, permission: "whatsappAccounts.view" }
 );
 
 export const createWhatsappAccountAction = withAction<CreateInput, WhatsappAccountResponse>(
@@ -69,7 +69,7 @@ export const createWhatsappAccountAction = withAction<CreateInput, WhatsappAccou
 
     return result;
   },
-  { schema: whatsappAccountCreateClientSchema }
+  { schema: whatsappAccountCreateClientSchema, permission: "whatsappAccounts.manage" }
 );
 
 export const updateWhatsappAccountAction = withAction<UpdateInput, WhatsappAccountResponse>(
@@ -91,6 +91,7 @@ export const updateWhatsappAccountAction = withAction<UpdateInput, WhatsappAccou
     schema: whatsappAccountUpdateClientSchema.extend({
       id: z.number().int(),
     }),
+    permission: "whatsappAccounts.manage",
   }
 );
 
@@ -109,7 +110,7 @@ export const setDefaultWhatsappAccountAction = withAction<IdOnly, null>(
 
     return result;
   },
-  { schema: whatsappAccountIdSchema }
+  { schema: whatsappAccountIdSchema, permission: "whatsappAccounts.manage" }
 );
 
 export const deactivateWhatsappAccountAction = withAction<IdOnly, null>(
@@ -127,7 +128,7 @@ export const deactivateWhatsappAccountAction = withAction<IdOnly, null>(
 
     return result;
   },
-  { schema: whatsappAccountIdSchema }
+  { schema: whatsappAccountIdSchema, permission: "whatsappAccounts.manage" }
 );
 
 export const activateWhatsappAccountAction = withAction<IdOnly, null>(
@@ -145,5 +146,5 @@ export const activateWhatsappAccountAction = withAction<IdOnly, null>(
 
     return result;
   },
-  { schema: whatsappAccountIdSchema }
+  { schema: whatsappAccountIdSchema, permission: "whatsappAccounts.manage" }
 );
@@ -14,7 +14,7 @@ type GetProfileInput = z.infer<typeof whatsappPhoneProfileQuerySchema>;
 export const getWhatsappPhoneProfileAction = withAction<GetProfileInput, WhatsappPhoneProfileResponse>(
   "whatsappPhoneProfile.get",
   async (auth, input) => {
-    const result = await WhatsappPhoneProfileService.getProfile(input);
+    const result = await WhatsappPhoneProfileService.getProfile(auth.companyId, input);
 
     if (!result.success) {
       return Result.fail(result.message, result.error);
@@ -22,5 +22,5 @@ export const getWhatsappPhoneProfileAction = withAction<GetProfileInput, Whatsap
 
     return result;
   },
-  { schema: whatsappPhoneProfileQuerySchema }
+  { schema: whatsappPhoneProfileQuerySchema, permission: "whatsappAccounts.view" }
 );
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -31,6 +32,7 @@ interface WhatsappAccountFormProps {
   onCancel?: () => void;
   loading?: boolean;
   isEdit?: boolean;
+  accessTokenHint?: string | null;
 }
 
 export function WhatsappAccountForm({
@@ -39,6 +41,7 @@ export function WhatsappAccountForm({
   onCancel,
   loading = false,
   isEdit = false,
+  accessTokenHint,
 }: WhatsappAccountFormProps) {
   const schema = isEdit
     ? whatsappAccountUpdateClientSchema
@@ -52,6 +55,8 @@ export function WhatsappAccountForm({
       businessAccountId: "",
       accessToken: "",
       isDefault: false,
+      sendReadReceipts: true,
+      sendTypingIndicator: false,
       ...(defaultValues || {}),
     },
   });
@@ -64,12 +69,16 @@ export function WhatsappAccountForm({
         businessAccountId: "",
         accessToken: "",
         isDefault: false,
+        sendReadReceipts: true,
+        sendTypingIndicator: false,
         ...defaultValues,
       });
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [defaultValues]);
 
+  const sendReadReceipts = form.watch("sendReadReceipts");
+
   const error = form.formState.errors;
   console.log(error);
   return (
@@ -129,8 +138,20 @@ export function WhatsappAccountForm({
             <FormItem>
               <FormLabel>Access Token</FormLabel>
               <FormControl>
-                <Input type="password" placeholder="••••••••" {...field} />
+                <Input
+                  type="password"
+                  placeholder={isEdit ? accessTokenHint ?? "••••••••" : "••••••••"}
+                  {...field}
+                />
               </FormControl>
+              {isEdit && (
+                <FormDescription>
+                  {accessTokenHint
+                    ? `Current token ends in ${accessTokenHint.slice(-4)}. `
+                    : ""}
+                  Leave blank to keep it.
+                </FormDescription>
+              )}
               <FormMessage />
             </FormItem>
           )}
@@ -159,6 +180,57 @@ export function WhatsappAccountForm({
             )}
           />
 
+          <FormField
+            control={form.control}
+            name="sendReadReceipts"
+            render={({ field }) => (
+              <FormItem className="w-full rounded-md border px-3 py-3">
+                <div className="flex items-center space-x-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={field.value ?? true}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-sm font-medium">
+                      Send read receipts
+                    </FormLabel>
+                    <FormDescription>
+                      Customers see blue ticks once an agent opens their conversation.
+                    </FormDescription>
+                  </div>
+                </div>
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="sendTypingIndicator"
+            render={({ field }) => (
+              <FormItem className="w-full rounded-md border px-3 py-3">
+                <div className="flex items-center space-x-3">
+                  <FormControl>
+                    <Checkbox
+                      checked={!!field.value && sendReadReceipts !== false}
+                      disabled={sendReadReceipts === false}
+                      onCheckedChange={(checked) => field.onChange(!!checked)}
+                    />
+                  </FormControl>
+                  <div className="space-y-0.5">
+                    <FormLabel className="text-sm font-medium">
+                      Show typing indicator
+                    </FormLabel>
+                    <FormDescription>
+                      Customers see a typing bubble while an agent composes a reply. Requires read receipts.
+                    </FormDescription>
+                  </div>
+                </div>
+              </FormItem>
+            )}
+          />
+
           {isEdit && (
             <FormField
               control={form.control}
@@ -31,6 +31,7 @@ import { DataTableColumnHeader } from "@/components/datatable/data-table-column-
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Spinner } from "@/components/ui/spinner";
+import { usePermission } from "@/hooks/use-permission";
 import { WhatsappAccountForm } from "./whatsapp-account-form";
 import {
   useWhatsappAccounts,
@@ -62,6 +63,7 @@ export function WhatsappAccountsTable() {
   const [pageSize, setPageSize] = React.useState(DEFAULT_PAGE_SIZE);
   const [formOpen, setFormOpen] = React.useState(false);
   const [editing, setEditing] = React.useState<WhatsappAccountResponse | null>(null);
+  const canManage = usePermission("whatsappAccounts.manage");
 
   const statusFilterValue = React.useMemo<"true" | "false" | undefined>(() => {
     const statusFilter = columnFilters.find((filter) => filter.id === "isActive");
@@ -230,29 +232,30 @@ export function WhatsappAccountsTable() {
               </Link>
             </Button>
 
+            {canManage && (
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setEditing({
+                    ...row.original,
+                  });
+                  setFormOpen(true);
+                }}
+              >
+                Edit
+              </Button>
+            )}
             <Button
               variant="outline"
               size="sm"
-              onClick={() => {
-                setEditing({
-                  ...row.original,
-                });
-                setFormOpen(true);
-              }}
-            >
-              Edit
-            </Button>
-                        <Button
-              variant="outline"
-              size="sm"
               asChild
             >
               <Link href={`/whatsapp-accounts/${row.original.id}`}>
                 <Settings className="mr-2 h-4 w-4" />
-                Configure Webhook
+                Settings
               </Link>
             </Button>
-            
           </div>
         ),
         enableSorting: false,
@@ -263,6 +266,7 @@ export function WhatsappAccountsTable() {
       setDefaultMutation,
       deactivateMutation,
       activateMutation,
+      canManage,
     ],
   );
 
@@ -309,7 +313,7 @@ export function WhatsappAccountsTable() {
           }}
         >
           <DialogTrigger asChild>
-            <Button size="sm">
+            <Button size="sm" disabled={!canManage}>
               <Plus className="mr-2 h-4 w-4" />
               New Account
             </Button>
@@ -322,6 +326,7 @@ export function WhatsappAccountsTable() {
             </DialogHeader>
             <WhatsappAccountForm
               isEdit={!!editing}
+              accessTokenHint={editing?.accessTokenHint}
               defaultValues={
                 editing
                   ? {
@@ -0,0 +1,47 @@
+import { inngest } from "@/lib/inngest";
+import type { Result } from "@/lib/result";
+import { WhatsappAccountService } from "../services/whatsapp-account.service";
+import { WebhookConfigService } from "@/features/whatsapp-webhook/services/webhook-config.service";
+
+const REENCRYPT_BATCH_SIZE = 100;
+
+type ReencryptBatch = (input: {
+  afterId: number;
+  limit: number;
+}) => Promise<Result<{ lastId: number | null; updated: number }>>;
+
+// Moves stored credentials onto the first key in SECRET_ENCRYPTION_KEYS after
+// a rotation, and encrypts any still held as plain text. Trigger with
+// `secrets/reencrypt.requested`; drop the old key once it reports done.
+export const reencryptSecrets = inngest.createFunction(
+  { id: "reencrypt-stored-secrets", concurrency: 1 },
+  { event: "secrets/reencrypt.requested" },
+  async ({ step }) => {
+    const tables: Array<[name: string, reencrypt: ReencryptBatch]> = [
+      ["access-tokens", (input) => WhatsappAccountService.reencryptAccessTokens(input)],
+      ["webhook-secrets", (input) => WebhookConfigService.reencryptAppSecrets(input)],
+    ];
+    const updated: Record<string, number> = {};
+
+    for (const [name, reencrypt] of tables) {
+      let afterId = 0;
+      updated[name] = 0;
+
+      for (let batch = 0; ; batch++) {
+        const result = await step.run(`${name}-batch-${batch}`, async () => {
+          const outcome = await reencrypt({ afterId, limit: REENCRYPT_BATCH_SIZE });
+          if (!outcome.success || !outcome.data) {
+            throw new Error(outcome.message || `Failed to re-encrypt ${name}`);
+          }
+          return outcome.data;
+        });
+
+        updated[name] += result.updated;
+        if (result.lastId === null) break;
+        afterId = result.lastId;
+      }
+    }
+
+    return { updated };
+  }
+);
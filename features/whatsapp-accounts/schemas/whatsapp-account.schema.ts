@@ -11,6 +11,8 @@ export const whatsappAccountCreateClientSchema = z.object({
   businessAccountId: z.string().min(1).max(255).trim(),
   accessToken: z.string().min(5).max(4096).trim(),
   isDefault: z.boolean().optional(),
+  sendReadReceipts: z.boolean().optional(),
+  sendTypingIndicator: z.boolean().optional(),
 });
 export type WhatsappAccountCreateInput = z.infer<
   typeof whatsappAccountCreateClientSchema
@@ -20,6 +22,8 @@ export const whatsappAccountUpdateClientSchema =
   whatsappAccountCreateClientSchema
     .partial()
     .extend({
+      // Left blank in the edit form to keep the current token
+      accessToken: whatsappAccountCreateClientSchema.shape.accessToken.or(z.literal("")).optional(),
       isActive: z.boolean().optional(),
     });
 export type WhatsappAccountUpdateInput = z.infer<
@@ -94,9 +98,12 @@ export const whatsappAccountResponseSchema = z.object({
   name: z.string(),
   phoneNumberId: z.string(),
   businessAccountId: z.string(),
-  // accessToken intentionally omitted from responses
+  // The token itself never leaves the server; this is its masked tail
+  accessTokenHint: z.string().nullable(),
   isActive: z.boolean(),
   isDefault: z.boolean(),
+  sendReadReceipts: z.boolean(),
+  sendTypingIndicator: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
   createdBy: z.number().int().nullable(),
@@ -3,7 +3,8 @@ import { whatsappAccountsTable, auditLogsTable } from "@/db/schema";
 import { Result } from "@/lib/result";
 import { AuditLogService } from "@/lib/audit-log.service";
 import { createPerformanceLogger } from "@/lib/logger";
-import { and, desc, eq, ilike, lt, or, sql } from "drizzle-orm";
+import { decryptSecret, encryptSecret, maskSecret, reEncryptSecret } from "@/lib/secret-encryption";
+import { and, asc, desc, eq, gt, ilike, lt, or, sql } from "drizzle-orm";
 import { formatISO } from "date-fns";
 import type {
   WhatsappAccountCreateServerInput,
@@ -23,14 +24,27 @@ const BASE_SELECTION = {
   name: whatsappAccountsTable.name,
   phoneNumberId: whatsappAccountsTable.phoneNumberId,
   businessAccountId: whatsappAccountsTable.businessAccountId,
+  // Reads the stored token; withTokenHint replaces it with its masked form
+  accessTokenHint: whatsappAccountsTable.accessToken,
   isActive: whatsappAccountsTable.isActive,
   isDefault: whatsappAccountsTable.isDefault,
+  sendReadReceipts: whatsappAccountsTable.sendReadReceipts,
+  sendTypingIndicator: whatsappAccountsTable.sendTypingIndicator,
   createdAt: whatsappAccountsTable.createdAt,
   updatedAt: whatsappAccountsTable.updatedAt,
   createdBy: whatsappAccountsTable.createdBy,
   updatedBy: whatsappAccountsTable.updatedBy,
 } satisfies Record<keyof WhatsappAccountRecord, unknown>;
 
+function withTokenHint<T extends { accessTokenHint: string | null }>(record: T): T {
+  if (!record.accessTokenHint) return record;
+  try {
+    return { ...record, accessTokenHint: maskSecret(decryptSecret(record.accessTokenHint)) };
+  } catch {
+    return { ...record, accessTokenHint: null };
+  }
+}
+
 function encodeCursor(record: WhatsappAccountRecord): string {
   return Buffer.from(
     JSON.stringify({
@@ -117,7 +131,7 @@ export class WhatsappAccountService {
           : null;
 
       perf.complete(items.length);
-      return Result.ok({ items, nextCursor, hasMore });
+      return Result.ok({ items: items.map(withTokenHint), nextCursor, hasMore });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to list WhatsApp accounts";
       perf.fail(errorMessage);
@@ -150,7 +164,7 @@ export class WhatsappAccountService {
       }
 
       perf.complete(1);
-      return Result.ok(record);
+      return Result.ok(withTokenHint(record));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to get WhatsApp account";
       perf.fail(errorMessage);
@@ -181,8 +195,10 @@ export class WhatsappAccountService {
             name: input.name,
             phoneNumberId: input.phoneNumberId,
             businessAccountId: input.businessAccountId,
-            accessToken: input.accessToken,
+            accessToken: encryptSecret(input.accessToken),
             isDefault: input.isDefault ?? false,
+            sendReadReceipts: input.sendReadReceipts ?? true,
+            sendTypingIndicator: input.sendTypingIndicator ?? false,
             createdBy: input.userId,
             updatedBy: input.userId,
           })
@@ -226,7 +242,7 @@ export class WhatsappAccountService {
       });
 
       perf.complete(1);
-      return Result.ok(result);
+      return Result.ok(withTokenHint(result));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to create WhatsApp account";
       perf.fail(errorMessage);
@@ -260,6 +276,8 @@ export class WhatsappAccountService {
             accessToken: whatsappAccountsTable.accessToken,
             isDefault: whatsappAccountsTable.isDefault,
             isActive: whatsappAccountsTable.isActive,
+            sendReadReceipts: whatsappAccountsTable.sendReadReceipts,
+            sendTypingIndicator: whatsappAccountsTable.sendTypingIndicator,
           })
           .from(whatsappAccountsTable)
           .where(
@@ -280,6 +298,8 @@ export class WhatsappAccountService {
           businessAccountId: existing.businessAccountId,
           isDefault: existing.isDefault,
           isActive: existing.isActive,
+          sendReadReceipts: existing.sendReadReceipts,
+          sendTypingIndicator: existing.sendTypingIndicator,
         };
 
         if (input.isDefault) {
@@ -296,9 +316,11 @@ export class WhatsappAccountService {
             phoneNumberId: input.phoneNumberId ?? existing.phoneNumberId,
             businessAccountId:
               input.businessAccountId ?? existing.businessAccountId,
-            accessToken: input.accessToken ?? existing.accessToken,
+            accessToken: input.accessToken ? encryptSecret(input.accessToken) : existing.accessToken,
             isDefault: input.isDefault ?? existing.isDefault,
             isActive: input.isActive ?? existing.isActive,
+            sendReadReceipts: input.sendReadReceipts ?? existing.sendReadReceipts,
+            sendTypingIndicator: input.sendTypingIndicator ?? existing.sendTypingIndicator,
             updatedBy: input.userId,
             updatedAt: sql`now()`,
           })
@@ -311,6 +333,8 @@ export class WhatsappAccountService {
         if (input.businessAccountId !== undefined) newValues.businessAccountId = input.businessAccountId;
         if (input.isDefault !== undefined) newValues.isDefault = input.isDefault;
         if (input.isActive !== undefined) newValues.isActive = input.isActive;
+        if (input.sendReadReceipts !== undefined) newValues.sendReadReceipts = input.sendReadReceipts;
+        if (input.sendTypingIndicator !== undefined) newValues.sendTypingIndicator = input.sendTypingIndicator;
 
         await tx.insert(auditLogsTable).values({
           entityType: "whatsapp_account",
@@ -343,7 +367,7 @@ export class WhatsappAccountService {
       });
 
       perf.complete(1);
-      return Result.ok(result.updated);
+      return Result.ok(withTokenHint(result.updated));
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to update WhatsApp account";
       perf.fail(errorMessage);
@@ -600,4 +624,52 @@ export class WhatsappAccountService {
       return Result.internal("Failed to activate WhatsApp account");
     }
   }
+
+  /**
+   * Re-encrypts one batch of access tokens with the current master key,
+   * including tokens still stored as plain text. Rows are walked by id.
+   */
+  static async reencryptAccessTokens(input: {
+    afterId: number;
+    limit: number;
+  }): Promise<Result<{ lastId: number | null; updated: number }>> {
+    const perf = createPerformanceLogger("WhatsappAccountService.reencryptAccessTokens", {
+      context: { afterId: input.afterId, limit: input.limit },
+    });
+
+    try {
+      const rows = await db
+        .select({ id: whatsappAccountsTable.id, accessToken: whatsappAccountsTable.accessToken })
+        .from(whatsappAccountsTable)
+        .where(gt(whatsappAccountsTable.id, input.afterId))
+        .orderBy(asc(whatsappAccountsTable.id))
+        .limit(input.limit);
+
+      let updated = 0;
+      for (const row of rows) {
+        const reencrypted = reEncryptSecret(row.accessToken);
+        if (!reencrypted) continue;
+
+        // Skip the row if the token was changed in the meantime
+        const changed = await db
+          .update(whatsappAccountsTable)
+          .set({ accessToken: reencrypted })
+          .where(
+            and(
+              eq(whatsappAccountsTable.id, row.id),
+              eq(whatsappAccountsTable.accessToken, row.accessToken)
+            )
+          )
+          .returning({ id: whatsappAccountsTable.id });
+        updated += changed.length;
+      }
+
+      perf.complete(updated);
+      return Result.ok({ lastId: rows.at(-1)?.id ?? null, updated });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to re-encrypt access tokens";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to re-encrypt access tokens");
+    }
+  }
 }
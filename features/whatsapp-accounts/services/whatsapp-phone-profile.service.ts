@@ -1,59 +1,69 @@
+import { db } from '@/db/drizzle';
+import { whatsappAccountsTable } from '@/db/schema';
 import { Result } from '@/lib/result';
 import { createPerformanceLogger } from '@/lib/logger';
-import axios from 'axios';
-import type { WhatsappPhoneProfileResponse, WhatsappPhoneProfileQuery } from '../schemas/whatsapp-phone-profile.schema';
+import { WhatsappCloudApi } from '@/lib/whatsapp-cloud-api';
+import { and, eq } from 'drizzle-orm';
+import {
+  whatsappPhoneProfileResponseSchema,
+  type WhatsappPhoneProfileResponse,
+  type WhatsappPhoneProfileQuery,
+} from '../schemas/whatsapp-phone-profile.schema';
+
+const FIELD_MAP: Record<string, string> = {
+  name_status: 'name_status',
+  code_verification_status: 'code_verification_status',
+  both: 'name_status,code_verification_status',
+};
 
 export class WhatsappPhoneProfileService {
-  static async getProfile(input: WhatsappPhoneProfileQuery): Promise<Result<WhatsappPhoneProfileResponse>> {
+  static async getProfile(
+    companyId: number,
+    input: WhatsappPhoneProfileQuery
+  ): Promise<Result<WhatsappPhoneProfileResponse>> {
     const perf = createPerformanceLogger('WhatsappPhoneProfileService.getProfile', {
-      context: { phoneNumberId: input.phoneNumberId },
+      context: { companyId, phoneNumberId: input.phoneNumberId },
     });
 
     try {
-      const fieldsParam = buildFieldsParam(input.fields);
-      const apiUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/api/whatsapp-accounts/phone-profile?phoneNumberId=${encodeURIComponent(input.phoneNumberId)}${fieldsParam}`;
+      const [account] = await db
+        .select({
+          phoneNumberId: whatsappAccountsTable.phoneNumberId,
+          accessToken: whatsappAccountsTable.accessToken,
+        })
+        .from(whatsappAccountsTable)
+        .where(
+          and(
+            eq(whatsappAccountsTable.companyId, companyId),
+            eq(whatsappAccountsTable.phoneNumberId, input.phoneNumberId)
+          )
+        )
+        .limit(1);
 
-      const response = await axios.get(apiUrl, {
-        headers: {
-          'Content-Type': 'application/json',
-        },
-      });
+      if (!account) {
+        perf.fail('WhatsApp account not found');
+        return Result.notFound('Phone number not found');
+      }
 
-      if (response.data) {
-        perf.complete();
-        return Result.ok(response.data as WhatsappPhoneProfileResponse, 'Profile loaded');
-      } else {
-        perf.fail('Failed to fetch profile');
-        return Result.internal('WhatsApp API error, please try again');
+      const profile = await WhatsappCloudApi.forAccount(account).getPhoneProfile(
+        input.fields ? FIELD_MAP[input.fields] : undefined
+      );
+      if (!profile.success || !profile.data) {
+        perf.fail(profile.message);
+        return Result.fail(profile.message, profile.error);
       }
-    } catch (error) {
-      const axiosError = error as { response?: { status?: number; data?: { error?: string } }; message?: string };
-      let errorMessage = 'Failed to fetch profile';
 
-      if (axiosError.response) {
-        const status = axiosError.response.status;
-        if (status === 401) {
-          errorMessage = 'WhatsApp API authentication failed';
-        } else if (status === 403) {
-          errorMessage = 'No permission to access phone number';
-        } else if (status === 404) {
-          errorMessage = 'Phone number not found';
-        } else if (status === 429) {
-          errorMessage = 'Rate limit exceeded, please retry later';
-        } else {
-          errorMessage = axiosError.response.data?.error || 'WhatsApp API error, please try again';
-        }
-      } else {
-        errorMessage = axiosError.message || 'Network error';
+      const parsed = whatsappPhoneProfileResponseSchema.safeParse(profile.data);
+      if (!parsed.success) {
+        perf.fail('Unexpected phone profile response');
+        return Result.internal('WhatsApp API error, please try again');
       }
 
-      perf.fail(errorMessage);
-      return Result.internal(errorMessage);
+      perf.complete();
+      return Result.ok(parsed.data, 'Profile loaded');
+    } catch (error) {
+      perf.fail(error as Error);
+      return Result.internal('Failed to fetch profile');
     }
   }
 }
-
-function buildFieldsParam(fields?: string): string {
-  if (!fields) return '';
-  return `&fields=${encodeURIComponent(fields)}`;
-}
@@ -0,0 +1,53 @@
+"use server";
+
+import { withAction } from "@/lib/server-action-helper";
+import { Result } from "@/lib/result";
+import { WhatsappSimulatorService } from "../services/whatsapp-simulator.service";
+import {
+  simulatorCustomerMessageSchema,
+  simulatorStatusSchema,
+  type SimulatorCustomerMessageInput,
+  type SimulatorStateResponse,
+  type SimulatorStatusInput,
+} from "../schemas/whatsapp-simulator.schema";
+
+const SIMULATOR_DISABLED = "The WhatsApp simulator is disabled. Set WHATSAPP_SIMULATOR_ENABLED=true to use it";
+
+export const getSimulatorStateAction = withAction<void, SimulatorStateResponse>(
+  "whatsappSimulator.getState",
+  async (auth) => {
+    if (!WhatsappSimulatorService.isEnabled()) {
+      return Result.forbidden(SIMULATOR_DISABLED);
+    }
+
+    return WhatsappSimulatorService.getState(auth.companyId);
+  },
+  { permission: "devTools.use" }
+);
+
+export const sendSimulatedCustomerMessageAction = withAction<
+  SimulatorCustomerMessageInput,
+  { messageId: string }
+>(
+  "whatsappSimulator.sendCustomerMessage",
+  async (auth, input) => {
+    if (!WhatsappSimulatorService.isEnabled()) {
+      return Result.forbidden(SIMULATOR_DISABLED);
+    }
+
+    return WhatsappSimulatorService.sendCustomerMessage(auth.companyId, input);
+  },
+  { schema: simulatorCustomerMessageSchema, permission: "devTools.use" }
+);
+
+export const sendSimulatedStatusAction = withAction<SimulatorStatusInput, void>(
+  "whatsappSimulator.sendStatus",
+  async (auth, input) => {
+    if (!WhatsappSimulatorService.isEnabled()) {
+      return Result.forbidden(SIMULATOR_DISABLED);
+    }
+
+    return WhatsappSimulatorService.sendStatus(auth.companyId, input);
+  },
+  { schema: simulatorStatusSchema, permission: "devTools.use" }
+);
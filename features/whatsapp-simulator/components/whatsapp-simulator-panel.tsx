@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { format } from "date-fns";
+import { MessageSquarePlus } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  useSendSimulatedCustomerMessage,
+  useSendSimulatedStatus,
+  useWhatsappSimulatorState,
+} from "../hooks/use-whatsapp-simulator";
+import type { SimulatedStatus } from "../schemas/whatsapp-simulator.schema";
+
+const STATUS_ACTIONS: SimulatedStatus[] = ["delivered", "read", "failed"];
+
+export function WhatsappSimulatorPanel() {
+  const { data, isLoading, error } = useWhatsappSimulatorState();
+  const sendCustomerMessage = useSendSimulatedCustomerMessage();
+  const sendStatus = useSendSimulatedStatus();
+
+  const [chosenAccountId, setChosenAccountId] = useState<number | null>(null);
+  const [from, setFrom] = useState("");
+  const [name, setName] = useState("Test Customer");
+  const [text, setText] = useState("");
+
+  const accounts = data?.accounts ?? [];
+  const accountId = chosenAccountId ?? accounts[0]?.id ?? null;
+
+  const handleSend = () => {
+    if (!accountId) return;
+    sendCustomerMessage.mutate(
+      { whatsappAccountId: accountId, from, name, text },
+      { onSuccess: () => setText("") }
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <MessageSquarePlus className="h-5 w-5" />
+          WhatsApp Simulator
+        </CardTitle>
+        <CardDescription>
+          Send as a customer into one of your numbers. Set WHATSAPP_GRAPH_BASE_URL to
+          /api/dev/whatsapp-simulator to capture outbound messages below.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Spinner />
+          </div>
+        ) : error ? (
+          <p className="text-sm text-destructive">{error.message}</p>
+        ) : (
+          <>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2 sm:col-span-2">
+                <Label>To number</Label>
+                <Select
+                  value={accountId ? String(accountId) : undefined}
+                  onValueChange={(value) => setChosenAccountId(Number(value))}
+                >
+                  <SelectTrigger className="w-full">
+                    <SelectValue placeholder="Select a WhatsApp account" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {accounts.map((account) => (
+                      <SelectItem key={account.id} value={String(account.id)}>
+                        {account.name} ({account.phoneNumberId})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="simulator-from">Customer number</Label>
+                <Input
+                  id="simulator-from"
+                  value={from}
+                  onChange={(e) => setFrom(e.target.value)}
+                  placeholder="e.g., 94711803296"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="simulator-name">Customer name</Label>
+                <Input id="simulator-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2 sm:col-span-2">
+                <Label htmlFor="simulator-text">Message</Label>
+                <Textarea
+                  id="simulator-text"
+                  value={text}
+                  onChange={(e) => setText(e.target.value)}
+                  rows={3}
+                />
+              </div>
+            </div>
+            <Button
+              onClick={handleSend}
+              disabled={!accountId || !from.trim() || !text.trim() || sendCustomerMessage.isPending}
+            >
+              {sendCustomerMessage.isPending && <Spinner />}
+              Send as customer
+            </Button>
+
+            <div className="space-y-2">
+              <p className="text-sm font-medium">Outbound messages</p>
+              {data?.outboundMessages.length ? (
+                <ul className="divide-y rounded-md border">
+                  {data.outboundMessages.map((message) => (
+                    <li key={message.id} className="flex items-start justify-between gap-3 p-3">
+                      <div className="min-w-0 space-y-1">
+                        <p className="truncate text-sm">{message.summary}</p>
+                        <p className="text-xs text-muted-foreground">
+                          To {message.to} · {format(new Date(message.createdAt), "HH:mm:ss")}
+                        </p>
+                        <div className="flex flex-wrap gap-1">
+                          {message.statuses.map((status, index) => (
+                            <Badge key={`${status}-${index}`} variant="secondary">
+                              {status}
+                            </Badge>
+                          ))}
+                        </div>
+                      </div>
+                      <div className="flex shrink-0 gap-1">
+                        {STATUS_ACTIONS.map((status) => (
+                          <Button
+                            key={status}
+                            size="sm"
+                            variant={status === "failed" ? "destructive" : "outline"}
+                            disabled={sendStatus.isPending}
+                            onClick={() => sendStatus.mutate({ messageId: message.id, status })}
+                          >
+                            {status}
+                          </Button>
+                        ))}
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-muted-foreground">No outbound messages captured yet.</p>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { toast } from "sonner";
+import {
+  getSimulatorStateAction,
+  sendSimulatedCustomerMessageAction,
+  sendSimulatedStatusAction,
+} from "../actions/whatsapp-simulator.actions";
+import type {
+  SimulatorCustomerMessageInput,
+  SimulatorStateResponse,
+  SimulatorStatusInput,
+} from "../schemas/whatsapp-simulator.schema";
+
+const WHATSAPP_SIMULATOR_KEY = "whatsapp-simulator";
+// Outbound messages arrive from the send queue, so keep the log fresh
+const STATE_REFETCH_INTERVAL_MS = 3000;
+
+export function useWhatsappSimulatorState() {
+  return useQuery({
+    queryKey: [WHATSAPP_SIMULATOR_KEY],
+    queryFn: async () => {
+      const result = await getSimulatorStateAction();
+      if (!result.ok) throw new Error(result.error);
+      return result.data as SimulatorStateResponse;
+    },
+    refetchInterval: STATE_REFETCH_INTERVAL_MS,
+  });
+}
+
+export function useSendSimulatedCustomerMessage() {
+  return useMutation({
+    mutationFn: async (data: SimulatorCustomerMessageInput) => {
+      const result = await sendSimulatedCustomerMessageAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => toast.success("Customer message delivered to the webhook"),
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useSendSimulatedStatus() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: SimulatorStatusInput) => {
+      const result = await sendSimulatedStatusAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: [WHATSAPP_SIMULATOR_KEY] }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
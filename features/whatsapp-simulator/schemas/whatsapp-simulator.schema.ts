@@ -0,0 +1,48 @@
+import { z } from "zod";
+
+export const SIMULATED_STATUSES = ["sent", "delivered", "read", "failed"] as const;
+export type SimulatedStatus = (typeof SIMULATED_STATUSES)[number];
+
+export const simulatorCustomerMessageSchema = z.object({
+  whatsappAccountId: z.number().int().positive(),
+  from: z
+    .string()
+    .trim()
+    .regex(/^\+?\d{6,15}$/, "Enter the customer's number in international format"),
+  name: z.string().trim().min(1, "Customer name is required").max(100),
+  text: z.string().trim().min(1, "Message is required").max(4096),
+  // Provider id of the outbound message the customer is replying to
+  replyToMessageId: z.string().min(1).optional(),
+});
+
+export type SimulatorCustomerMessageInput = z.infer<typeof simulatorCustomerMessageSchema>;
+
+export const simulatorStatusSchema = z.object({
+  messageId: z.string().min(1),
+  status: z.enum(SIMULATED_STATUSES),
+});
+
+export type SimulatorStatusInput = z.infer<typeof simulatorStatusSchema>;
+
+export interface SimulatedOutboundMessage {
+  id: string;
+  phoneNumberId: string;
+  to: string;
+  type: string;
+  // Short human-readable body: text, caption, template name or emoji
+  summary: string;
+  payload: Record<string, unknown>;
+  statuses: SimulatedStatus[];
+  createdAt: string;
+}
+
+export interface SimulatorAccount {
+  id: number;
+  name: string;
+  phoneNumberId: string;
+}
+
+export interface SimulatorStateResponse {
+  accounts: SimulatorAccount[];
+  outboundMessages: Omit<SimulatedOutboundMessage, "payload">[];
+}
@@ -0,0 +1,382 @@
+import { createHash, createHmac, randomUUID } from "crypto";
+import axios from "axios";
+import { db } from "@/db/drizzle";
+import { whatsappAccountsTable } from "@/db/schema";
+import { Result } from "@/lib/result";
+import { createPerformanceLogger } from "@/lib/logger";
+import { decryptSecret } from "@/lib/secret-encryption";
+import { WebhookConfigService } from "@/features/whatsapp-webhook/services/webhook-config.service";
+import { and, asc, eq } from "drizzle-orm";
+import type {
+  SimulatedOutboundMessage,
+  SimulatedStatus,
+  SimulatorAccount,
+  SimulatorCustomerMessageInput,
+  SimulatorStateResponse,
+  SimulatorStatusInput,
+} from "../schemas/whatsapp-simulator.schema";
+
+const WEBHOOK_URL =
+  process.env.WHATSAPP_SIMULATOR_WEBHOOK_URL || "http://localhost:3000/api/webhooks/whatsapp";
+const WEBHOOK_TIMEOUT_MS = 10000;
+// Gives the outbound queue time to store the provider id before the status arrives
+const AUTO_SENT_DELAY_MS = 1000;
+const MAX_RECORDED_MESSAGES = 200;
+const MAX_STORED_MEDIA = 50;
+
+const ACCOUNT_SELECTION = {
+  id: whatsappAccountsTable.id,
+  companyId: whatsappAccountsTable.companyId,
+  name: whatsappAccountsTable.name,
+  phoneNumberId: whatsappAccountsTable.phoneNumberId,
+  businessAccountId: whatsappAccountsTable.businessAccountId,
+};
+
+interface SimulatedMedia {
+  id: string;
+  data: Buffer;
+  mimeType: string;
+  sha256: string;
+}
+
+interface SimulatorStore {
+  outbound: SimulatedOutboundMessage[];
+  media: Map<string, SimulatedMedia>;
+}
+
+type SimulatorTargetAccount = SimulatorAccount & { companyId: number; businessAccountId: string };
+
+// Kept on globalThis so the Graph routes, server actions and Inngest handlers
+// share one store across dev-server module reloads
+const globalForSimulator = globalThis as typeof globalThis & { whatsappSimulator?: SimulatorStore };
+const store: SimulatorStore = (globalForSimulator.whatsappSimulator ??= {
+  outbound: [],
+  media: new Map(),
+});
+
+function newMessageId(): string {
+  return `wamid.SIM${randomUUID().replace(/-/g, "")}`;
+}
+
+function summarize(payload: Record<string, unknown>): string {
+  const type = String(payload.type ?? "unknown");
+  const body = (payload[type] ?? {}) as Record<string, unknown>;
+
+  switch (type) {
+    case "text":
+      return String(body.body ?? "");
+    case "template":
+      return `Template: ${String(body.name ?? "")}`;
+    case "reaction":
+      return body.emoji ? `Reacted ${String(body.emoji)}` : "Removed reaction";
+    case "location":
+      return `Location: ${String(body.name ?? `${body.latitude}, ${body.longitude}`)}`;
+    default:
+      return body.caption ? `[${type}] ${String(body.caption)}` : `[${type}]`;
+  }
+}
+
+/**
+ * Dev-only stand-in for the WhatsApp Cloud API, switched on with
+ * WHATSAPP_SIMULATOR_ENABLED=true. Point WHATSAPP_GRAPH_BASE_URL at
+ * /api/dev/whatsapp-simulator and outbound calls land here instead of Meta;
+ * customer messages and delivery statuses are posted back to our own webhook,
+ * signed with the account's app secret.
+ */
+export class WhatsappSimulatorService {
+  static isEnabled(): boolean {
+    return process.env.WHATSAPP_SIMULATOR_ENABLED === "true";
+  }
+
+  /**
+   * Accounts whose stored access token is the given bearer token; empty when
+   * the token belongs to none, which the Graph routes treat as unauthorized.
+   */
+  static async findAccountsByAccessToken(accessToken: string): Promise<SimulatorTargetAccount[]> {
+    const accounts = await db
+      .select({ ...ACCOUNT_SELECTION, accessToken: whatsappAccountsTable.accessToken })
+      .from(whatsappAccountsTable)
+      .where(eq(whatsappAccountsTable.isActive, true));
+
+    return accounts.filter((account) => {
+      try {
+        return decryptSecret(account.accessToken) === accessToken;
+      } catch {
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Records a message the app sent through the simulated Graph API and, like
+   * Meta, reports it as sent shortly afterwards.
+   */
+  static recordOutbound(account: SimulatorTargetAccount, payload: Record<string, unknown>): SimulatedOutboundMessage {
+    const message: SimulatedOutboundMessage = {
+      id: newMessageId(),
+      phoneNumberId: account.phoneNumberId,
+      to: String(payload.to ?? ""),
+      type: String(payload.type ?? "text"),
+      summary: summarize(payload),
+      payload,
+      statuses: [],
+      createdAt: new Date().toISOString(),
+    };
+
+    store.outbound.unshift(message);
+    store.outbound.length = Math.min(store.outbound.length, MAX_RECORDED_MESSAGES);
+
+    setTimeout(() => {
+      void WhatsappSimulatorService.deliverStatus(account, message, "sent").then((result) => {
+        if (!result.success) {
+          console.error("WhatsApp simulator could not report sent status:", result.message);
+        }
+      });
+    }, AUTO_SENT_DELAY_MS);
+
+    return message;
+  }
+
+  static storeMedia(data: Buffer, mimeType: string): SimulatedMedia {
+    const media: SimulatedMedia = {
+      id: `${Date.now()}${Math.floor(Math.random() * 1000)}`,
+      data,
+      mimeType,
+      sha256: createHash("sha256").update(data).digest("hex"),
+    };
+
+    store.media.set(media.id, media);
+    if (store.media.size > MAX_STORED_MEDIA) {
+      const oldest = store.media.keys().next().value;
+      if (oldest) store.media.delete(oldest);
+    }
+
+    return media;
+  }
+
+  static getMedia(mediaId: string): SimulatedMedia | null {
+    return store.media.get(mediaId) ?? null;
+  }
+
+  static async getState(companyId: number): Promise<Result<SimulatorStateResponse>> {
+    const perf = createPerformanceLogger("WhatsappSimulatorService.getState", {
+      context: { companyId },
+    });
+
+    try {
+      const accounts = await db
+        .select({
+          id: whatsappAccountsTable.id,
+          name: whatsappAccountsTable.name,
+          phoneNumberId: whatsappAccountsTable.phoneNumberId,
+        })
+        .from(whatsappAccountsTable)
+        .where(and(eq(whatsappAccountsTable.companyId, companyId), eq(whatsappAccountsTable.isActive, true)))
+        .orderBy(asc(whatsappAccountsTable.name));
+
+      const phoneNumberIds = new Set(accounts.map((account) => account.phoneNumberId));
+      const outboundMessages = store.outbound
+        .filter((message) => phoneNumberIds.has(message.phoneNumberId))
+        .map((message) => ({
+          id: message.id,
+          phoneNumberId: message.phoneNumberId,
+          to: message.to,
+          type: message.type,
+          summary: message.summary,
+          statuses: message.statuses,
+          createdAt: message.createdAt,
+        }));
+
+      perf.complete(outboundMessages.length);
+      return Result.ok({ accounts, outboundMessages });
+    } catch (error) {
+      perf.fail(error as Error);
+      return Result.internal("Failed to load simulator state");
+    }
+  }
+
+  static async sendCustomerMessage(
+    companyId: number,
+    input: SimulatorCustomerMessageInput
+  ): Promise<Result<{ messageId: string }>> {
+    const perf = createPerformanceLogger("WhatsappSimulatorService.sendCustomerMessage", {
+      context: { companyId, whatsappAccountId: input.whatsappAccountId },
+    });
+
+    try {
+      const [account] = await db
+        .select(ACCOUNT_SELECTION)
+        .from(whatsappAccountsTable)
+        .where(and(eq(whatsappAccountsTable.companyId, companyId), eq(whatsappAccountsTable.id, input.whatsappAccountId)))
+        .limit(1);
+
+      if (!account) {
+        perf.fail("WhatsApp account not found");
+        return Result.notFound("WhatsApp account not found");
+      }
+
+      const waId = input.from.replace("+", "");
+      const messageId = newMessageId();
+
+      const delivered = await WhatsappSimulatorService.postWebhook(account, {
+        contacts: [{ profile: { name: input.name }, wa_id: waId }],
+        messages: [
+          {
+            id: messageId,
+            from: waId,
+            timestamp: String(Math.floor(Date.now() / 1000)),
+            type: "text",
+            text: { body: input.text },
+            ...(input.replyToMessageId
+              ? { context: { from: account.phoneNumberId, id: input.replyToMessageId } }
+              : {}),
+          },
+        ],
+      });
+
+      if (!delivered.success) {
+        perf.fail(delivered.message);
+        return Result.fail(delivered.message, delivered.error);
+      }
+
+      perf.complete();
+      return Result.ok({ messageId }, "Customer message delivered to webhook");
+    } catch (error) {
+      perf.fail(error as Error);
+      return Result.internal("Failed to simulate customer message");
+    }
+  }
+
+  static async sendStatus(companyId: number, input: SimulatorStatusInput): Promise<Result<void>> {
+    const perf = createPerformanceLogger("WhatsappSimulatorService.sendStatus", {
+      context: { companyId, messageId: input.messageId, status: input.status },
+    });
+
+    try {
+      const message = store.outbound.find((candidate) => candidate.id === input.messageId);
+      if (!message) {
+        perf.fail("Simulated message not found");
+        return Result.notFound("Message not found in the simulator");
+      }
+
+      const [account] = await db
+        .select(ACCOUNT_SELECTION)
+        .from(whatsappAccountsTable)
+        .where(
+          and(
+            eq(whatsappAccountsTable.companyId, companyId),
+            eq(whatsappAccountsTable.phoneNumberId, message.phoneNumberId)
+          )
+        )
+        .limit(1);
+
+      if (!account) {
+        perf.fail("WhatsApp account not found");
+        return Result.notFound("Message not found in the simulator");
+      }
+
+      const result = await WhatsappSimulatorService.deliverStatus(account, message, input.status);
+      if (!result.success) {
+        perf.fail(result.message);
+        return result;
+      }
+
+      perf.complete();
+      return result;
+    } catch (error) {
+      perf.fail(error as Error);
+      return Result.internal("Failed to simulate status update");
+    }
+  }
+
+  private static async deliverStatus(
+    account: SimulatorTargetAccount,
+    message: SimulatedOutboundMessage,
+    status: SimulatedStatus
+  ): Promise<Result<void>> {
+    const result = await WhatsappSimulatorService.postWebhook(account, {
+      statuses: [
+        {
+          id: message.id,
+          recipient_id: message.to,
+          status,
+          timestamp: String(Math.floor(Date.now() / 1000)),
+          ...(status === "failed"
+            ? {
+                errors: [
+                  {
+                    code: 131026,
+                    title: "Message undeliverable",
+                    message: "Message undeliverable",
+                    error_data: { details: "Simulated delivery failure" },
+                  },
+                ],
+              }
+            : {}),
+        },
+      ],
+    });
+
+    if (result.success) {
+      message.statuses.push(status);
+    }
+    return result;
+  }
+
+  /** Posts a `messages` change for the account to our webhook, signed like Meta does. */
+  private static async postWebhook(
+    account: SimulatorTargetAccount,
+    value: Record<string, unknown>
+  ): Promise<Result<void>> {
+    const secretsResult = await WebhookConfigService.getSecrets(account.companyId, account.id);
+    if (!secretsResult.success) {
+      return Result.fail(secretsResult.message, secretsResult.error);
+    }
+
+    const secret = secretsResult.data?.secrets[0];
+    if (!secret) {
+      return Result.badRequest("Configure a webhook app secret for this account before using the simulator");
+    }
+
+    const body = JSON.stringify({
+      object: "whatsapp_business_account",
+      entry: [
+        {
+          id: account.businessAccountId,
+          changes: [
+            {
+              field: "messages",
+              value: {
+                messaging_product: "whatsapp",
+                metadata: {
+                  display_phone_number: account.phoneNumberId,
+                  phone_number_id: account.phoneNumberId,
+                },
+                ...value,
+              },
+            },
+          ],
+        },
+      ],
+    });
+    const signature = `sha256=${createHmac("sha256", secret).update(body, "utf8").digest("hex")}`;
+
+    try {
+      await axios.post(WEBHOOK_URL, body, {
+        timeout: WEBHOOK_TIMEOUT_MS,
+        headers: {
+          "Content-Type": "application/json",
+          "X-Hub-Signature-256": signature,
+          "User-Agent": "WhatsApp Simulator",
+        },
+      });
+      return Result.ok(undefined, "Webhook delivered");
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      return Result.internal(
+        status ? `Webhook responded with ${status}` : "Webhook endpoint is unreachable",
+        { httpStatus: status ?? null }
+      );
+    }
+  }
+}
@@ -4,11 +4,19 @@ import { withAction } from "@/lib/server-action-helper";
 import { Result } from "@/lib/result";
 import { WebhookConfigService } from "../services/webhook-config.service";
 import { WebhookIngestService } from "../services/webhook-ingest.service";
+import { WebhookSecurityLogService } from "../services/webhook-security-log.service";
 import {
   webhookConfigUpsertClientSchema,
   webhookEventLogListQuerySchema,
+  webhookSecurityLogListQuerySchema,
+  webhookEventReplayClientSchema,
+  webhookEventReplayFailedClientSchema,
+  type WebhookEventReplayClientInput,
+  type WebhookEventReplayFailedClientInput,
+  type WebhookEventReplayResponse,
   type WebhookConfigResponse,
   type WebhookEventLogListResponse,
+  type WebhookSecurityLogListResponse,
 } from "../schemas/whatsapp-webhook-schema";
 import { z } from "zod";
 
@@ -23,6 +31,9 @@ type AccountIdInput = z.infer<typeof webhookAccountIdSchema>;
 type EventLogListInput = z.infer<typeof webhookEventLogListQuerySchema> & {
   whatsappAccountId: number;
 };
+type SecurityLogListInput = z.infer<typeof webhookSecurityLogListQuerySchema> & {
+  whatsappAccountId: number;
+};
 
 export const getWebhookConfigAction = withAction<
   AccountIdInput,
@@ -41,7 +52,7 @@ export const getWebhookConfigAction = withAction<
 
     return result;
   },
-  { schema: webhookAccountIdSchema }
+  { schema: webhookAccountIdSchema, permission: "webhooks.manage" }
 );
 
 export const upsertWebhookConfigAction = withAction<
@@ -52,7 +63,7 @@ export const upsertWebhookConfigAction = withAction<
   async (auth, input) => {
     const result = await WebhookConfigService.upsert({
       appSecret: input.appSecret,
-      callbackPath: input.callbackPath,
+      rotateVerifyToken: input.rotateVerifyToken,
       companyId: auth.companyId,
       userId: auth.userId,
       whatsappAccountId: input.whatsappAccountId,
@@ -68,6 +79,7 @@ export const upsertWebhookConfigAction = withAction<
     schema: webhookConfigUpsertClientSchema.extend({
       whatsappAccountId: z.number().int().positive(),
     }),
+    permission: "webhooks.manage",
   }
 );
 
@@ -82,7 +94,9 @@ export const listWebhookEventLogsAction = withAction<
       input.whatsappAccountId,
       input.cursor,
       input.limit,
-      input.processed
+      input.processed,
+      input.state,
+      input.eventType
     );
 
     if (!result.success) {
@@ -95,5 +109,78 @@ export const listWebhookEventLogsAction = withAction<
     schema: webhookEventLogListQuerySchema.extend({
       whatsappAccountId: z.number().int().positive(),
     }),
+    permission: "webhooks.manage",
   }
 );
+
+export const listWebhookSecurityLogsAction = withAction<
+  SecurityLogListInput,
+  WebhookSecurityLogListResponse
+>(
+  "webhookSecurityLogs.list",
+  async (auth, input) => {
+    const result = await WebhookSecurityLogService.list(
+      auth.companyId,
+      input.whatsappAccountId,
+      input.limit
+    );
+
+    if (!result.success) {
+      return Result.fail(result.message, result.error);
+    }
+
+    return result;
+  },
+  {
+    schema: webhookSecurityLogListQuerySchema.extend({
+      whatsappAccountId: z.number().int().positive(),
+    }),
+    permission: "webhooks.manage",
+  }
+);
+
+export const replayWebhookEventAction = withAction<
+  WebhookEventReplayClientInput,
+  WebhookEventReplayResponse
+>(
+  "webhookEventLogs.replay",
+  async (auth, input) => {
+    const result = await WebhookIngestService.replayEvents({
+      companyId: auth.companyId,
+      userId: auth.userId,
+      whatsappAccountId: input.whatsappAccountId,
+      logId: input.logId,
+    });
+
+    if (!result.success) {
+      return Result.fail(result.message, result.error);
+    }
+
+    return result;
+  },
+  { schema: webhookEventReplayClientSchema, permission: "webhooks.manage" }
+);
+
+export const replayFailedWebhookEventsAction = withAction<
+  WebhookEventReplayFailedClientInput,
+  WebhookEventReplayResponse
+>(
+  "webhookEventLogs.replayFailed",
+  async (auth, input) => {
+    const result = await WebhookIngestService.replayEvents({
+      companyId: auth.companyId,
+      userId: auth.userId,
+      whatsappAccountId: input.whatsappAccountId,
+      from: input.from,
+      to: input.to,
+      eventType: input.eventType,
+    });
+
+    if (!result.success) {
+      return Result.fail(result.message, result.error);
+    }
+
+    return result;
+  },
+  { schema: webhookEventReplayFailedClientSchema, permission: "webhooks.manage" }
+);
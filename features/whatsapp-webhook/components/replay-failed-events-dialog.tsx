@@ -0,0 +1,93 @@
+"use client";
+
+import { useState } from "react";
+import { format, subDays } from "date-fns";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { useReplayFailedWebhookEvents } from "../hooks/use-webhook-config";
+import type { WebhookEventType } from "../schemas/whatsapp-webhook-schema";
+
+interface ReplayFailedEventsDialogProps {
+  whatsappAccountId: number;
+  eventType?: WebhookEventType;
+}
+
+const INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+export function ReplayFailedEventsDialog({ whatsappAccountId, eventType }: ReplayFailedEventsDialogProps) {
+  const [open, setOpen] = useState(false);
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 1), INPUT_FORMAT));
+  const [to, setTo] = useState(() => format(new Date(), INPUT_FORMAT));
+  const replayMutation = useReplayFailedWebhookEvents();
+
+  const isRangeValid = !!from && !!to && new Date(from) <= new Date(to);
+
+  const handleReplay = async () => {
+    await replayMutation.mutateAsync({
+      whatsappAccountId,
+      from: new Date(from),
+      to: new Date(to),
+      eventType,
+    });
+    setOpen(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <RotateCcw className="mr-2 h-4 w-4" />
+          Replay failed
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Replay failed events</DialogTitle>
+          <DialogDescription>
+            Re-queue every failed {eventType ? `${eventType.replace("_", " ")} ` : ""}event received in this range.
+            Events that were already applied are skipped.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 sm:grid-cols-2">
+          <div className="space-y-2">
+            <Label htmlFor="replay-from">From</Label>
+            <Input
+              id="replay-from"
+              type="datetime-local"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="replay-to">To</Label>
+            <Input
+              id="replay-to"
+              type="datetime-local"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => setOpen(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleReplay} disabled={!isRangeValid || replayMutation.isPending}>
+            {replayMutation.isPending ? "Queuing..." : "Replay"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
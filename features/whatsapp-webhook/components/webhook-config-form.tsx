@@ -4,6 +4,7 @@ import { useEffect, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -11,8 +12,9 @@ import { Badge } from "@/components/ui/badge";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Spinner } from "@/components/ui/spinner";
 import { useWebhookConfig, useUpsertWebhookConfig } from "../hooks/use-webhook-config";
-import { webhookConfigUpsertClientSchema } from "../schemas/whatsapp-webhook-schema";
-import {  ShieldCheck } from "lucide-react";
+import { WEBHOOK_SECRET_MASK, webhookConfigUpsertClientSchema } from "../schemas/whatsapp-webhook-schema";
+import { Copy, RefreshCw, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
 
 type WebhookConfigFormValues = z.infer<typeof webhookConfigUpsertClientSchema>;
 
@@ -29,15 +31,13 @@ export function WebhookConfigForm({ whatsappAccountId, isDev = false }: WebhookC
     resolver: zodResolver(webhookConfigUpsertClientSchema),
     defaultValues: {
       appSecret: "",
-      callbackPath: "/api/webhooks/whatsapp",
     },
   });
 
   useEffect(() => {
     if (config) {
       form.reset({
-        appSecret: "••••••••••••••••••••••••",
-        callbackPath: config.callbackPath,
+        appSecret: WEBHOOK_SECRET_MASK,
       });
     }
   }, [config, form]);
@@ -47,11 +47,28 @@ export function WebhookConfigForm({ whatsappAccountId, isDev = false }: WebhookC
   };
 
 
-  const getCallbackUrl = () => {
+  const handleRotateVerifyToken = async () => {
+    await upsertMutation.mutateAsync({
+      appSecret: WEBHOOK_SECRET_MASK,
+      rotateVerifyToken: true,
+      whatsappAccountId,
+    });
+  };
+
+  const getCallbackUrl = (callbackPath: string) => {
     if (isDev) {
-      return "https://your-ngrok-url.ngrok-free.app/api/webhooks/whatsapp";
+      return `https://your-ngrok-url.ngrok-free.app${callbackPath}`;
+    }
+    return `${window.location.origin}${callbackPath}`;
+  };
+
+  const copyToClipboard = async (value: string, label: string) => {
+    try {
+      await navigator.clipboard.writeText(value);
+      toast.success(`${label} copied`);
+    } catch {
+      toast.error(`Could not copy ${label.toLowerCase()}`);
     }
-    return `${window.location.origin}/api/webhooks/whatsapp`;
   };
 
   if (isLoading) {
@@ -91,22 +108,63 @@ export function WebhookConfigForm({ whatsappAccountId, isDev = false }: WebhookC
         </CardHeader>
         <CardContent>
           <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4 mt-4  min-w-4xl">
-            <div className="space-y-2">
-              <Label htmlFor="callbackPath">Callback URL</Label>
-              <div className="flex gap-2">
-                <Input
-                  id="callbackPath"
-                  {...form.register("callbackPath")}
-                  placeholder="/api/webhooks/whatsapp"
-                  disabled
-                />
+            {config ? (
+              <div className="space-y-4 rounded-md border p-4">
+                <div className="space-y-2">
+                  <Label htmlFor="callbackUrl">Callback URL</Label>
+                  <div className="flex gap-2">
+                    <Input id="callbackUrl" value={getCallbackUrl(config.callbackPath)} readOnly />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copyToClipboard(getCallbackUrl(config.callbackPath), "Callback URL")}
+                      aria-label="Copy callback URL"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  {isDev && (
+                    <p className="text-xs text-muted-foreground">
+                      For development, run: ngrok http 3000 and replace the host above
+                    </p>
+                  )}
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="verifyToken">Verify Token</Label>
+                  <div className="flex gap-2">
+                    <Input id="verifyToken" value={config.verifyToken} readOnly className="font-mono" />
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={() => copyToClipboard(config.verifyToken, "Verify token")}
+                      aria-label="Copy verify token"
+                    >
+                      <Copy className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="icon"
+                      onClick={handleRotateVerifyToken}
+                      disabled={upsertMutation.isPending}
+                      aria-label="Generate a new verify token"
+                    >
+                      <RefreshCw className="h-4 w-4" />
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    Paste both values into the Webhooks section of your Meta app to subscribe this number.
+                  </p>
+                </div>
               </div>
-              <p className="text-xs text-muted-foreground">
-                {isDev
-                  ? "For development, run: ngrok http 3000 and update the URL above"
-                  : "Production webhook endpoint"}
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Save the app secret to generate a callback URL and verify token for this account.
               </p>
-            </div>
+            )}
 
             <div className="space-y-2">
               <Label htmlFor="appSecret">App Secret</Label>
@@ -117,8 +175,14 @@ export function WebhookConfigForm({ whatsappAccountId, isDev = false }: WebhookC
                 type="password"
               />
               <p className="text-xs text-muted-foreground">
-                From your Meta app settings. Used for webhook signature verification.
+                From your Meta app settings. Used to verify the X-Hub-Signature-256 header of every webhook.
               </p>
+              {config?.previousAppSecretExpiresAt && new Date(config.previousAppSecretExpiresAt) > new Date() && (
+                <p className="text-xs text-muted-foreground">
+                  The previous secret is still accepted until{" "}
+                  {format(new Date(config.previousAppSecretExpiresAt), "MMM dd, yyyy HH:mm")}.
+                </p>
+              )}
             </div>
 
             <Button
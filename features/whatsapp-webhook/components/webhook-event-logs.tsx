@@ -9,8 +9,11 @@ import { Spinner } from "@/components/ui/spinner";
 import { DataTable } from "@/components/datatable/data-table";
 import { DataTableToolbar } from "@/components/datatable/data-table-toolbar";
 import { DataTableColumnHeader } from "@/components/datatable/data-table-column-header";
-import { useWebhookEventLogs } from "../hooks/use-webhook-config";
-import { CheckCircle2, XCircle, Clock, Eye, RefreshCw } from "lucide-react";
+import { useReplayWebhookEvent, useWebhookEventLogs } from "../hooks/use-webhook-config";
+import { WebhookSecurityLogs } from "./webhook-security-logs";
+import { ReplayFailedEventsDialog } from "./replay-failed-events-dialog";
+import type { WebhookEventState, WebhookEventType } from "../schemas/whatsapp-webhook-schema";
+import { CheckCircle2, XCircle, Clock, Eye, RotateCcw } from "lucide-react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { createColumnHelper, getCoreRowModel, useReactTable } from "@tanstack/react-table";
 import type { ColumnFiltersState, SortingState } from "@tanstack/react-table";
@@ -34,6 +37,9 @@ type WebhookEventLog = {
   objectId: string | null;
   processed: boolean;
   processedAt: Date | null;
+  state: WebhookEventState;
+  attemptCount: number;
+  lastError: string | null;
   dedupKey: string;
   signature: string | null;
   payload: unknown;
@@ -45,6 +51,9 @@ const columnHelper = createColumnHelper<WebhookEventLog>();
 
 export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
   const [processedFilter, setProcessedFilter] = useState<boolean | undefined>(undefined);
+  const [stateFilter, setStateFilter] = useState<WebhookEventState | undefined>(undefined);
+  const [eventTypeFilter, setEventTypeFilter] = useState<WebhookEventType | undefined>(undefined);
+  const replayMutation = useReplayWebhookEvent();
   const [sorting, setSorting] = useState<SortingState>([
     { id: "eventTs", desc: true },
   ]);
@@ -54,7 +63,7 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
 
   const { data, isLoading, error, hasNextPage, fetchNextPage, isFetchingNextPage, refetch } = useWebhookEventLogs(
     whatsappAccountId,
-    { limit: pageSize, processed: processedFilter }
+    { limit: pageSize, processed: processedFilter, state: stateFilter, eventType: eventTypeFilter }
   );
 
   const pages = data?.pages ?? [];
@@ -67,6 +76,7 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
     const config = {
       message: { variant: "default" as const, label: "Message", icon: CheckCircle2 },
       status: { variant: "secondary" as const, label: "Status", icon: Clock },
+      template_status: { variant: "secondary" as const, label: "Template", icon: Clock },
       other: { variant: "outline" as const, label: "Other", icon: XCircle },
     };
     const type = eventType as keyof typeof config;
@@ -79,16 +89,29 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
     );
   };
 
-  const getProcessedBadge = (processed: boolean) => {
-    return processed ? (
-      <Badge variant="outline" className="gap-1 text-green-600 border-green-600">
-        <CheckCircle2 className="h-3 w-3" />
-        Processed
-      </Badge>
-    ) : (
-      <Badge variant="outline" className="gap-1 text-yellow-600 border-yellow-600">
+  const getStateBadge = (state: WebhookEventState, lastError: string | null) => {
+    if (state === "processed") {
+      return (
+        <Badge variant="outline" className="gap-1 text-green-600 border-green-600">
+          <CheckCircle2 className="h-3 w-3" />
+          Processed
+        </Badge>
+      );
+    }
+
+    if (state === "failed") {
+      return (
+        <Badge variant="outline" className="gap-1 text-red-600 border-red-600" title={lastError ?? undefined}>
+          <XCircle className="h-3 w-3" />
+          Failed
+        </Badge>
+      );
+    }
+
+    return (
+      <Badge variant="outline" className="gap-1 text-yellow-600 border-yellow-600" title={lastError ?? undefined}>
         <Clock className="h-3 w-3" />
-        Pending
+        {lastError ? "Retrying" : "Pending"}
       </Badge>
     );
   };
@@ -105,6 +128,7 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
         options: [
           { label: "Message", value: "message" },
           { label: "Status", value: "status" },
+          { label: "Template", value: "template_status" },
           { label: "Other", value: "other" },
         ],
       },
@@ -129,26 +153,22 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
         variant: "text",
       },
     }),
-    columnHelper.accessor("processed", {
+    columnHelper.accessor("state", {
       header: ({ column }) => (
-        <DataTableColumnHeader column={column} label="Status" />
+        <DataTableColumnHeader column={column} label="State" />
       ),
-      cell: (info) => getProcessedBadge(info.getValue()),
-      filterFn: (row, columnId, filterValue) => {
-        if (!Array.isArray(filterValue) || filterValue.length === 0) return true;
-        const value = row.getValue(columnId);
-        const target = filterValue[0];
-        if (target === "true") return value === true;
-        if (target === "false") return value === false;
-        return true;
+      cell: (info) => getStateBadge(info.getValue(), info.row.original.lastError),
+      meta: {
+        label: "State",
       },
+    }),
+    columnHelper.accessor("attemptCount", {
+      header: ({ column }) => (
+        <DataTableColumnHeader column={column} label="Attempts" />
+      ),
+      cell: (info) => info.getValue(),
       meta: {
-        label: "Status",
-        variant: "select",
-        options: [
-          { label: "Processed", value: "true" },
-          { label: "Pending", value: "false" },
-        ],
+        label: "Attempts",
       },
     }),
     columnHelper.accessor("payload", {
@@ -156,24 +176,46 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
       cell: (info) => {
         const item = info.row.original;
         return (
-          <Dialog>
-            <DialogTrigger asChild>
-              <Button variant="ghost" size="icon" className="h-8 w-8">
-                <Eye className="h-4 w-4" />
+          <div className="flex items-center gap-1">
+            {item.state === "failed" && (
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Replay event"
+                disabled={replayMutation.isPending}
+                onClick={() => replayMutation.mutate({ whatsappAccountId, logId: item.id })}
+              >
+                <RotateCcw className="h-4 w-4" />
               </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>Event Payload</DialogTitle>
-                <DialogDescription>
-                  Raw webhook payload from Meta
-                </DialogDescription>
-              </DialogHeader>
-              <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-xs">
-                {JSON.stringify(item.payload, null, 2)}
-              </pre>
-            </DialogContent>
-          </Dialog>
+            )}
+            <Dialog>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8">
+                  <Eye className="h-4 w-4" />
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Event Payload</DialogTitle>
+                  <DialogDescription>
+                    Raw webhook payload from Meta
+                  </DialogDescription>
+                </DialogHeader>
+                {item.lastError && (
+                  <div className="rounded-lg border border-destructive/30 bg-destructive/10 p-3 text-xs text-destructive">
+                    <p className="font-medium">
+                      Last error after {item.attemptCount} attempt{item.attemptCount === 1 ? "" : "s"}
+                    </p>
+                    <p className="mt-1 break-words">{item.lastError}</p>
+                  </div>
+                )}
+                <pre className="bg-muted p-4 rounded-lg overflow-x-auto text-xs">
+                  {JSON.stringify(item.payload, null, 2)}
+                </pre>
+              </DialogContent>
+            </Dialog>
+          </div>
         );
       },
       enableSorting: false,
@@ -216,74 +258,115 @@ export function WebhookEventLogs({ whatsappAccountId }: WebhookEventLogsProps) {
   }
 
   return (
-    <Card>
-      <CardHeader>
-        <div className="flex items-center justify-between">
-          <div>
-            <CardTitle>Webhook Event Logs</CardTitle>
-            <CardDescription>History of incoming webhook events from Meta</CardDescription>
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Webhook Event Logs</CardTitle>
+              <CardDescription>History of incoming webhook events from Meta</CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Select
+                value={stateFilter ?? "all"}
+                onValueChange={(value) => {
+                  setStateFilter(value === "all" ? undefined : (value as WebhookEventState));
+                  setPageIndex(0);
+                }}
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue placeholder="State" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All states</SelectItem>
+                  <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="processed">Processed</SelectItem>
+                  <SelectItem value="failed">Failed (dead letter)</SelectItem>
+                </SelectContent>
+              </Select>
+              <Select
+                value={eventTypeFilter ?? "all"}
+                onValueChange={(value) => {
+                  setEventTypeFilter(value === "all" ? undefined : (value as WebhookEventType));
+                  setPageIndex(0);
+                }}
+              >
+                <SelectTrigger className="h-8 w-36">
+                  <SelectValue placeholder="Event type" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All events</SelectItem>
+                  <SelectItem value="message">Message</SelectItem>
+                  <SelectItem value="status">Status</SelectItem>
+                  <SelectItem value="template_status">Template</SelectItem>
+                  <SelectItem value="other">Other</SelectItem>
+                </SelectContent>
+              </Select>
+              <ReplayFailedEventsDialog whatsappAccountId={whatsappAccountId} eventType={eventTypeFilter} />
+            </div>
           </div>
-        </div>
-      </CardHeader>
-      <CardContent>
-        <DataTableToolbar table={table} />
-        <div className="relative">
-          {isFetchingNextPage && (
-            <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
-              <Spinner className="h-5 w-5" />
+        </CardHeader>
+        <CardContent>
+          <DataTableToolbar table={table} />
+          <div className="relative">
+            {isFetchingNextPage && (
+              <div className="absolute inset-0 z-10 flex items-center justify-center bg-background/60">
+                <Spinner className="h-5 w-5" />
+              </div>
+            )}
+            <div className={isFetchingNextPage ? "opacity-0" : ""} aria-hidden={isFetchingNextPage}>
+              <DataTable table={table} showPagination={false} />
             </div>
-          )}
-          <div className={isFetchingNextPage ? "opacity-0" : ""} aria-hidden={isFetchingNextPage}>
-            <DataTable table={table} showPagination={false} />
           </div>
-        </div>
-        <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between mt-4">
-          <p className="text-sm text-muted-foreground">
-            Displaying {currentPageData.length} of {totalCount} events
-          </p>
-          <div className="flex items-center gap-2">
-            <Button
-              variant="outline"
-              disabled={pageIndex === 0}
-              onClick={() => setPageIndex((prev) => Math.max(prev - 1, 0))}
-            >
-              Previous
-            </Button>
-            <Button
-              variant="outline"
-              disabled={!hasMore && pageIndex >= pageCount - 1}
-              onClick={async () => {
-                const nextIndex = pageIndex + 1;
-                if (nextIndex > pages.length - 1 && hasMore) {
-                  await fetchNextPage();
-                }
-                setPageIndex(nextIndex);
-              }}
-            >
-              Next
-            </Button>
-            <Select
-              value={`${pageSize}`}
-              onValueChange={(value: string) => {
-                const size = Number(value);
-                setPageSize(size);
-                setPageIndex(0);
-              }}
-            >
-              <SelectTrigger className="h-8 w-20">
-                <SelectValue>{pageSize}</SelectValue>
-              </SelectTrigger>
-              <SelectContent>
-                {[10, 20, 30, 40, 50].map((size) => (
-                  <SelectItem key={size} value={`${size}`}>
-                    {size}
-                  </SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
+          <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between mt-4">
+            <p className="text-sm text-muted-foreground">
+              Displaying {currentPageData.length} of {totalCount} events
+            </p>
+            <div className="flex items-center gap-2">
+              <Button
+                variant="outline"
+                disabled={pageIndex === 0}
+                onClick={() => setPageIndex((prev) => Math.max(prev - 1, 0))}
+              >
+                Previous
+              </Button>
+              <Button
+                variant="outline"
+                disabled={!hasMore && pageIndex >= pageCount - 1}
+                onClick={async () => {
+                  const nextIndex = pageIndex + 1;
+                  if (nextIndex > pages.length - 1 && hasMore) {
+                    await fetchNextPage();
+                  }
+                  setPageIndex(nextIndex);
+                }}
+              >
+                Next
+              </Button>
+              <Select
+                value={`${pageSize}`}
+                onValueChange={(value: string) => {
+                  const size = Number(value);
+                  setPageSize(size);
+                  setPageIndex(0);
+                }}
+              >
+                <SelectTrigger className="h-8 w-20">
+                  <SelectValue>{pageSize}</SelectValue>
+                </SelectTrigger>
+                <SelectContent>
+                  {[10, 20, 30, 40, 50].map((size) => (
+                    <SelectItem key={size} value={`${size}`}>
+                      {size}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
           </div>
-        </div>
-      </CardContent>
-    </Card>
+        </CardContent>
+      </Card>
+      <WebhookSecurityLogs whatsappAccountId={whatsappAccountId} />
+    </div>
   );
 }
@@ -0,0 +1,84 @@
+"use client";
+
+import { format } from "date-fns";
+import { ShieldAlert } from "lucide-react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Spinner } from "@/components/ui/spinner";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useWebhookSecurityLogs } from "../hooks/use-webhook-config";
+import type { WebhookSecurityRejectionReason } from "../schemas/whatsapp-webhook-schema";
+
+interface WebhookSecurityLogsProps {
+  whatsappAccountId: number;
+}
+
+const reasonLabels: Record<WebhookSecurityRejectionReason, string> = {
+  missing_signature: "Missing signature",
+  invalid_signature: "Invalid signature",
+  secret_not_configured: "App secret not configured",
+};
+
+export function WebhookSecurityLogs({ whatsappAccountId }: WebhookSecurityLogsProps) {
+  const { data, isLoading, error } = useWebhookSecurityLogs(whatsappAccountId);
+  const items = data?.items ?? [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4" />
+          Rejected Requests
+        </CardTitle>
+        <CardDescription>
+          Webhook requests refused because their signature did not match the app secret
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex items-center justify-center py-8">
+            <Spinner className="h-6 w-6" />
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-destructive">Failed to load rejected requests</p>
+        ) : items.length === 0 ? (
+          <p className="py-6 text-center text-sm text-muted-foreground">No rejected requests</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Time</TableHead>
+                <TableHead>Reason</TableHead>
+                <TableHead>Source IP</TableHead>
+                <TableHead>User agent</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {items.map((item) => (
+                <TableRow key={item.id}>
+                  <TableCell>{format(item.createdAt, "MMM dd, yyyy HH:mm:ss")}</TableCell>
+                  <TableCell>
+                    <Badge variant="outline" className="text-red-600 border-red-600">
+                      {reasonLabels[item.reason] ?? item.reason}
+                    </Badge>
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">{item.sourceIp || "-"}</TableCell>
+                  <TableCell className="max-w-xs truncate text-muted-foreground" title={item.userAgent ?? undefined}>
+                    {item.userAgent || "-"}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -6,16 +6,23 @@ import {
   getWebhookConfigAction,
   upsertWebhookConfigAction,
   listWebhookEventLogsAction,
+  listWebhookSecurityLogsAction,
+  replayWebhookEventAction,
+  replayFailedWebhookEventsAction,
 } from "../actions/webhook-config.actions";
 import type {
   WebhookConfigUpsertClientInput,
   WebhookEventLogListQuery,
   WebhookConfigResponse,
   WebhookEventLogListResponse,
+  WebhookSecurityLogListResponse,
+  WebhookEventReplayClientInput,
+  WebhookEventReplayFailedClientInput,
 } from "../schemas/whatsapp-webhook-schema";
 
 const WEBHOOK_CONFIG_KEY = "webhook-config";
 const WEBHOOK_EVENT_LOGS_KEY = "webhook-event-logs";
+const WEBHOOK_SECURITY_LOGS_KEY = "webhook-security-logs";
 
 export function useWebhookConfig(whatsappAccountId: number) {
   return useQuery({
@@ -63,3 +70,49 @@ export function useWebhookEventLogs(whatsappAccountId: number, params: WebhookEv
     enabled: !!whatsappAccountId,
   });
 }
+
+export function useWebhookSecurityLogs(whatsappAccountId: number, limit: number = 20) {
+  return useQuery({
+    queryKey: [WEBHOOK_SECURITY_LOGS_KEY, whatsappAccountId, limit],
+    queryFn: async () => {
+      const result = await listWebhookSecurityLogsAction({ whatsappAccountId, limit });
+      if (!result.ok) throw new Error(result.error);
+      return result.data as WebhookSecurityLogListResponse;
+    },
+    enabled: !!whatsappAccountId,
+  });
+}
+
+export function useReplayWebhookEvent() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: WebhookEventReplayClientInput) => {
+      const result = await replayWebhookEventAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: () => {
+      toast.success("Event queued for replay");
+      queryClient.invalidateQueries({ queryKey: [WEBHOOK_EVENT_LOGS_KEY] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useReplayFailedWebhookEvents() {
+  const queryClient = useQueryClient();
+  return useMutation({
+    mutationFn: async (data: WebhookEventReplayFailedClientInput) => {
+      const result = await replayFailedWebhookEventsAction(data);
+      if (!result.ok) throw new Error(result.error);
+      return result.data;
+    },
+    onSuccess: (data) => {
+      toast.success(
+        data?.replayed ? `${data.replayed} failed event(s) queued for replay` : "No failed events in that range"
+      );
+      queryClient.invalidateQueries({ queryKey: [WEBHOOK_EVENT_LOGS_KEY] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
@@ -0,0 +1,49 @@
+import { inngest } from "@/lib/inngest";
+import { InboundMediaService } from "../services/inbound-media.service";
+
+const BACKFILL_BATCH_SIZE = 50;
+
+// Copies media for messages received before inbound media was stored. Trigger
+// with `whatsapp/media.backfill`, optionally scoped by `companyId`. Media that
+// Meta no longer serves is counted as failed and left on the live proxy.
+export const backfillInboundMedia = inngest.createFunction(
+  { id: "backfill-whatsapp-inbound-media", concurrency: 1 },
+  { event: "whatsapp/media.backfill" },
+  async ({ event, step }) => {
+    const { companyId } = (event.data ?? {}) as { companyId?: number };
+    let afterId = 0;
+    let stored = 0;
+    let failed = 0;
+
+    for (let batch = 0; ; batch++) {
+      const ids = await step.run(`list-batch-${batch}`, async () => {
+        const result = await InboundMediaService.listUnstoredMessageIds({
+          afterId,
+          limit: BACKFILL_BATCH_SIZE,
+          companyId,
+        });
+        if (!result.success || !result.data) {
+          throw new Error(result.message || "Failed to list unstored media");
+        }
+        return result.data.ids;
+      });
+
+      if (ids.length === 0) break;
+
+      const results = await step.run(`store-batch-${batch}`, async () => {
+        const outcomes: boolean[] = [];
+        for (const messageId of ids) {
+          const result = await InboundMediaService.storeMessageMedia(messageId);
+          outcomes.push(result.success);
+        }
+        return outcomes;
+      });
+
+      stored += results.filter(Boolean).length;
+      failed += results.filter((ok) => !ok).length;
+      afterId = ids[ids.length - 1]!;
+    }
+
+    return { stored, failed };
+  }
+);
@@ -1,17 +1,41 @@
 import { inngest } from "@/lib/inngest";
 import { WebhookIngestService } from "../services/webhook-ingest.service";
+import { InboundMediaService } from "../services/inbound-media.service";
 
+// Each event carries a single message or status split out of a webhook batch,
+// so a failing item is retried on its own without blocking the rest.
 export const processWebhookEvent = inngest.createFunction(
-  { id: "process-whatsapp-webhook-event" },
+  {
+    id: "process-whatsapp-webhook-event",
+    retries: 4,
+    // Retries exhausted: park the event in the dead-letter state so it can be replayed
+    onFailure: async ({ event, error }) => {
+      const { logId } = event.data.event.data as { logId: number };
+      await WebhookIngestService.markEventFailed(logId, error.message);
+    },
+  },
   { event: "whatsapp/webhook.received" },
   async ({ event, step }) => {
     const { logId } = event.data;
 
-    await step.run("process-event", async () => {
+    const { mediaMessageId } = await step.run("process-event", async () => {
       const result = await WebhookIngestService.processEvent(logId);
-      if (!result.success) {
+      if (!result.success || !result.data) {
         throw new Error(result.message || "Failed to process webhook event");
       }
+      return result.data;
     });
+
+    // Separate step so a failed download retries without reprocessing the event
+    if (mediaMessageId) {
+      await step.run("store-media", async () => {
+        const result = await InboundMediaService.storeMessageMedia(mediaMessageId);
+        if (!result.success) {
+          throw new Error(result.message || "Failed to store inbound media");
+        }
+      });
+    }
+
+    return { logId };
   }
 );
@@ -1,23 +1,34 @@
 import { z } from "zod";
 
-export const WEBHOOK_EVENT_TYPES = ["message", "status", "other"] as const;
+export const WEBHOOK_EVENT_TYPES = ["message", "status", "template_status", "other"] as const;
 export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
 
+export const WEBHOOK_EVENT_STATES = ["pending", "processed", "failed"] as const;
+export type WebhookEventState = (typeof WEBHOOK_EVENT_STATES)[number];
+
+export const WEBHOOK_LOG_ITEM_STATUSES = ["logged", "duplicate", "rejected", "failed"] as const;
+export type WebhookLogItemStatus = (typeof WEBHOOK_LOG_ITEM_STATUSES)[number];
+
+export const WEBHOOK_SECURITY_REJECTION_REASONS = [
+  "missing_signature",
+  "invalid_signature",
+  "secret_not_configured",
+] as const;
+export type WebhookSecurityRejectionReason = (typeof WEBHOOK_SECURITY_REJECTION_REASONS)[number];
+
+// Each config gets its own callback under this path, e.g. /api/webhooks/whatsapp/3f9c...
+export const WEBHOOK_CALLBACK_BASE_PATH = "/api/webhooks/whatsapp";
+
+// Shown in place of the stored app secret; submitting it back keeps the current secret
+export const WEBHOOK_SECRET_MASK = "••••••••••••••••••••••••";
+
 export const webhookConfigUpsertClientSchema = z.object({
   appSecret: z
     .string()
     .min(8, "App secret must be at least 8 characters")
     .max(255)
     .trim(),
-  callbackPath: z
-    .string()
-    .min(1, "Callback path is required")
-    .max(500)
-    .trim()
-    .refine(
-      (val) => val.startsWith("/") || val.startsWith("https://"),
-      "Callback path must start with '/' or be a full HTTPS URL"
-    ),
+  rotateVerifyToken: z.boolean().optional(),
 });
 
 export type WebhookConfigUpsertClientInput = z.infer<
@@ -41,6 +52,8 @@ export const webhookConfigResponseSchema = z.object({
   companyId: z.number().int().positive(),
   whatsappAccountId: z.number().int().positive(),
   callbackPath: z.string(),
+  verifyToken: z.string(),
+  previousAppSecretExpiresAt: z.date().nullable(),
   isActive: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
@@ -52,6 +65,8 @@ export const webhookEventLogListQuerySchema = z.object({
   cursor: z.string().optional(),
   limit: z.number().int().min(1).max(100).default(20),
   processed: z.boolean().optional(),
+  state: z.enum(WEBHOOK_EVENT_STATES).optional(),
+  eventType: z.enum(WEBHOOK_EVENT_TYPES).optional(),
 });
 
 export type WebhookEventLogListQuery = z.infer<
@@ -70,6 +85,11 @@ export const webhookEventLogResponseSchema = z.object({
   dedupKey: z.string(),
   processed: z.boolean(),
   processedAt: z.date().nullable(),
+  state: z.enum(WEBHOOK_EVENT_STATES),
+  attemptCount: z.number().int(),
+  lastError: z.string().nullable(),
+  lastAttemptAt: z.date().nullable(),
+  failedAt: z.date().nullable(),
   isActive: z.boolean(),
   createdAt: z.date(),
   updatedAt: z.date().nullable(),
@@ -92,6 +112,7 @@ export const webhookEventPayloadSchema = z.object({
   entry: z.array(
     z.object({
       id: z.string(),
+      time: z.number().optional(),
       changes: z.array(
         z.object({
           field: z.string(),
@@ -104,6 +125,97 @@ export const webhookEventPayloadSchema = z.object({
 
 export type WebhookEventPayload = z.infer<typeof webhookEventPayloadSchema>;
 
+export const webhookEventReplayClientSchema = z.object({
+  whatsappAccountId: z.number().int().positive(),
+  logId: z.number().int().positive(),
+});
+
+export type WebhookEventReplayClientInput = z.infer<typeof webhookEventReplayClientSchema>;
+
+export const webhookEventReplayFailedClientSchema = z
+  .object({
+    whatsappAccountId: z.number().int().positive(),
+    from: z.coerce.date(),
+    to: z.coerce.date(),
+    eventType: z.enum(WEBHOOK_EVENT_TYPES).optional(),
+  })
+  .refine((data) => data.from <= data.to, {
+    message: "Start of the range must be before its end",
+    path: ["to"],
+  });
+
+export type WebhookEventReplayFailedClientInput = z.infer<typeof webhookEventReplayFailedClientSchema>;
+
+export const webhookEventReplayResponseSchema = z.object({
+  replayed: z.number().int(),
+});
+
+export type WebhookEventReplayResponse = z.infer<typeof webhookEventReplayResponseSchema>;
+
+export const webhookSecurityLogListQuerySchema = z.object({
+  limit: z.number().int().min(1).max(100).default(20),
+});
+
+export type WebhookSecurityLogListQuery = z.infer<typeof webhookSecurityLogListQuerySchema>;
+
+export const webhookSecurityLogResponseSchema = z.object({
+  id: z.number().int().positive(),
+  companyId: z.number().int().positive(),
+  whatsappAccountId: z.number().int().positive(),
+  reason: z.enum(WEBHOOK_SECURITY_REJECTION_REASONS),
+  signature: z.string().nullable(),
+  sourceIp: z.string().nullable(),
+  userAgent: z.string().nullable(),
+  bodySha256: z.string().nullable(),
+  createdAt: z.date(),
+});
+
+export type WebhookSecurityLogResponse = z.infer<typeof webhookSecurityLogResponseSchema>;
+
+export const webhookSecurityLogListResponseSchema = z.object({
+  items: z.array(webhookSecurityLogResponseSchema),
+});
+
+export type WebhookSecurityLogListResponse = z.infer<typeof webhookSecurityLogListResponseSchema>;
+
+const webhookMediaSchema = z.object({
+  mime_type: z.string(),
+  sha256: z.string(),
+  id: z.string(),
+  url: z.string().optional(),
+  caption: z.string().optional(),
+});
+
+const webhookSharedContactSchema = z.object({
+  name: z.object({
+    formatted_name: z.string(),
+    first_name: z.string().optional(),
+    last_name: z.string().optional(),
+  }),
+  phones: z
+    .array(
+      z.object({
+        phone: z.string().optional(),
+        wa_id: z.string().optional(),
+        type: z.string().optional(),
+      })
+    )
+    .optional(),
+  emails: z
+    .array(
+      z.object({
+        email: z.string().optional(),
+        type: z.string().optional(),
+      })
+    )
+    .optional(),
+  org: z
+    .object({
+      company: z.string().optional(),
+    })
+    .optional(),
+});
+
 export const webhookMessagePayloadSchema = z.object({
   messaging_product: z.string(),
   metadata: z.object({
@@ -124,42 +236,66 @@ export const webhookMessagePayloadSchema = z.object({
       from: z.string(),
       timestamp: z.string(),
       type: z.string(),
+      // Present when the customer replies to (quotes) an earlier message
+      context: z
+        .object({
+          from: z.string().optional(),
+          id: z.string(),
+        })
+        .optional(),
       text: z
         .object({
           body: z.string(),
         })
         .optional(),
-      image: z
+      image: webhookMediaSchema.optional(),
+      video: webhookMediaSchema.optional(),
+      audio: webhookMediaSchema.optional(),
+      document: webhookMediaSchema
+        .extend({
+          filename: z.string().optional(),
+        })
+        .optional(),
+      sticker: webhookMediaSchema
+        .extend({
+          animated: z.boolean().optional(),
+        })
+        .optional(),
+      location: z
         .object({
-          mime_type: z.string(),
-          sha256: z.string(),
-          id: z.string(),
-          url: z.string(),
+          latitude: z.number(),
+          longitude: z.number(),
+          name: z.string().optional(),
+          address: z.string().optional(),
+          url: z.string().optional(),
         })
         .optional(),
-      video: z
+      contacts: z.array(webhookSharedContactSchema).optional(),
+      reaction: z
         .object({
-          mime_type: z.string(),
-          sha256: z.string(),
-          id: z.string(),
-          url: z.string(),
+          message_id: z.string(),
+          // Omitted when the customer removes their reaction
+          emoji: z.string().optional(),
         })
         .optional(),
-      audio: z
+      interactive: z
         .object({
-          mime_type: z.string(),
-          sha256: z.string(),
-          id: z.string(),
-          url: z.string(),
+          type: z.enum(["button_reply", "list_reply"]),
+          button_reply: z.object({ id: z.string(), title: z.string() }).optional(),
+          list_reply: z
+            .object({
+              id: z.string(),
+              title: z.string(),
+              description: z.string().optional(),
+            })
+            .optional(),
         })
         .optional(),
-      document: z
+      // Quick-reply button on a template message
+      button: z
         .object({
-          mime_type: z.string(),
-          sha256: z.string(),
-          id: z.string(),
-          url: z.string(),
-          filename: z.string().optional(),
+          payload: z.string().optional(),
+          text: z.string(),
         })
         .optional(),
     })
@@ -180,15 +316,55 @@ export const webhookStatusPayloadSchema = z.object({
       recipient_id: z.string(),
       status: z.string(),
       timestamp: z.string(),
-      conversation: z.object({
-        id: z.string(),
-        expiration_timestamp: z.number(),
-        origin: z.object({
-          type: z.string(),
-        }),
-      }),
+      conversation: z
+        .object({
+          id: z.string(),
+          expiration_timestamp: z.union([z.number(), z.string()]).optional(),
+          origin: z.object({
+            type: z.string(),
+          }),
+        })
+        .optional(),
+      errors: z
+        .array(
+          z.object({
+            code: z.number(),
+            title: z.string().optional(),
+            message: z.string().optional(),
+            error_data: z.object({ details: z.string() }).optional(),
+          })
+        )
+        .optional(),
     })
   ),
 });
 
 export type WebhookStatusPayload = z.infer<typeof webhookStatusPayloadSchema>;
+
+export const webhookTemplateStatusPayloadSchema = z.object({
+  event: z.string(),
+  message_template_id: z.union([z.number(), z.string()]),
+  message_template_name: z.string(),
+  message_template_language: z.string(),
+  reason: z.string().nullable().optional(),
+});
+
+export type WebhookTemplateStatusPayload = z.infer<typeof webhookTemplateStatusPayloadSchema>;
+
+// A single message, status or change split out of a webhook batch
+export interface WebhookEventItem {
+  payload: WebhookEventPayload;
+  eventTs: Date;
+  phoneNumberId: string | null;
+  businessAccountId: string | null;
+}
+
+export const webhookLogItemResultSchema = z.object({
+  dedupKey: z.string().nullable(),
+  eventType: z.enum(WEBHOOK_EVENT_TYPES),
+  logId: z.number().int().nullable(),
+  status: z.enum(WEBHOOK_LOG_ITEM_STATUSES),
+  error: z.string().nullable(),
+});
+
+export type WebhookLogItemResult = z.infer<typeof webhookLogItemResultSchema>;
@@ -0,0 +1,148 @@
+import { db } from "@/db/drizzle";
+import { messagesTable, whatsappAccountsTable } from "@/db/schema";
+import { Result } from "@/lib/result";
+import { createPerformanceLogger } from "@/lib/logger";
+import { UploadThingService } from "@/lib/uploadthing-service";
+import { and, asc, eq, gt, isNotNull, isNull } from "drizzle-orm";
+import { WhatsappCloudApi } from "@/lib/whatsapp-cloud-api";
+
+function buildFileName(mediaId: string, mimeType: string): string {
+  // "audio/ogg; codecs=opus" -> "ogg"
+  const extension = mimeType.split(";")[0]!.split("/")[1]?.trim() || "bin";
+  return `whatsapp-${mediaId}.${extension}`;
+}
+
+export class InboundMediaService {
+  /**
+   * Downloads an inbound message's media from the Graph API with the receiving
+   * account's token and keeps a copy in UploadThing. Safe to call repeatedly:
+   * messages that already have a stored copy are skipped.
+   */
+  static async storeMessageMedia(messageId: number): Promise<Result<{ stored: boolean }>> {
+    const perf = createPerformanceLogger("InboundMediaService.storeMessageMedia", {
+      context: { messageId },
+    });
+
+    try {
+      const [message] = await db
+        .select({
+          id: messagesTable.id,
+          companyId: messagesTable.companyId,
+          conversationId: messagesTable.conversationId,
+          mediaId: messagesTable.mediaId,
+          mediaMimeType: messagesTable.mediaMimeType,
+          storedMediaUrl: messagesTable.storedMediaUrl,
+          accessToken: whatsappAccountsTable.accessToken,
+          phoneNumberId: whatsappAccountsTable.phoneNumberId,
+        })
+        .from(messagesTable)
+        .leftJoin(
+          whatsappAccountsTable,
+          eq(messagesTable.whatsappAccountId, whatsappAccountsTable.id)
+        )
+        .where(eq(messagesTable.id, messageId))
+        .limit(1);
+
+      if (!message) {
+        perf.fail("Message not found");
+        return Result.notFound("Message not found");
+      }
+
+      if (!message.mediaId || message.storedMediaUrl) {
+        perf.complete(0);
+        return Result.ok({ stored: false });
+      }
+
+      if (!message.accessToken || !message.phoneNumberId) {
+        perf.fail("WhatsApp account not found");
+        return Result.badRequest("Message has no WhatsApp account to download media with");
+      }
+
+      const cloudApi = WhatsappCloudApi.forAccount({
+        accessToken: message.accessToken,
+        phoneNumberId: message.phoneNumberId,
+      });
+
+      const mediaInfo = await cloudApi.getMediaInfo(message.mediaId);
+      if (!mediaInfo.success || !mediaInfo.data) {
+        perf.fail(mediaInfo.message);
+        return Result.fail(mediaInfo.message, mediaInfo.error);
+      }
+
+      const media = await cloudApi.downloadMedia(mediaInfo.data.url);
+      if (!media.success || !media.data) {
+        perf.fail(media.message);
+        return Result.fail(media.message, media.error);
+      }
+      perf.checkpoint("download_complete");
+
+      const mimeType =
+        message.mediaMimeType || mediaInfo.data.mimeType || "application/octet-stream";
+
+      const uploadResult = await UploadThingService.uploadBuffer(
+        media.data.data,
+        buildFileName(message.mediaId, mimeType),
+        mimeType,
+        message.companyId,
+        message.conversationId,
+        message.id
+      );
+
+      if (!uploadResult.success || !uploadResult.data) {
+        perf.fail(uploadResult.message);
+        return Result.fail(uploadResult.message, uploadResult.error);
+      }
+
+      await db
+        .update(messagesTable)
+        .set({ storedMediaUrl: uploadResult.data.fileUrl })
+        .where(eq(messagesTable.id, message.id));
+
+      perf.complete(1);
+      return Result.ok({ stored: true });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to store inbound media";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to store inbound media");
+    }
+  }
+
+  /**
+   * Inbound media messages that have no stored copy yet, in id order so the
+   * backfill can page through them with `afterId`.
+   */
+  static async listUnstoredMessageIds(input: {
+    afterId: number;
+    limit: number;
+    companyId?: number;
+  }): Promise<Result<{ ids: number[] }>> {
+    const perf = createPerformanceLogger("InboundMediaService.listUnstoredMessageIds", {
+      context: { afterId: input.afterId, limit: input.limit, companyId: input.companyId ?? null },
+    });
+
+    try {
+      const rows = await db
+        .select({ id: messagesTable.id })
+        .from(messagesTable)
+        .where(
+          and(
+            gt(messagesTable.id, input.afterId),
+            eq(messagesTable.direction, "inbound"),
+            eq(messagesTable.isActive, true),
+            isNotNull(messagesTable.mediaId),
+            isNull(messagesTable.storedMediaUrl),
+            input.companyId ? eq(messagesTable.companyId, input.companyId) : undefined
+          )
+        )
+        .orderBy(asc(messagesTable.id))
+        .limit(input.limit);
+
+      perf.complete(rows.length);
+      return Result.ok({ ids: rows.map((row) => row.id) });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to list unstored media";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to list unstored media");
+    }
+  }
+}
@@ -3,9 +3,11 @@ import { whatsappWebhookConfigsTable, auditLogsTable } from "@/db/schema";
 import { Result } from "@/lib/result";
 import { AuditLogService } from "@/lib/audit-log.service";
 import { createPerformanceLogger } from "@/lib/logger";
-import { and, eq, sql } from "drizzle-orm";
-import bcrypt from "bcryptjs";
+import { decryptSecret, encryptSecret, reEncryptSecret } from "@/lib/secret-encryption";
+import { and, asc, eq, gt, sql } from "drizzle-orm";
 import { randomBytes } from "crypto";
+import { addHours } from "date-fns";
+import { WEBHOOK_CALLBACK_BASE_PATH, WEBHOOK_SECRET_MASK } from "../schemas/whatsapp-webhook-schema";
 import type {
   WebhookConfigUpsertServerInput,
   WebhookConfigResponse,
@@ -13,11 +15,28 @@ import type {
 
 type WebhookConfigRecord = WebhookConfigResponse;
 
+const SECRET_ROTATION_GRACE_HOURS = 24;
+
+function generateVerifyToken(): string {
+  return randomBytes(24).toString("hex");
+}
+
+function generateCallbackPath(): string {
+  return `${WEBHOOK_CALLBACK_BASE_PATH}/${randomBytes(16).toString("hex")}`;
+}
+
+// Secrets used to be stored as bcrypt hashes, which cannot be used to compute an HMAC
+function isLegacyHashedSecret(secret: string): boolean {
+  return /^\$2[aby]\$\d{2}\$/.test(secret);
+}
+
 const BASE_SELECTION = {
   id: whatsappWebhookConfigsTable.id,
   companyId: whatsappWebhookConfigsTable.companyId,
   whatsappAccountId: whatsappWebhookConfigsTable.whatsappAccountId,
   callbackPath: whatsappWebhookConfigsTable.callbackPath,
+  verifyToken: whatsappWebhookConfigsTable.verifyToken,
+  previousAppSecretExpiresAt: whatsappWebhookConfigsTable.previousAppSecretExpiresAt,
   isActive: whatsappWebhookConfigsTable.isActive,
   createdAt: whatsappWebhookConfigsTable.createdAt,
   updatedAt: whatsappWebhookConfigsTable.updatedAt,
@@ -68,14 +87,13 @@ export class WebhookConfigService {
     });
 
     try {
-      const hashedAppSecret = await bcrypt.hash(input.appSecret, 10);
-
       const result = await db.transaction(async (tx) => {
         const [existing] = await tx
           .select({
             id: whatsappWebhookConfigsTable.id,
             appSecret: whatsappWebhookConfigsTable.appSecret,
             callbackPath: whatsappWebhookConfigsTable.callbackPath,
+            verifyToken: whatsappWebhookConfigsTable.verifyToken,
           })
           .from(whatsappWebhookConfigsTable)
           .where(
@@ -86,18 +104,38 @@ export class WebhookConfigService {
           )
           .limit(1);
 
+        if (!existing && input.appSecret === WEBHOOK_SECRET_MASK) {
+          return null;
+        }
+
         const oldValues = existing
           ? {
               callbackPath: existing.callbackPath,
             }
           : null;
+        const rotatesVerifyToken = !!existing && !!input.rotateVerifyToken;
+
+        // Keep accepting the old secret for a while so the Meta app can be updated without dropping events
+        const existingSecret = existing ? decryptSecret(existing.appSecret) : null;
+        const keepsSecret = !existing || input.appSecret === WEBHOOK_SECRET_MASK;
+        const rotatesSecret =
+          !!existingSecret &&
+          !keepsSecret &&
+          existingSecret !== input.appSecret &&
+          !isLegacyHashedSecret(existingSecret);
 
         const [upserted] = existing
           ? await tx
               .update(whatsappWebhookConfigsTable)
               .set({
-                appSecret: hashedAppSecret,
-                callbackPath: input.callbackPath,
+                ...(keepsSecret ? {} : { appSecret: encryptSecret(input.appSecret) }),
+                ...(rotatesSecret
+                  ? {
+                      previousAppSecret: encryptSecret(existingSecret),
+                      previousAppSecretExpiresAt: addHours(new Date(), SECRET_ROTATION_GRACE_HOURS),
+                    }
+                  : {}),
+                ...(rotatesVerifyToken ? { verifyToken: generateVerifyToken() } : {}),
                 updatedBy: input.userId,
                 updatedAt: sql`now()`,
               })
@@ -108,8 +146,9 @@ export class WebhookConfigService {
               .values({
                 companyId: input.companyId,
                 whatsappAccountId: input.whatsappAccountId,
-                appSecret: hashedAppSecret,
-                callbackPath: input.callbackPath,
+                appSecret: encryptSecret(input.appSecret),
+                callbackPath: generateCallbackPath(),
+                verifyToken: generateVerifyToken(),
                 createdBy: input.userId,
                 updatedBy: input.userId,
               })
@@ -117,6 +156,8 @@ export class WebhookConfigService {
 
         const newValues = {
           callbackPath: upserted.callbackPath,
+          secretRotated: rotatesSecret,
+          verifyTokenRotated: rotatesVerifyToken,
         };
 
         await tx.insert(auditLogsTable).values({
@@ -133,6 +174,11 @@ export class WebhookConfigService {
         return { upserted, oldValues, newValues, isUpdate: !!existing };
       });
 
+      if (!result) {
+        perf.fail("App secret is required");
+        return Result.validation("Enter the app secret from your Meta app settings");
+      }
+
       await db.insert(auditLogsTable).values({
         entityType: "webhook_config",
         entityId: result.upserted.id,
@@ -165,10 +211,51 @@ export class WebhookConfigService {
     }
   }
 
+  /**
+   * Looks up the config Meta is verifying during the subscription handshake,
+   * either by its dedicated callback path or, on the shared path, by token.
+   */
+  static async findForVerification(
+    lookup: { callbackPath: string } | { verifyToken: string }
+  ): Promise<Result<{ id: number; companyId: number; whatsappAccountId: number; verifyToken: string; isActive: boolean } | null>> {
+    const perf = createPerformanceLogger("WebhookConfigService.findForVerification", {
+      context: { byCallbackPath: "callbackPath" in lookup },
+    });
+
+    try {
+      const [record] = await db
+        .select({
+          id: whatsappWebhookConfigsTable.id,
+          companyId: whatsappWebhookConfigsTable.companyId,
+          whatsappAccountId: whatsappWebhookConfigsTable.whatsappAccountId,
+          verifyToken: whatsappWebhookConfigsTable.verifyToken,
+          isActive: whatsappWebhookConfigsTable.isActive,
+        })
+        .from(whatsappWebhookConfigsTable)
+        .where(
+          "callbackPath" in lookup
+            ? eq(whatsappWebhookConfigsTable.callbackPath, lookup.callbackPath)
+            : eq(whatsappWebhookConfigsTable.verifyToken, lookup.verifyToken)
+        )
+        .limit(1);
+
+      perf.complete(record ? 1 : 0);
+      return Result.ok(record ?? null);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to find webhook config";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to find webhook config");
+    }
+  }
+
+  /**
+   * Secrets that are currently valid for signature verification: the active
+   * secret plus the previous one while its rotation grace period lasts.
+   */
   static async getSecrets(
     companyId: number,
     whatsappAccountId: number
-  ): Promise<Result<{ appSecret: string } | null>> {
+  ): Promise<Result<{ secrets: string[] } | null>> {
     const perf = createPerformanceLogger("WebhookConfigService.getSecrets", {
       context: { companyId, whatsappAccountId },
     });
@@ -177,6 +264,8 @@ export class WebhookConfigService {
       const [record] = await db
         .select({
           appSecret: whatsappWebhookConfigsTable.appSecret,
+          previousAppSecret: whatsappWebhookConfigsTable.previousAppSecret,
+          previousAppSecretExpiresAt: whatsappWebhookConfigsTable.previousAppSecretExpiresAt,
         })
         .from(whatsappWebhookConfigsTable)
         .where(
@@ -192,14 +281,77 @@ export class WebhookConfigService {
         return Result.ok(null);
       }
 
-      perf.complete(1);
-      return Result.ok({
-        appSecret: record.appSecret,
-      });
+      const previousIsValid =
+        !!record.previousAppSecret &&
+        !!record.previousAppSecretExpiresAt &&
+        record.previousAppSecretExpiresAt > new Date();
+
+      const secrets = [record.appSecret, previousIsValid ? record.previousAppSecret : null]
+        .map((secret) => (secret ? decryptSecret(secret) : null))
+        .filter((secret): secret is string => !!secret && !isLegacyHashedSecret(secret));
+
+      perf.complete(secrets.length);
+      return Result.ok({ secrets });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to get webhook secrets";
       perf.fail(errorMessage);
       return Result.internal("Failed to get webhook secrets");
     }
   }
+
+  /**
+   * Re-encrypts one batch of app secrets (current and previous) with the
+   * current master key, including secrets still stored as plain text.
+   */
+  static async reencryptAppSecrets(input: {
+    afterId: number;
+    limit: number;
+  }): Promise<Result<{ lastId: number | null; updated: number }>> {
+    const perf = createPerformanceLogger("WebhookConfigService.reencryptAppSecrets", {
+      context: { afterId: input.afterId, limit: input.limit },
+    });
+
+    try {
+      const rows = await db
+        .select({
+          id: whatsappWebhookConfigsTable.id,
+          appSecret: whatsappWebhookConfigsTable.appSecret,
+          previousAppSecret: whatsappWebhookConfigsTable.previousAppSecret,
+        })
+        .from(whatsappWebhookConfigsTable)
+        .where(gt(whatsappWebhookConfigsTable.id, input.afterId))
+        .orderBy(asc(whatsappWebhookConfigsTable.id))
+        .limit(input.limit);
+
+      let updated = 0;
+      for (const row of rows) {
+        const appSecret = reEncryptSecret(row.appSecret);
+        const previousAppSecret = row.previousAppSecret ? reEncryptSecret(row.previousAppSecret) : null;
+        if (!appSecret && !previousAppSecret) continue;
+
+        // Skip the row if the secret was rotated in the meantime
+        const changed = await db
+          .update(whatsappWebhookConfigsTable)
+          .set({
+            ...(appSecret ? { appSecret } : {}),
+            ...(previousAppSecret ? { previousAppSecret } : {}),
+          })
+          .where(
+            and(
+              eq(whatsappWebhookConfigsTable.id, row.id),
+              eq(whatsappWebhookConfigsTable.appSecret, row.appSecret)
+            )
+          )
+          .returning({ id: whatsappWebhookConfigsTable.id });
+        updated += changed.length;
+      }
+
+      perf.complete(updated);
+      return Result.ok({ lastId: rows.at(-1)?.id ?? null, updated });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to re-encrypt webhook secrets";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to re-encrypt webhook secrets");
+    }
+  }
 }
@@ -1,21 +1,71 @@
 import { db } from "@/db/drizzle";
-import { whatsappWebhookEventLogsTable, contactsTable, conversationsTable, messagesTable } from "@/db/schema";
+import { whatsappWebhookEventLogsTable, contactsTable, conversationsTable, messagesTable, messageReactionsTable, messageTemplatesTable, auditLogsTable } from "@/db/schema";
 import { Result } from "@/lib/result";
+import { AuditLogService } from "@/lib/audit-log.service";
+import { inngest } from "@/lib/inngest";
 import { createPerformanceLogger } from "@/lib/logger";
-import { and, eq, desc, sql } from "drizzle-orm";
-import { createHash } from "crypto";
+import { publishRealtimeEvent } from "@/lib/realtime-events";
+import { normalizeTemplateStatus } from "@/lib/whatsapp-template";
+import {
+  describeMessageContent,
+  type WhatsappMessageContent,
+  type WhatsappMessageType,
+} from "@/lib/whatsapp-message-content";
+import { and, asc, eq, desc, gte, inArray, lte, sql } from "drizzle-orm";
+import { createHash, createHmac, timingSafeEqual } from "crypto";
 import { parseISO, formatISO } from "date-fns";
-import bcrypt from "bcryptjs";
+import { TeamRoutingService } from "@/features/teams/services/team-routing.service";
 import { WebhookConfigService } from "./webhook-config.service";
 import type {
+  WebhookEventItem,
   WebhookEventPayload,
+  WebhookLogItemResult,
   WebhookMessagePayload,
   WebhookStatusPayload,
+  WebhookTemplateStatusPayload,
   WebhookEventType,
+  WebhookEventState,
   WebhookEventLogResponse,
+  WebhookEventReplayResponse,
 } from "../schemas/whatsapp-webhook-schema";
 
 type WebhookEventLogRecord = WebhookEventLogResponse;
+type WebhookMessage = WebhookMessagePayload["messages"][number];
+
+interface ParsedMessageContent {
+  messageType: WhatsappMessageType;
+  content: string;
+  contentPayload: WhatsappMessageContent | null;
+  media: {
+    id: string;
+    url: string | null;
+    mimeType: string;
+    caption: string | null;
+  } | null;
+}
+
+const SUPPORTED_MESSAGE_TYPES: readonly string[] = [
+  "text",
+  "image",
+  "video",
+  "audio",
+  "document",
+  "sticker",
+  "location",
+  "contacts",
+  "reaction",
+  "interactive",
+];
+
+const MAX_REPLAY_BATCH = 500;
+
+// Statuses each receipt may overwrite. A late `failed` never replaces `delivered` or `read`.
+const STATUS_REPLACES: Record<string, string[]> = {
+  sent: ["sending"],
+  delivered: ["sending", "sent"],
+  read: ["sending", "sent", "delivered"],
+  failed: ["sending", "sent"],
+};
 
 const BASE_SELECTION = {
   id: whatsappWebhookEventLogsTable.id,
@@ -29,27 +79,86 @@ const BASE_SELECTION = {
   dedupKey: whatsappWebhookEventLogsTable.dedupKey,
   processed: whatsappWebhookEventLogsTable.processed,
   processedAt: whatsappWebhookEventLogsTable.processedAt,
+  state: whatsappWebhookEventLogsTable.state,
+  attemptCount: whatsappWebhookEventLogsTable.attemptCount,
+  lastError: whatsappWebhookEventLogsTable.lastError,
+  lastAttemptAt: whatsappWebhookEventLogsTable.lastAttemptAt,
+  failedAt: whatsappWebhookEventLogsTable.failedAt,
   isActive: whatsappWebhookEventLogsTable.isActive,
   createdAt: whatsappWebhookEventLogsTable.createdAt,
   updatedAt: whatsappWebhookEventLogsTable.updatedAt,
 } satisfies Record<keyof WebhookEventLogRecord, unknown>;
 
 export class WebhookIngestService {
+  /**
+   * Verifies Meta's `X-Hub-Signature-256` header, an HMAC-SHA256 of the raw
+   * request body keyed with the app secret. Any of the given secrets may match
+   * so that a rotated secret keeps working during its grace period.
+   */
   static verifySignature(
     signature: string | null,
     rawBody: string,
-    appSecret: string
+    secrets: string[]
   ): boolean {
-    if (!signature) {
+    if (!signature?.startsWith("sha256=")) {
       return false;
     }
 
-    const expectedSignature = `sha256=${createHash("sha256")
-      .update(rawBody)
-      .update(appSecret)
-      .digest("hex")}`;
+    const received = Buffer.from(signature.slice("sha256=".length), "hex");
+
+    return secrets.some((secret) => {
+      const expected = createHmac("sha256", secret).update(rawBody, "utf8").digest();
+      return received.length === expected.length && timingSafeEqual(received, expected);
+    });
+  }
+
+  /**
+   * Splits a webhook payload into one item per message, status or other change.
+   * Each item keeps the envelope shape (`entry[0].changes[0].value`) so it can be
+   * logged, deduplicated and processed on its own.
+   */
+  static splitPayload(payload: WebhookEventPayload): WebhookEventItem[] {
+    const items: WebhookEventItem[] = [];
+
+    for (const entry of payload.entry ?? []) {
+      for (const change of entry.changes ?? []) {
+        const { messages, statuses, contacts, ...value } = (change.value ?? {}) as Partial<
+          WebhookMessagePayload & WebhookStatusPayload
+        >;
+
+        const pushItem = (itemValue: Record<string, unknown>, timestamp?: string) => {
+          items.push({
+            payload: {
+              object: payload.object,
+              entry: [{ id: entry.id, time: entry.time, changes: [{ field: change.field, value: itemValue }] }],
+            },
+            eventTs: timestamp
+              ? new Date(parseInt(timestamp, 10) * 1000)
+              : entry.time
+                ? new Date(entry.time * 1000)
+                : new Date(),
+            phoneNumberId: value.metadata?.phone_number_id ?? null,
+            businessAccountId: entry.id ?? null,
+          });
+        };
+
+        if (!messages?.length && !statuses?.length) {
+          pushItem({ ...value, ...(contacts ? { contacts } : {}) });
+          continue;
+        }
+
+        for (const message of messages ?? []) {
+          const contact = contacts?.find((c) => c.wa_id === message.from) ?? contacts?.[0];
+          pushItem({ ...value, contacts: contact ? [contact] : [], messages: [message] }, message.timestamp);
+        }
+
+        for (const status of statuses ?? []) {
+          pushItem({ ...value, statuses: [status] }, status.timestamp);
+        }
+      }
+    }
 
-    return signature === expectedSignature;
+    return items;
   }
 
   static async logEvent(
@@ -58,7 +167,7 @@ export class WebhookIngestService {
     payload: unknown,
     signature: string | null,
     eventTs: Date
-  ): Promise<Result<{ logId: number }>> {
+  ): Promise<Result<{ logId: number; dedupKey: string; eventType: WebhookEventType }>> {
     const perf = createPerformanceLogger("WebhookIngestService.logEvent", {
       context: { companyId, whatsappAccountId },
     });
@@ -67,7 +176,7 @@ export class WebhookIngestService {
       const parsedPayload = payload as WebhookEventPayload;
       const objectId = parsedPayload.entry?.[0]?.id ?? null;
       const eventType = WebhookIngestService.determineEventType(parsedPayload);
-      const dedupKey = WebhookIngestService.generateDedupKey(parsedPayload, eventTs);
+      const dedupKey = WebhookIngestService.generateDedupKey(parsedPayload);
 
       const [inserted] = await db
         .insert(whatsappWebhookEventLogsTable)
@@ -92,11 +201,11 @@ export class WebhookIngestService {
 
       if (!inserted) {
         perf.complete(0);
-        return Result.ok({ logId: 0 });
+        return Result.ok({ logId: 0, dedupKey, eventType });
       }
 
       perf.complete(1);
-      return Result.ok({ logId: inserted.id });
+      return Result.ok({ logId: inserted.id, dedupKey, eventType });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to log event";
       perf.fail(errorMessage);
@@ -104,13 +213,84 @@ export class WebhookIngestService {
     }
   }
 
-  static async processEvent(logId: number): Promise<Result<void>> {
+  /**
+   * Logs every item of a split batch independently so one bad item does not
+   * drop the others. Duplicates are reported rather than treated as errors.
+   */
+  static async logEvents(
+    companyId: number,
+    whatsappAccountId: number,
+    items: WebhookEventItem[],
+    signature: string | null
+  ): Promise<Result<{ items: WebhookLogItemResult[] }>> {
+    const perf = createPerformanceLogger("WebhookIngestService.logEvents", {
+      context: { companyId, whatsappAccountId, count: items.length },
+    });
+
+    const results: WebhookLogItemResult[] = [];
+
+    for (const item of items) {
+      const logResult = await WebhookIngestService.logEvent(
+        companyId,
+        whatsappAccountId,
+        item.payload,
+        signature,
+        item.eventTs
+      );
+
+      if (!logResult.success || !logResult.data) {
+        results.push({
+          dedupKey: null,
+          eventType: WebhookIngestService.determineEventType(item.payload),
+          logId: null,
+          status: "failed",
+          error: logResult.message,
+        });
+        continue;
+      }
+
+      const { logId, dedupKey, eventType } = logResult.data;
+      results.push({
+        dedupKey,
+        eventType,
+        logId: logId > 0 ? logId : null,
+        status: logId > 0 ? "logged" : "duplicate",
+        error: null,
+      });
+    }
+
+    const failed = results.filter((result) => result.status === "failed").length;
+    if (failed > 0) {
+      perf.fail(`${failed} of ${items.length} webhook items failed to log`);
+    } else {
+      perf.complete(results.length);
+    }
+
+    return Result.ok({ items: results });
+  }
+
+  static async processEvent(logId: number): Promise<Result<{ mediaMessageId: number | null }>> {
     const perf = createPerformanceLogger("WebhookIngestService.processEvent", {
       context: { logId },
     });
 
     try {
+      // Counted outside the transaction so failed attempts are recorded too
+      await db
+        .update(whatsappWebhookEventLogsTable)
+        .set({
+          attemptCount: sql`${whatsappWebhookEventLogsTable.attemptCount} + 1`,
+          lastAttemptAt: sql`now()`,
+        })
+        .where(
+          and(
+            eq(whatsappWebhookEventLogsTable.id, logId),
+            eq(whatsappWebhookEventLogsTable.processed, false)
+          )
+        );
+
       const result = await db.transaction(async (tx) => {
+        // Row lock: a replay racing a retry must not apply the same event twice
         const [log] = await tx
           .select({
             id: whatsappWebhookEventLogsTable.id,
@@ -121,21 +301,23 @@ export class WebhookIngestService {
           })
           .from(whatsappWebhookEventLogsTable)
           .where(eq(whatsappWebhookEventLogsTable.id, logId))
-          .limit(1);
+          .limit(1)
+          .for("update");
 
         if (!log) {
           return null;
         }
 
         if (log.processed) {
-          return { alreadyProcessed: true };
+          return { alreadyProcessed: true, mediaMessageId: null };
         }
 
         const payload = log.payload as WebhookEventPayload;
         const eventType = WebhookIngestService.determineEventType(payload);
+        let mediaMessageId: number | null = null;
 
         if (eventType === "message") {
-          await WebhookIngestService.processMessage(
+          mediaMessageId = await WebhookIngestService.processMessage(
             tx,
             log.companyId,
             log.whatsappAccountId,
@@ -148,6 +330,12 @@ export class WebhookIngestService {
             log.whatsappAccountId,
             payload
           );
+        } else if (eventType === "template_status") {
+          await WebhookIngestService.processTemplateStatus(
+            tx,
+            log.companyId,
+            payload
+          );
         }
 
         await tx
@@ -155,11 +343,14 @@ export class WebhookIngestService {
           .set({
             processed: true,
             processedAt: sql`now()`,
+            state: "processed",
+            lastError: null,
+            failedAt: null,
             updatedAt: sql`now()`,
           })
           .where(eq(whatsappWebhookEventLogsTable.id, logId));
 
-        return { success: true };
+        return { alreadyProcessed: false, mediaMessageId };
       });
 
       if (!result) {
@@ -169,24 +360,189 @@ export class WebhookIngestService {
 
       if (result.alreadyProcessed) {
         perf.complete(0);
-        return Result.ok(undefined);
+        return Result.ok({ mediaMessageId: null });
       }
 
       perf.complete(1);
-      return Result.ok(undefined);
+      return Result.ok({ mediaMessageId: result.mediaMessageId });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to process event";
       perf.fail(errorMessage);
+      await db
+        .update(whatsappWebhookEventLogsTable)
+        .set({ lastError: errorMessage, updatedAt: sql`now()` })
+        .where(eq(whatsappWebhookEventLogsTable.id, logId))
+        .catch(() => undefined);
       return Result.internal("Failed to process event");
     }
   }
 
+  /**
+   * Moves an event to the dead-letter state once Inngest has exhausted its retries.
+   */
+  static async markEventFailed(logId: number, errorMessage: string): Promise<Result<void>> {
+    const perf = createPerformanceLogger("WebhookIngestService.markEventFailed", {
+      context: { logId },
+    });
+
+    try {
+      await db
+        .update(whatsappWebhookEventLogsTable)
+        .set({
+          state: "failed",
+          lastError: errorMessage,
+          failedAt: sql`now()`,
+          updatedAt: sql`now()`,
+        })
+        .where(
+          and(
+            eq(whatsappWebhookEventLogsTable.id, logId),
+            eq(whatsappWebhookEventLogsTable.processed, false)
+          )
+        );
+
+      perf.complete(1);
+      return Result.ok(undefined);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Failed to mark event as failed";
+      perf.fail(message);
+      return Result.internal("Failed to mark event as failed");
+    }
+  }
+
+  /**
+   * Re-emits `whatsapp/webhook.received` for failed events. Events that were
+   * processed in the meantime are skipped, and `processEvent` is a no-op for
+   * anything already applied, so replays never duplicate messages.
+   */
+  static async replayEvents(
+    input: {
+      companyId: number;
+      whatsappAccountId: number;
+      userId: number;
+    } & ({ logId: number } | { from: Date; to: Date; eventType?: WebhookEventType })
+  ): Promise<Result<WebhookEventReplayResponse>> {
+    const perf = createPerformanceLogger("WebhookIngestService.replayEvents", {
+      context: {
+        companyId: input.companyId,
+        whatsappAccountId: input.whatsappAccountId,
+        logId: "logId" in input ? input.logId : null,
+      },
+    });
+
+    try {
+      const selection =
+        "logId" in input
+          ? eq(whatsappWebhookEventLogsTable.id, input.logId)
+          : and(
+              eq(whatsappWebhookEventLogsTable.state, "failed"),
+              gte(whatsappWebhookEventLogsTable.eventTs, input.from),
+              lte(whatsappWebhookEventLogsTable.eventTs, input.to),
+              input.eventType ? eq(whatsappWebhookEventLogsTable.eventType, input.eventType) : undefined
+            );
+
+      const replayed = await db.transaction(async (tx) => {
+        const rows = await tx
+          .update(whatsappWebhookEventLogsTable)
+          .set({
+            state: "pending",
+            failedAt: null,
+            updatedBy: input.userId,
+            updatedAt: sql`now()`,
+          })
+          .where(
+            and(
+              eq(whatsappWebhookEventLogsTable.companyId, input.companyId),
+              eq(whatsappWebhookEventLogsTable.whatsappAccountId, input.whatsappAccountId),
+              eq(whatsappWebhookEventLogsTable.processed, false),
+              inArray(
+                whatsappWebhookEventLogsTable.id,
+                tx
+                  .select({ id: whatsappWebhookEventLogsTable.id })
+                  .from(whatsappWebhookEventLogsTable)
+                  .where(
+                    and(
+                      eq(whatsappWebhookEventLogsTable.companyId, input.companyId),
+                      eq(whatsappWebhookEventLogsTable.whatsappAccountId, input.whatsappAccountId),
+                      selection
+                    )
+                  )
+                  .orderBy(asc(whatsappWebhookEventLogsTable.eventTs))
+                  .limit(MAX_REPLAY_BATCH)
+              )
+            )
+          )
+          .returning({
+            id: whatsappWebhookEventLogsTable.id,
+            attemptCount: whatsappWebhookEventLogsTable.attemptCount,
+          });
+
+        await tx.insert(auditLogsTable).values({
+          entityType: "webhook_event_log",
+          entityId: "logId" in input ? input.logId : input.whatsappAccountId,
+          companyId: input.companyId,
+          action: "REPLAY_ATTEMPT",
+          oldValues: null,
+          newValues: { whatsappAccountId: input.whatsappAccountId, logIds: rows.map((row) => row.id) },
+          changedBy: input.userId,
+          changeReason: "Webhook events queued for replay",
+        });
+
+        return rows;
+      });
+
+      if ("logId" in input && replayed.length === 0) {
+        perf.fail("Event not found or already processed");
+        return Result.notFound("Event not found or already processed");
+      }
+
+      if (replayed.length > 0) {
+        // Event ids make repeated sends of the same replay collapse into one run
+        await inngest.send(
+          replayed.map((row) => ({
+            id: `webhook-log-${row.id}-replay-${row.attemptCount}`,
+            name: "whatsapp/webhook.received",
+            data: { logId: row.id },
+          }))
+        );
+      }
+
+      await db.insert(auditLogsTable).values({
+        entityType: "webhook_event_log",
+        entityId: "logId" in input ? input.logId : input.whatsappAccountId,
+        companyId: input.companyId,
+        action: "REPLAY_SUCCESS",
+        oldValues: null,
+        newValues: { whatsappAccountId: input.whatsappAccountId, replayed: replayed.length },
+        changedBy: input.userId,
+        changeReason: "Webhook events replayed",
+      });
+
+      perf.complete(replayed.length);
+      return Result.ok({ replayed: replayed.length }, `${replayed.length} event(s) queued for replay`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to replay webhook events";
+      perf.fail(errorMessage);
+      await AuditLogService.logFailure({
+        entityType: "webhook_event_log",
+        entityId: "logId" in input ? input.logId : null,
+        companyId: input.companyId,
+        userId: input.userId,
+        action: "REPLAY",
+        error: errorMessage,
+      });
+      return Result.internal("Failed to replay webhook events");
+    }
+  }
+
   static async listEventLogs(
     companyId: number,
     whatsappAccountId: number,
     cursor?: string,
     limit: number = 20,
-    processed?: boolean
+    processed?: boolean,
+    state?: WebhookEventState,
+    eventType?: WebhookEventType
   ): Promise<
     Result<{
       items: WebhookEventLogRecord[];
@@ -214,9 +570,18 @@ export class WebhookIngestService {
           ? eq(whatsappWebhookEventLogsTable.processed, processed)
           : undefined;
 
-      const baseWhere: Array<typeof companyFilter | typeof accountFilter | typeof processedFilter> = [companyFilter, accountFilter, processedFilter].filter(
-        Boolean
-      );
+      const stateFilter = state ? eq(whatsappWebhookEventLogsTable.state, state) : undefined;
+      const eventTypeFilter = eventType
+        ? eq(whatsappWebhookEventLogsTable.eventType, eventType)
+        : undefined;
+
+      const baseWhere: Array<typeof companyFilter | typeof accountFilter | typeof processedFilter> = [
+        companyFilter,
+        accountFilter,
+        processedFilter,
+        stateFilter,
+        eventTypeFilter,
+      ].filter(Boolean);
 
       const cursorCondition = parsedCursor
         ? sql`(${whatsappWebhookEventLogsTable.eventTs}, ${whatsappWebhookEventLogsTable.id}) < (${parsedCursor.eventTs}, ${parsedCursor.id})`
@@ -255,6 +620,7 @@ export class WebhookIngestService {
         items: items.map((item) => ({
           ...item,
           eventType: item.eventType as WebhookEventType,
+          state: item.state as WebhookEventState,
         })),
         nextCursor,
         hasMore,
@@ -266,37 +632,47 @@ export class WebhookIngestService {
     }
   }
 
-  private static determineEventType(
+  static determineEventType(
     payload: WebhookEventPayload
   ): WebhookEventType {
     const firstChange = payload.entry?.[0]?.changes?.[0];
     if (!firstChange) return "other";
 
     if (firstChange.field === "messages") {
+      // Delivery receipts arrive on the same field, carrying `statuses` instead of `messages`
+      if (!firstChange.value?.messages?.length && firstChange.value?.statuses?.length) {
+        return "status";
+      }
       return "message";
     } else if (firstChange.field === "message_template_status_update") {
-      return "status";
+      return "template_status";
     }
 
     return "other";
   }
 
-  private static generateDedupKey(
-    payload: WebhookEventPayload,
-    eventTs: Date
-  ): string {
+  /**
+   * Keys are built from the payload alone so that a redelivery of the same
+   * event collides with the first one, whenever it arrives.
+   */
+  private static generateDedupKey(payload: WebhookEventPayload): string {
     const firstEntry = payload.entry?.[0];
     const firstChange = firstEntry?.changes?.[0];
+    const digest = (content: unknown) =>
+      createHash("sha256").update(JSON.stringify(content)).digest("hex").slice(0, 32);
 
     if (firstChange?.value?.messages?.[0]?.id) {
       return `msg_${firstChange.value.messages[0].id}`;
     } else if (firstChange?.value?.statuses?.[0]?.id) {
-      return `status_${firstChange.value.statuses[0].id}`;
+      // A message reports sent, delivered and read separately, so the status is part of the key
+      return `status_${firstChange.value.statuses[0].id}_${firstChange.value.statuses[0].status}`;
+    } else if (firstChange?.field === "message_template_status_update" && firstChange.value?.message_template_id) {
+      return `template_${firstChange.value.message_template_id}_${firstChange.value.event}_${digest({ time: firstEntry?.time, value: firstChange.value })}`;
     } else if (firstEntry?.id) {
-      return `entry_${firstEntry.id}_${formatISO(eventTs)}`;
+      return `entry_${firstEntry.id}_${firstChange?.field ?? "unknown"}_${digest({ time: firstEntry.time, value: firstChange?.value })}`;
     }
 
-    return `unknown_${formatISO(eventTs)}`;
+    return `unknown_${digest(payload)}`;
   }
 
   private static async processMessage(
@@ -304,19 +680,41 @@ export class WebhookIngestService {
     companyId: number,
     whatsappAccountId: number,
     payload: WebhookEventPayload
-  ): Promise<void> {
+  ): Promise<number | null> {
     const firstChange = payload.entry?.[0]?.changes?.[0];
     const messagePayload = firstChange?.value as WebhookMessagePayload;
 
     if (!messagePayload?.messages?.[0]) {
-      return;
+      return null;
     }
 
     const message = messagePayload.messages[0];
     const contact = messagePayload.contacts?.[0];
 
     if (!contact) {
-      return;
+      return null;
+    }
+
+    // Reactions attach to the message they target instead of becoming a message
+    if (message.type === "reaction") {
+      await WebhookIngestService.processReaction(tx, companyId, message);
+      return null;
+    }
+
+    // Replays must not duplicate a message that an earlier attempt already stored
+    const [existingMessage] = await tx
+      .select({ id: messagesTable.id })
+      .from(messagesTable)
+      .where(
+        and(
+          eq(messagesTable.companyId, companyId),
+          eq(messagesTable.providerMessageId, message.id)
+        )
+      )
+      .limit(1);
+
+    if (existingMessage) {
+      return null;
     }
 
     const phoneNumber = contact.wa_id;
@@ -352,16 +750,13 @@ export class WebhookIngestService {
       .limit(1);
 
     if (!contactRecord) {
-      return;
+      return null;
     }
 
-    const mediaUrl = message.image?.url || message.video?.url || message.audio?.url || message.document?.url || null;
-    const mediaType = message.type === "image" || message.type === "video" || message.type === "audio" || message.type === "document" ? message.type : null;
-    const mediaId = message.image?.id || message.video?.id || message.audio?.id || message.document?.id || null;
-    const mediaMimeType = message.image?.mime_type || message.video?.mime_type || message.audio?.mime_type || message.document?.mime_type || null;
-    const messageContent = message.text?.body || (mediaType === "image" ? "📷 Photo" : mediaType ? `[${mediaType}]` : "[Media]");
+    const parsed = WebhookIngestService.parseMessageContent(message);
+    const messageContent = parsed.content;
 
-    await tx
+    const [conversationRecord] = await tx
       .insert(conversationsTable)
       .values({
         companyId,
@@ -369,6 +764,8 @@ export class WebhookIngestService {
         whatsappAccountId,
         lastMessagePreview: messageContent,
         lastMessageTime: ts,
+        lastInboundAt: ts,
+        unreadCount: 1,
         isActive: true,
       })
       .onConflictDoUpdate({
@@ -376,26 +773,49 @@ export class WebhookIngestService {
         set: {
           lastMessagePreview: messageContent,
           lastMessageTime: ts,
+          // Incremented in the upsert itself so concurrent deliveries cannot lose a count
+          unreadCount: sql`${conversationsTable.unreadCount} + 1`,
+          // Webhooks can arrive out of order; never move the window backwards
+          lastInboundAt: sql`greatest(${conversationsTable.lastInboundAt}, ${ts})`,
+          // A customer writing back reopens pending, snoozed and resolved conversations
+          status: "open",
+          snoozedUntil: null,
           updatedAt: sql`now()`,
         },
+      })
+      // xmax is only zero on a freshly inserted row, not one the upsert updated
+      .returning({ id: conversationsTable.id, isNew: sql<boolean>`(xmax = 0)` });
+
+    if (!conversationRecord) {
+      return null;
+    }
+
+    if (conversationRecord.isNew) {
+      await TeamRoutingService.routeNewConversation(tx, {
+        companyId,
+        conversationId: conversationRecord.id,
+        whatsappAccountId,
+        messageText: messageContent,
       });
+    }
 
-    const [conversationRecord] = await tx
-      .select({ id: conversationsTable.id })
-      .from(conversationsTable)
-      .where(
-        and(
-          eq(conversationsTable.companyId, companyId),
-          eq(conversationsTable.contactId, contactRecord.id)
+    const replyToProviderMessageId = message.context?.id ?? null;
+    let replyToMessageId: number | null = null;
+    if (replyToProviderMessageId) {
+      const [quoted] = await tx
+        .select({ id: messagesTable.id })
+        .from(messagesTable)
+        .where(
+          and(
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.providerMessageId, replyToProviderMessageId)
+          )
         )
-      )
-      .limit(1);
-
-    if (!conversationRecord) {
-      return;
+        .limit(1);
+      replyToMessageId = quoted?.id ?? null;
     }
 
-    await tx.insert(messagesTable).values({
+    const [inserted] = await tx.insert(messagesTable).values({
       conversationId: conversationRecord.id,
       companyId,
       contactId: contactRecord.id,
@@ -403,15 +823,199 @@ export class WebhookIngestService {
       direction: "inbound",
       status: "delivered",
       content: messageContent,
-      mediaUrl,
-      mediaType,
-      mediaId,
-      mediaMimeType,
-      mediaCaption: null,
+      messageType: parsed.messageType,
+      contentPayload: parsed.contentPayload,
+      mediaUrl: parsed.media?.url ?? null,
+      mediaType: parsed.media ? parsed.messageType : null,
+      mediaId: parsed.media?.id ?? null,
+      mediaMimeType: parsed.media?.mimeType ?? null,
+      mediaCaption: parsed.media?.caption ?? null,
       providerMessageId: message.id,
+      replyToMessageId,
+      replyToProviderMessageId,
       isActive: true,
       createdAt: ts,
+    }).returning();
+
+    await publishRealtimeEvent(tx, {
+      type: "message.created",
+      companyId,
+      conversationId: conversationRecord.id,
+      messageId: inserted.id,
+      message: inserted,
+    });
+    await publishRealtimeEvent(tx, {
+      type: "conversation.updated",
+      companyId,
+      conversationId: conversationRecord.id,
+      changes: {
+        lastMessagePreview: messageContent,
+        lastMessageTime: ts,
+        lastInboundAt: ts,
+        status: "open",
+        snoozedUntil: null,
+      },
     });
+
+    // Media is copied to our storage after the transaction commits
+    return parsed.media ? inserted.id : null;
+  }
+
+  private static async processReaction(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    companyId: number,
+    message: WebhookMessage
+  ): Promise<void> {
+    if (!message.reaction) {
+      return;
+    }
+
+    const [target] = await tx
+      .select({ id: messagesTable.id, conversationId: messagesTable.conversationId })
+      .from(messagesTable)
+      .where(
+        and(
+          eq(messagesTable.companyId, companyId),
+          eq(messagesTable.providerMessageId, message.reaction.message_id)
+        )
+      )
+      .limit(1);
+
+    if (!target) {
+      return;
+    }
+
+    const reactionsChanged = {
+      type: "message.reactions_changed",
+      companyId,
+      conversationId: target.conversationId,
+      messageId: target.id,
+    } as const;
+
+    // An empty emoji means the customer removed their reaction
+    if (!message.reaction.emoji) {
+      await tx
+        .delete(messageReactionsTable)
+        .where(
+          and(
+            eq(messageReactionsTable.messageId, target.id),
+            eq(messageReactionsTable.direction, "inbound")
+          )
+        );
+      await publishRealtimeEvent(tx, reactionsChanged);
+      return;
+    }
+
+    await tx
+      .insert(messageReactionsTable)
+      .values({
+        companyId,
+        messageId: target.id,
+        direction: "inbound",
+        emoji: message.reaction.emoji,
+        providerMessageId: message.id,
+      })
+      .onConflictDoUpdate({
+        target: [messageReactionsTable.messageId, messageReactionsTable.direction],
+        set: {
+          emoji: message.reaction.emoji,
+          providerMessageId: message.id,
+          updatedAt: sql`now()`,
+        },
+      });
+    await publishRealtimeEvent(tx, reactionsChanged);
+  }
+
+  /**
+   * Maps a webhook message onto the typed content model. Types we do not
+   * model are kept as `unsupported` so the conversation still shows them.
+   */
+  private static parseMessageContent(message: WebhookMessage): ParsedMessageContent {
+    const type = SUPPORTED_MESSAGE_TYPES.includes(message.type)
+      ? (message.type as WhatsappMessageType)
+      : message.button
+        ? "interactive"
+        : "unsupported";
+
+    let contentPayload: WhatsappMessageContent | null = null;
+    let media: ParsedMessageContent["media"] = null;
+
+    const mediaPart =
+      type === "image" || type === "video" || type === "audio" || type === "document" || type === "sticker"
+        ? message[type]
+        : undefined;
+    if (mediaPart) {
+      media = {
+        id: mediaPart.id,
+        url: mediaPart.url ?? null,
+        mimeType: mediaPart.mime_type,
+        caption: mediaPart.caption ?? null,
+      };
+    }
+
+    if (type === "document") {
+      contentPayload = { type: "document", filename: message.document?.filename ?? null };
+    } else if (type === "sticker") {
+      contentPayload = { type: "sticker", animated: message.sticker?.animated ?? false };
+    } else if (type === "location" && message.location) {
+      contentPayload = {
+        type: "location",
+        latitude: message.location.latitude,
+        longitude: message.location.longitude,
+        name: message.location.name ?? null,
+        address: message.location.address ?? null,
+      };
+    } else if (type === "contacts" && message.contacts) {
+      contentPayload = {
+        type: "contacts",
+        contacts: message.contacts.map((contact) => ({
+          name: contact.name.formatted_name,
+          phones: (contact.phones ?? [])
+            .filter((phone) => phone.phone || phone.wa_id)
+            .map((phone) => ({
+              phone: phone.phone ?? phone.wa_id!,
+              type: phone.type ?? null,
+              waId: phone.wa_id ?? null,
+            })),
+          emails: (contact.emails ?? [])
+            .map((email) => email.email)
+            .filter((email): email is string => !!email),
+          organization: contact.org?.company ?? null,
+        })),
+      };
+    } else if (type === "reaction" && message.reaction) {
+      contentPayload = {
+        type: "reaction",
+        targetMessageId: message.reaction.message_id,
+        emoji: message.reaction.emoji || null,
+      };
+    } else if (type === "interactive") {
+      const reply = message.interactive?.button_reply ?? message.interactive?.list_reply;
+      if (reply) {
+        contentPayload = {
+          type: "interactive",
+          replyType: message.interactive!.type,
+          replyId: reply.id,
+          title: reply.title,
+          description: message.interactive?.list_reply?.description ?? null,
+        };
+      } else if (message.button) {
+        contentPayload = {
+          type: "interactive",
+          replyType: "button",
+          replyId: message.button.payload ?? null,
+          title: message.button.text,
+          description: null,
+        };
+      }
+    }
+
+    const content =
+      type === "text" && message.text?.body
+        ? message.text.body
+        : describeMessageContent(type, contentPayload, media?.caption);
+
+    return { messageType: type, content, contentPayload, media };
   }
 
   private static async processStatus(
@@ -423,22 +1027,100 @@ export class WebhookIngestService {
     const firstChange = payload.entry?.[0]?.changes?.[0];
     const statusPayload = firstChange?.value as WebhookStatusPayload;
 
-    if (!statusPayload?.statuses?.[0]) {
+    for (const status of statusPayload?.statuses ?? []) {
+      const replaceable = STATUS_REPLACES[status.status];
+      if (!replaceable) {
+        continue;
+      }
+
+      const ts = new Date(parseInt(status.timestamp, 10) * 1000);
+      const error = status.errors?.[0];
+      const errorCode = error ? String(error.code) : null;
+      const errorMessage = error?.error_data?.details ?? error?.message ?? error?.title ?? null;
+      const advances = inArray(messagesTable.status, replaceable);
+
+      // Receipts can arrive out of order; only move the status forward and keep the first timestamp of each.
+      // A late failure on a delivered or read message leaves its provider status and error fields alone too.
+      const updated = await tx
+        .update(messagesTable)
+        .set({
+          status: sql`case when ${advances} then ${status.status} else ${messagesTable.status} end`,
+          providerStatus: sql`case when ${advances} then ${status.status} else ${messagesTable.providerStatus} end`,
+          ...(status.status !== "failed" ? { sentAt: sql`coalesce(${messagesTable.sentAt}, ${ts})` } : {}),
+          ...(status.status === "delivered" || status.status === "read"
+            ? { deliveredAt: sql`coalesce(${messagesTable.deliveredAt}, ${ts})` }
+            : {}),
+          ...(status.status === "read" ? { readAt: sql`coalesce(${messagesTable.readAt}, ${ts})` } : {}),
+          ...(status.status === "failed"
+            ? {
+                failedAt: sql`case when ${advances} then coalesce(${messagesTable.failedAt}, ${ts}) else ${messagesTable.failedAt} end`,
+                errorCode: sql`case when ${advances} then ${errorCode} else ${messagesTable.errorCode} end`,
+                errorMessage: sql`case when ${advances} then ${errorMessage} else ${messagesTable.errorMessage} end`,
+              }
+            : {}),
+          updatedAt: sql`now()`,
+        })
+        .where(
+          and(
+            eq(messagesTable.companyId, companyId),
+            eq(messagesTable.whatsappAccountId, whatsappAccountId),
+            eq(messagesTable.providerMessageId, status.id)
+          )
+        )
+        .returning({
+          id: messagesTable.id,
+          conversationId: messagesTable.conversationId,
+          status: messagesTable.status,
+          providerStatus: messagesTable.providerStatus,
+          errorCode: messagesTable.errorCode,
+          errorMessage: messagesTable.errorMessage,
+          sentAt: messagesTable.sentAt,
+          deliveredAt: messagesTable.deliveredAt,
+          readAt: messagesTable.readAt,
+          failedAt: messagesTable.failedAt,
+        });
+
+      for (const { id, conversationId, ...changes } of updated) {
+        await publishRealtimeEvent(tx, {
+          type: "message.status_changed",
+          companyId,
+          conversationId,
+          messageId: id,
+          changes,
+        });
+      }
+    }
+  }
+
+  private static async processTemplateStatus(
+    tx: Parameters<Parameters<typeof db.transaction>[0]>[0],
+    companyId: number,
+    payload: WebhookEventPayload
+  ): Promise<void> {
+    const firstChange = payload.entry?.[0]?.changes?.[0];
+    const templatePayload = firstChange?.value as WebhookTemplateStatusPayload;
+
+    if (!templatePayload?.message_template_id) {
       return;
     }
 
-    const status = statusPayload.statuses[0];
+    const rejectedReason =
+      templatePayload.reason && templatePayload.reason !== "NONE"
+        ? templatePayload.reason
+        : null;
 
+    // Templates are shared by every number on the Business Account, so update all copies
     await tx
-      .update(messagesTable)
+      .update(messageTemplatesTable)
       .set({
-        providerStatus: status.status,
+        status: normalizeTemplateStatus(templatePayload.event),
+        rejectedReason,
         updatedAt: sql`now()`,
       })
       .where(
         and(
-          eq(messagesTable.companyId, companyId),
-          eq(messagesTable.providerMessageId, status.id)
+          eq(messageTemplatesTable.companyId, companyId),
+          eq(messageTemplatesTable.providerTemplateId, String(templatePayload.message_template_id))
         )
       );
   }
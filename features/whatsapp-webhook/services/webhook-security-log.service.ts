@@ -0,0 +1,101 @@
+import { db } from "@/db/drizzle";
+import { whatsappWebhookSecurityLogsTable } from "@/db/schema";
+import { Result } from "@/lib/result";
+import { createPerformanceLogger } from "@/lib/logger";
+import { and, desc, eq } from "drizzle-orm";
+import { createHash } from "crypto";
+import type {
+  WebhookSecurityLogResponse,
+  WebhookSecurityLogListResponse,
+  WebhookSecurityRejectionReason,
+} from "../schemas/whatsapp-webhook-schema";
+
+type WebhookSecurityLogRecord = WebhookSecurityLogResponse;
+
+const BASE_SELECTION = {
+  id: whatsappWebhookSecurityLogsTable.id,
+  companyId: whatsappWebhookSecurityLogsTable.companyId,
+  whatsappAccountId: whatsappWebhookSecurityLogsTable.whatsappAccountId,
+  reason: whatsappWebhookSecurityLogsTable.reason,
+  signature: whatsappWebhookSecurityLogsTable.signature,
+  sourceIp: whatsappWebhookSecurityLogsTable.sourceIp,
+  userAgent: whatsappWebhookSecurityLogsTable.userAgent,
+  bodySha256: whatsappWebhookSecurityLogsTable.bodySha256,
+  createdAt: whatsappWebhookSecurityLogsTable.createdAt,
+} satisfies Record<keyof WebhookSecurityLogRecord, unknown>;
+
+export class WebhookSecurityLogService {
+  static async recordRejection(input: {
+    companyId: number;
+    whatsappAccountId: number;
+    reason: WebhookSecurityRejectionReason;
+    signature: string | null;
+    sourceIp: string | null;
+    userAgent: string | null;
+    rawBody: string;
+  }): Promise<Result<void>> {
+    const perf = createPerformanceLogger("WebhookSecurityLogService.recordRejection", {
+      context: {
+        companyId: input.companyId,
+        whatsappAccountId: input.whatsappAccountId,
+        reason: input.reason,
+      },
+    });
+
+    try {
+      // Only a digest of the body is kept; rejected payloads are untrusted
+      await db.insert(whatsappWebhookSecurityLogsTable).values({
+        companyId: input.companyId,
+        whatsappAccountId: input.whatsappAccountId,
+        reason: input.reason,
+        signature: input.signature?.slice(0, 255) ?? null,
+        sourceIp: input.sourceIp,
+        userAgent: input.userAgent?.slice(0, 500) ?? null,
+        bodySha256: createHash("sha256").update(input.rawBody).digest("hex"),
+      });
+
+      perf.complete(1);
+      return Result.ok(undefined);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to record webhook rejection";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to record webhook rejection");
+    }
+  }
+
+  static async list(
+    companyId: number,
+    whatsappAccountId: number,
+    limit: number = 20
+  ): Promise<Result<WebhookSecurityLogListResponse>> {
+    const perf = createPerformanceLogger("WebhookSecurityLogService.list", {
+      context: { companyId, whatsappAccountId },
+    });
+
+    try {
+      const items = await db
+        .select(BASE_SELECTION)
+        .from(whatsappWebhookSecurityLogsTable)
+        .where(
+          and(
+            eq(whatsappWebhookSecurityLogsTable.companyId, companyId),
+            eq(whatsappWebhookSecurityLogsTable.whatsappAccountId, whatsappAccountId)
+          )
+        )
+        .orderBy(desc(whatsappWebhookSecurityLogsTable.createdAt), desc(whatsappWebhookSecurityLogsTable.id))
+        .limit(limit);
+
+      perf.complete(items.length);
+      return Result.ok({
+        items: items.map((item) => ({
+          ...item,
+          reason: item.reason as WebhookSecurityRejectionReason,
+        })),
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to list webhook security logs";
+      perf.fail(errorMessage);
+      return Result.internal("Failed to list webhook security logs");
+    }
+  }
+}
@@ -0,0 +1,10 @@
+"use client";
+
+import { useSession } from "next-auth/react";
+import { hasPermission, type Permission } from "@/lib/permissions";
+
+/** Whether the signed-in user's role grants `permission`. False while the session loads. */
+export function usePermission(permission: Permission): boolean {
+  const { data: session } = useSession();
+  return hasPermission(session?.user?.role, permission);
+}
@@ -0,0 +1,106 @@
+/**
+ * Role based access control. Every server action declares the permission it
+ * needs (see `ActionOptions.permission`), pages are guarded by route prefix in
+ * auth.config.ts, and the UI hides controls with `usePermission`.
+ */
+
+export const USER_ROLES = ["admin", "manager", "agent", "viewer"] as const;
+export type UserRole = (typeof USER_ROLES)[number];
+
+export const PERMISSIONS = [
+  "conversations.view",
+  // See every conversation instead of only assigned ones and granted accounts
+  "conversations.viewAll",
+  "conversations.reply",
+  "conversations.assign",
+  "conversations.archive",
+  "conversations.delete",
+  "contacts.update",
+  "conversationNotes.write",
+  "tags.apply",
+  "tags.manage",
+  "users.view",
+  "users.manage",
+  "users.resetPassword",
+  "teams.manage",
+  "orders.view",
+  "orders.create",
+  "orders.update",
+  "orders.updateStatus",
+  "whatsappAccounts.view",
+  "whatsappAccounts.manage",
+  "webhooks.manage",
+  "messageTemplates.view",
+  "messageTemplates.sync",
+  "analytics.view",
+  "devTools.use",
+] as const;
+export type Permission = (typeof PERMISSIONS)[number];
+
+const VIEWER_PERMISSIONS: Permission[] = [
+  "conversations.view",
+  "orders.view",
+  "whatsappAccounts.view",
+  "messageTemplates.view",
+  "analytics.view",
+];
+
+const AGENT_PERMISSIONS: Permission[] = [
+  ...VIEWER_PERMISSIONS,
+  "conversations.reply",
+  "conversations.assign",
+  "conversations.archive",
+  "contacts.update",
+  "conversationNotes.write",
+  "tags.apply",
+  // Needed to pick a teammate when assigning a conversation
+  "users.view",
+  "orders.create",
+  "orders.update",
+];
+
+const MANAGER_PERMISSIONS: Permission[] = [
+  ...AGENT_PERMISSIONS,
+  "conversations.viewAll",
+  "conversations.delete",
+  "orders.updateStatus",
+  "teams.manage",
+  "tags.manage",
+  "messageTemplates.sync",
+  "devTools.use",
+];
+
+export const ROLE_PERMISSIONS: Record<UserRole, ReadonlySet<Permission>> = {
+  admin: new Set(PERMISSIONS),
+  manager: new Set(MANAGER_PERMISSIONS),
+  agent: new Set(AGENT_PERMISSIONS),
+  viewer: new Set(VIEWER_PERMISSIONS),
+};
+
+export function isUserRole(role: string | null | undefined): role is UserRole {
+  return !!role && (USER_ROLES as readonly string[]).includes(role);
+}
+
+/** Unknown or missing roles have no permissions. */
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return isUserRole(role) && ROLE_PERMISSIONS[role].has(permission);
+}
+
+// Checked by prefix in auth.config.ts; the first match wins
+export const ROUTE_PERMISSIONS: Array<{ prefix: string; permission: Permission }> = [
+  { prefix: "/conversations", permission: "conversations.view" },
+  { prefix: "/users", permission: "users.manage" },
+  { prefix: "/teams", permission: "teams.manage" },
+  { prefix: "/tags", permission: "tags.manage" },
+  { prefix: "/orders", permission: "orders.view" },
+  { prefix: "/whatsapp-accounts", permission: "whatsappAccounts.view" },
+  { prefix: "/analytics", permission: "analytics.view" },
+  { prefix: "/test", permission: "devTools.use" },
+];
+
+export function getRoutePermission(pathname: string): Permission | null {
+  const match = ROUTE_PERMISSIONS.find(
+    ({ prefix }) => pathname === prefix || pathname.startsWith(`${prefix}/`)
+  );
+  return match?.permission ?? null;
+}
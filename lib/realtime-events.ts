@@ -0,0 +1,209 @@
+import { Client } from "pg";
+import { sql } from "drizzle-orm";
+import { db } from "@/db/drizzle";
+import type { conversationsTable, messagesTable } from "@/db/schema";
+
+/**
+ * Company-scoped inbox events.
+ *
+ * Services publish with Postgres NOTIFY, so an event published inside a
+ * transaction is only delivered once that transaction commits. Every server
+ * process keeps one LISTEN connection and fans events out to the SSE streams
+ * of the matching company.
+ */
+
+const REALTIME_CHANNEL = "crm_realtime";
+// NOTIFY payloads are capped at 8000 bytes
+const MAX_PAYLOAD_BYTES = 7500;
+// How long browsers wait before reconnecting a dropped stream
+export const REALTIME_RETRY_MS = 5000;
+
+type MessageRow = typeof messagesTable.$inferSelect;
+type ConversationRow = typeof conversationsTable.$inferSelect;
+
+export type RealtimeMessage = Omit<MessageRow, "whatsappAccountId" | "sendRequest" | "createdBy" | "updatedBy">;
+
+export type RealtimeMessageStatus = Pick<
+  MessageRow,
+  | "status"
+  | "providerStatus"
+  | "errorCode"
+  | "errorMessage"
+  | "sentAt"
+  | "deliveredAt"
+  | "readAt"
+  | "failedAt"
+>;
+
+export type RealtimeConversationChanges = Partial<
+  Pick<
+    ConversationRow,
+    | "lastMessageId"
+    | "lastMessagePreview"
+    | "lastMessageTime"
+    | "lastInboundAt"
+    | "isArchived"
+    | "status"
+    | "snoozedUntil"
+  >
+>;
+
+interface RealtimeEventBase {
+  companyId: number;
+  conversationId: number;
+}
+
+export type RealtimeEventInput =
+  | (RealtimeEventBase & {
+      type: "message.created";
+      messageId: number;
+      // Dropped when it would not fit in a notification; clients refetch instead
+      message: RealtimeMessage | null;
+    })
+  | (RealtimeEventBase & {
+      type: "message.status_changed";
+      messageId: number;
+      changes: Partial<RealtimeMessageStatus>;
+    })
+  | (RealtimeEventBase & { type: "message.reactions_changed"; messageId: number })
+  | (RealtimeEventBase & { type: "conversation.updated"; changes: RealtimeConversationChanges })
+  | (RealtimeEventBase & { type: "conversation.assigned"; assignedToUserId: number | null })
+  | (RealtimeEventBase & {
+      type: "presence.updated";
+      userId: number;
+      userName: string;
+      state: "viewing" | "typing" | "left";
+    });
+
+type Jsonified<T> = T extends Date
+  ? string
+  : T extends (infer U)[]
+    ? Jsonified<U>[]
+    : T extends object
+      ? { [K in keyof T]: Jsonified<T[K]> }
+      : T;
+
+/** An event as received by stream consumers, with dates as ISO strings. */
+export type RealtimeEvent = Jsonified<RealtimeEventInput>;
+export type RealtimeEventType = RealtimeEvent["type"];
+
+type RealtimeExecutor = typeof db | Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+function serializeEvent(event: RealtimeEventInput): string {
+  const payload = JSON.stringify(event);
+  if (event.type === "message.created" && Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+    return JSON.stringify({ ...event, message: null });
+  }
+  return payload;
+}
+
+/**
+ * Publishes an event to every stream of the event's company. Pass the
+ * transaction when publishing from inside one so the event is only sent if it
+ * commits. Never throws: a lost event only delays the inbox until its next
+ * refetch.
+ */
+export async function publishRealtimeEvent(
+  executor: RealtimeExecutor,
+  event: RealtimeEventInput
+): Promise<void> {
+  try {
+    await executor.execute(sql`select pg_notify(${REALTIME_CHANNEL}, ${serializeEvent(event)})`);
+  } catch (error) {
+    console.error("[Realtime] Failed to publish event", event.type, error);
+  }
+}
+
+export interface RealtimeSubscriber {
+  onEvent: (event: RealtimeEvent) => void;
+  // The process lost its LISTEN connection; events may have been missed
+  onDisconnect: () => void;
+}
+
+const subscribers = new Map<number, Set<RealtimeSubscriber>>();
+let listenClient: Client | null = null;
+let connecting: Promise<Client> | null = null;
+
+function dispatch(payload: string | undefined) {
+  if (!payload) return;
+
+  let event: RealtimeEvent;
+  try {
+    event = JSON.parse(payload) as RealtimeEvent;
+  } catch {
+    return;
+  }
+
+  for (const subscriber of subscribers.get(event.companyId) ?? []) {
+    subscriber.onEvent(event);
+  }
+}
+
+function handleConnectionLost(client: Client) {
+  if (listenClient !== client) return;
+  listenClient = null;
+  client.end().catch(() => undefined);
+
+  // Streams close so browsers reconnect and refetch what they missed
+  const dropped = [...subscribers.values()].flatMap((set) => [...set]);
+  subscribers.clear();
+  for (const subscriber of dropped) {
+    subscriber.onDisconnect();
+  }
+}
+
+async function ensureListening(): Promise<Client> {
+  if (listenClient) return listenClient;
+  if (connecting) return connecting;
+
+  connecting = (async () => {
+    const client = new Client({ connectionString: process.env.DATABASE_URL });
+    try {
+      await client.connect();
+      await client.query(`LISTEN ${REALTIME_CHANNEL}`);
+    } catch (error) {
+      client.end().catch(() => undefined);
+      throw error;
+    }
+
+    client.on("notification", (message) => {
+      if (message.channel === REALTIME_CHANNEL) {
+        dispatch(message.payload);
+      }
+    });
+    client.on("error", (error) => {
+      console.error("[Realtime] LISTEN connection error", error);
+      handleConnectionLost(client);
+    });
+    client.on("end", () => handleConnectionLost(client));
+
+    listenClient = client;
+    return client;
+  })().finally(() => {
+    connecting = null;
+  });
+
+  return connecting;
+}
+
+/**
+ * Subscribes to a company's events. Resolves with an unsubscribe function, or
+ * rejects when the LISTEN connection cannot be opened.
+ */
+export async function subscribeToRealtimeEvents(
+  companyId: number,
+  subscriber: RealtimeSubscriber
+): Promise<() => void> {
+  await ensureListening();
+
+  const set = subscribers.get(companyId) ?? new Set<RealtimeSubscriber>();
+  set.add(subscriber);
+  subscribers.set(companyId, set);
+
+  return () => {
+    set.delete(subscriber);
+    if (set.size === 0 && subscribers.get(companyId) === set) {
+      subscribers.delete(companyId);
+    }
+  };
+}
@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+
+/**
+ * Envelope encryption for credentials stored in the database (WhatsApp access
+ * tokens, webhook app secrets).
+ *
+ * Every value gets its own random data key; the data key is wrapped with a
+ * master key from SECRET_ENCRYPTION_KEYS, a comma separated list of
+ * `<keyId>:<base64 32-byte key>`. The first key encrypts, all listed keys
+ * decrypt, so rotating means prepending a new key, re-encrypting rows (see
+ * `needsReEncryption`) and then dropping the old key.
+ *
+ * Stored format: `enc:v1:<keyId>:<wrapped data key>:<ciphertext>`, both parts
+ * base64 of iv | auth tag | ciphertext. Values without the prefix are legacy
+ * plain text: `decryptSecret` refuses them, and `npm run db:migrate` encrypts
+ * them (db/encrypt-secrets.ts).
+ */
+
+const PREFIX = "enc:v1:";
+const ALGORITHM = "aes-256-gcm";
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+
+export class SecretEncryptionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SecretEncryptionError";
+  }
+}
+
+interface MasterKeyring {
+  currentKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeyring: { source: string; keyring: MasterKeyring } | null = null;
+
+function loadKeyring(): MasterKeyring {
+  const source = process.env.SECRET_ENCRYPTION_KEYS ?? "";
+  if (cachedKeyring?.source === source) {
+    return cachedKeyring.keyring;
+  }
+
+  const keys = new Map<string, Buffer>();
+  for (const entry of source.split(",").map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const keyId = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(keyId)) {
+      throw new SecretEncryptionError("SECRET_ENCRYPTION_KEYS entries must look like <keyId>:<base64 key>");
+    }
+    if (key.length !== KEY_BYTES) {
+      throw new SecretEncryptionError(`Encryption key "${keyId}" must be ${KEY_BYTES} bytes`);
+    }
+    keys.set(keyId, key);
+  }
+
+  const currentKeyId = keys.keys().next().value;
+  if (!currentKeyId) {
+    throw new SecretEncryptionError("SECRET_ENCRYPTION_KEYS is not configured");
+  }
+
+  const keyring = { currentKeyId, keys };
+  cachedKeyring = { source, keyring };
+  return keyring;
+}
+
+function seal(key: Buffer, plaintext: Buffer): string {
+  const iv = randomBytes(IV_BYTES);
+  const cipher = createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString("base64");
+}
+
+function open(key: Buffer, sealed: string): Buffer {
+  const data = Buffer.from(sealed, "base64");
+  const decipher = createDecipheriv(ALGORITHM, key, data.subarray(0, IV_BYTES));
+  decipher.setAuthTag(data.subarray(IV_BYTES, IV_BYTES + TAG_BYTES));
+  return Buffer.concat([decipher.update(data.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncryptedSecret(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+export function encryptSecret(plaintext: string): string {
+  const { currentKeyId, keys } = loadKeyring();
+  const dataKey = randomBytes(KEY_BYTES);
+
+  return [
+    `${PREFIX}${currentKeyId}`,
+    seal(keys.get(currentKeyId)!, dataKey),
+    seal(dataKey, Buffer.from(plaintext, "utf8")),
+  ].join(":");
+}
+
+export function decryptSecret(value: string): string {
+  if (!isEncryptedSecret(value)) {
+    throw new SecretEncryptionError(
+      "Cannot decrypt secret: it is stored as plain text. Run `npm run db:encrypt-secrets`"
+    );
+  }
+
+  const [keyId, wrappedKey, ciphertext] = value.slice(PREFIX.length).split(":");
+  const masterKey = keyId ? loadKeyring().keys.get(keyId) : undefined;
+  if (!masterKey || !wrappedKey || !ciphertext) {
+    throw new SecretEncryptionError(`Cannot decrypt secret: unknown key "${keyId ?? ""}"`);
+  }
+
+  try {
+    return open(open(masterKey, wrappedKey), ciphertext).toString("utf8");
+  } catch {
+    throw new SecretEncryptionError("Cannot decrypt secret: data is corrupt or the key is wrong");
+  }
+}
+
+/** True for plain text values and values wrapped with a key other than the current one. */
+export function needsReEncryption(value: string): boolean {
+  if (!isEncryptedSecret(value)) {
+    return true;
+  }
+  const keyId = value.slice(PREFIX.length).split(":")[0];
+  return keyId !== loadKeyring().currentKeyId;
+}
+
+/** Current-key ciphertext for a stored value, or null when it is already up to date. */
+export function reEncryptSecret(value: string): string | null {
+  if (!needsReEncryption(value)) {
+    return null;
+  }
+  return encryptSecret(isEncryptedSecret(value) ? decryptSecret(value) : value);
+}
+
+/** Display form of a secret: bullets followed by its last four characters. */
+export function maskSecret(plaintext: string): string {
+  return `••••••••${plaintext.slice(-4)}`;
+}
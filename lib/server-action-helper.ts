@@ -2,6 +2,7 @@
 import { auth } from "@/auth";
 import { createPerformanceLogger } from "@/lib/logger";
 import { Result } from "@/lib/result";
+import { hasPermission, type Permission } from "@/lib/permissions";
 import type { z } from "zod";
 
 /**
@@ -139,6 +140,9 @@ export interface ActionOptions<TInput = unknown> {
   /** Require specific company access */
   requireCompany?: boolean;
 
+  /** Permission the caller's role must grant (see lib/permissions.ts) */
+  permission?: Permission;
+
   /** Audit logging configuration */
   audit?: {
     entityType: string;
@@ -202,7 +206,15 @@ export function withAction<TInput, TOutput>(
 
       perf.checkpoint("authenticated");
 
-      // 2. Validate company access if required
+      // 2. Check the role grants the required permission
+      if (options.permission && !hasPermission(auth.role, options.permission)) {
+        perf.fail(`Permission denied: ${options.permission}`);
+        return toPlainResult(
+          Result.forbidden("You do not have permission to perform this action") as Result<TOutput>
+        );
+      }
+
+      // 3. Validate company access if required
       if (options.requireCompany && typeof input === "object" && input !== null) {
         const companyId = (input as any).companyId;
         if (typeof companyId === "number" && auth.companyId !== companyId) {
@@ -211,7 +223,7 @@ export function withAction<TInput, TOutput>(
         }
       }
 
-      // 3. Validate input
+      // 4. Validate input
       if (options.schema) {
         const validation = options.schema.safeParse(input);
         if (!validation.success) {
@@ -225,7 +237,7 @@ export function withAction<TInput, TOutput>(
         perf.checkpoint("validated");
       }
 
-      // 4. Rate limiting
+      // 5. Rate limiting
       if (options.rateLimit) {
         const rateLimitError = await options.rateLimit(auth, input);
         if (rateLimitError) {
@@ -235,11 +247,11 @@ export function withAction<TInput, TOutput>(
         perf.checkpoint("rate-check");
       }
 
-      // 5. Execute handler
+      // 6. Execute handler
       const result = await handler(auth, input);
       perf.checkpoint("executed");
 
-      // 6. Audit logging (only if successful and audit logger is configured)
+      // 7. Audit logging (only if successful and audit logger is configured)
       if (options.audit && result.success && globalAuditLogger) {
         try {
           const entityId = options.audit.getEntityId?.(result.data);
@@ -263,7 +275,7 @@ export function withAction<TInput, TOutput>(
         }
       }
 
-      // 7. Complete performance logging
+      // 8. Complete performance logging
       if (!result.success) {
         perf.fail(result.message);
       } else {
@@ -394,11 +406,17 @@ export function withBatchAction<TInput, TOutput>(
       const auth = authRes.data;
       perf.checkpoint("authenticated");
 
-      // 2. Execute batch handler
+      // 2. Check the role grants the required permission
+      if (options.permission && !hasPermission(auth.role, options.permission)) {
+        perf.fail(`Permission denied: ${options.permission}`);
+        return toPlainResult(Result.forbidden("You do not have permission to perform this action"));
+      }
+
+      // 3. Execute batch handler
       const results = await handler(auth, items);
       perf.checkpoint("executed");
 
-      // 3. Calculate success metrics
+      // 4. Calculate success metrics
       const successCount = results.filter((r) => r.success).length;
       const failCount = results.length - successCount;
 
@@ -0,0 +1,51 @@
+import { addHours, differenceInMilliseconds } from "date-fns";
+
+/**
+ * WhatsApp 24-hour customer service window.
+ *
+ * Free-form messages can only be sent within 24 hours of the customer's last
+ * inbound message. Outside the window only approved templates are delivered.
+ */
+export const SERVICE_WINDOW_HOURS = 24;
+export const SERVICE_WINDOW_CLOSING_SOON_MINUTES = 120;
+
+export type ServiceWindowStatus = "open" | "closing_soon" | "closed";
+
+export interface ServiceWindowState {
+  status: ServiceWindowStatus;
+  expiresAt: Date | null;
+  remainingMs: number;
+}
+
+export function getServiceWindowState(
+  lastInboundAt: Date | string | null | undefined,
+  now: Date = new Date()
+): ServiceWindowState {
+  if (!lastInboundAt) {
+    return { status: "closed", expiresAt: null, remainingMs: 0 };
+  }
+
+  const expiresAt = addHours(new Date(lastInboundAt), SERVICE_WINDOW_HOURS);
+  const remainingMs = Math.max(differenceInMilliseconds(expiresAt, now), 0);
+
+  if (remainingMs === 0) {
+    return { status: "closed", expiresAt, remainingMs };
+  }
+
+  const status =
+    remainingMs <= SERVICE_WINDOW_CLOSING_SOON_MINUTES * 60 * 1000 ? "closing_soon" : "open";
+
+  return { status, expiresAt, remainingMs };
+}
+
+/**
+ * Formats the remaining window time as a compact countdown, e.g. "3h 12m".
+ */
+export function formatServiceWindowRemaining(remainingMs: number): string {
+  const totalMinutes = Math.ceil(remainingMs / 60000);
+  const hours = Math.floor(totalMinutes / 60);
+  const minutes = totalMinutes % 60;
+
+  if (hours === 0) return `${minutes}m`;
+  return `${hours}h ${minutes}m`;
+}
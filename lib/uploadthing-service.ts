@@ -3,6 +3,7 @@ import { createPerformanceLogger } from "./logger";
 import { db } from "@/db/drizzle";
 import { fileUploadsTable } from "@/db/schema";
 import { eq } from "drizzle-orm";
+import { UTApi, UTFile } from "uploadthing/server";
 
 export interface FileUploadResponse {
   fileKey: string;
@@ -102,6 +103,62 @@ export class UploadThingService {
     }
   }
 
+  /**
+   * Uploads server-side bytes (e.g. inbound WhatsApp media) and records the
+   * upload. Inbound media has no uploading user, so `uploadedBy` stays null.
+   */
+  static async uploadBuffer(
+    buffer: Buffer,
+    fileName: string,
+    fileType: string,
+    companyId: number,
+    conversationId: number,
+    messageId: number
+  ): Promise<Result<FileUploadResponse>> {
+    const logger = createPerformanceLogger("UploadThingService.uploadBuffer", {
+      context: {
+        companyId,
+        messageId,
+        fileSize: buffer.byteLength,
+        fileType,
+      },
+    });
+
+    try {
+      const utapi = new UTApi();
+      const file = new UTFile([new Uint8Array(buffer)], fileName, { type: fileType });
+      const uploaded = await utapi.uploadFiles(file);
+
+      if (uploaded.error || !uploaded.data) {
+        const errorMessage = uploaded.error?.message ?? "Empty response from UploadThing";
+        logger.fail(`UploadThing API error: ${errorMessage}`);
+        return Result.internal("Failed to upload file to UploadThing", { error: errorMessage });
+      }
+
+      logger.checkpoint("upload_complete");
+
+      const response = await UploadThingService.saveFileUpload(
+        uploaded.data.key,
+        uploaded.data.ufsUrl,
+        fileName,
+        buffer.byteLength,
+        fileType,
+        companyId,
+        null,
+        conversationId,
+        messageId
+      );
+
+      logger.complete();
+      return response;
+    } catch (error) {
+      logger.fail(error instanceof Error ? error : "Unknown error");
+      return Result.internal("Failed to upload file", {
+        error: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   static async saveFileUpload(
     fileKey: string,
     fileUrl: string,
@@ -109,8 +166,9 @@ export class UploadThingService {
     fileSize: number,
     fileType: string,
     companyId: number,
-    userId: number,
-    conversationId: number
+    userId: number | null,
+    conversationId: number,
+    messageId: number | null = null
   ): Promise<Result<FileUploadResponse>> {
     const logger = createPerformanceLogger("UploadThingService.saveFileUpload", {
       context: { companyId, userId, fileSize, fileType },
@@ -122,6 +180,7 @@ export class UploadThingService {
         .values({
           companyId,
           conversationId,
+          messageId,
           fileKey,
           fileName,
           fileUrl,
@@ -0,0 +1,429 @@
+import axios from "axios";
+import { Result, type ResultErrorCode } from "./result";
+import { decryptSecret } from "./secret-encryption";
+import { classifyWhatsappSendError } from "./whatsapp-send-errors";
+
+/**
+ * Server-side client for the WhatsApp Cloud (Graph) API.
+ *
+ * Every call goes through here so URLs, the API version and error handling are
+ * the same everywhere. Set `WHATSAPP_GRAPH_BASE_URL` to point the app at a
+ * local mock server instead of graph.facebook.com.
+ */
+export const WHATSAPP_GRAPH_VERSION =
+  process.env.WHATSAPP_GRAPH_VERSION || process.env.WHATSAPP_API_VERSION || "v22.0";
+export const WHATSAPP_GRAPH_BASE_URL = (
+  process.env.WHATSAPP_GRAPH_BASE_URL || "https://graph.facebook.com"
+).replace(/\/+$/, "");
+
+const DEFAULT_TIMEOUT_MS = 30000;
+const MEDIA_TIMEOUT_MS = 60000;
+const TEMPLATE_PAGE_LIMIT = 100;
+const TEMPLATE_MAX_PAGES = 20;
+
+export interface WhatsappAccountCredentials {
+  // As stored on the account row; encrypted tokens are decrypted here
+  accessToken: string;
+  phoneNumberId: string;
+  businessAccountId?: string | null;
+}
+
+export interface WhatsappLocation {
+  latitude: number;
+  longitude: number;
+  name?: string | null;
+  address?: string | null;
+}
+
+/** Media is sent either by public link or by an id returned from `uploadMedia`. */
+interface WhatsappMediaSource {
+  mediaUrl?: string;
+  mediaId?: string;
+}
+
+export type WhatsappOutboundMessage =
+  | { type: "text"; text: string }
+  | ({ type: "image" | "video"; caption?: string } & WhatsappMediaSource)
+  | ({ type: "document"; caption?: string; filename?: string } & WhatsappMediaSource)
+  | ({ type: "audio" } & WhatsappMediaSource)
+  | { type: "location"; location: WhatsappLocation }
+  // An empty emoji removes the reaction
+  | { type: "reaction"; reaction: { messageId: string; emoji: string } }
+  | { type: "template"; template: { name: string; language: string; components?: unknown[] } };
+
+export type WhatsappSendMessageInput = WhatsappOutboundMessage & {
+  to: string;
+  // Provider id of the message being replied to
+  contextMessageId?: string;
+};
+
+export interface WhatsappMediaInfo {
+  id: string;
+  url: string;
+  mimeType: string | null;
+  fileSize: number | null;
+  sha256: string | null;
+}
+
+export interface WhatsappBusinessProfile {
+  about?: string;
+  address?: string;
+  description?: string;
+  email?: string;
+  profile_picture_url?: string;
+  vertical?: string;
+  websites?: string[];
+}
+
+export interface WhatsappMessageTemplate {
+  id: string;
+  name: string;
+  language: string;
+  status: string;
+  category?: string;
+  components?: unknown[];
+  rejected_reason?: string;
+}
+
+interface GraphErrorBody {
+  error?: {
+    message?: string;
+    type?: string;
+    code?: number;
+    error_subcode?: number;
+    error_data?: { details?: string };
+    fbtrace_id?: string;
+  };
+}
+
+interface GraphPage<T> {
+  data?: T[];
+  paging?: { next?: string };
+}
+
+/**
+ * Maps a failed Graph call onto a `Result` code. RATE_LIMITED and
+ * INTERNAL_ERROR are worth retrying; every other code is permanent.
+ * `details.graphCode` carries Meta's own error code.
+ */
+function toGraphFailure(error: unknown, fallbackMessage: string): Result<never> {
+  if (!axios.isAxiosError(error)) {
+    return Result.internal(error instanceof Error ? error.message : fallbackMessage, {
+      httpStatus: null,
+      graphCode: null,
+    });
+  }
+
+  const httpStatus = error.response?.status;
+  const graphError = (error.response?.data as GraphErrorBody | undefined)?.error;
+  const graphCode = graphError?.code;
+  const message = graphError?.error_data?.details || graphError?.message || error.message || fallbackMessage;
+  const details = {
+    httpStatus: httpStatus ?? null,
+    graphCode: graphCode ?? null,
+    graphSubcode: graphError?.error_subcode ?? null,
+    fbtraceId: graphError?.fbtrace_id ?? null,
+  };
+
+  const failureKind = classifyWhatsappSendError(httpStatus, graphCode);
+  let code: ResultErrorCode;
+  if (failureKind === "rate_limited") {
+    code = "RATE_LIMITED";
+  } else if (failureKind === "temporary") {
+    code = "INTERNAL_ERROR";
+  } else if (httpStatus === 401 || graphCode === 190) {
+    code = "UNAUTHORIZED";
+  } else if (httpStatus === 403 || graphCode === 10 || graphCode === 200) {
+    code = "FORBIDDEN";
+  } else if (httpStatus === 404) {
+    code = "NOT_FOUND";
+  } else {
+    code = "BAD_REQUEST";
+  }
+
+  return Result.fail(message, { code, details });
+}
+
+/** HTTP status Graph answered a failed call with, or 500 when there was no response. */
+export function getGraphFailureStatus(result: Result<unknown>): number {
+  const details = result.error?.details;
+  if (details && typeof details === "object" && !Array.isArray(details) && typeof details.httpStatus === "number") {
+    return details.httpStatus;
+  }
+  return 500;
+}
+
+function buildMessagePayload(input: WhatsappSendMessageInput): Record<string, unknown> {
+  const base: Record<string, unknown> = {
+    messaging_product: "whatsapp",
+    recipient_type: "individual",
+    to: input.to.replace("+", ""),
+    type: input.type,
+    ...(input.contextMessageId ? { context: { message_id: input.contextMessageId } } : {}),
+  };
+
+  const media = (source: WhatsappMediaSource) =>
+    source.mediaId ? { id: source.mediaId } : { link: source.mediaUrl };
+
+  switch (input.type) {
+    case "text":
+      return { ...base, text: { body: input.text } };
+    case "image":
+    case "video":
+      return {
+        ...base,
+        [input.type]: { ...media(input), ...(input.caption?.trim() ? { caption: input.caption } : {}) },
+      };
+    case "document":
+      return {
+        ...base,
+        document: {
+          ...media(input),
+          ...(input.caption?.trim() ? { caption: input.caption } : {}),
+          ...(input.filename ? { filename: input.filename } : {}),
+        },
+      };
+    case "audio":
+      return { ...base, audio: media(input) };
+    case "location":
+      return {
+        ...base,
+        location: {
+          latitude: input.location.latitude,
+          longitude: input.location.longitude,
+          ...(input.location.name ? { name: input.location.name } : {}),
+          ...(input.location.address ? { address: input.location.address } : {}),
+        },
+      };
+    case "reaction":
+      return { ...base, reaction: { message_id: input.reaction.messageId, emoji: input.reaction.emoji } };
+    case "template":
+      return {
+        ...base,
+        template: {
+          name: input.template.name,
+          language: { code: input.template.language },
+          ...(input.template.components?.length ? { components: input.template.components } : {}),
+        },
+      };
+  }
+}
+
+export class WhatsappCloudApi {
+  private constructor(private readonly credentials: WhatsappAccountCredentials) {}
+
+  static forAccount(credentials: WhatsappAccountCredentials): WhatsappCloudApi {
+    return new WhatsappCloudApi({ ...credentials, accessToken: decryptSecret(credentials.accessToken) });
+  }
+
+  /**
+   * Client for the number configured through WHATSAPP_PHONE_NUMBER_ID and
+   * WHATSAPP_ACCESS_TOKEN, used by the debug routes. Null when either is unset.
+   */
+  static fromEnvironment(): WhatsappCloudApi | null {
+    const accessToken = process.env.WHATSAPP_ACCESS_TOKEN;
+    const phoneNumberId = process.env.WHATSAPP_PHONE_NUMBER_ID;
+    if (!accessToken || !phoneNumberId) {
+      return null;
+    }
+    return new WhatsappCloudApi({ accessToken, phoneNumberId });
+  }
+
+  private url(path: string): string {
+    return `${WHATSAPP_GRAPH_BASE_URL}/${WHATSAPP_GRAPH_VERSION}/${path}`;
+  }
+
+  private get authHeaders() {
+    return { Authorization: `Bearer ${this.credentials.accessToken}` };
+  }
+
+  async sendMessage(input: WhatsappSendMessageInput): Promise<Result<{ messageId: string }>> {
+    try {
+      const { data } = await axios.post<{ messages?: { id: string }[] }>(
+        this.url(`${this.credentials.phoneNumberId}/messages`),
+        buildMessagePayload(input),
+        { timeout: DEFAULT_TIMEOUT_MS, headers: { ...this.authHeaders, "Content-Type": "application/json" } }
+      );
+
+      const messageId = data.messages?.[0]?.id;
+      if (!messageId) {
+        return Result.internal("WhatsApp did not return a message id", { httpStatus: 200, graphCode: null });
+      }
+      return Result.ok({ messageId }, "Message sent");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to send message");
+    }
+  }
+
+  /**
+   * Marks an inbound message (and everything before it) as read, optionally
+   * showing the typing bubble until the next reply or for up to 25 seconds.
+   */
+  async markRead(messageId: string, options: { showTyping?: boolean } = {}): Promise<Result<void>> {
+    try {
+      await axios.post(
+        this.url(`${this.credentials.phoneNumberId}/messages`),
+        {
+          messaging_product: "whatsapp",
+          status: "read",
+          message_id: messageId,
+          ...(options.showTyping ? { typing_indicator: { type: "text" } } : {}),
+        },
+        { timeout: DEFAULT_TIMEOUT_MS / 3, headers: this.authHeaders }
+      );
+      return Result.ok(undefined, "Marked as read");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to mark message as read");
+    }
+  }
+
+  async uploadMedia(input: { file: Blob; fileName: string; mimeType: string }): Promise<Result<{ id: string }>> {
+    try {
+      const formData = new FormData();
+      formData.append("messaging_product", "whatsapp");
+      formData.append("type", input.mimeType);
+      formData.append("file", input.file, input.fileName);
+
+      const { data } = await axios.post<{ id: string }>(
+        this.url(`${this.credentials.phoneNumberId}/media`),
+        formData,
+        { timeout: MEDIA_TIMEOUT_MS, headers: this.authHeaders, maxBodyLength: Infinity }
+      );
+      return Result.ok({ id: data.id }, "Media uploaded");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to upload media");
+    }
+  }
+
+  /** Looks up a media object; the returned URL is short-lived and needs the same token. */
+  async getMediaInfo(mediaId: string): Promise<Result<WhatsappMediaInfo>> {
+    try {
+      const { data } = await axios.get<{
+        id: string;
+        url?: string;
+        mime_type?: string;
+        file_size?: number;
+        sha256?: string;
+      }>(this.url(mediaId), { timeout: DEFAULT_TIMEOUT_MS, headers: this.authHeaders });
+
+      if (!data.url) {
+        return Result.internal("Invalid media response from WhatsApp", { httpStatus: 200, graphCode: null });
+      }
+      return Result.ok(
+        {
+          id: data.id,
+          url: data.url,
+          mimeType: data.mime_type ?? null,
+          fileSize: data.file_size ?? null,
+          sha256: data.sha256 ?? null,
+        },
+        "Media info loaded"
+      );
+    } catch (error) {
+      return toGraphFailure(error, "Failed to load media info");
+    }
+  }
+
+  async downloadMedia(mediaUrl: string): Promise<Result<{ data: Buffer; contentType: string | null }>> {
+    try {
+      const response = await axios.get<ArrayBuffer>(mediaUrl, {
+        headers: this.authHeaders,
+        responseType: "arraybuffer",
+        timeout: MEDIA_TIMEOUT_MS,
+      });
+      const contentType = response.headers["content-type"];
+      return Result.ok(
+        { data: Buffer.from(response.data), contentType: typeof contentType === "string" ? contentType : null },
+        "Media downloaded"
+      );
+    } catch (error) {
+      return toGraphFailure(error, "Failed to download media");
+    }
+  }
+
+  /** Phone number details; `fields` is a Graph field list such as "name_status,quality_rating". */
+  async getPhoneProfile(fields?: string): Promise<Result<Record<string, unknown>>> {
+    try {
+      const { data } = await axios.get<Record<string, unknown>>(this.url(this.credentials.phoneNumberId), {
+        params: fields ? { fields } : undefined,
+        timeout: DEFAULT_TIMEOUT_MS,
+        headers: this.authHeaders,
+      });
+      return Result.ok(data, "Phone profile loaded");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to load phone profile");
+    }
+  }
+
+  async getBusinessProfile(): Promise<Result<WhatsappBusinessProfile>> {
+    try {
+      const { data } = await axios.get<{ data?: WhatsappBusinessProfile[] }>(
+        this.url(`${this.credentials.phoneNumberId}/whatsapp_business_profile`),
+        {
+          params: { fields: "about,address,description,email,profile_picture_url,websites,vertical" },
+          timeout: DEFAULT_TIMEOUT_MS,
+          headers: this.authHeaders,
+        }
+      );
+      return Result.ok(data.data?.[0] ?? {}, "Business profile loaded");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to load business profile");
+    }
+  }
+
+  /** All templates of the account's Business Account, following Graph paging. */
+  async listTemplates(): Promise<Result<WhatsappMessageTemplate[]>> {
+    if (!this.credentials.businessAccountId) {
+      return Result.badRequest("WhatsApp account has no Business Account ID");
+    }
+
+    try {
+      const templates: WhatsappMessageTemplate[] = [];
+      let url: string | undefined = this.url(`${this.credentials.businessAccountId}/message_templates`);
+      let params: Record<string, string | number> | undefined = {
+        fields: "id,name,language,status,category,components,rejected_reason",
+        limit: TEMPLATE_PAGE_LIMIT,
+      };
+
+      for (let page = 0; url && page < TEMPLATE_MAX_PAGES; page++) {
+        const response: { data: GraphPage<WhatsappMessageTemplate> } = await axios.get(url, {
+          params,
+          timeout: DEFAULT_TIMEOUT_MS,
+          headers: this.authHeaders,
+        });
+
+        templates.push(...(response.data.data ?? []));
+        // The `next` link already carries the query string
+        url = response.data.paging?.next;
+        params = undefined;
+      }
+
+      return Result.ok(templates, "Templates loaded");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to load message templates");
+    }
+  }
+
+  async getMessageHistory(
+    options: { limit?: number; before?: string; after?: string } = {}
+  ): Promise<Result<Record<string, unknown>>> {
+    try {
+      const { data } = await axios.get<Record<string, unknown>>(
+        this.url(`${this.credentials.phoneNumberId}/message_history`),
+        {
+          params: {
+            fields: "messages{from,to,direction,timestamp,type},paging",
+            ...(options.limit ? { limit: options.limit } : {}),
+            ...(options.before ? { before: options.before } : {}),
+            ...(options.after ? { after: options.after } : {}),
+          },
+          timeout: DEFAULT_TIMEOUT_MS,
+          headers: this.authHeaders,
+        }
+      );
+      return Result.ok(data, "Message history loaded");
+    } catch (error) {
+      return toGraphFailure(error, "Failed to load message history");
+    }
+  }
+}
@@ -0,0 +1,164 @@
+/**
+ * Structured content for WhatsApp messages.
+ *
+ * Text and plain media only need the message columns (`content`, `media*`).
+ * Types that carry more than that — a document's filename, a shared location,
+ * contact cards, reactions and interactive replies — keep it in the message's
+ * `contentPayload`, discriminated by `type`.
+ */
+
+export type WhatsappMessageType =
+  | "text"
+  | "image"
+  | "video"
+  | "audio"
+  | "document"
+  | "sticker"
+  | "location"
+  | "contacts"
+  | "reaction"
+  | "interactive"
+  | "template"
+  | "unsupported";
+
+export interface WhatsappSharedContactPhone {
+  phone: string;
+  type: string | null;
+  waId: string | null;
+}
+
+export interface WhatsappSharedContact {
+  name: string;
+  phones: WhatsappSharedContactPhone[];
+  emails: string[];
+  organization: string | null;
+}
+
+export interface WhatsappDocumentContent {
+  type: "document";
+  filename: string | null;
+}
+
+export interface WhatsappStickerContent {
+  type: "sticker";
+  animated: boolean;
+}
+
+export interface WhatsappLocationContent {
+  type: "location";
+  latitude: number;
+  longitude: number;
+  name: string | null;
+  address: string | null;
+}
+
+export interface WhatsappContactsContent {
+  type: "contacts";
+  contacts: WhatsappSharedContact[];
+}
+
+export interface WhatsappReactionContent {
+  type: "reaction";
+  // Provider id of the message reacted to; an empty emoji removes the reaction
+  targetMessageId: string;
+  emoji: string | null;
+}
+
+export interface WhatsappInteractiveReplyContent {
+  type: "interactive";
+  replyType: "button_reply" | "list_reply" | "button";
+  replyId: string | null;
+  title: string;
+  description: string | null;
+}
+
+export type WhatsappMessageContent =
+  | WhatsappDocumentContent
+  | WhatsappStickerContent
+  | WhatsappLocationContent
+  | WhatsappContactsContent
+  | WhatsappReactionContent
+  | WhatsappInteractiveReplyContent;
+
+export const WHATSAPP_MEDIA_MESSAGE_TYPES = ["image", "video", "audio", "document", "sticker"] as const;
+export type WhatsappMediaMessageType = (typeof WHATSAPP_MEDIA_MESSAGE_TYPES)[number];
+
+export function isMediaMessageType(type: string | null | undefined): type is WhatsappMediaMessageType {
+  return !!type && (WHATSAPP_MEDIA_MESSAGE_TYPES as readonly string[]).includes(type);
+}
+
+/**
+ * One-line summary used as the stored `content` of non-text messages and as
+ * the conversation list preview.
+ */
+export function describeMessageContent(
+  type: WhatsappMessageType,
+  payload: WhatsappMessageContent | null,
+  caption?: string | null
+): string {
+  if (caption?.trim()) {
+    return caption;
+  }
+
+  switch (payload?.type) {
+    case "document":
+      return payload.filename ? `📄 ${payload.filename}` : "📄 Document";
+    case "location":
+      return `📍 ${payload.name || payload.address || "Location"}`;
+    case "contacts":
+      return payload.contacts.length === 1
+        ? `👤 ${payload.contacts[0]!.name}`
+        : `👤 ${payload.contacts.length} contacts`;
+    case "reaction":
+      return payload.emoji ? `Reacted ${payload.emoji}` : "Removed a reaction";
+    case "interactive":
+      return payload.title;
+  }
+
+  switch (type) {
+    case "image":
+      return "📷 Photo";
+    case "video":
+      return "🎥 Video";
+    case "audio":
+      return "🎤 Audio";
+    case "sticker":
+      return "Sticker";
+    case "document":
+      return "📄 Document";
+    case "location":
+      return "📍 Location";
+    default:
+      return "[Unsupported message]";
+  }
+}
+
+export function locationMapUrl(location: Pick<WhatsappLocationContent, "latitude" | "longitude">): string {
+  return `https://www.google.com/maps/search/?api=1&query=${location.latitude},${location.longitude}`;
+}
+
+function escapeVcardValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/([,;])/g, "\\$1");
+}
+
+/**
+ * Serialises a shared contact as a vCard 3.0 so agents can save it to their
+ * address book.
+ */
+export function buildVcard(contact: WhatsappSharedContact): string {
+  const lines = ["BEGIN:VCARD", "VERSION:3.0", `FN:${escapeVcardValue(contact.name)}`];
+
+  if (contact.organization) {
+    lines.push(`ORG:${escapeVcardValue(contact.organization)}`);
+  }
+  for (const phone of contact.phones) {
+    const type = phone.type ? `;TYPE=${phone.type.toUpperCase()}` : "";
+    lines.push(`TEL${type}:${phone.phone}`);
+  }
+  for (const email of contact.emails) {
+    lines.push(`EMAIL:${email}`);
+  }
+
+  lines.push("END:VCARD");
+  return lines.join("\r\n");
+}
@@ -0,0 +1,43 @@
+/**
+ * Classifies WhatsApp Cloud API send failures so the outbound queue knows
+ * whether another attempt can succeed.
+ *
+ * See https://developers.facebook.com/docs/whatsapp/cloud-api/support/error-codes
+ */
+export type WhatsappSendFailureKind = "rate_limited" | "temporary" | "permanent";
+
+// Throughput, pair-rate and app/account level throttling
+const RATE_LIMIT_CODES = new Set([4, 80007, 130429, 131048, 131056]);
+
+// Meta-side hiccups that usually clear up on their own
+const TEMPORARY_CODES = new Set([1, 2, 131000, 131016, 133004]);
+
+const RATE_LIMIT_BASE_DELAY_SECONDS = 10;
+const RATE_LIMIT_MAX_DELAY_SECONDS = 15 * 60;
+
+export function classifyWhatsappSendError(
+  httpStatus: number | undefined,
+  errorCode: number | undefined
+): WhatsappSendFailureKind {
+  if ((errorCode !== undefined && RATE_LIMIT_CODES.has(errorCode)) || httpStatus === 429) {
+    return "rate_limited";
+  }
+
+  if (errorCode !== undefined && TEMPORARY_CODES.has(errorCode)) {
+    return "temporary";
+  }
+
+  // No response at all (timeout, network) or a server error
+  if (httpStatus === undefined || httpStatus >= 500) {
+    return "temporary";
+  }
+
+  return "permanent";
+}
+
+/**
+ * Seconds to wait before retrying a rate-limited send, doubling per attempt.
+ */
+export function getRateLimitRetryDelaySeconds(attempt: number): number {
+  return Math.min(RATE_LIMIT_BASE_DELAY_SECONDS * 2 ** attempt, RATE_LIMIT_MAX_DELAY_SECONDS);
+}
@@ -0,0 +1,248 @@
+/**
+ * Helpers for WhatsApp message templates.
+ *
+ * Templates are stored with the raw `components` returned by the Graph API.
+ * These helpers derive the fillable variables from those components, render a
+ * text preview and build the `components` array expected when sending a
+ * `template` message.
+ */
+
+export type WhatsappTemplateVariableComponent = "header" | "body" | "button";
+export type WhatsappTemplateVariableFormat = "text" | "image" | "video" | "document";
+
+export interface WhatsappTemplateVariable {
+  component: WhatsappTemplateVariableComponent;
+  key: string;
+  format: WhatsappTemplateVariableFormat;
+  buttonIndex?: number;
+  example?: string | null;
+}
+
+export interface WhatsappTemplateButton {
+  type: string;
+  text?: string;
+  url?: string;
+  phone_number?: string;
+  example?: string[];
+}
+
+export interface WhatsappTemplateComponent {
+  type: string;
+  format?: string;
+  text?: string;
+  buttons?: WhatsappTemplateButton[];
+  example?: {
+    header_text?: string[];
+    body_text?: string[][];
+    header_handle?: string[];
+  };
+}
+
+export interface WhatsappTemplateSendParameter {
+  type: "text" | "image" | "video" | "document";
+  text?: string;
+  parameter_name?: string;
+  image?: { link: string };
+  video?: { link: string };
+  document?: { link: string };
+}
+
+export interface WhatsappTemplateSendComponent {
+  type: "header" | "body" | "button";
+  sub_type?: "url";
+  index?: string;
+  parameters: WhatsappTemplateSendParameter[];
+}
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+const MEDIA_HEADER_FORMATS = ["IMAGE", "VIDEO", "DOCUMENT"] as const;
+
+function extractPlaceholders(text: string | undefined): string[] {
+  if (!text) return [];
+  const keys = Array.from(text.matchAll(PLACEHOLDER_PATTERN), (match) => match[1]!);
+  return Array.from(new Set(keys));
+}
+
+function exampleAt(examples: string[] | undefined, key: string, position: number): string | null {
+  if (!examples) return null;
+  const numericKey = Number(key);
+  const index = Number.isInteger(numericKey) && numericKey > 0 ? numericKey - 1 : position;
+  return examples[index] ?? null;
+}
+
+/**
+ * Stable identifier for a variable, used as the key of the values map that
+ * agents fill in before sending.
+ */
+export function templateVariableId(variable: Pick<WhatsappTemplateVariable, "component" | "key" | "buttonIndex">): string {
+  return variable.component === "button"
+    ? `button.${variable.buttonIndex ?? 0}.${variable.key}`
+    : `${variable.component}.${variable.key}`;
+}
+
+export function extractTemplateVariables(
+  components: WhatsappTemplateComponent[]
+): WhatsappTemplateVariable[] {
+  const variables: WhatsappTemplateVariable[] = [];
+
+  for (const component of components) {
+    const type = component.type.toUpperCase();
+
+    if (type === "HEADER") {
+      const format = component.format?.toUpperCase();
+      if (format && (MEDIA_HEADER_FORMATS as readonly string[]).includes(format)) {
+        variables.push({
+          component: "header",
+          key: "media",
+          format: format.toLowerCase() as WhatsappTemplateVariableFormat,
+          example: component.example?.header_handle?.[0] ?? null,
+        });
+        continue;
+      }
+
+      extractPlaceholders(component.text).forEach((key, position) => {
+        variables.push({
+          component: "header",
+          key,
+          format: "text",
+          example: exampleAt(component.example?.header_text, key, position),
+        });
+      });
+    } else if (type === "BODY") {
+      extractPlaceholders(component.text).forEach((key, position) => {
+        variables.push({
+          component: "body",
+          key,
+          format: "text",
+          example: exampleAt(component.example?.body_text?.[0], key, position),
+        });
+      });
+    } else if (type === "BUTTONS") {
+      component.buttons?.forEach((button, buttonIndex) => {
+        if (button.type.toUpperCase() !== "URL") return;
+        extractPlaceholders(button.url).forEach((key) => {
+          variables.push({
+            component: "button",
+            key,
+            format: "text",
+            buttonIndex,
+            example: button.example?.[0] ?? null,
+          });
+        });
+      });
+    }
+  }
+
+  return variables;
+}
+
+function fillPlaceholders(
+  text: string,
+  component: WhatsappTemplateVariableComponent,
+  values: Record<string, string>
+): string {
+  return text.replace(PLACEHOLDER_PATTERN, (placeholder, key: string) => {
+    const value = values[templateVariableId({ component, key })];
+    return value && value.trim() ? value : placeholder;
+  });
+}
+
+/**
+ * Renders the header and body of a template as plain text, substituting any
+ * provided values. Used for previews and as the stored message content.
+ */
+export function renderTemplateText(
+  components: WhatsappTemplateComponent[],
+  values: Record<string, string> = {}
+): string {
+  const header = components.find((c) => c.type.toUpperCase() === "HEADER");
+  const body = components.find((c) => c.type.toUpperCase() === "BODY");
+  const footer = components.find((c) => c.type.toUpperCase() === "FOOTER");
+
+  return [
+    header?.text ? fillPlaceholders(header.text, "header", values) : null,
+    body?.text ? fillPlaceholders(body.text, "body", values) : null,
+    footer?.text ?? null,
+  ]
+    .filter((part): part is string => !!part)
+    .join("\n\n");
+}
+
+export function findMissingTemplateVariables(
+  variables: WhatsappTemplateVariable[],
+  values: Record<string, string>
+): WhatsappTemplateVariable[] {
+  return variables.filter((variable) => !values[templateVariableId(variable)]?.trim());
+}
+
+function toParameter(
+  variable: WhatsappTemplateVariable,
+  value: string
+): WhatsappTemplateSendParameter {
+  if (variable.format === "text") {
+    const isNamed = !/^\d+$/.test(variable.key);
+    return isNamed
+      ? { type: "text", text: value, parameter_name: variable.key }
+      : { type: "text", text: value };
+  }
+
+  return { type: variable.format, [variable.format]: { link: value } };
+}
+
+export function buildTemplateSendComponents(
+  variables: WhatsappTemplateVariable[],
+  values: Record<string, string>
+): WhatsappTemplateSendComponent[] {
+  const header: WhatsappTemplateSendParameter[] = [];
+  const body: WhatsappTemplateSendParameter[] = [];
+  const buttons = new Map<number, WhatsappTemplateSendParameter[]>();
+
+  for (const variable of variables) {
+    const value = values[templateVariableId(variable)]?.trim() ?? "";
+    const parameter = toParameter(variable, value);
+
+    if (variable.component === "header") {
+      header.push(parameter);
+    } else if (variable.component === "body") {
+      body.push(parameter);
+    } else {
+      const index = variable.buttonIndex ?? 0;
+      buttons.set(index, [...(buttons.get(index) ?? []), parameter]);
+    }
+  }
+
+  const components: WhatsappTemplateSendComponent[] = [];
+  if (header.length > 0) components.push({ type: "header", parameters: header });
+  if (body.length > 0) components.push({ type: "body", parameters: body });
+  buttons.forEach((parameters, index) => {
+    components.push({ type: "button", sub_type: "url", index: String(index), parameters });
+  });
+
+  return components;
+}
+
+/**
+ * Maps a Graph API template status (or `message_template_status_update`
+ * event) onto the statuses stored locally.
+ */
+export function normalizeTemplateStatus(
+  status: string | null | undefined
+): "approved" | "pending" | "rejected" | "paused" | "disabled" | "deleted" {
+  switch (status?.toUpperCase()) {
+    case "APPROVED":
+    case "REINSTATED":
+    case "FLAGGED":
+      return "approved";
+    case "REJECTED":
+      return "rejected";
+    case "PAUSED":
+      return "paused";
+    case "DISABLED":
+      return "disabled";
+    case "DELETED":
+    case "PENDING_DELETION":
+      return "deleted";
+    default:
+      return "pending";
+  }
+}
@@ -0,0 +1,10 @@
+import NextAuth from "next-auth"
+import authConfig from "./auth.config"
+
+// Runs the `authorized` callback from auth.config.ts on every page request.
+// Uses the provider-less config so the database isn't pulled into the proxy.
+export const { auth: proxy } = NextAuth(authConfig)
+
+export const config = {
+    matcher: ["/((?!api|_next/static|_next/image|favicon.ico|.*\\.(?:svg|png|jpg|jpeg|gif|webp|ico)$).*)"],
+}